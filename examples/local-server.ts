@@ -0,0 +1,40 @@
+/**
+ * 本地对战服务器示例
+ * 在本机启动一个与主办方协议一致的服务器，两个客户端连接后即可开局
+ *
+ * 用法：
+ *   npm run server:local
+ *   SERVER_PORT=30000 PLAYER_ID=1111 npm start
+ *   SERVER_PORT=30000 PLAYER_ID=2222 npm start
+ */
+
+import LocalGameServer from '../src/network/LocalGameServer';
+
+async function main(): Promise<void> {
+    const server = new LocalGameServer({
+        port: parseInt(process.env.SERVER_PORT || '30000'),
+        maxRounds: parseInt(process.env.MAX_ROUNDS || '1000'),
+        actionTimeout: parseInt(process.env.ACTION_TIMEOUT || '2000')
+    });
+
+    server.on('playerRegistered', (playerId, playerName) => {
+        console.log(`👤 玩家加入: ${playerName} (ID: ${playerId})`);
+    });
+
+    server.on('gameStart', players => {
+        console.log('🎮 游戏开始:', players);
+    });
+
+    server.on('gameOver', async result => {
+        console.log('🏁 游戏结束:', JSON.stringify(result, null, 2));
+        await server.stop();
+    });
+
+    const port = await server.start();
+    console.log(`✅ 本地服务器已启动，端口 ${port}，等待客户端连接...`);
+}
+
+main().catch(error => {
+    console.error('❌ 本地服务器启动失败:', (error as Error).message);
+    process.exit(1);
+});
@@ -7,7 +7,9 @@ import NetworkAIClient from '../src/ai/NetworkAIClient';
 import NetworkClient from '../src/network/NetworkClient';
 import ActionBuilder from '../src/network/ActionBuilder';
 import MessageParser from '../src/network/MessageParser';
-import type { GameState, GameAction, Position } from '../src/types/index';
+import type { GameState } from '../src/types/index';
+import type { ActionCommand } from '../src/models/actionMsg';
+import type { InquireMessageData } from '../src/models/inquireMsg';
 import { TeamBlackboard } from '../src/core/TeamBlackboard.js';
 // 临时类型定义用于示例
 interface GameResult { winner?: any; }
@@ -34,7 +36,7 @@ async function basicNetworkExample(): Promise<void> {
         console.log(`⏰ 第${gameData.round}回合询问`);
         
         // 构建示例行动
-        const actions: GameAction[] = [];
+        const actions: ActionCommand[] = [];
         
         // 如果是第一回合，选择阵容
         if (gameData.round === 1) {
@@ -136,7 +138,7 @@ async function networkWithBlackboardExample(): Promise<void> {
         }
         
         // 基于分析结果构建行动
-        const actions: GameAction[] = [];
+        const actions: ActionCommand[] = [];
         
         // 第一回合选择阵容
         if (currentRound === 1) {
@@ -318,7 +320,7 @@ function messageParserExample(): void {
             timestamp: new Date().toISOString()
         };
         
-        const parsedInquire = MessageParser.parseInquireMessage(mockInquireData as GameState);
+        const parsedInquire = MessageParser.parseInquireMessage(mockInquireData as unknown as InquireMessageData);
         console.log('\n🎮 解析inquire消息:');
         console.log(`  当前回合: ${parsedInquire.round}`);
         console.log(`  玩家状态: ${parsedInquire.players.length}位玩家`);
@@ -0,0 +1,31 @@
+/**
+ * 离线回放示例
+ * 用当前版本的 AI 重跑一局录像，列出与当时发送的行动不一致的回合
+ *
+ * 用法：
+ *   REPLAY_FILE=replays/match-001.jsonl npm start   # 先录制一局
+ *   npm run replay -- replays/match-001.jsonl
+ */
+
+// 回放时只输出错误日志，需在加载 AI 模块之前设置
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+
+async function main(): Promise<void> {
+    const file = process.argv[2];
+    if (!file) {
+        console.error('用法: npm run replay -- <录像文件.jsonl>');
+        process.exit(1);
+    }
+
+    const { ReplayRunner } = await import('../src/core/ReplayRunner');
+    const report = ReplayRunner.runFile(file);
+    console.log(ReplayRunner.formatReport(report));
+
+    // 行动不一致时以非零状态码退出，便于在CI中使用
+    process.exitCode = report.differingRounds > 0 ? 1 : 0;
+}
+
+main().catch(error => {
+    console.error('回放失败:', error);
+    process.exit(1);
+});
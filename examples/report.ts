@@ -0,0 +1,35 @@
+/**
+ * 赛后报告示例
+ * 把一局或多局录像汇总成 JSON 和 CSV，便于跨多局跟踪机器人水平
+ *
+ * 用法：
+ *   REPLAY_FILE=replays/match-001.jsonl npm start   # 先录制对局
+ *   npm run report -- replays/match-001.jsonl replays/match-002.jsonl
+ *   REPORT_OUT=reports/week-42 npm run report -- replays/*.jsonl
+ */
+
+import { MatchReport } from '../src/core/MatchReport';
+
+async function main(): Promise<void> {
+    const files = process.argv.slice(2);
+    if (files.length === 0) {
+        console.error('用法: npm run report -- <录像文件.jsonl> [更多录像...]');
+        process.exit(1);
+    }
+
+    const reports = files.map(file => MatchReport.fromFile(file));
+
+    for (const [i, report] of reports.entries()) {
+        const heroes = report.heroes.map(h => `${h.name}(伤害${h.damageDealt}/承伤${h.damageTaken}/击杀${h.kills}/阵亡${h.deaths})`);
+        console.log(`${files[i]}: ${report.result}，${report.rounds}回合，占领据点${report.flagRoundsHeld}回合`);
+        console.log(`  ${heroes.join(' ')}`);
+    }
+
+    const written = MatchReport.writeFiles(reports, process.env.REPORT_OUT || 'reports/match-report');
+    console.log(`已写入: ${written.join(', ')}`);
+}
+
+main().catch(error => {
+    console.error('生成报告失败:', error);
+    process.exit(1);
+});
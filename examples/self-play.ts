@@ -0,0 +1,43 @@
+/**
+ * 离线自对弈示例
+ * 在本地规则引擎中让两个机器人对战多场，每场交换阵营打两局，输出胜率、据点占领回合数和平均对局长度
+ *
+ * 用法：
+ *   npm run selfplay -- 10                                 # 默认行为树自己打自己，10场共20局
+ *   BOT_A_TREE=mcts BOT_B_TREE=default npm run selfplay -- 5
+ *   MAX_ROUNDS=300 LOG_LEVEL=debug npm run selfplay -- 1   # 截短对局并输出AI日志
+ */
+
+// 只输出错误日志，需在加载 AI 模块之前设置
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+
+async function runSelfPlay(): Promise<void> {
+    const matches = parseInt(process.argv[2] || '1');
+    const treeA = process.env.BOT_A_TREE === 'mcts' ? 'mcts' : 'default';
+    const treeB = process.env.BOT_B_TREE === 'mcts' ? 'mcts' : 'default';
+
+    const { SelfPlayRunner } = await import('../src/core/SelfPlayRunner');
+
+    // 对局进度和报告直接写到标准输出，不受 LOG_LEVEL 影响
+    const print = (line: string) => process.stdout.write(line + '\n');
+
+    const report = SelfPlayRunner.run([
+        { name: `A(${treeA})`, teamTree: treeA },
+        { name: `B(${treeB})`, teamTree: treeB }
+    ], {
+        matches,
+        maxRounds: parseInt(process.env.MAX_ROUNDS || '1000'),
+        onGameEnd: result => {
+            const winner = result.winner === null ? '平局' : `${result.winner === 0 ? 'A' : 'B'}胜`;
+            print(`第${result.game}局 A阵营${result.camps[0]}：${winner}，${result.rounds}回合，` +
+                `据点 ${result.flagRounds[0]}:${result.flagRounds[1]}`);
+        }
+    });
+
+    print(SelfPlayRunner.formatReport(report));
+}
+
+runSelfPlay().catch(error => {
+    console.error('自对弈失败:', error);
+    process.exit(1);
+});
@@ -3,4 +3,8 @@ export default {
     '^.+\\.(t|j)sx?$': '@swc/jest',
   },
   extensionsToTreatAsEsm: ['.ts', '.tsx'],
-};
\ No newline at end of file
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+    '^src/(.*)$': '<rootDir>/src/$1',
+  },
+};
@@ -2,7 +2,7 @@ import { State } from 'mistreevous';
 import { ActionContext } from '../core/types';
 import { TeamBlackboard } from '../core/TeamBlackboard';
 import { StrategyAnalysis, StrategyType, StrategyDecision } from '../core/StrategyAnalysis';
-import { log } from '../index';
+import { log } from '../logger';
 import { AnalysisTools } from '../core/AnalysisTools';
 
 /**
@@ -19,6 +19,7 @@ import { AnalysisTools } from '../core/AnalysisTools';
  * - FOCUS_FIRE/ATTACK_ENEMY：选择距离最近的敌人（距离相同选血量少的）
  * - ATTACK_CITY：选择最优城寨目标
  * - CAPTURE_FLAG：选择龙旗位置
+ * - 残局（双方都凑不满60回合）：固定为 CAPTURE_FLAG，领先时驻守、落后时全力争夺
  */
 export function AnalyzeAndSetStrategy(context: ActionContext): State {
   try {
@@ -41,8 +42,8 @@ export function AnalyzeAndSetStrategy(context: ActionContext): State {
     // 创建策略分析器
     const strategyAnalysis = new StrategyAnalysis(teamBlackboard);
 
-    // 执行全局策略分析
-    const globalStrategy = analyzeGlobalStrategy(strategyAnalysis, teamBlackboard);
+    // 执行全局策略分析（残局由 StrategyAnalysis 统一判断）
+    const globalStrategy = strategyAnalysis.decideGlobalStrategy(() => analyzeGlobalStrategy(strategyAnalysis, teamBlackboard));
 
     // 记录策略决策
     log(`[策略分析] 全局策略决策: ${globalStrategy.strategy}`);
@@ -53,7 +54,6 @@ export function AnalyzeAndSetStrategy(context: ActionContext): State {
     teamBlackboard.setGlobalStrategy(
       globalStrategy.strategy,
       globalStrategy.details,
-      globalStrategy.details,
       globalStrategy.priority,
       globalStrategy.confidence,
       globalStrategy.reason
@@ -223,7 +223,7 @@ function setEnemyTarget(blackboard: TeamBlackboard): void {
       const distances = myHeroes
         .filter(hero => hero.position)
         .map(hero => {
-          const dist = AnalysisTools.calculateShortestDistance(hero.position!, enemy.position!);
+          const dist = AnalysisTools.calculateShortestDistance(blackboard.getGameMap(), hero.position!, enemy.position!);
           return dist.isReachable ? dist.realDistance : 999;
         });
       
@@ -273,7 +273,7 @@ function setCityTarget(blackboard: TeamBlackboard): void {
     const distances = myHeroes
       .filter(hero => hero.position)
       .map(hero => {
-        const dist = AnalysisTools.calculateShortestDistance(hero.position!, city.position!);
+        const dist = AnalysisTools.calculateShortestDistance(blackboard.getGameMap(), hero.position!, city.position!);
         return dist.isReachable ? dist.realDistance : 999;
       });
     
@@ -319,7 +319,7 @@ function setFlagTarget(blackboard: TeamBlackboard): void {
   const distances = myHeroes
     .filter(hero => hero.position)
     .map(hero => {
-      const dist = AnalysisTools.calculateShortestDistance(hero.position!, stronghold.position!);
+      const dist = AnalysisTools.calculateShortestDistance(blackboard.getGameMap(), hero.position!, stronghold.position!);
       return dist.isReachable ? dist.realDistance : 999;
     });
   
@@ -2,7 +2,8 @@ import { State } from 'mistreevous';
 import { ActionContext } from '../core/types';
 import ActionBuilder from '../network/ActionBuilder';
 import { AnalysisTools } from '../core/AnalysisTools';
-import { log } from '../index';
+import { FlagController } from '../core/FlagController';
+import { log } from '../logger';
 
 /**
  * 城寨相关动作
@@ -43,10 +44,12 @@ export function ExecuteSeekFortress(context: ActionContext): State {
       return State.FAILED;
     }
 
-    // 计算到城寨的最短路径
+    // 计算到城寨的最短路径（绕开敌军和队友已预约的格子）
     const distanceResult = AnalysisTools.calculateShortestDistance(
+      teamBlackboard.getGameMap(),
       currentHero.position,
-      cityTarget.position
+      cityTarget.position,
+      teamBlackboard.getHeroPathOptions(currentHero.roleId)
     );
 
     if (!distanceResult.isReachable) {
@@ -70,19 +73,22 @@ export function ExecuteSeekFortress(context: ActionContext): State {
       for (let i = distanceResult.path.length - 1; i >= 0; i--) {
         const pathPoint = distanceResult.path[i];
         const distanceToTarget = AnalysisTools.calculateShortestDistance(
+          teamBlackboard.getGameMap(),
           pathPoint,
           cityTarget.position
         );
         
         if (distanceToTarget.realDistance <= attackRange) {
           targetPosition = pathPoint;
+          // 预约到目标点为止的路径，后续队友寻路时避开
+          teamBlackboard.getPathReservations().reserve(currentHero.roleId, distanceResult.path.slice(0, i + 1));
           break;
         }
       }
     }
 
     // 构建移动命令
-    ActionBuilder.buildMoveAction(currentHero.roleId, targetPosition);
+    context.actionQueue.add(ActionBuilder.buildMoveAction(currentHero.roleId, targetPosition));
     
     log(`[寻找城寨] 英雄${currentHero.roleId}向城寨${cityTarget.cityType}(${cityTarget.cityId})移动到位置(${targetPosition.x}, ${targetPosition.y})`);
     
@@ -122,7 +128,7 @@ export function ExecuteAttackFortress(context: ActionContext): State {
     }
 
     // 构建攻击城寨命令
-    ActionBuilder.buildSiegeAction(currentHero.roleId, cityTarget.position);
+    context.actionQueue.add(ActionBuilder.buildSiegeAction(currentHero.roleId, cityTarget.position));
     
     log(`[攻击城寨] 英雄${currentHero.roleId}攻击城寨${cityTarget.cityType}(${cityTarget.cityId})`);
     
@@ -167,10 +173,12 @@ export function ExecuteSeekEnemy(context: ActionContext): State {
       return State.FAILED;
     }
 
-    // 计算到敌人的最短路径
+    // 计算到敌人的最短路径（绕开其他敌军和队友已预约的格子）
     const distanceResult = AnalysisTools.calculateShortestDistance(
+      teamBlackboard.getGameMap(),
       currentHero.position,
-      enemyTarget.position
+      enemyTarget.position,
+      teamBlackboard.getHeroPathOptions(currentHero.roleId)
     );
 
     if (!distanceResult.isReachable) {
@@ -194,19 +202,22 @@ export function ExecuteSeekEnemy(context: ActionContext): State {
       for (let i = distanceResult.path.length - 1; i >= 0; i--) {
         const pathPoint = distanceResult.path[i];
         const distanceToTarget = AnalysisTools.calculateShortestDistance(
+          teamBlackboard.getGameMap(),
           pathPoint,
           enemyTarget.position
         );
         
         if (distanceToTarget.realDistance <= attackRange) {
           targetPosition = pathPoint;
+          // 预约到目标点为止的路径，后续队友寻路时避开
+          teamBlackboard.getPathReservations().reserve(currentHero.roleId, distanceResult.path.slice(0, i + 1));
           break;
         }
       }
     }
 
     // 构建移动命令
-    ActionBuilder.buildMoveAction(currentHero.roleId, targetPosition);
+    context.actionQueue.add(ActionBuilder.buildMoveAction(currentHero.roleId, targetPosition));
     
     log(`[寻找敌人] 英雄${currentHero.roleId}向敌人${enemyTarget.roleId}移动到位置(${targetPosition.x}, ${targetPosition.y})`);
     
@@ -220,7 +231,8 @@ export function ExecuteSeekEnemy(context: ActionContext): State {
 
 /**
  * 执行移动到龙旗
- * 从团队黑板中读取龙旗目标，然后使用寻路方法前往目标
+ * 按团队黑板的据点计划行动：驻守名单里的英雄每回合沿最短路径走一步，进入据点区域后原地驻守；
+ * 不在名单里的英雄不前往据点，已在据点内的走出区域，避免多付维护费
  */
 export function ExecuteMoveToFlag(context: ActionContext): State {
   try {
@@ -245,27 +257,43 @@ export function ExecuteMoveToFlag(context: ActionContext): State {
       return State.FAILED;
     }
 
-    // 计算到龙旗的最短路径
+    const plan = teamBlackboard.getFlagPlan();
+    const gameState = teamBlackboard.getGameStateSnapshot();
+    const onFlag = FlagController.isOnFlag(currentHero.position, gameState);
+
+    if (!plan.holders.includes(currentHero.roleId)) {
+      if (onFlag) {
+        return leaveFlag(context, currentHero.roleId, currentHero.position, stronghold.position);
+      }
+      log(`[移动到龙旗] 英雄${currentHero.roleId}不在驻守名单（${plan.mode}）`);
+      return State.FAILED;
+    }
+
+    // 已在据点区域内，原地驻守
+    if (onFlag) {
+      log(`[移动到龙旗] 英雄${currentHero.roleId}已在龙旗区域内驻守`);
+      return State.SUCCEEDED;
+    }
+
+    // 计算到龙旗的最短路径（绕开敌军和队友已预约的格子）
     const distanceResult = AnalysisTools.calculateShortestDistance(
+      teamBlackboard.getGameMap(),
       currentHero.position,
-      stronghold.position
+      stronghold.position,
+      teamBlackboard.getHeroPathOptions(currentHero.roleId)
     );
 
-    if (!distanceResult.isReachable) {
+    if (!distanceResult.isReachable || !distanceResult.path || distanceResult.path.length < 2) {
       log(`[移动到龙旗] 无法到达龙旗位置(${stronghold.position.x}, ${stronghold.position.y})`);
       return State.FAILED;
     }
 
-    // 如果已经在龙旗位置，不需要移动
-    if (distanceResult.realDistance === 0) {
-      log(`[移动到龙旗] 英雄${currentHero.roleId}已在龙旗位置`);
-      return State.SUCCEEDED;
-    }
-
-    // 移动到龙旗位置
-    ActionBuilder.buildMoveAction(currentHero.roleId, stronghold.position);
+    // 每回合只能移动一格，预约沿途格子后走出第一步
+    const nextStep = distanceResult.path[1];
+    teamBlackboard.getPathReservations().reserve(currentHero.roleId, distanceResult.path);
+    context.actionQueue.add(ActionBuilder.buildMoveAction(currentHero.roleId, nextStep));
     
-    log(`[移动到龙旗] 英雄${currentHero.roleId}向龙旗位置(${stronghold.position.x}, ${stronghold.position.y})移动`);
+    log(`[移动到龙旗] 英雄${currentHero.roleId}向龙旗位置(${stronghold.position.x}, ${stronghold.position.y})移动到(${nextStep.x}, ${nextStep.y})`);
     
     return State.SUCCEEDED;
     
@@ -275,6 +303,35 @@ export function ExecuteMoveToFlag(context: ActionContext): State {
   }
 }
 
+/**
+ * 不在驻守名单的英雄走出据点区域：选一个离据点中心2格、能一步走到的相邻格子
+ */
+function leaveFlag(
+  context: ActionContext,
+  roleId: number,
+  position: { x: number; y: number },
+  center: { x: number; y: number }
+): State {
+  const teamBlackboard = context.teamBlackboard!;
+  for (let dx = -1; dx <= 1; dx++) {
+    for (let dy = -1; dy <= 1; dy++) {
+      const step = { x: position.x + dx, y: position.y + dy };
+      if (Math.max(Math.abs(step.x - center.x), Math.abs(step.y - center.y)) < 2) {
+        continue;
+      }
+      const distance = AnalysisTools.calculateShortestDistance(teamBlackboard.getGameMap(), position, step, teamBlackboard.getHeroPathOptions(roleId));
+      if (distance.isReachable && distance.realDistance === 1) {
+        teamBlackboard.getPathReservations().reserve(roleId, [position, step]);
+        context.actionQueue.add(ActionBuilder.buildMoveAction(roleId, step));
+        log(`[移动到龙旗] 英雄${roleId}不在驻守名单，离开据点到(${step.x}, ${step.y})`);
+        return State.SUCCEEDED;
+      }
+    }
+  }
+  log(`[移动到龙旗] 英雄${roleId}不在驻守名单，但周围没有可离开据点的格子`);
+  return State.FAILED;
+}
+
 /**
  * 执行攻击敌人
  * 对敌人目标发起攻击
@@ -309,7 +366,7 @@ export function ExecuteAttackEnemy(context: ActionContext): State {
     }
 
     // 构建攻击命令
-    ActionBuilder.buildAttackAction(currentHero.roleId, enemyTarget.position);
+    context.actionQueue.add(ActionBuilder.buildAttackAction(currentHero.roleId, enemyTarget.position));
     
     log(`[攻击敌人] 英雄${currentHero.roleId}攻击敌人${enemyTarget.roleId}`);
     
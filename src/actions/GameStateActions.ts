@@ -1,9 +1,9 @@
 import { State } from 'mistreevous';
 import { ActionContext } from '../core/types';
 import ActionBuilder from '../network/ActionBuilder';
-import { sunquan, zhaoyun, zhugeliang } from '../models/heros';
+import { DraftPlanner } from '../core/DraftPlanner';
 import { getBuffSelectionPriority, getBestHeroForSummonBuff, isBuffApplicable } from '../conditions/CanChooseBuff';
-import { log } from '..';
+import { log } from '../logger';
 
 /**
  * 游戏状态相关动作
@@ -14,11 +14,20 @@ import { log } from '..';
 
 /**
  * 执行武将选择
- * 根据当前游戏状态选择最合适的武将
+ * 第1回合按敌方阵容选将；复活窗口把阵亡英雄换成更克制敌方阵容的同类型武将
  */
 export function ExecutePickGenerals(context: ActionContext): State {
   try {
-    ActionBuilder.buildPickAction([zhaoyun.id, sunquan.id, zhugeliang.id], context.teamBlackboard.getPlayerId());
+    const teamBlackboard = context.teamBlackboard;
+    const enemyRoleIds = teamBlackboard.getEnemyHeroes().map(hero => hero.roleId);
+    const lineup = teamBlackboard.getCurrentRound() <= 1
+      ? DraftPlanner.planPick(enemyRoleIds)
+      : DraftPlanner.planRepick(teamBlackboard.getMyHeroes(), enemyRoleIds);
+    if (!lineup) {
+      return State.FAILED;
+    }
+    context.actionQueue.add(ActionBuilder.buildPickAction(lineup, teamBlackboard.getPlayerId()));
+    log(`[选将] ${lineup.join(',')}`);
     return State.SUCCEEDED;
   } catch (error) {
     log(`武将选择失败: ${error}`);
@@ -40,7 +49,7 @@ export function ExecuteChooseBuff(context: ActionContext): State {
 
     if (buffPriorities.length === 0) {
       log('无法获取BUFF优先级建议，使用默认BUFF选择');
-      ActionBuilder.buildBuffAction(1003, null); // 默认选择青龙护体
+      context.actionQueue.add(ActionBuilder.buildBuffAction(1003, null)); // 默认选择青龙护体
       return State.SUCCEEDED;
     }
 
@@ -83,7 +92,7 @@ export function ExecuteChooseBuff(context: ActionContext): State {
     }
 
     // 构建并发送BUFF动作
-    ActionBuilder.buildBuffAction(selectedBuff, targetRoleId);
+    context.actionQueue.add(ActionBuilder.buildBuffAction(selectedBuff, targetRoleId));
 
     // 获取当前回合数，处理可能的方法不存在问题
     let currentRound = 0;
@@ -107,7 +116,7 @@ export function ExecuteChooseBuff(context: ActionContext): State {
 
     return State.SUCCEEDED;
   } catch (error) {
-    console.log(`ExecuteChooseBuff BUFF选择失败: ${error}`);
+    log(`ExecuteChooseBuff BUFF选择失败: ${error}`);
     return State.FAILED;
   }
 }
@@ -117,7 +126,7 @@ export function ExecuteChooseBuff(context: ActionContext): State {
  * 按照用户需求的逻辑：
  * 1. 优先给每个武将配两个盾兵
  * 2. 然后按战士，统帅，辅助的优先顺序去加兵，保持弓兵盾兵6：4的比例
- * 3. 要把粮草用完
+ * 3. 要把经济规划分给生产的预算用完（守旗预留和变阵预算不动）
  */
 export function ExecuteTroopProduction(context: ActionContext): State {
 
@@ -143,16 +152,16 @@ export function ExecuteTroopProduction(context: ActionContext): State {
       return State.FAILED;
     }
 
-    const currentFood = player.supplies; // 当前粮草
+    const budget = teamBlackboard.getEconomyPlan().budgets.production; // 生产预算
     const generals = player.roles; // 武将列表
 
-    if (currentFood < 20) {
-      log('粮草不足20，无法生产士兵');
+    if (budget < 20) {
+      log(`生产预算${budget}不足20，无法生产士兵`);
       return State.FAILED;
     }
 
     // 计算生产计划
-    const productionPlan = calculateOptimalTroopProduction(generals, currentFood);
+    const productionPlan = calculateOptimalTroopProduction(generals, budget);
 
     if (productionPlan.length === 0) {
       log('没有可执行的生产计划');
@@ -160,7 +169,7 @@ export function ExecuteTroopProduction(context: ActionContext): State {
     }
 
     // 执行生产
-    ActionBuilder.buildMakeAction(productionPlan);
+    context.actionQueue.add(ActionBuilder.buildMakeAction(productionPlan));
 
     // 记录生产信息
     const totalCost = productionPlan.reduce((sum, plan) => sum + plan.soldiers.length * 20, 0);
@@ -178,7 +187,7 @@ export function ExecuteTroopProduction(context: ActionContext): State {
  */
 export function ExecuteFormationChange(context: ActionContext): State {
   // 先不开阵型调整
-  // ActionBuilder.buildFormAction(context.agent.id, 'offensive');
+  // context.actionQueue.add(ActionBuilder.buildFormAction(context.agent.id, 'offensive'));
   return State.SUCCEEDED;
 }
 
@@ -187,7 +196,7 @@ export function ExecuteFormationChange(context: ActionContext): State {
  */
 export function ExecuteCaptureFlag(context: ActionContext): State {
   try {
-    ActionBuilder.buildOccupyAction();
+    context.actionQueue.add(ActionBuilder.buildOccupyAction());
     return State.SUCCEEDED;
   } catch (error) {
     log(`占领据点失败: ${error}`);
@@ -219,15 +228,15 @@ function getBuffName(buffId: number): string {
  * 按照需求实现：
  * 1. 优先给每个武将配两个盾兵
  * 2. 然后按战士，统帅，辅助的优先顺序去加兵，保持弓兵盾兵6：4的比例
- * 3. 要把粮草用完
+ * 3. 要把预算用完
  */
-function calculateOptimalTroopProduction(generals: any[], currentFood: number): any[] {
+function calculateOptimalTroopProduction(generals: any[], budget: number): any[] {
   const TROOP_COST = 20; // 每个士兵成本
   const ARCHER_TYPE = 7; // 弓兵类型
   const SHIELD_TYPE = 8; // 盾兵类型
 
   const productionPlan: any[] = [];
-  let remainingFood = currentFood;
+  let remainingFood = budget;
 
   // 过滤出存活的武将
   const aliveGenerals = generals.filter(general =>
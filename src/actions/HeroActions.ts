@@ -98,36 +98,17 @@ export function executeTeleport(context: ActionContext): State {
 
 /**
 * 找到安全的瞬移位置
+* 瞬移范围内预期承伤最少的格子
 */
 function findSafeTeleportPosition(context: ActionContext): { x: number; y: number } | null {
-  const { agent, gameMap } = context;
+  const { agent, teamBlackboard } = context;
 
-  // 简化处理：瞬移到距离敌人较远的位置
-  // 在实际实现中应该考虑地形、障碍物等因素
-
-  // 瞬移范围是10格
+  // 瞬移范围是10格，按直线距离计算
   const teleportRange = 10;
-  const safePositions = [];
-
-  for (let dx = -teleportRange; dx <= teleportRange; dx++) {
-    for (let dy = -teleportRange; dy <= teleportRange; dy++) {
-      const newX = agent.position.x + dx;
-      const newY = agent.position.y + dy;
-
-      if (gameMap.isValidPosition(newX, newY) && !gameMap.isObstacle(newX, newY)) {
-        // 检查这个位置是否远离敌人
-        const distanceToNearestEnemy = agent.visibleEnemies?.reduce((minDist, enemy) => {
-          const dist = Math.max(Math.abs(newX - enemy.position.x), Math.abs(newY - enemy.position.y));
-          return Math.min(minDist, dist);
-        }, Infinity) || Infinity;
-
-        if (distanceToNearestEnemy >= 5) { // 至少距离敌人5格
-          safePositions.push({ x: newX, y: newY });
-        }
-      }
-    }
-  }
+  const safest = teamBlackboard.getInfluenceMap().findSafestCell(agent.position, teleportRange, {
+    useRealDistance: false,
+    excludeSupportOf: agent.id
+  });
 
-  // 随机选择一个安全位置
-  return safePositions.length > 0 ? safePositions[Math.floor(Math.random() * safePositions.length)] : null;
-} 
\ No newline at end of file
+  return safest ? safest.position : null;
+}
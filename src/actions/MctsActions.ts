@@ -0,0 +1,65 @@
+import { State } from 'mistreevous';
+import { ActionContext } from '../core/types';
+import { MctsPlanner } from '../core/MctsPlanner';
+import type { MctsPlannerOptions } from '../core/MctsPlanner';
+import { log } from '../logger';
+
+/**
+ * 蒙特卡洛树搜索动作
+ * ==================
+ *
+ * 替代 ExecuteWarriorActions/ExecuteLeaderActions/ExecuteSupportActions，
+ * 在本回合剩余的决策时间内为三名武将联合规划本回合行动
+ */
+
+/** 行为树节点使用的规划器配置 */
+const PLANNER_OPTIONS: MctsPlannerOptions = {
+  rolloutDepth: 2
+};
+
+/** 上下文没有回合截止时间时的搜索时间（毫秒） */
+const DEFAULT_TIME_BUDGET_MS = 150;
+
+/** 留给规划之后的节点和发送指令的时间（毫秒） */
+const RESERVED_MS = 100;
+
+/**
+ * 本回合可用于搜索的时间：截止时间前剩余的时间扣除预留
+ */
+function searchBudget(context: ActionContext): number {
+  if (context.turnDeadline === undefined) {
+    return DEFAULT_TIME_BUDGET_MS;
+  }
+  return Math.max(0, context.turnDeadline - Date.now() - RESERVED_MS);
+}
+
+/**
+ * 执行MCTS联合规划
+ * 读取团队黑板的游戏状态，搜索三名武将的最佳行动组合并加入待发送指令
+ */
+export function ExecuteMctsPlanner(context: ActionContext): State {
+  try {
+    const { teamBlackboard } = context;
+    const snapshot = teamBlackboard?.getGameStateSnapshot();
+    if (!snapshot) {
+      log('[MCTS规划] 缺少游戏状态');
+      return State.FAILED;
+    }
+
+    const planner = new MctsPlanner(teamBlackboard.getGameMap(), teamBlackboard.getMapData(), {
+      ...PLANNER_OPTIONS,
+      timeBudgetMs: searchBudget(context),
+      canTeleport: roleId => teamBlackboard.isTeleportReady(roleId)
+    });
+    const plan = planner.plan(snapshot, teamBlackboard.getPlayerId());
+    for (const action of plan.actions) {
+      context.actionQueue.add(action);
+    }
+
+    log(`[MCTS规划] 迭代${plan.iterations}次，耗时${plan.elapsedMs}ms，行动: ${plan.actions.map(a => `${a.roleId}:${a.action}`).join(', ') || '无'}`);
+    return State.SUCCEEDED;
+  } catch (error) {
+    log(`[MCTS规划] 规划失败: ${error}`);
+    return State.FAILED;
+  }
+}
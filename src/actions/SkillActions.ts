@@ -1,6 +1,7 @@
 import { State } from "mistreevous";
 import { ActionContext } from "src/core/types";
 import ActionBuilder from "../network/ActionBuilder";
+import { SkillRegistry } from "../core/SkillRegistry";
 
 /**
  * 技能使用策略模块
@@ -37,14 +38,14 @@ export function executeSkillSunquan(context: ActionContext): State {
     
     // 优先使用技能1治疗
     if (skill1 && skill1.isReady && needHealing) {
-      (ActionBuilder as any).buildSkillAction(45, 4501);
+      context.actionQueue.add(ActionBuilder.buildSkillAction(45, 4501));
       agent.log(`孙权使用技能1：江东水师 - 为团队治疗`);
       return State.SUCCEEDED;
     }
     
     // 然后使用技能2配兵
     if (skill2 && skill2.isReady) {
-      (ActionBuilder as any).buildSkillAction(45, 4502);
+      context.actionQueue.add(ActionBuilder.buildSkillAction(45, 4502));
       agent.log(`孙权使用技能2：制衡 - 额外配兵`);
       return State.SUCCEEDED;
     }
@@ -78,16 +79,16 @@ export function executeSkillZhugeliang(context: ActionContext): State {
       return State.FAILED;
     }
 
-    // 获取技能信息 - 根据协议，4601是诸葛亮的二技能（斗转星移）
-    const skill1 = zhugeliangHero.skills.find(skill => skill.skillId === 4600); // 锦囊妙计（一技能）
-    const skill2 = zhugeliangHero.skills.find(skill => skill.skillId === 4601); // 斗转星移（二技能）
+    // 获取技能信息 - 技能ID规律：英雄ID*100+技能编号
+    const skill1 = zhugeliangHero.skills.find(skill => skill.skillId === 4601); // 锦囊妙计（一技能）
+    const skill2 = zhugeliangHero.skills.find(skill => skill.skillId === 4602); // 斗转星移（二技能）
     
     // 检查是否有敌人在附近（距离3以内）
     const hasNearbyEnemies = checkNearbyEnemies(teamBlackboard, zhugeliangHero.position, 3);
     
     // 有敌人在附近时优先使用技能1（锦囊妙计）
     if (skill1 && skill1.isReady && hasNearbyEnemies) {
-      (ActionBuilder as any).buildSkillAction(46, 4600);
+      context.actionQueue.add(ActionBuilder.buildSkillAction(46, 4601));
       agent.log(`诸葛亮使用技能1：锦囊妙计 - 获得免疫效果`);
       return State.SUCCEEDED;
     }
@@ -98,7 +99,7 @@ export function executeSkillZhugeliang(context: ActionContext): State {
       if (lowestHealthHero) {
         // 选择攻击阵型（1）或防守阵型（2）
         const formType = lowestHealthHero.healthPercentage < 50 ? 2 : 1; // 血量低于50%选择防守阵型
-        (ActionBuilder as any).buildSkillAction(46, 4601, null, formType, null);
+        context.actionQueue.add(ActionBuilder.buildSkillAction(46, 4602, lowestHealthHero.position, formType, null));
         agent.log(`诸葛亮使用技能2：斗转星移 - 为英雄${lowestHealthHero.roleId}恢复血量并设置阵型${formType}`);
         return State.SUCCEEDED;
       }
@@ -145,9 +146,11 @@ export function executeSkillZhaoyun(context: ActionContext): State {
     
     // 优先使用技能1（龙胆突刺）对低血量敌人
     if (skill1 && skill1.isReady) {
-      const lowHealthEnemy = enemiesInRange.find(enemy => enemy.healthPercentage <= 25);
+      // 斩杀线取自技能注册表（体力低于25%直接击杀）
+      const executeLine = (SkillRegistry.get(4101)?.damage?.executeBelowRatio ?? 0) * 100;
+      const lowHealthEnemy = enemiesInRange.find(enemy => enemy.healthPercentage < executeLine);
       if (lowHealthEnemy) {
-        (ActionBuilder as any).buildSkillAction(41, 4101, lowHealthEnemy.position);
+        context.actionQueue.add(ActionBuilder.buildSkillAction(41, 4101, lowHealthEnemy.position));
         agent.log(`赵云使用技能1：龙胆突刺 - 击杀低血量敌人${lowHealthEnemy.roleId}`);
         return State.SUCCEEDED;
       }
@@ -155,7 +158,7 @@ export function executeSkillZhaoyun(context: ActionContext): State {
       // 如果没有低血量敌人，对最近的敌人使用
       const nearestEnemy = findNearestEnemy(enemiesInRange, zhaoyunHero.position);
       if (nearestEnemy) {
-        (ActionBuilder as any).buildSkillAction(41, 4101, nearestEnemy.position);
+        context.actionQueue.add(ActionBuilder.buildSkillAction(41, 4101, nearestEnemy.position));
         agent.log(`赵云使用技能1：龙胆突刺 - 攻击敌人${nearestEnemy.roleId}`);
         return State.SUCCEEDED;
       }
@@ -167,7 +170,7 @@ export function executeSkillZhaoyun(context: ActionContext): State {
       const hasSoldiers = checkEnemySoldiersInRange(teamBlackboard, zhaoyunHero.position, 3);
       
       if (hasSoldiers || enemiesInRange.length > 0) {
-        (ActionBuilder as any).buildSkillAction(41, 4102);
+        context.actionQueue.add(ActionBuilder.buildSkillAction(41, 4102));
         agent.log(`赵云使用技能2：冲锋陷阵 - 攻击范围内的敌人`);
         return State.SUCCEEDED;
       }
@@ -2,7 +2,7 @@ import { State } from 'mistreevous';
 import { ActionContext } from '../core/types';
 import { StrategyType } from '../core/StrategyAnalysis';
 import { AnalysisTools } from '../core/AnalysisTools';
-import { log } from '../index';
+import { log } from '../logger';
 
 /**
  * 战略动作模块
@@ -65,7 +65,7 @@ export function ExecuteAttackEnemy(context: ActionContext): boolean {
     }
 
     // 计算到目标的距离
-    const distance = AnalysisTools.calculateShortestDistance(agent.position, targetHero.position);
+    const distance = AnalysisTools.calculateShortestDistance(teamBlackboard.getGameMap(), agent.position, targetHero.position);
     if (!distance.isReachable) {
       log(`[战略动作] ExecuteAttackEnemy: 目标英雄${targetHero.roleId}不可达`);
       return false;
@@ -155,7 +155,7 @@ export function ExecuteAttackFortress(context: ActionContext): boolean {
     }
 
     // 计算到目标的距离
-    const distance = AnalysisTools.calculateShortestDistance(agent.position, targetCity.position);
+    const distance = AnalysisTools.calculateShortestDistance(teamBlackboard.getGameMap(), agent.position, targetCity.position);
     if (!distance.isReachable) {
       log(`[战略动作] ExecuteAttackFortress: 目标城寨${targetCity.roleId}不可达`);
       return false;
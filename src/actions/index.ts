@@ -6,6 +6,8 @@ export * from './SkillActions';
 export * from './GameStateActions';
 // 城寨相关动作
 export * from './FortressActions';
+// 蒙特卡洛树搜索规划
+export * from './MctsActions';
 
 // 战略动作
 export { ExecuteAttackEnemy, ExecuteAttackFortress } from './StrategicActions';
\ No newline at end of file
@@ -8,7 +8,12 @@
  * @version 2.0.0
  */
 
-export const teamBehaviorTree = `root {
+/**
+ * 团队行为树模板：综合战略决策和全局操作各版本共用，只有武将行动的节点不同
+ * @param heroActions 执行武将行动的节点
+ */
+function buildTeamBehaviorTree(heroActions: string): string {
+  return `root {
   sequence {
     /* === 综合战略决策 （发育、团战、抢龙旗） === */
     action [AnalyzeAndSetStrategy]
@@ -20,6 +25,12 @@ export const teamBehaviorTree = `root {
             condition [CanChooseBuff]
             action [ExecuteChooseBuff]
         }
+
+        /* 复活窗口换将 */
+        sequence {
+            condition [ShouldRepickGenerals]
+            action [ExecutePickGenerals]
+        }
         
         /* 生产士兵 */
         sequence {
@@ -39,15 +50,25 @@ export const teamBehaviorTree = `root {
             action [ExecuteCaptureFlag]
         }
             
-        /* === 执行武将行动 === */
+${heroActions}
+    }
+  }
+}`;
+}
+
+export const teamBehaviorTree = buildTeamBehaviorTree(`        /* === 执行武将行动 === */
         parallel {
             action [ExecuteWarriorActions]
             action [ExecuteLeaderActions] 
             action [ExecuteSupportActions]
-        }
-    }
-  }
-}`
+        }`);
+
+/**
+ * 团队行为树（MCTS版）
+ * 全局操作与 teamBehaviorTree 相同，三名武将的行动改由 ExecuteMctsPlanner 联合规划，便于与手写行为树对比
+ */
+export const mctsTeamBehaviorTree = buildTeamBehaviorTree(`        /* === 武将行动由蒙特卡洛树搜索统一规划 === */
+        action [ExecuteMctsPlanner]`);
 
 export const heroBehaviorTree = `root {
     /* 基于策略的行为 */
@@ -70,4 +91,12 @@ export const heroBehaviorTree = `root {
             action [ExecuteAttackFortress]
         }
     }
-}`
\ No newline at end of file
+}`
+
+/**
+ * 可选的团队行为树，由环境变量 TEAM_TREE 选择
+ */
+export const teamBehaviorTrees = {
+  default: teamBehaviorTree,
+  mcts: mctsTeamBehaviorTree
+};
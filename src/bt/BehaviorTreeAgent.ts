@@ -89,7 +89,11 @@ export class BehaviorTreeAgent implements IBehaviorTreeNodes {
     this.bindNodes(actions);
   }
 
-  public executeHeroBehaviorTree(agent: IAgent) {
+  public executeHeroBehaviorTree(agent: IAgent | undefined) {
+    // 阵容中没有武将担任该位置时跳过
+    if (!agent) {
+      return;
+    }
     // 切换上下文武将
     this.context.agent = agent;
     const bt = new BehaviourTree(heroBehaviorTree, this as unknown as Agent);
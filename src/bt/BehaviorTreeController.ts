@@ -14,7 +14,7 @@ import { GameMap } from '../context/gameMap';
 import { BehaviorTreeAgent } from './BehaviorTreeAgent';
 import { Agent } from 'mistreevous/dist/Agent';
 import { teamBehaviorTree } from './BehaviorTree';
-import { log } from 'src';
+import { log } from '../logger';
 
 /**
  * 行为树控制器类
@@ -38,13 +38,14 @@ export class BehaviorTreeController {
    */
   constructor(
     context: ActionContext,
-    private debug: boolean = false
+    private debug: boolean = false,
+    treeDefinition: string = teamBehaviorTree
   ) {
     // 创建行为树代理包装器
     this.behaviorTreeAgent = new BehaviorTreeAgent(context);
 
     // 创建行为树实例
-    this.behaviorTree = new BehaviourTree(teamBehaviorTree, this.behaviorTreeAgent as unknown as Agent);
+    this.behaviorTree = new BehaviourTree(treeDefinition, this.behaviorTreeAgent as unknown as Agent);
 
     if (debug) {
       log('行为树控制器初始化完成');
@@ -1,18 +1,16 @@
 import { ActionContext } from '../core/types';
-import { TeamBlackboard } from '../core/TeamBlackboard';
-import { StrategyType } from '../core/StrategyAnalysis';
 import { getTeamBlackboard } from './utils';
-import { log } from '../index';
+import { log } from '../logger';
 
 /**
  * 检查是否能够占领龙旗
  * =========================
- * 
- * 主要考虑三个因素：
- * 1. 有足够的粮草支持占领行动
- * 2. 判断当前的全局策略是不是"占领龙旗"
- * 3. 我方是否有英雄在龙旗位置上
- * 
+ *
+ * 按团队黑板的据点计划（FlagController）判断本回合是否发送AC：
+ * 据点已开放，且据点区域内我方英雄多于敌方时发送。
+ * AC本身不消耗粮草，粮草付不起维护费时仍然保持控制权、阻止敌方累计回合，
+ * 所以不再按粮草和全局策略拦截；驻守哪些英雄由据点计划决定。
+ *
  * @param context 行为树上下文
  * @returns 是否能够占领龙旗
  */
@@ -24,44 +22,21 @@ export function CanCaptureDragonFlag(context: ActionContext): boolean {
       return false;
     }
 
-    const gameState = teamBlackboard.getGameStateSnapshot();
-    if (!gameState) {
+    if (!teamBlackboard.getGameStateSnapshot()) {
       log('[龙旗占领] 游戏状态无效，无法占领');
       return false;
     }
 
-    const myPlayer = teamBlackboard.getMyPlayerData();
-    if (!myPlayer) {
-      log('[龙旗占领] 无我方玩家数据，无法占领');
-      return false;
-    }
-
-    // 1. 检查粮草是否足够
-    const hasEnoughSupplies = checkHasEnoughSupplies(myPlayer);
-    
-    // 2. 检查当前全局策略是否为占领龙旗
-    const isCaptureFlagStrategy = checkIsCaptureFlagStrategy(teamBlackboard);
-
-    // 3. 检查我方是否有英雄在龙旗位置上
-    const hasHeroAtFlag = checkHasHeroAtFlagPosition(teamBlackboard);
-
-    // 综合判断
-    if (!hasEnoughSupplies) {
-      log('[龙旗占领] 粮草不足，无法占领龙旗');
-      return false;
-    }
-
-    if (!isCaptureFlagStrategy) {
-      log('[龙旗占领] 当前策略不是占领龙旗，暂不执行');
-      return false;
-    }
+    const plan = teamBlackboard.getFlagPlan();
+    const { myOnFlag, enemyOnFlag } = plan.status;
 
-    if (!hasHeroAtFlag) {
-      log('[龙旗占领] 我方没有英雄在龙旗位置上，无法占领');
+    if (!plan.sendAC) {
+      log(`[龙旗占领] ${plan.mode}：据点内我方${myOnFlag}名、敌方${enemyOnFlag}名英雄，暂不占领（${plan.reason}）`);
       return false;
     }
 
-    log('[龙旗占领] 粮草充足、策略匹配且有英雄在龙旗位置，可以占领龙旗');
+    log(`[龙旗占领] ${plan.mode}：据点内我方${myOnFlag}名、敌方${enemyOnFlag}名英雄，发送占领指令` +
+      (plan.affordable ? '' : '（粮草不足，本回合不累计占领）'));
     return true;
 
   } catch (error) {
@@ -69,61 +44,3 @@ export function CanCaptureDragonFlag(context: ActionContext): boolean {
     return false;
   }
 }
-
-/**
- * 检查粮草是否足够
- */
-function checkHasEnoughSupplies(player: any): boolean {
-  const FLAG_CAPTURE_COST = 50;        // 占领龙旗的粮草消耗
-  const MIN_SUPPLY_THRESHOLD = 100;    // 最低粮草阈值（占领后至少保留的粮草）
-  
-  const requiredSupplies = FLAG_CAPTURE_COST + MIN_SUPPLY_THRESHOLD;
-  
-  return player.supplies >= requiredSupplies;
-}
-
-/**
- * 检查当前全局策略是否为占领龙旗
- */
-function checkIsCaptureFlagStrategy(teamBlackboard: TeamBlackboard): boolean {
-  const currentStrategy = teamBlackboard.getCurrentStrategy();
-  
-  return currentStrategy === StrategyType.CAPTURE_FLAG;
-}
-
-/**
- * 检查我方是否有英雄在龙旗位置上
- */
-function checkHasHeroAtFlagPosition(teamBlackboard: TeamBlackboard): boolean {
-  const stronghold = teamBlackboard.getStronghold();
-  const myHeroes = teamBlackboard.getMyAliveHeroes();
-  
-  if (!stronghold || !stronghold.position || myHeroes.length === 0) {
-    log('[龙旗占领] 缺少龙旗位置或英雄数据');
-    return false;
-  }
-
-  // 检查是否有我方英雄在龙旗位置上
-  const heroesAtFlag = myHeroes.filter(hero => {
-    if (!hero.position || !hero.isAlive) return false;
-    
-    // 检查英雄是否在龙旗位置上（使用切比雪夫距离，距离为0表示在同一位置）
-    const distance = Math.max(
-      Math.abs(hero.position.x - stronghold.position!.x),
-      Math.abs(hero.position.y - stronghold.position!.y)
-    );
-    
-    return distance === 0;
-  });
-
-  if (heroesAtFlag.length > 0) {
-    const heroIds = heroesAtFlag.map(hero => hero.roleId);
-    log(`[龙旗占领] 我方英雄 ${heroIds.join(', ')} 在龙旗位置上`);
-    return true;
-  }
-
-  log('[龙旗占领] 我方没有英雄在龙旗位置上');
-  return false;
-}
-
-
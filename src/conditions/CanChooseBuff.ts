@@ -1,5 +1,6 @@
 import { ActionContext } from '../core/types';
 import { TeamBlackboard } from '../core/TeamBlackboard';
+import { log } from '../logger';
 
 /**
  * 检查是否可以选择BUFF增益效果
@@ -16,7 +17,7 @@ export function CanChooseBuff(context: ActionContext): boolean {
     // 从TeamBlackboard获取当前回合信息
     const teamBlackboard = getTeamBlackboard(context);
     if (!teamBlackboard) {
-      console.log('[BUFF选择] 无法获取团队黑板，跳过BUFF选择');
+      log('[BUFF选择] 无法获取团队黑板，跳过BUFF选择');
       return false;
     }
 
@@ -30,33 +31,33 @@ export function CanChooseBuff(context: ActionContext): boolean {
     // 检查是否已经在当前BUFF回合选择过了
     const lastBuffRound = teamBlackboard.getData('last_buff_round') || 0;
     if (lastBuffRound === currentRound) {
-      console.log(`[BUFF选择] 回合${currentRound}已经选择过BUFF，跳过`);
+      log(`[BUFF选择] 回合${currentRound}已经选择过BUFF，跳过`);
       return false;
     }
 
     // 检查游戏状态是否有效
     const gameState = teamBlackboard.getGameStateSnapshot();
     if (!gameState) {
-      console.log('[BUFF选择] 游戏状态无效，跳过BUFF选择');
+      log('[BUFF选择] 游戏状态无效，跳过BUFF选择');
       return false;
     }
 
     // 检查我方是否有存活的英雄
     const myHeroes = teamBlackboard.getMyAliveHeroes();
     if (myHeroes.length === 0) {
-      console.log('[BUFF选择] 我方无存活英雄，跳过BUFF选择');
+      log('[BUFF选择] 我方无存活英雄，跳过BUFF选择');
       return false;
     }
 
     // 检查我方玩家数据是否有效
     const myPlayer = teamBlackboard.getMyPlayerData();
     if (!myPlayer) {
-      console.log('[BUFF选择] 无法获取我方玩家数据，跳过BUFF选择');
+      log('[BUFF选择] 无法获取我方玩家数据，跳过BUFF选择');
       return false;
     }
 
     // 所有条件满足，可以选择BUFF
-    console.log(`[BUFF选择] 回合${currentRound}可以选择BUFF增益效果`);
+    log(`[BUFF选择] 回合${currentRound}可以选择BUFF增益效果`);
     return true;
 
   } catch (error) {
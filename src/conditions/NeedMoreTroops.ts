@@ -1,14 +1,15 @@
 import { ActionContext } from '../core/types';
-import { TeamBlackboard } from '../core/TeamBlackboard';
+import { getTeamBlackboard } from './utils';
+import { ECONOMY } from '../core/GameConstants';
+import { log } from '../logger';
 
 /**
  * 检查是否需要更多士兵
  * =========================
  * 
- * 主要考虑三个因素：
+ * 主要考虑两个因素：
  * 1. 英雄是否满兵（统帅值利用率）
- * 2. 是否有足够粮草生产士兵
- * 3. 是否需要预留粮草用于占领据点
+ * 2. 经济规划分给生产的预算是否够生产士兵（已扣除守旗预留）
  * 
  * @param context 行为树上下文
  * @returns 是否需要更多士兵
@@ -17,50 +18,41 @@ export function NeedMoreTroops(context: ActionContext): boolean {
   try {
     const teamBlackboard = getTeamBlackboard(context);
     if (!teamBlackboard) {
-      console.log('[兵力检查] 无法获取团队黑板，默认需要补充兵力');
+      log('[兵力检查] 无法获取团队黑板，默认需要补充兵力');
       return true;
     }
 
     const gameState = teamBlackboard.getGameStateSnapshot();
     if (!gameState) {
-      console.log('[兵力检查] 游戏状态无效，默认需要补充兵力');
+      log('[兵力检查] 游戏状态无效，默认需要补充兵力');
       return true;
     }
 
-    const myPlayer = teamBlackboard.getMyPlayerData();
     const myHeroes = teamBlackboard.getMyAliveHeroes();
 
-    if (!myPlayer || myHeroes.length === 0) {
-      console.log('[兵力检查] 无我方数据或无存活英雄，不需要补充兵力');
+    if (myHeroes.length === 0) {
+      log('[兵力检查] 无存活英雄，不需要补充兵力');
       return false;
     }
 
     // 1. 检查英雄是否满兵
     const hasUnderstaffedHero = checkHeroesUnderstaffed(myHeroes);
     
-    // 2. 检查粮草是否充足
-    const hasEnoughSupplies = checkSuppliesForTroops(myPlayer.supplies);
-    
-    // 3. 检查是否需要预留粮草占领据点
-    // const shouldReserveSupplies = checkShouldReserveSupplies(myPlayer.supplies, teamBlackboard);
+    // 2. 检查生产预算是否充足
+    const hasEnoughSupplies = checkSuppliesForTroops(teamBlackboard.getEconomyPlan().budgets.production);
 
     // 综合判断
     if (!hasUnderstaffedHero) {
-      console.log('[兵力检查] 所有英雄兵力充足，无需补充');
+      log('[兵力检查] 所有英雄兵力充足，无需补充');
       return false;
     }
 
     if (!hasEnoughSupplies) {
-      console.log('[兵力检查] 粮草不足，无法生产士兵');
+      log('[兵力检查] 生产预算不足（粮草不够或需预留守旗），无法生产士兵');
       return false;
     }
 
-    // if (shouldReserveSupplies) {
-    //   console.log('[兵力检查] 需要预留粮草占领据点，暂不补充兵力');
-    //   return false;
-    // }
-
-    console.log('[兵力检查] 有英雄兵力不足且粮草充足，需要补充');
+    log('[兵力检查] 有英雄兵力不足且粮草充足，需要补充');
     return true;
 
   } catch (error) {
@@ -84,37 +76,12 @@ function checkHeroesUnderstaffed(heroes: any[]): boolean {
 }
 
 /**
- * 检查粮草是否足够生产士兵
+ * 检查生产预算是否足够生产士兵
  */
-function checkSuppliesForTroops(supplies: number): boolean {
-  const TROOP_COST = 20; // 每个士兵成本20粮草
+function checkSuppliesForTroops(budget: number): boolean {
   const MIN_PRODUCTION_COUNT = 1; // 至少能生产1个士兵才值得
   
-  return supplies >= TROOP_COST * MIN_PRODUCTION_COUNT;
-}
-
-/**
- * 检查是否应该预留粮草用于占领据点
- */
-function checkShouldReserveSupplies(supplies: number, teamBlackboard: TeamBlackboard): boolean {
-  const FORTRESS_COST = 100; // 占领据点成本100粮草
-  const SUPPLY_BUFFER = 200; // 粮草缓冲量
-  
-  // 如果粮草少于占领据点成本+缓冲量，应该预留
-  if (supplies < FORTRESS_COST + SUPPLY_BUFFER) {
-    return true;
-  }
-  
-  // 检查是否有据点可以占领
-  const stronghold = teamBlackboard.getStronghold();
-  if (stronghold && stronghold.isAvailable) {
-    // 如果有可用据点且粮草不是很充足，应该预留
-    if (supplies < FORTRESS_COST * 2 + SUPPLY_BUFFER) {
-      return true;
-    }
-  }
-  
-  return false;
+  return budget >= ECONOMY.TROOP_COST * MIN_PRODUCTION_COUNT;
 }
 
 /**
@@ -160,25 +127,3 @@ export function getMostUrgentHeroForTroops(context: ActionContext): number | nul
     return most;
   }).roleId;
 }
-
-/**
- * 从上下文获取TeamBlackboard实例
- */
-function getTeamBlackboard(context: ActionContext): TeamBlackboard | null {
-  if (context.teamBlackboard) {
-    return context.teamBlackboard as TeamBlackboard;
-  }
-  
-  if (context.agent && (context.agent as any).teamBlackboard) {
-    return (context.agent as any).teamBlackboard as TeamBlackboard;
-  }
-  
-  if (!context.agent && context.teamBlackboard) {
-    const tb = context.teamBlackboard as TeamBlackboard;
-    if (tb.warrior || tb.support || tb.leader) {
-      return tb;
-    }
-  }
-  
-  return null;
-}
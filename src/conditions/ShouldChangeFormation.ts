@@ -2,6 +2,8 @@ import { ActionContext } from '../core/types';
 import { TeamBlackboard } from '../core/TeamBlackboard';
 import { AnalysisTools } from '../core/AnalysisTools';
 import { getTeamBlackboard } from './utils';
+import { craneWingFormation } from '../models/units';
+import { log } from '../logger';
 
 /**
  * 检查是否应该变换阵形
@@ -9,7 +11,7 @@ import { getTeamBlackboard } from './utils';
  * 
  * 主要考虑两个因素：
  * 1. 只有正在战斗时才考虑变阵
- * 2. 我方的士气和粮草需要比较充裕才实用
+ * 2. 我方士气比较充裕，且经济规划留有变阵预算（生产士兵和守旗之后的余粮）
  * 
  * 注意：战斗距离使用切比雪夫距离计算，适合快速判断战斗范围
  * 虽然导入了AnalysisTools.calculateShortestDistance，但为了性能考虑，
@@ -22,13 +24,13 @@ export function ShouldChangeFormation(context: ActionContext): boolean {
   try {
     const teamBlackboard = getTeamBlackboard(context);
     if (!teamBlackboard) {
-      console.log('[阵形检查] 无法获取团队黑板，不变阵');
+      log('[阵形检查] 无法获取团队黑板，不变阵');
       return false;
     }
 
     const gameState = teamBlackboard.getGameStateSnapshot();
     if (!gameState) {
-      console.log('[阵形检查] 游戏状态无效，不变阵');
+      log('[阵形检查] 游戏状态无效，不变阵');
       return false;
     }
 
@@ -36,7 +38,7 @@ export function ShouldChangeFormation(context: ActionContext): boolean {
     const myHeroes = teamBlackboard.getMyAliveHeroes();
 
     if (!myPlayer || myHeroes.length === 0) {
-      console.log('[阵形检查] 无我方数据或无存活英雄，不变阵');
+      log('[阵形检查] 无我方数据或无存活英雄，不变阵');
       return false;
     }
 
@@ -44,20 +46,20 @@ export function ShouldChangeFormation(context: ActionContext): boolean {
     const isInCombat = checkIsInCombat(myHeroes, teamBlackboard);
     
     // 2. 检查资源是否充裕
-    const hasAbundantResources = checkResourcesAbundant(myPlayer);
+    const hasAbundantResources = checkResourcesAbundant(myPlayer, teamBlackboard.getEconomyPlan().budgets.formation);
 
     // 综合判断
     if (!isInCombat) {
-      console.log('[阵形检查] 未处于战斗状态，无需变阵');
+      log('[阵形检查] 未处于战斗状态，无需变阵');
       return false;
     }
 
     if (!hasAbundantResources) {
-      console.log('[阵形检查] 资源不够充裕，暂不变阵');
+      log('[阵形检查] 资源不够充裕，暂不变阵');
       return false;
     }
 
-    console.log('[阵形检查] 正在战斗且资源充裕，可以考虑变阵');
+    log('[阵形检查] 正在战斗且资源充裕，可以考虑变阵');
     return true;
 
   } catch (error) {
@@ -100,13 +102,12 @@ function checkIsInCombat(myHeroes: any[], teamBlackboard: TeamBlackboard): boole
 }
 
 /**
- * 检查资源是否充裕（士气和粮草）
+ * 检查资源是否充裕（士气和变阵预算）
  */
-function checkResourcesAbundant(player: any): boolean {
-  const MIN_ABUNDANT_SUPPLIES = 500; // 充裕粮草阈值
+function checkResourcesAbundant(player: any, formationBudget: number): boolean {
   const MIN_ABUNDANT_MORALE = 70;    // 充裕士气阈值
   
-  const hasAbundantSupplies = player.supplies >= MIN_ABUNDANT_SUPPLIES;
+  const hasAbundantSupplies = formationBudget >= craneWingFormation.supplyCost;
   const hasAbundantMorale = player.morale >= MIN_ABUNDANT_MORALE;
   
   return hasAbundantSupplies && hasAbundantMorale;
@@ -0,0 +1,33 @@
+import { ActionContext } from '../core/types';
+import { DraftPlanner } from '../core/DraftPlanner';
+import { getTeamBlackboard } from './utils';
+import { log } from '../logger';
+
+/**
+ * 检查是否应该在复活窗口换将
+ * =========================
+ *
+ * 协议只允许在我方有英雄复活剩余回合为1时重新选将，且存活英雄不能被换下。
+ * 由 DraftPlanner 按敌方当前阵容评估，有得分更高的阵容时才换将。
+ *
+ * @param context 行为树上下文
+ * @returns 是否应该换将
+ */
+export function ShouldRepickGenerals(context: ActionContext): boolean {
+  try {
+    const teamBlackboard = getTeamBlackboard(context);
+    if (!teamBlackboard || teamBlackboard.getCurrentRound() <= 1) {
+      return false;
+    }
+
+    const enemyRoleIds = teamBlackboard.getEnemyHeroes().map(hero => hero.roleId);
+    const lineup = DraftPlanner.planRepick(teamBlackboard.getMyHeroes(), enemyRoleIds);
+    if (lineup) {
+      log(`[换将检查] 复活窗口换将: ${lineup.join(',')}`);
+    }
+    return lineup !== null;
+  } catch (error) {
+    log(`[换将检查] 检查失败: ${error}`);
+    return false;
+  }
+}
@@ -2,6 +2,7 @@ import { ActionContext } from '../../core/types';
 import { TeamBlackboard } from '../../core/TeamBlackboard';
 import { StrategyType } from '../../core/StrategyAnalysis';
 import { getTeamBlackboard } from '../utils';
+import { log } from '../../logger';
 
 /**
  * 检查当前英雄攻击范围内是否有敌方英雄
@@ -17,40 +18,40 @@ export function HasEnemyInRange(context: ActionContext): boolean {
   try {
     const teamBlackboard = getTeamBlackboard(context);
     if (!teamBlackboard) {
-      console.log('[攻击范围检查] 无法获取团队黑板');
+      log('[攻击范围检查] 无法获取团队黑板');
       return false;
     }
 
     // 从agent获取当前英雄
     if (!context.agent) {
-      console.log('[攻击范围检查] context中无agent');
+      log('[攻击范围检查] context中无agent');
       return false;
     }
 
     const currentHero = teamBlackboard.getHeroById(context.agent.id);
     if (!currentHero || !currentHero.isAlive || !currentHero.position) {
-      console.log('[攻击范围检查] 当前英雄无效、已阵亡或位置未知');
+      log('[攻击范围检查] 当前英雄无效、已阵亡或位置未知');
       return false;
     }
 
     // 检查全局策略是否为集火攻击
     const currentStrategy = teamBlackboard.getCurrentStrategy();
     if (currentStrategy !== StrategyType.FOCUS_FIRE) {
-      console.log('[攻击范围检查] 当前策略不是集火攻击，无需检查攻击范围');
+      log('[攻击范围检查] 当前策略不是集火攻击，无需检查攻击范围');
       return false;
     }
 
     // 获取敌方攻击目标
     const enemyTarget = teamBlackboard.getEnemyTarget();
     if (!enemyTarget || !enemyTarget.targetEnemyId) {
-      console.log('[攻击范围检查] 没有敌方攻击目标');
+      log('[攻击范围检查] 没有敌方攻击目标');
       return false;
     }
 
     // 获取目标英雄的信息
     const targetHero = teamBlackboard.getHeroById(enemyTarget.targetEnemyId);
     if (!targetHero || !targetHero.isAlive || !targetHero.position) {
-      console.log('[攻击范围检查] 目标英雄无效、已阵亡或位置未知');
+      log('[攻击范围检查] 目标英雄无效、已阵亡或位置未知');
       return false;
     }
 
@@ -58,9 +59,9 @@ export function HasEnemyInRange(context: ActionContext): boolean {
     const isTargetInRange = checkTargetInAttackRange(currentHero, targetHero);
 
     if (isTargetInRange) {
-      console.log(`[攻击范围检查] 英雄${currentHero.roleId}可以攻击目标${targetHero.roleId}`);
+      log(`[攻击范围检查] 英雄${currentHero.roleId}可以攻击目标${targetHero.roleId}`);
     } else {
-      console.log(`[攻击范围检查] 英雄${currentHero.roleId}无法攻击目标${targetHero.roleId}，距离过远`);
+      log(`[攻击范围检查] 英雄${currentHero.roleId}无法攻击目标${targetHero.roleId}，距离过远`);
     }
 
     return isTargetInRange;
@@ -1,6 +1,6 @@
 import { ActionContext } from '../../core/types';
 import { StrategyType } from '../../core/StrategyAnalysis';
-import { log } from '../../index';
+import { log } from '../../logger';
 import { calculateDistance } from 'src/core/GameConstants';
 
 /**
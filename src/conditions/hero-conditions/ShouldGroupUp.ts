@@ -1,7 +1,7 @@
 import { State } from 'mistreevous';
 import { ActionContext } from '../../core/types';
 import { StrategyType } from '../../core/StrategyAnalysis';
-import { log } from '../../index';
+import { log } from '../../logger';
 
 /**
  * 判断是否应该集合（组队）
@@ -2,6 +2,7 @@ import { ActionContext } from '../../core/types';
 import { TeamBlackboard } from '../../core/TeamBlackboard';
 import { StrategyType } from '../../core/StrategyAnalysis';
 import { getTeamBlackboard } from '../utils';
+import { log } from '../../logger';
 
 /**
  * 检查是否应该寻找敌人
@@ -17,13 +18,13 @@ export function ShouldSeekEnemy(context: ActionContext): boolean {
   try {
     const teamBlackboard = getTeamBlackboard(context);
     if (!teamBlackboard) {
-      console.log('[寻敌检查] 无法获取团队黑板，不寻找敌人');
+      log('[寻敌检查] 无法获取团队黑板，不寻找敌人');
       return false;
     }
 
     const gameState = teamBlackboard.getGameStateSnapshot();
     if (!gameState) {
-      console.log('[寻敌检查] 游戏状态无效，不寻找敌人');
+      log('[寻敌检查] 游戏状态无效，不寻找敌人');
       return false;
     }
 
@@ -31,11 +32,11 @@ export function ShouldSeekEnemy(context: ActionContext): boolean {
     const shouldSeekEnemy = checkShouldSeekEnemyStrategy(teamBlackboard);
 
     if (!shouldSeekEnemy) {
-      console.log('[寻敌检查] 当前策略不需要主动寻找敌人');
+      log('[寻敌检查] 当前策略不需要主动寻找敌人');
       return false;
     }
 
-    console.log('[寻敌检查] 当前策略需要主动寻找敌人');
+    log('[寻敌检查] 当前策略需要主动寻找敌人');
     return true;
 
   } catch (error) {
@@ -2,6 +2,7 @@ export { CanChooseBuff } from './CanChooseBuff';
 export { NeedMoreTroops } from './NeedMoreTroops';
 export { ShouldChangeFormation } from './ShouldChangeFormation';
 export { CanCaptureDragonFlag } from './CanCaptureDragonFlag';
+export { ShouldRepickGenerals } from './ShouldRepickGenerals';
 export { ShouldSeekEnemy } from './hero-conditions/ShouldSeekEnemy';
 export { HasEnemyInRange } from './hero-conditions/HasEnemyInRange';
 export { ShouldGroupUp } from './hero-conditions/ShouldGroupUp';
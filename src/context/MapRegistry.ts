@@ -0,0 +1,87 @@
+/**
+ * 地图注册表
+ * 保存本局由服务器 start 消息下发的地图。每个机器人的团队黑板持有一份，
+ * 同一进程内运行多个机器人时各自注册、互不影响；分析工具和各行为节点从团队黑板取地图。
+ * 未注册地图时直接抛错，不再回退到任何内置地图。
+ *
+ * @author AI游戏框架开发团队
+ * @version 1.0.0
+ */
+
+import { GameMap } from './gameMap';
+import type MessageParser from '../network/MessageParser';
+import type { EngineMapData } from '../core/GameEngine';
+
+/**
+ * MessageParser.parseStartMessage 返回的地图信息
+ */
+export type ParsedMapInfo = ReturnType<typeof MessageParser.parseMapData>;
+
+/**
+ * 地图注册表
+ */
+export class MapRegistry {
+  private gameMap: GameMap | null = null;
+  private mapInfo: ParsedMapInfo | null = null;
+
+  /**
+   * 注册本局地图
+   * @param mapInfo MessageParser.parseStartMessage(...).map
+   * @returns 新建的GameMap实例
+   */
+  register(mapInfo: ParsedMapInfo): GameMap {
+    const { width, height, rawData } = mapInfo;
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+      throw new Error(`地图尺寸无效: ${width}x${height}`);
+    }
+    if (rawData.length !== width * height || rawData.some(terrain => Number.isNaN(terrain))) {
+      throw new Error(`地图数据与尺寸不符: ${width}x${height} 需要 ${width * height} 格，实际 ${rawData.length} 格`);
+    }
+
+    this.mapInfo = mapInfo;
+    this.gameMap = new GameMap(rawData.join(','), width, height);
+    // 主基地、城寨、龙旗的距离场在开局时算好，回合内分析只需查表
+    this.gameMap.precomputeDistanceFields();
+    return this.gameMap;
+  }
+
+  /**
+   * 获取本局地图
+   * @throws 尚未收到 start 消息时
+   */
+  get(): GameMap {
+    if (!this.gameMap) {
+      throw new Error('地图尚未注册：需要先处理服务器的start消息');
+    }
+    return this.gameMap;
+  }
+
+  /**
+   * 获取本局地图的原始数据（start 消息格式），供规则引擎模拟使用
+   * @throws 尚未收到 start 消息时
+   */
+  getMapData(): EngineMapData {
+    if (!this.mapInfo) {
+      throw new Error('地图尚未注册：需要先处理服务器的start消息');
+    }
+    const { rawData, width, height } = this.mapInfo;
+    return { data: rawData.join(','), maxX: width, maxY: height };
+  }
+
+  /**
+   * 是否已注册地图
+   */
+  has(): boolean {
+    return this.gameMap !== null;
+  }
+
+  /**
+   * 清除已注册的地图（对局结束或切换对局时调用）
+   */
+  clear(): void {
+    this.gameMap = null;
+    this.mapInfo = null;
+  }
+}
+
+export default MapRegistry;
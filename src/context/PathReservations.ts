@@ -0,0 +1,82 @@
+/**
+ * 路径预约表
+ * 我方三名英雄在同一回合内依次寻路时，先寻路的英雄预约沿途格子，
+ * 后寻路的英雄避开同一时刻已被队友预约的格子，避免走到同一格。
+ *
+ * 第 step 步表示从当前回合起第 step 回合结束时所在的格子（MOVE 每回合移动一格）。
+ *
+ * @author AI游戏框架开发团队
+ * @version 1.0.0
+ */
+
+import type { Position } from '../core/types';
+
+/**
+ * 路径预约表
+ */
+export class PathReservations {
+  // "x,y,step" -> 预约该格的英雄ID
+  private cells: Map<string, number> = new Map();
+  // "x,y" -> 停留在终点的英雄ID及到达步数
+  private goals: Map<string, { roleId: number; step: number }> = new Map();
+
+  /**
+   * 预约一条路径
+   * 会先释放该英雄之前的预约；终点从到达那一步起一直被占用
+   * @param roleId 英雄ID
+   * @param path 从当前位置开始的路径（path[0] 为当前位置，不预约）
+   */
+  reserve(roleId: number, path: Position[]): void {
+    this.release(roleId);
+    for (let step = 1; step < path.length; step++) {
+      const { x, y } = path[step];
+      this.cells.set(`${x},${y},${step}`, roleId);
+    }
+    if (path.length > 1) {
+      const goal = path[path.length - 1];
+      this.goals.set(`${goal.x},${goal.y}`, { roleId, step: path.length - 1 });
+    }
+  }
+
+  /**
+   * 格子在第 step 步是否已被其他英雄预约
+   * @param x X坐标
+   * @param y Y坐标
+   * @param step 步数
+   * @param roleId 查询的英雄ID，自己的预约不算
+   */
+  isReserved(x: number, y: number, step: number, roleId?: number): boolean {
+    const owner = this.cells.get(`${x},${y},${step}`);
+    if (owner !== undefined && owner !== roleId) {
+      return true;
+    }
+    const goal = this.goals.get(`${x},${y}`);
+    return goal !== undefined && goal.roleId !== roleId && goal.step <= step;
+  }
+
+  /**
+   * 释放某个英雄的全部预约
+   */
+  release(roleId: number): void {
+    for (const [key, owner] of this.cells) {
+      if (owner === roleId) {
+        this.cells.delete(key);
+      }
+    }
+    for (const [key, goal] of this.goals) {
+      if (goal.roleId === roleId) {
+        this.goals.delete(key);
+      }
+    }
+  }
+
+  /**
+   * 清空预约（每回合开始时调用）
+   */
+  clear(): void {
+    this.cells.clear();
+    this.goals.clear();
+  }
+}
+
+export default PathReservations;
@@ -1,5 +1,7 @@
 import type { Position } from '../core/types';
 import MessageParser from '../network/MessageParser.js';
+import type { PathReservations } from './PathReservations';
+import { log } from '../logger';
 
 /**
  * 距离计算方法类型
@@ -48,6 +50,28 @@ export interface MapCell {
   walkable: boolean;
   hasUnit?: boolean;        // 是否有单位占据
   unitId?: number;          // 占据单位的ID
+  unitPlayerId?: number;    // 占据单位所属玩家ID
+}
+
+/**
+ * 寻路时对单位所在格子的处理方式
+ * - block：不可经过
+ * - penalize：可以经过，但增加额外代价
+ * - ignore：视为空地
+ */
+export type UnitPolicy = 'block' | 'penalize' | 'ignore';
+
+/**
+ * 考虑单位占位的寻路选项
+ * 单位位置来自 syncGameState 维护的单位层；起点和终点不受单位和预约限制
+ */
+export interface PathOptions {
+  playerId?: number;                // 我方玩家ID，用于区分友军和敌军
+  roleId?: number;                  // 寻路的英雄ID，忽略自己所在格子和自己的预约
+  friendlyUnits?: UnitPolicy;       // 友军单位处理方式，默认ignore
+  enemyUnits?: UnitPolicy;          // 敌军单位处理方式，默认ignore
+  unitPenalty?: number;             // penalize时经过单位格子的额外代价，默认5
+  reservations?: PathReservations;  // 队友的路径预约
 }
 
 /**
@@ -87,16 +111,80 @@ export interface SpecialLocations {
 }
 
 /**
- * A*算法中的节点接口
- * 表示网格中用于A*算法的节点
+ * 八方向移动偏移，每步代价都是1
  */
-interface Node {
-  x: number;        // X坐标
-  y: number;        // Y坐标
-  g: number;        // 从起始节点到此节点的实际代价
-  h: number;        // 从此节点到目标节点的启发式代价
-  f: number;        // 总代价 (g + h)
-  parent: Node | null; // 路径中的父节点
+const DIRECTIONS: ReadonlyArray<{ dx: number; dy: number }> = [
+  { dx: 0, dy: 1 },   // 下
+  { dx: 0, dy: -1 },  // 上
+  { dx: 1, dy: 0 },   // 右
+  { dx: -1, dy: 0 },  // 左
+  { dx: 1, dy: 1 },   // 右下（对角线）
+  { dx: 1, dy: -1 },  // 右上（对角线）
+  { dx: -1, dy: 1 },  // 左下（对角线）
+  { dx: -1, dy: -1 }  // 左上（对角线）
+];
+
+/**
+ * 二叉最小堆
+ * 存放格子索引，按优先级从小到大弹出
+ */
+class MinHeap {
+  private items: number[] = [];
+  private priorities: number[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: number, priority: number): void {
+    this.items.push(item);
+    this.priorities.push(priority);
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= priority) {
+        break;
+      }
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): number | undefined {
+    if (this.items.length === 0) {
+      return undefined;
+    }
+    const top = this.items[0];
+    const lastItem = this.items.pop()!;
+    const lastPriority = this.priorities.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = lastItem;
+      this.priorities[0] = lastPriority;
+      let i = 0;
+      while (true) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.priorities[left] < this.priorities[smallest]) {
+          smallest = left;
+        }
+        if (right < this.items.length && this.priorities[right] < this.priorities[smallest]) {
+          smallest = right;
+        }
+        if (smallest === i) {
+          break;
+        }
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
 }
 
 /**
@@ -113,6 +201,8 @@ export class GameMap {
   private stronghold: StrongholdInfo | null;  // 龙旗据点信息
   private currentRound: number;       // 当前回合数
   private lastSyncTime: number;       // 最后同步时间
+  private keyCells: Set<number>;      // 关键格子（主基地、城寨、龙旗）索引
+  private distanceFields: Map<number, Int32Array>; // 关键格子的BFS距离场缓存
 
   /**
    * 构造函数
@@ -127,6 +217,8 @@ export class GameMap {
     this.lastSyncTime = 0;
     this.cities = new Map();
     this.stronghold = null;
+    this.keyCells = new Set();
+    this.distanceFields = new Map();
     
     // 初始化地图数据
     this.map = this.convertMap(data, maxX, maxY);
@@ -142,7 +234,7 @@ export class GameMap {
    * @returns 游戏地图实例
    */
   static fromServerData(mapData: any): GameMap {
-    console.log('从服务器数据初始化地图...', mapData);
+    log(`从服务器数据初始化地图: ${mapData.maxX}x${mapData.maxY}`);
     
     // 解析地图数据
     const parsedMapData = MessageParser.parseMapData(mapData);
@@ -154,8 +246,8 @@ export class GameMap {
       parsedMapData.height
     );
     
-    console.log(`地图初始化完成: ${parsedMapData.width}x${parsedMapData.height}`);
-    console.log(`特殊地形位置:`, parsedMapData.specialLocations);
+    log(`地图初始化完成: ${parsedMapData.width}x${parsedMapData.height}`);
+    log(`特殊地形位置: ${JSON.stringify(parsedMapData.specialLocations)}`);
     
     return gameMap;
   }
@@ -165,7 +257,7 @@ export class GameMap {
    * @param gameState 服务器发送的游戏状态数据
    */
   syncGameState(gameState: any): void {
-    console.log(`同步第 ${gameState.round} 回合游戏状态...`);
+    log(`同步第 ${gameState.round} 回合游戏状态...`);
     
     // 更新回合数
     this.currentRound = gameState.round;
@@ -184,7 +276,7 @@ export class GameMap {
     
     this.lastSyncTime = Date.now();
     
-    console.log(`第 ${gameState.round} 回合状态同步完成`);
+    log(`第 ${gameState.round} 回合状态同步完成`);
   }
 
   /**
@@ -200,9 +292,9 @@ export class GameMap {
       for (const hero of player.roles) {
         if (hero.position && hero.reviveRound === 0) {
           const { x, y } = hero.position;
-          this.setUnit(x, y, hero.roleId);
+          this.setUnit(x, y, hero.roleId, player.playerId);
           
-          console.log(`英雄 ${hero.roleId} 位置: (${x}, ${y})`);
+          log(`英雄 ${hero.roleId} 位置: (${x}, ${y})`);
         }
       }
     }
@@ -224,7 +316,7 @@ export class GameMap {
           if (cityInfo.isDestroyed && cityInfo.respawnRound === 0) {
             // 如果城寨刚被摧毁，设置重生倒计时
             cityInfo.respawnRound = 100;
-            console.log(`城寨在位置 (${cityData.position.x}, ${cityData.position.y}) 被摧毁`);
+            log(`城寨在位置 (${cityData.position.x}, ${cityData.position.y}) 被摧毁`);
           }
         }
       }
@@ -249,7 +341,7 @@ export class GameMap {
       
       if (strongholdInfo.isAvailable) {
         strongholdInfo.position = strongholdData.position;
-        console.log(`据点状态更新: 阵营=${strongholdInfo.camp}, 占领进度=[${strongholdInfo.occupiedRound.join(',')}]`);
+        log(`据点状态更新: 阵营=${strongholdInfo.camp}, 占领进度=[${strongholdInfo.occupiedRound.join(',')}]`);
       }
     }
   }
@@ -310,6 +402,9 @@ export class GameMap {
    * 初始化特殊地形（城寨和据点）
    */
   private initializeSpecialTerrain(): void {
+    this.keyCells.clear();
+    this.distanceFields.clear();
+
     // 初始化城寨信息
     for (let y = 0; y < this.height; y++) {
       for (let x = 0; x < this.width; x++) {
@@ -319,6 +414,11 @@ export class GameMap {
         } else if (cell.terrain === TerrainType.FLAG) {
           this.initializeStrongholdInfo({ x, y });
         }
+
+        if (cell.terrain === TerrainType.FLAG || cell.terrain === TerrainType.BASE || cell.terrain === TerrainType.CITY ||
+            (cell.terrain >= TerrainType.SMALL_CITY && cell.terrain <= TerrainType.BIG_CITY)) {
+          this.keyCells.add(y * this.width + x);
+        }
       }
     }
   }
@@ -485,9 +585,10 @@ export class GameMap {
    * @param x X坐标
    * @param y Y坐标
    * @param unitId 单位ID
+   * @param playerId 单位所属玩家ID
    * @returns 是否设置成功
    */
-  setUnit(x: number, y: number, unitId: number): boolean {
+  setUnit(x: number, y: number, unitId: number, playerId?: number): boolean {
     const cell = this.getCell(x, y);
     if (!cell || !cell.walkable) {
       return false;
@@ -495,6 +596,7 @@ export class GameMap {
     
     cell.hasUnit = true;
     cell.unitId = unitId;
+    cell.unitPlayerId = playerId;
     return true;
   }
 
@@ -512,6 +614,7 @@ export class GameMap {
     
     cell.hasUnit = false;
     cell.unitId = undefined;
+    cell.unitPlayerId = undefined;
     return true;
   }
 
@@ -543,7 +646,7 @@ export class GameMap {
           // 城寨重生
           city.isDestroyed = false;
           city.life = city.maxLife;
-          console.log(`城寨在位置 (${city.position.x}, ${city.position.y}) 重生`);
+          log(`城寨在位置 (${city.position.x}, ${city.position.y}) 重生`);
         }
       }
     }
@@ -555,7 +658,7 @@ export class GameMap {
   private updateStrongholdStatus(): void {
     if (this.stronghold && !this.stronghold.isAvailable && this.currentRound >= this.stronghold.openRound) {
       this.stronghold.isAvailable = true;
-      console.log(`龙旗据点在第 ${this.currentRound} 回合开放占领`);
+      log(`龙旗据点在第 ${this.currentRound} 回合开放占领`);
     }
   }
 
@@ -568,6 +671,7 @@ export class GameMap {
         const cell = this.map[y][x];
         cell.hasUnit = false;
         cell.unitId = undefined;
+        cell.unitPlayerId = undefined;
       }
     }
   }
@@ -592,7 +696,7 @@ export class GameMap {
       city.isDestroyed = true;
       city.respawnRound = 100; // 100回合后重生
       
-      console.log(`城寨在位置 (${position.x}, ${position.y}) 被摧毁，将在100回合后重生`);
+      log(`城寨在位置 (${position.x}, ${position.y}) 被摧毁，将在100回合后重生`);
       return { success: true, destroyed: true, reward: city.reward };
     }
     
@@ -678,7 +782,7 @@ export class GameMap {
 
   /**
    * 计算考虑障碍物的真实距离
-   * 使用A*算法计算两点间的最短路径长度
+   * 任一端点是关键格子（主基地、城寨、龙旗）时直接查距离场，否则使用A*算法
    * @param startX 起点X坐标
    * @param startY 起点Y坐标
    * @param endX 终点X坐标
@@ -686,6 +790,22 @@ export class GameMap {
    * @returns 路径长度，如果无法到达则返回-1
    */
   getRealDistance(startX: number, startY: number, endX: number, endY: number) {
+    if (!this.isValidPosition(startX, startY) || !this.isValidPosition(endX, endY)) {
+      return -1;
+    }
+    if (startX === endX && startY === endY) {
+      return 0;
+    }
+
+    const endField = this.getKeyDistanceField(endX, endY);
+    if (endField) {
+      return endField[startY * this.width + startX];
+    }
+    const startField = this.getKeyDistanceField(startX, startY);
+    if (startField) {
+      return startField[endY * this.width + endX];
+    }
+
     const path = this.findPathAStar(startX, startY, endX, endY);
     if (Array.isArray(path)) {
       return path.length > 0 ? path.length - 1 : 0;
@@ -693,114 +813,224 @@ export class GameMap {
     return -1;
   }
 
+  /**
+   * 计算从指定格子出发到全图各格的步数（八方向BFS）
+   * 关键格子的结果会被缓存，其他格子每次重新计算
+   * @param x 起点X坐标
+   * @param y 起点Y坐标
+   * @returns 按 y*width+x 索引的步数数组，不可达为-1；起点无效或为障碍物时返回null
+   */
+  getDistanceField(x: number, y: number): Int32Array | null {
+    if (!this.isValidPosition(x, y) || this.isObstacle(x, y)) {
+      return null;
+    }
+
+    const index = y * this.width + x;
+    const cached = this.distanceFields.get(index);
+    if (cached) {
+      return cached;
+    }
+
+    const field = new Int32Array(this.width * this.height).fill(-1);
+    const queue = new Int32Array(this.width * this.height);
+    let head = 0;
+    let tail = 0;
+    field[index] = 0;
+    queue[tail++] = index;
+
+    while (head < tail) {
+      const current = queue[head++];
+      const cx = current % this.width;
+      const cy = (current - cx) / this.width;
+      for (const { dx, dy } of DIRECTIONS) {
+        const nx = cx + dx;
+        const ny = cy + dy;
+        if (this.isObstacle(nx, ny)) {
+          continue;
+        }
+        const neighbor = ny * this.width + nx;
+        if (field[neighbor] === -1) {
+          field[neighbor] = field[current] + 1;
+          queue[tail++] = neighbor;
+        }
+      }
+    }
+
+    if (this.keyCells.has(index)) {
+      this.distanceFields.set(index, field);
+    }
+    return field;
+  }
+
+  /**
+   * 预先计算所有关键格子的距离场
+   * 地图注册后调用一次，之后的回合内分析只需查表
+   * @returns 已缓存的距离场数量
+   */
+  precomputeDistanceFields(): number {
+    for (const index of this.keyCells) {
+      this.getDistanceField(index % this.width, Math.floor(index / this.width));
+    }
+    return this.distanceFields.size;
+  }
+
+  /**
+   * 获取关键格子的距离场，非关键格子返回null
+   */
+  private getKeyDistanceField(x: number, y: number): Int32Array | null {
+    return this.keyCells.has(y * this.width + x) ? this.getDistanceField(x, y) : null;
+  }
+
+  /**
+   * 沿距离场下降得到最短路径
+   * @param field 终点的距离场
+   * @param x 起点X坐标
+   * @param y 起点Y坐标
+   * @returns 从起点到距离场源点的路径，不可达时返回null
+   */
+  private descendDistanceField(field: Int32Array, x: number, y: number): Position[] | null {
+    if (field[y * this.width + x] < 0) {
+      return null;
+    }
+
+    const path: Position[] = [{ x, y }];
+    let cx = x;
+    let cy = y;
+    while (field[cy * this.width + cx] > 0) {
+      const next = field[cy * this.width + cx] - 1;
+      const step = DIRECTIONS.find(({ dx, dy }) =>
+        this.isValidPosition(cx + dx, cy + dy) && field[(cy + dy) * this.width + cx + dx] === next)!;
+      cx += step.dx;
+      cy += step.dy;
+      path.push({ x: cx, y: cy });
+    }
+    return path;
+  }
+
   /**
    * 使用A*算法在网格上找到两点间的最短路径
-   * 允许对角线移动
+   * 允许对角线移动，开放列表为二叉堆，启发函数为到终点的切比雪夫距离
+   * 传入选项时按单位层和队友预约调整可通行性与代价
    *
    * @param x1 起点X坐标
    * @param y1 起点Y坐标
    * @param x2 终点X坐标
    * @param y2 终点Y坐标
+   * @param options 单位占位处理选项
    * @returns 表示从起点到终点路径的坐标数组，如果找不到路径则返回null
    */
-  findPathAStar(x1: number, y1: number, x2: number, y2: number): Position[] | null {
-    const startNode: Node = {
-      x: x1,
-      y: y1,
-      g: 0,
-      h: chebyshevDistance(x1, y1, x2, y2),
-      f: chebyshevDistance(x1, y1, x2, y2),
-      parent: null,
+  findPathAStar(x1: number, y1: number, x2: number, y2: number, options: PathOptions = {}): Position[] | null {
+    if (!this.isValidPosition(x1, y1) || !this.isValidPosition(x2, y2)) {
+      return null;
+    }
+    if (x1 === x2 && y1 === y2) {
+      return [{ x: x1, y: y1 }];
+    }
+    if (this.isObstacle(x2, y2)) {
+      return null;
+    }
+
+    const total = this.width * this.height;
+    const startIndex = y1 * this.width + x1;
+    const goalIndex = y2 * this.width + x2;
+    // 实际代价，-1表示尚未发现
+    const g = new Int32Array(total).fill(-1);
+    // 从起点出发的步数（有额外代价时与g不同），用于查询预约
+    const steps = new Int32Array(total);
+    const parent = new Int32Array(total).fill(-1);
+    const closed = new Uint8Array(total);
+    const open = new MinHeap();
+
+    // f相同时优先展开离终点更近（h更小）的节点
+    const priority = (cost: number, x: number, y: number) => {
+      const h = chebyshevDistance(x, y, x2, y2);
+      return (cost + h) * total + h;
     };
 
-    // 已评估的节点集合，存储"x,y"字符串
-    const closedList: Set<string> = new Set();
-    // 当前发现但尚未评估的节点集合
-    // 实现为按f代价排序的数组
-    const openList: Node[] = [startNode];
-
-    // 可能的移动方向（包括对角线）
-    // 每次移动的代价都是1
-    const directions = [
-      { dx: 0, dy: 1 },   // 下
-      { dx: 0, dy: -1 },  // 上
-      { dx: 1, dy: 0 },   // 右
-      { dx: -1, dy: 0 },  // 左
-      { dx: 1, dy: 1 },   // 右下（对角线）
-      { dx: 1, dy: -1 },  // 右上（对角线）
-      { dx: -1, dy: 1 },  // 左下（对角线）
-      { dx: -1, dy: -1 }  // 左上（对角线）
-    ];
-
-    while (openList.length > 0) {
-      // 获取openList中f代价最低的节点
-      openList.sort((a, b) => a.f - b.f);
-      const currentNode = openList.shift()!; // 移除并获取第一个元素
-
-      // 检查当前节点是否为目标
-      if (currentNode.x === x2 && currentNode.y === y2) {
+    g[startIndex] = 0;
+    open.push(startIndex, priority(0, x1, y1));
+
+    while (open.size > 0) {
+      const current = open.pop()!;
+      if (closed[current]) {
+        continue; // 堆中的过期条目
+      }
+      closed[current] = 1;
+
+      if (current === goalIndex) {
         // 找到路径，重构路径
         const path: Position[] = [];
-        let temp: Node | null = currentNode;
-        while (temp !== null) {
-          path.unshift({ x: temp.x, y: temp.y });
-          temp = temp.parent;
+        for (let index = current; index !== -1; index = parent[index]) {
+          path.push({ x: index % this.width, y: Math.floor(index / this.width) });
         }
-        return path;
+        return path.reverse();
       }
 
-      const currentNodeKey = `${currentNode.x},${currentNode.y}`;
-      closedList.add(currentNodeKey);
-
-      // 探索邻居
-      for (const direction of directions) {
-        const neighborX = currentNode.x + direction.dx;
-        const neighborY = currentNode.y + direction.dy;
-
-        // 1. 检查邻居是否为障碍物
-        if (this.isObstacle(neighborX, neighborY)) {
+      const cx = current % this.width;
+      const cy = (current - cx) / this.width;
+      for (const { dx, dy } of DIRECTIONS) {
+        const nx = cx + dx;
+        const ny = cy + dy;
+        if (this.isObstacle(nx, ny)) {
           continue;
         }
 
-        // 2. 检查邻居是否在已评估列表中
-        const neighborKey = `${neighborX},${neighborY}`;
-        if (closedList.has(neighborKey)) {
+        const neighbor = ny * this.width + nx;
+        if (closed[neighbor]) {
           continue;
         }
-
-        // 3. 计算到邻居的暂定g代价
-        const gCostToNeighbor = currentNode.g + 1; // 移动到邻居的代价是1
-
-        // 4. 检查邻居是否在开放列表中，或者这条路径是否更好
-        let neighborNodeInOpenList = openList.find(node => node.x === neighborX && node.y === neighborY);
-
-        if (neighborNodeInOpenList === undefined || gCostToNeighbor < neighborNodeInOpenList.g) {
-          // 到邻居的这条路径比之前的任何路径都好，或者邻居不在openList中
-          const hCost = chebyshevDistance(neighborX, x2, neighborY, y2);
-          if (neighborNodeInOpenList === undefined) {
-            // 如果邻居不在openList中，添加它
-            const newNode: Node = {
-              x: neighborX,
-              y: neighborY,
-              g: gCostToNeighbor,
-              h: hCost,
-              f: gCostToNeighbor + hCost,
-              parent: currentNode,
-            };
-            openList.push(newNode);
-          } else {
-            // 如果邻居在openList中，更新其g、f和parent
-            neighborNodeInOpenList.g = gCostToNeighbor;
-            neighborNodeInOpenList.f = gCostToNeighbor + hCost; // hCost是neighborNodeInOpenList.h
-            neighborNodeInOpenList.parent = currentNode;
-          }
+        const extra = neighbor === goalIndex ? 0 : this.getUnitCost(nx, ny, steps[current] + 1, options);
+        if (extra < 0) {
+          continue;
         }
+        const cost = g[current] + 1 + extra;
+        if (g[neighbor] !== -1 && cost >= g[neighbor]) {
+          continue;
+        }
+        g[neighbor] = cost;
+        steps[neighbor] = steps[current] + 1;
+        parent[neighbor] = current;
+        open.push(neighbor, priority(cost, nx, ny));
       }
     }
 
     return null;
   }
 
+  /**
+   * 单位和预约带来的额外代价
+   * @param x X坐标
+   * @param y Y坐标
+   * @param step 到达该格的步数
+   * @param options 寻路选项
+   * @returns 额外代价，-1表示不可经过
+   */
+  private getUnitCost(x: number, y: number, step: number, options: PathOptions): number {
+    if (options.reservations?.isReserved(x, y, step, options.roleId)) {
+      return -1;
+    }
+
+    const cell = this.map[y][x];
+    if (!cell.hasUnit || cell.unitId === options.roleId) {
+      return 0;
+    }
+    const friendly = options.playerId !== undefined && cell.unitPlayerId === options.playerId;
+    const policy = (friendly ? options.friendlyUnits : options.enemyUnits) ?? 'ignore';
+    if (policy === 'block') {
+      return -1;
+    }
+    return policy === 'penalize' ? options.unitPenalty ?? 5 : 0;
+  }
+
+  /**
+   * 寻路选项是否需要考虑单位层或预约
+   */
+  private usesUnitLayer(options: PathOptions): boolean {
+    return !!options.reservations ||
+      (options.friendlyUnits ?? 'ignore') !== 'ignore' ||
+      (options.enemyUnits ?? 'ignore') !== 'ignore';
+  }
+
   /**
    * 检查两点间是否可以直线移动（无障碍物阻挡）
    * 使用Bresenham直线算法检查路径上是否有障碍物
@@ -955,11 +1185,30 @@ export class GameMap {
 
   /**
    * 查找路径
+   * 不考虑单位时优先使用关键格子的距离场缓存，否则使用A*算法
    * @param start 起始位置
    * @param end 目标位置
+   * @param options 单位占位处理选项
    * @returns 路径数组，如果无法到达则返回null
    */
-  findPath(start: Position, end: Position): Position[] | null {
+  findPath(start: Position, end: Position, options: PathOptions = {}): Position[] | null {
+    if (!this.isValidPosition(start.x, start.y) || !this.isValidPosition(end.x, end.y)) {
+      return null;
+    }
+    if (this.usesUnitLayer(options)) {
+      return this.findPathAStar(start.x, start.y, end.x, end.y, options);
+    }
+
+    // 关键格子有缓存的距离场，沿距离场下降即可得到最短路径
+    const endField = this.getKeyDistanceField(end.x, end.y);
+    if (endField) {
+      return this.descendDistanceField(endField, start.x, start.y);
+    }
+    const startField = this.getKeyDistanceField(start.x, start.y);
+    if (startField) {
+      return this.descendDistanceField(startField, end.x, end.y)?.reverse() ?? null;
+    }
+
     return this.findPathAStar(start.x, start.y, end.x, end.y);
   }
 
@@ -1005,6 +1254,6 @@ export class GameMap {
     this.map = this.deepCopyMap(this.rawMap);
     this.initializeSpecialTerrain();
     
-    console.log('地图状态已重置');
+    log('地图状态已重置');
   }
 }
\ No newline at end of file
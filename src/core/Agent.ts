@@ -12,7 +12,10 @@ import { GameMap } from '../context/gameMap';
 import { IAgent, IAgentState, Position, ActionContext } from './types';
 import { TeamBlackboard } from './TeamBlackboard';
 import { Hero } from '../models/heros';
-import { Soldier } from '..';
+import type { Soldier } from '../models/inquireMsg';
+import { DamageCalculator, CombatUnit } from './DamageCalculator';
+import { archer, shieldSoldier } from '../models/units';
+import { log } from '../logger';
 
 /**
  * 游戏代理实现类
@@ -63,7 +66,7 @@ export class Agent implements IAgent {
   }
 
   getAttack(): number {
-    return this.hero.attack + this.bowmen * 25 + this.shieldmen * 20;
+    return DamageCalculator.calculateAttackPower(Agent.toCombatUnit(this));
   }
 
   getDefense(): number {
@@ -75,7 +78,7 @@ export class Agent implements IAgent {
    * @param message 日志消息
    */
   log(message: string): void {
-    console.log(`[${this.id} (${this.teamId})]: ${message}`);
+    log(`[${this.id} (${this.teamId})]: ${message}`);
   }
 
   /**
@@ -116,12 +119,31 @@ export class Agent implements IAgent {
    * @param target 攻击目标
    */
   performAttack(target: IAgent): void {
-    const damage = Math.floor(Math.random() * 20) + 10; // 10-29点随机伤害
-    target.health -= damage;
-    target.health = Math.max(0, target.health);
-    
-    this.log(`执行攻击: 目标 ${target.id}! 造成 ${damage} 点伤害。`);
-    this.log(`${target.id} 受到 ${damage} 点伤害, 剩余生命: ${target.health}。`);
+    const result = DamageCalculator.resolve(Agent.toCombatUnit(this), Agent.toCombatUnit(target));
+    target.health = result.remainingLife;
+    target.bowmen = result.remainingSoldiers.filter(s => s.roleId === archer.id).length;
+    target.shieldmen = result.remainingSoldiers.filter(s => s.roleId === shieldSoldier.id).length;
+
+    this.log(`执行攻击: 目标 ${target.id}! 造成 ${result.totalDamage} 点伤害。`);
+    this.log(`${target.id} 损失 ${result.soldiersKilled} 名士兵, 剩余生命: ${target.health}。`);
+  }
+
+  /**
+   * 将代理转换为伤害计算单位（士兵按满体力计算）
+   * @param agent 代理
+   */
+  static toCombatUnit(agent: IAgent): CombatUnit {
+    const soldiers: Soldier[] = [
+      ...Array.from({ length: agent.shieldmen }, () => ({ roleId: shieldSoldier.id, attack: shieldSoldier.attack, heroId: agent.id, life: shieldSoldier.health })),
+      ...Array.from({ length: agent.bowmen }, () => ({ roleId: archer.id, attack: archer.attack, heroId: agent.id, life: archer.health }))
+    ];
+    return {
+      roleId: agent.id,
+      attack: agent.hero.attack,
+      life: agent.health,
+      formationType: 0,
+      solderProps: soldiers
+    };
   }
 
   /**
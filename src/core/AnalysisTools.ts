@@ -6,8 +6,7 @@
  * @version 1.0.0
  */
 
-import { GameMap } from '../context/gameMap';
-import { MapLayout } from '../mapData';
+import { GameMap, PathOptions } from '../context/gameMap';
 import { Position } from './types';
 
 /**
@@ -39,42 +38,18 @@ export interface DistanceResult {
  * 提供基于真实地图数据的各种分析计算功能
  */
 export class AnalysisTools {
-  private static gameMap: GameMap | null = null;
-
-  /**
-   * 初始化分析工具
-   * 使用真实的地图数据创建GameMap实例
-   */
-  private static initializeGameMap(): void {
-    if (!this.gameMap) {
-      // 将二维地图数组转换为字符串格式
-      const mapData = MapLayout.flat().join(',');
-      // 地图大小为16x16
-      this.gameMap = new GameMap(mapData, 80, 60);
-    }
-  }
-
-  /**
-   * 获取GameMap实例
-   * @returns GameMap实例
-   */
-  public static getGameMap(): GameMap {
-    this.initializeGameMap();
-    return this.gameMap!;
-  }
-
   /**
    * 计算两个目标之间的最短距离
    * 考虑障碍物，使用A*算法计算真实可行路径
+   * 传入寻路选项时同时考虑单位占位和队友预约，真实距离为路径步数
    * 
+   * @param map 本局地图（团队黑板中注册的地图）
    * @param target1 第一个目标（位置坐标或包含位置的对象）
    * @param target2 第二个目标（位置坐标或包含位置的对象）
+   * @param options 单位占位处理选项
    * @returns 距离计算结果，包含直线距离和真实距离
    */
-  public static calculateShortestDistance(target1: Target, target2: Target): DistanceResult {
-    this.initializeGameMap();
-    
-    const map = this.gameMap!;
+  public static calculateShortestDistance(map: GameMap, target1: Target, target2: Target, options?: PathOptions): DistanceResult {
     
     // 提取坐标
     const x1 = Math.round(target1.x);
@@ -113,8 +88,8 @@ export class AnalysisTools {
       };
     }
 
-    // 使用A*算法计算真实距离
-    const path = map.findPathAStar(x1, y1, x2, y2);
+    // 计算真实距离：关键格子查距离场缓存，其他位置使用A*算法
+    const path = map.findPath({ x: x1, y: y1 }, { x: x2, y: y2 }, options);
     
     if (path && path.length > 0) {
       const realDistance = path.length - 1; // 路径长度减1为移动步数
@@ -136,26 +111,30 @@ export class AnalysisTools {
   /**
    * 批量计算一个目标到多个目标的最短距离
    * 
+   * @param map 本局地图
    * @param origin 起始目标
    * @param targets 目标列表
    * @returns 距离结果数组，与目标列表顺序对应
    */
   public static calculateDistancesToMultipleTargets(
+    map: GameMap,
     origin: Target,
     targets: Target[]
   ): DistanceResult[] {
-    return targets.map(target => this.calculateShortestDistance(origin, target));
+    return targets.map(target => this.calculateShortestDistance(map, origin, target));
   }
 
   /**
    * 找到距离起点最近的目标
    * 
+   * @param map 本局地图
    * @param origin 起始目标
    * @param targets 候选目标列表
    * @param useRealDistance 是否使用真实距离（考虑障碍物），默认为true
    * @returns 最近的目标及其距离信息，如果没有可达目标则返回null
    */
   public static findNearestTarget(
+    map: GameMap,
     origin: Target,
     targets: Target[],
     useRealDistance: boolean = true
@@ -171,7 +150,7 @@ export class AnalysisTools {
 
     for (let i = 0; i < targets.length; i++) {
       const target = targets[i];
-      const distanceResult = this.calculateShortestDistance(origin, target);
+      const distanceResult = this.calculateShortestDistance(map, origin, target);
       
       // 选择使用真实距离还是直线距离
       const currentDistance = useRealDistance 
@@ -200,14 +179,12 @@ export class AnalysisTools {
   /**
    * 检查两个目标之间是否可以直线移动（无障碍物阻挡）
    * 
+   * @param map 本局地图
    * @param target1 第一个目标
    * @param target2 第二个目标
    * @returns 是否可以直线移动
    */
-  public static canMoveDirectly(target1: Target, target2: Target): boolean {
-    this.initializeGameMap();
-    
-    const map = this.gameMap!;
+  public static canMoveDirectly(map: GameMap, target1: Target, target2: Target): boolean {
     const x1 = Math.round(target1.x);
     const y1 = Math.round(target1.y);
     const x2 = Math.round(target2.x);
@@ -224,34 +201,41 @@ export class AnalysisTools {
   /**
    * 获取指定范围内的所有可达位置
    * 
+   * @param map 本局地图
    * @param origin 起始位置
    * @param maxDistance 最大距离
    * @param useRealDistance 是否使用真实距离（考虑障碍物），默认为true
-   * @returns 可达位置列表，包含位置坐标和距离信息
+   * @returns 可达位置列表，包含位置坐标和距离信息（不含路径）
    */
   public static getReachablePositionsInRange(
+    map: GameMap,
     origin: Target,
     maxDistance: number,
     useRealDistance: boolean = true
   ): Array<{ position: Position; distance: DistanceResult }> {
-    this.initializeGameMap();
-    
-    const map = this.gameMap!;
     const reachablePositions: Array<{ position: Position; distance: DistanceResult }> = [];
     
     const originX = Math.round(origin.x);
     const originY = Math.round(origin.y);
 
+    const { width, height } = map.getMapSize();
+    // 一次BFS得到起点到全图的真实距离
+    const field = map.getDistanceField(originX, originY);
+
     // 遍历地图上的所有位置
-    for (let x = 0; x < 16; x++) {
-      for (let y = 0; y < 16; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let y = 0; y < height; y++) {
         // 跳过障碍物和起点
         if (map.isObstacle(x, y) || (x === originX && y === originY)) {
           continue;
         }
 
-        const target = { x, y };
-        const distanceResult = this.calculateShortestDistance(origin, target);
+        const realDistance = field ? field[y * width + x] : -1;
+        const distanceResult: DistanceResult = {
+          straightDistance: Math.max(Math.abs(x - originX), Math.abs(y - originY)),
+          realDistance,
+          isReachable: realDistance >= 0
+        };
         
         // 检查是否在指定范围内
         const distance = useRealDistance ? distanceResult.realDistance : distanceResult.straightDistance;
@@ -274,12 +258,4 @@ export class AnalysisTools {
 
     return reachablePositions;
   }
-
-  /**
-   * 重置地图状态（清理缓存）
-   * 在地图数据发生变化时调用
-   */
-  public static resetMap(): void {
-    this.gameMap = null;
-  }
 }
@@ -0,0 +1,272 @@
+/**
+ * 前向战斗模拟器
+ * ===============
+ *
+ * 以团队黑板的游戏状态快照和双方候选行动为输入，用 GameEngine 结算一个回合，
+ * 返回下一回合的状态以及双方的体力、士兵、士气、粮草、状态和阵亡变化。
+ * 集火、攻城等候选行动可以按模拟结果打分，而不是比较静态的战力数字。
+ *
+ * 所有方法都不修改传入的快照。传送冷却、BUFF、蓄力等 inquire 中没有的状态按"无"处理。
+ *
+ * @author AI游戏框架开发团队
+ * @version 1.0.0
+ */
+
+import { GameEngine } from './GameEngine';
+import type { EngineMapData, EnginePlayer } from './GameEngine';
+import type { TeamBlackboard } from './TeamBlackboard';
+import { HeroStatus } from '../models/inquireMsg';
+import type { ActionCommand } from '../models/actionMsg';
+import type { InquireMessageData, Player, Role } from '../models/inquireMsg';
+import MessageParser from '../network/MessageParser';
+
+/**
+ * 团队黑板中的游戏状态快照（MessageParser.parseInquireMessage 的结果）
+ */
+export type GameSnapshot = NonNullable<ReturnType<TeamBlackboard['getGameStateSnapshot']>>;
+
+/**
+ * 单个玩家一回合内的变化
+ */
+export interface SimulatedPlayerOutcome {
+  playerId: number;
+  lifeLost: number;                     // 英雄体力损失（阵亡按剩余体力计）
+  soldiersLost: number;                 // 损失的士兵数量
+  soldierLifeLost: number;              // 士兵体力损失
+  heroesKilled: number[];               // 本回合阵亡的英雄
+  moraleDelta: number;                  // 士气变化
+  suppliesDelta: number;                // 粮草变化
+  statusesGained: Array<{ roleId: number; status: string; rounds: number }>; // 新获得的状态
+}
+
+/**
+ * 模拟结果
+ */
+export interface SimulationResult {
+  state: GameSnapshot;                  // 下一回合状态（与快照格式相同）
+  rawState: InquireMessageData;         // 下一回合 inquire 数据
+  outcomes: Record<number, SimulatedPlayerOutcome>;
+  finished: boolean;
+  winner: number | null;
+}
+
+/**
+ * 候选行动的评估结果
+ */
+export interface CandidateEvaluation {
+  actions: ActionCommand[];
+  score: number;
+  result: SimulationResult;
+}
+
+/** 评分中一名英雄阵亡折算的体力值 */
+const HERO_KILL_VALUE = 1000;
+
+/**
+ * 前向战斗模拟器
+ */
+export class CombatSimulator {
+  /**
+   * 模拟一个回合
+   * @param snapshot 团队黑板的游戏状态快照
+   * @param actionsByPlayer 双方本回合的候选行动，键为 playerId
+   * @param mapData 本局地图数据（团队黑板 getMapData）
+   */
+  static simulate(
+    snapshot: GameSnapshot,
+    actionsByPlayer: Map<number, ActionCommand[]> | Record<number, ActionCommand[]>,
+    mapData: EngineMapData
+  ): SimulationResult {
+    const before = CombatSimulator.toInquireData(snapshot);
+    const players: EnginePlayer[] = before.players.map((p, index) => ({
+      playerId: p.playerId,
+      camp: p.roles[0]?.camp ?? index
+    }));
+
+    const actions = actionsByPlayer instanceof Map
+      ? actionsByPlayer
+      : new Map(Object.entries(actionsByPlayer).map(([id, list]) => [Number(id), list]));
+
+    const engine = GameEngine.fromState(mapData, players, before);
+    const after = engine.step(actions);
+
+    const outcomes: Record<number, SimulatedPlayerOutcome> = {};
+    for (const player of before.players) {
+      const next = after.players.find(p => p.playerId === player.playerId);
+      if (next) {
+        outcomes[player.playerId] = CombatSimulator.diffPlayer(player, next);
+      }
+    }
+
+    return {
+      state: MessageParser.parseInquireMessage(after) as GameSnapshot,
+      rawState: after,
+      outcomes,
+      finished: engine.isFinished(),
+      winner: engine.getWinner()
+    };
+  }
+
+  /**
+   * 从指定玩家的角度为模拟结果打分：敌方损失减去我方损失，英雄阵亡另计
+   * @param result 模拟结果
+   * @param playerId 我方玩家ID
+   */
+  static score(result: SimulationResult, playerId: number): number {
+    const value = (o: SimulatedPlayerOutcome) =>
+      o.lifeLost + o.soldierLifeLost + o.heroesKilled.length * HERO_KILL_VALUE;
+
+    let score = 0;
+    for (const outcome of Object.values(result.outcomes)) {
+      score += outcome.playerId === playerId ? -value(outcome) + outcome.moraleDelta : value(outcome);
+    }
+    if (result.winner !== null) {
+      score += result.winner === playerId ? Infinity : -Infinity;
+    }
+    return score;
+  }
+
+  /**
+   * 对多组候选行动分别模拟并按得分从高到低排序
+   * @param snapshot 团队黑板的游戏状态快照
+   * @param playerId 我方玩家ID
+   * @param candidates 我方候选行动列表
+   * @param mapData 本局地图数据（团队黑板 getMapData）
+   * @param enemyActions 假设的敌方行动
+   */
+  static rank(
+    snapshot: GameSnapshot,
+    playerId: number,
+    candidates: ActionCommand[][],
+    mapData: EngineMapData,
+    enemyActions: ActionCommand[] = []
+  ): CandidateEvaluation[] {
+    const enemyId = snapshot.players.find(p => p.playerId !== playerId)?.playerId;
+
+    return candidates
+      .map(actions => {
+        const actionsByPlayer = new Map<number, ActionCommand[]>([[playerId, actions]]);
+        if (enemyId !== undefined) {
+          actionsByPlayer.set(enemyId, enemyActions);
+        }
+        const result = CombatSimulator.simulate(snapshot, actionsByPlayer, mapData);
+        return { actions, score: CombatSimulator.score(result, playerId), result };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * 把解析后的快照还原为 inquire 数据
+   */
+  static toInquireData(snapshot: GameSnapshot): InquireMessageData {
+    return {
+      round: snapshot.round,
+      players: snapshot.players.map(player => ({
+        playerId: player.playerId,
+        supplies: player.supplies,
+        morale: player.morale,
+        roles: player.roles.map(role => ({
+          roleId: role.roleId,
+          attack: role.attack,
+          position: role.position ? { ...role.position } : { x: -1, y: -1 },
+          life: role.life,
+          maxLife: role.maxLife,
+          camp: role.camp,
+          reviveRound: role.reviveRound,
+          formationType: role.formationType,
+          commander: role.commander,
+          statuses: CombatSimulator.toStatusRounds(role.statuses),
+          skills: role.skills.map(skill => ({
+            skillId: skill.skillId,
+            cd: skill.cd,
+            cdRemainRound: skill.cdRemainRound,
+            damage: skill.damage,
+            damageReduceRatio: skill.damageReduceRatio,
+            damageAddByAttackRatio: skill.damageAddByAttackRatio,
+            roleId: skill.roleId
+          })),
+          solderProps: role.soldiers.map(soldier => ({
+            roleId: soldier.roleId,
+            attack: soldier.attack,
+            heroId: soldier.heroId,
+            life: soldier.life
+          }))
+        }))
+      })),
+      cityProps: snapshot.cityProps
+        .filter(city => city.position)
+        .map(city => ({ roleId: city.roleId, position: { ...city.position! }, life: city.life })),
+      stronghold: {
+        roleId: snapshot.stronghold?.roleId ?? 3,
+        camp: snapshot.stronghold?.camp ?? 2,
+        occupiedRound: [...(snapshot.stronghold?.occupiedRound ?? [0, 0])],
+        position: snapshot.stronghold?.position ? { ...snapshot.stronghold.position } : { x: -1, y: -1 }
+      }
+    };
+  }
+
+  /**
+   * 解析后的状态（{ remainingRounds }）还原为剩余回合数
+   */
+  private static toStatusRounds(statuses: Record<string, any> | undefined): Role['statuses'] {
+    const rounds: Record<string, number> = {};
+    for (const [status, info] of Object.entries(statuses ?? {})) {
+      rounds[status] = typeof info === 'number' ? info : info?.remainingRounds ?? 0;
+    }
+    return (Object.keys(rounds).length > 0 ? rounds : { [HeroStatus.NONE]: 0 }) as Role['statuses'];
+  }
+
+  /**
+   * 比较同一玩家结算前后的数据
+   */
+  private static diffPlayer(before: Player, after: Player): SimulatedPlayerOutcome {
+    const outcome: SimulatedPlayerOutcome = {
+      playerId: before.playerId,
+      lifeLost: 0,
+      soldiersLost: 0,
+      soldierLifeLost: 0,
+      heroesKilled: [],
+      moraleDelta: after.morale - before.morale,
+      suppliesDelta: after.supplies - before.supplies,
+      statusesGained: []
+    };
+
+    for (const role of before.roles) {
+      const next = after.roles.find(r => r.roleId === role.roleId);
+      if (!next) {
+        continue;
+      }
+
+      const alive = role.life > 0 && role.reviveRound === 0;
+      const killed = alive && (next.life <= 0 || next.reviveRound > 0);
+      if (killed) {
+        outcome.heroesKilled.push(role.roleId);
+      }
+      outcome.lifeLost += killed ? role.life : Math.max(0, role.life - next.life);
+
+      // 士兵按下标对应；结算后数量减少的部分视为阵亡
+      role.solderProps.forEach((soldier, index) => {
+        const survivor = next.solderProps[index];
+        if (!survivor || survivor.roleId !== soldier.roleId) {
+          return;
+        }
+        outcome.soldierLifeLost += Math.max(0, soldier.life - survivor.life);
+      });
+      const lost = Math.max(0, role.solderProps.length - next.solderProps.length);
+      outcome.soldiersLost += lost;
+      outcome.soldierLifeLost += role.solderProps
+        .slice(role.solderProps.length - lost)
+        .reduce((sum, s) => sum + s.life, 0);
+
+      for (const [status, rounds] of Object.entries(next.statuses)) {
+        if (status !== HeroStatus.NONE && rounds > 0 && !((role.statuses as Record<string, number>)[status] > 0)) {
+          outcome.statusesGained.push({ roleId: role.roleId, status, rounds });
+        }
+      }
+    }
+
+    return outcome;
+  }
+}
+
+export default CombatSimulator;
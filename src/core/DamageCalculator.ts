@@ -0,0 +1,229 @@
+/**
+ * 伤害计算器
+ * ===========
+ *
+ * 按游戏规则计算一次攻击的伤害与承伤结果：
+ * - 攻击力 = 英雄武力 + 所带士兵攻击力，鹤翼阵与酒狂 BUFF 提供加成，虚弱状态无法造成伤害
+ * - 减伤来源：八卦阵、青龙护体 BUFF、技能护盾（damageReduceRatio）
+ * - 承伤顺序：盾兵 → 弓兵 → 英雄；直接对武将的伤害跳过小兵
+ *
+ * 所有方法均为纯函数，不修改传入的单位，规则引擎和 AI 预测共用同一套计算。
+ *
+ * @author AI游戏框架开发团队
+ * @version 1.0.0
+ */
+
+import { HeroStatus } from '../models/inquireMsg';
+import type { Skill, Soldier } from '../models/inquireMsg';
+import { archer, craneWingFormation, eightTrigramsFormation, moraleRules, shieldSoldier } from '../models/units';
+import { FORMATIONS } from './GameConstants';
+
+/**
+ * 参与伤害计算的作战单位
+ * 服务端下发的 Role 满足该接口
+ */
+export interface CombatUnit {
+  roleId: number;
+  attack: number;                       // 英雄武力
+  life: number;                         // 英雄当前体力
+  formationType: number;                // 阵型（0：无/1：攻击/2：防守）
+  solderProps: Soldier[];               // 所带士兵
+  statuses?: Partial<Record<HeroStatus, number>>;
+  skills?: Skill[];
+}
+
+/**
+ * 攻击方修正
+ */
+export interface AttackModifiers {
+  attackBonus?: number;                 // 额外武力（如乱世枭雄+20）
+  attackBonusRatio?: number;            // 额外攻击加成比例（如酒狂0.3）
+  multiplier?: number;                  // 技能倍率，默认按普通攻击计算
+  heroOnly?: boolean;                   // 只计英雄武力（技能伤害）
+}
+
+/**
+ * 防守方修正
+ */
+export interface DefenseModifiers {
+  damageReduceRatio?: number;           // 额外减伤比例（如青龙护体0.2）
+  directToHero?: boolean;               // 直接对武将造成伤害，小兵不承伤
+  soldiersOnly?: boolean;               // 每名小兵各承受一次伤害，英雄不承伤
+  shieldDamageRatio?: number;           // 盾兵所受伤害倍率（如火攻2倍）
+}
+
+/**
+ * 单个单位的损失
+ */
+export interface UnitLoss {
+  unitType: 'shield' | 'archer' | 'hero';
+  soldierIndex: number;                 // 在 solderProps 中的下标，英雄为 -1
+  damage: number;                       // 承受伤害
+  remainingLife: number;                // 剩余体力
+  killed: boolean;
+}
+
+/**
+ * 伤害结算结果
+ */
+export interface DamageResult {
+  rawDamage: number;                    // 减伤前伤害
+  totalDamage: number;                  // 减伤后伤害
+  losses: UnitLoss[];                   // 各单位损失（按承伤顺序）
+  soldiersKilled: number;
+  heroKilled: boolean;
+  moraleGained: number;                 // 攻击方获得的士气
+  remainingLife: number;                // 英雄剩余体力
+  remainingSoldiers: Soldier[];         // 存活士兵（保持原顺序）
+}
+
+/** BUFF 修正值 */
+export const BUFF_MODIFIERS = {
+  PROTECTION_REDUCE_RATIO: 0.2,         // 青龙护体（1003）：所受伤害减少20%
+  RAGE_ATTACK_RATIO: 0.3                // 酒狂（1004）：武力增加30%
+} as const;
+
+/**
+ * 伤害计算器
+ */
+export class DamageCalculator {
+  /**
+   * 根据己方生效的 BUFF 生成攻防修正
+   * @param buffTypes 生效中的 BUFF 编号
+   */
+  static buffModifiers(buffTypes: number[]): { attack: AttackModifiers; defense: DefenseModifiers } {
+    return {
+      attack: { attackBonusRatio: buffTypes.includes(1004) ? BUFF_MODIFIERS.RAGE_ATTACK_RATIO : 0 },
+      defense: { damageReduceRatio: buffTypes.includes(1003) ? BUFF_MODIFIERS.PROTECTION_REDUCE_RATIO : 0 }
+    };
+  }
+
+  /**
+   * 阵型加成比例（0-0.15），人数为英雄所带士兵数
+   * @param unit 作战单位
+   * @param formationType 需要的阵型
+   */
+  static formationBonus(unit: CombatUnit, formationType: number): number {
+    if (unit.formationType !== formationType) {
+      return 0;
+    }
+    const formation = formationType === FORMATIONS.ATTACK ? craneWingFormation : eightTrigramsFormation;
+    return formation.getBonusPercentage(unit.solderProps.length) / 100;
+  }
+
+  /**
+   * 计算攻击方造成的原始伤害
+   * @param attacker 攻击方
+   * @param modifiers 攻击修正
+   */
+  static calculateAttackPower(attacker: CombatUnit, modifiers: AttackModifiers = {}): number {
+    if ((attacker.statuses?.[HeroStatus.WEAKNESS] ?? 0) > 0) {
+      return 0;
+    }
+
+    const heroAttack = attacker.attack + (modifiers.attackBonus ?? 0);
+    const base = modifiers.heroOnly
+      ? heroAttack
+      : heroAttack + attacker.solderProps.reduce((sum, s) => sum + s.attack, 0);
+    const bonus = 1 + DamageCalculator.formationBonus(attacker, FORMATIONS.ATTACK) + (modifiers.attackBonusRatio ?? 0);
+
+    return Math.round(base * (modifiers.multiplier ?? 1) * bonus);
+  }
+
+  /**
+   * 计算防守方的总减伤比例（上限100%）
+   * 技能护盾取英雄技能中最大的 damageReduceRatio
+   * @param defender 防守方
+   * @param modifiers 防守修正
+   */
+  static calculateReduceRatio(defender: CombatUnit, modifiers: DefenseModifiers = {}): number {
+    const skillShield = Math.max(0, ...(defender.skills ?? []).map(s => s.damageReduceRatio ?? 0));
+    const ratio = DamageCalculator.formationBonus(defender, FORMATIONS.DEFENSE) +
+      (modifiers.damageReduceRatio ?? 0) + skillShield;
+    return Math.min(1, ratio);
+  }
+
+  /**
+   * 把一次伤害分配到防守方各单位
+   * @param defender 防守方
+   * @param rawDamage 减伤前伤害
+   * @param modifiers 防守修正
+   */
+  static applyDamage(defender: CombatUnit, rawDamage: number, modifiers: DefenseModifiers = {}): DamageResult {
+    const totalDamage = Math.round(rawDamage * (1 - DamageCalculator.calculateReduceRatio(defender, modifiers)));
+    const soldiers = defender.solderProps.map(s => ({ ...s }));
+    const losses: UnitLoss[] = [];
+    let remaining = totalDamage;
+
+    const shieldRatio = modifiers.shieldDamageRatio ?? 1;
+
+    if (!modifiers.directToHero) {
+      for (const type of [shieldSoldier.id, archer.id]) {
+        soldiers.forEach((soldier, index) => {
+          if (soldier.roleId !== type || remaining <= 0 || soldier.life <= 0) {
+            return;
+          }
+          const ratio = type === shieldSoldier.id ? shieldRatio : 1;
+          const damage = Math.min(soldier.life, Math.round(remaining * ratio));
+          soldier.life -= damage;
+          // 小兵各自承伤时伤害不向后传递
+          if (!modifiers.soldiersOnly) {
+            remaining -= Math.ceil(damage / ratio);
+          }
+          losses.push({
+            unitType: type === shieldSoldier.id ? 'shield' : 'archer',
+            soldierIndex: index,
+            damage,
+            remainingLife: soldier.life,
+            killed: soldier.life <= 0
+          });
+        });
+      }
+    }
+
+    let remainingLife = defender.life;
+    if (!modifiers.soldiersOnly && remaining > 0 && defender.life > 0) {
+      const damage = Math.min(defender.life, remaining);
+      remainingLife = defender.life - damage;
+      losses.push({
+        unitType: 'hero',
+        soldierIndex: -1,
+        damage,
+        remainingLife,
+        killed: remainingLife <= 0
+      });
+    }
+
+    const soldiersKilled = losses.filter(l => l.unitType !== 'hero' && l.killed).length;
+    const heroKilled = defender.life > 0 && remainingLife <= 0;
+
+    return {
+      rawDamage,
+      totalDamage,
+      losses,
+      soldiersKilled,
+      heroKilled,
+      moraleGained: soldiersKilled * moraleRules.killSoldier + (heroKilled ? moraleRules.killGeneral : 0),
+      remainingLife,
+      remainingSoldiers: soldiers.filter(s => s.life > 0)
+    };
+  }
+
+  /**
+   * 计算攻击方对防守方的完整结算结果
+   * @param attacker 攻击方
+   * @param defender 防守方
+   * @param attack 攻击修正
+   * @param defense 防守修正
+   */
+  static resolve(
+    attacker: CombatUnit,
+    defender: CombatUnit,
+    attack: AttackModifiers = {},
+    defense: DefenseModifiers = {}
+  ): DamageResult {
+    return DamageCalculator.applyDamage(defender, DamageCalculator.calculateAttackPower(attacker, attack), defense);
+  }
+}
+
+export default DamageCalculator;
@@ -0,0 +1,172 @@
+/**
+ * 选将规划
+ * ========
+ *
+ * 阵容固定为猛将、统帅、谋士各一名，共 3×3×3 = 27 种组合。
+ * 对每种组合按敌方当前阵容打分：
+ * - 类型克制：谋士克猛将（控制、沉默限制近身爆发），猛将克统帅，统帅克谋士（兵多血厚扛得住法术）
+ * - 武将克制：个别技能对特定武将格外有效，如司马懿的沉默对依赖技能爆发的猛将
+ *
+ * 同分时保留默认阵容（SkillActions 中有专门技能逻辑）或当前阵容，敌方阵容未知时沿用默认阵容。
+ *
+ * 第1回合按看到的敌方阵容选将；之后只有我方英雄复活剩余回合为1时协议允许重新 PICK，
+ * 此时存活英雄保持不变，阵亡英雄可换成同类型中得分更高的武将。
+ *
+ * @author AI游戏框架开发团队
+ * @version 1.0.0
+ */
+
+import { generalsByType, sunquan, zhaoyun, zhugeliang } from '../models/heros';
+import type { Hero } from '../models/heros';
+
+/**
+ * 阵容打分结果，roleIds 按猛将、统帅、谋士排列
+ */
+export interface LineupScore {
+  roleIds: number[];
+  score: number;
+}
+
+/**
+ * 重新选将时需要的我方英雄信息（MessageParser 解析后的英雄数据即可）
+ */
+export interface DraftRole {
+  roleId: number;
+  isAlive: boolean;
+  reviveRound: number;
+}
+
+/** 默认阵容：赵云、孙权、诸葛亮 */
+export const DEFAULT_LINEUP: number[] = [zhaoyun.id, sunquan.id, zhugeliang.id];
+
+/** 阵容位置：猛将、统帅、谋士，与 TeamBlackboard 的 warrior/support/leader 对应 */
+const SLOTS: Hero[][] = [generalsByType['猛将'], generalsByType['统帅'], generalsByType['谋士']];
+
+/** 类型克制：位置 → 被克制的位置 */
+const TYPE_COUNTERS: Record<number, number> = { 2: 0, 0: 1, 1: 2 };
+const TYPE_COUNTER_SCORE = 2;
+
+/** 武将克制：武将ID → 其技能格外有效的敌方武将ID */
+const HERO_COUNTERS: Record<number, number[]> = {
+  40: [46, 47, 48],   // 吕布 无双乱舞：范围伤害压制低体力的谋士
+  41: [46, 47, 48],   // 赵云 龙胆突刺：斩杀体力低的谋士
+  42: [43, 44, 45],   // 关羽 一骑当千：单体爆发击穿统帅
+  43: [40, 47],       // 刘备 仁德之君：护盾减免范围伤害
+  44: [40, 41, 42],   // 曹操 虎豹骑：击退近身的猛将
+  45: [47, 48],       // 孙权 江东水师：回复抵消持续伤害
+  46: [40, 42],       // 诸葛亮 锦囊妙计：免疫爆发技能
+  47: [43, 44, 45],   // 周瑜 火攻：范围伤害克制兵多的统帅
+  48: [40, 41, 42]    // 司马懿 鬼谋：沉默依赖技能的猛将
+};
+const HERO_COUNTER_SCORE = 1;
+
+/**
+ * 选将规划器
+ */
+export class DraftPlanner {
+  /**
+   * 全部27种阵容，按猛将、统帅、谋士排列
+   */
+  static lineups(): number[][] {
+    const lineups: number[][] = [];
+    for (const warrior of SLOTS[0]) {
+      for (const commander of SLOTS[1]) {
+        for (const strategist of SLOTS[2]) {
+          lineups.push([warrior.id, commander.id, strategist.id]);
+        }
+      }
+    }
+    return lineups;
+  }
+
+  /**
+   * 武将所在的阵容位置：0 猛将、1 统帅、2 谋士，未知武将为 -1
+   */
+  static slotOf(roleId: number): number {
+    return SLOTS.findIndex(heroes => heroes.some(hero => hero.id === roleId));
+  }
+
+  /**
+   * 单名武将对单名敌方武将的克制得分，被克制时为负
+   */
+  static matchup(roleId: number, enemyRoleId: number): number {
+    const slot = DraftPlanner.slotOf(roleId);
+    const enemySlot = DraftPlanner.slotOf(enemyRoleId);
+    let score = 0;
+    if (slot >= 0 && enemySlot >= 0) {
+      if (TYPE_COUNTERS[slot] === enemySlot) {
+        score += TYPE_COUNTER_SCORE;
+      } else if (TYPE_COUNTERS[enemySlot] === slot) {
+        score -= TYPE_COUNTER_SCORE;
+      }
+    }
+    if (HERO_COUNTERS[roleId]?.includes(enemyRoleId)) {
+      score += HERO_COUNTER_SCORE;
+    }
+    if (HERO_COUNTERS[enemyRoleId]?.includes(roleId)) {
+      score -= HERO_COUNTER_SCORE;
+    }
+    return score;
+  }
+
+  /**
+   * 阵容对敌方阵容的得分
+   * @param roleIds 我方阵容
+   * @param enemyRoleIds 敌方阵容，未知时为空
+   */
+  static scoreLineup(roleIds: number[], enemyRoleIds: number[]): number {
+    let score = 0;
+    for (const roleId of roleIds) {
+      for (const enemyRoleId of enemyRoleIds) {
+        score += DraftPlanner.matchup(roleId, enemyRoleId);
+      }
+    }
+    return score;
+  }
+
+  /**
+   * 按得分从高到低排列阵容，同分时优先与 preferred 相同武将更多的阵容
+   * @param enemyRoleIds 敌方阵容
+   * @param locked 必须保留的武将（存活英雄不能被换下）
+   * @param preferred 同分时优先保留的阵容，默认为 DEFAULT_LINEUP
+   */
+  static rankLineups(enemyRoleIds: number[], locked: number[] = [], preferred: number[] = DEFAULT_LINEUP): LineupScore[] {
+    const overlap = (roleIds: number[]) => roleIds.filter(roleId => preferred.includes(roleId)).length;
+    return DraftPlanner.lineups()
+      .filter(roleIds => locked.every(roleId => roleIds.includes(roleId)))
+      .map(roleIds => ({ roleIds, score: DraftPlanner.scoreLineup(roleIds, enemyRoleIds) }))
+      .sort((a, b) => b.score - a.score || overlap(b.roleIds) - overlap(a.roleIds));
+  }
+
+  /**
+   * 第1回合选将
+   * @param enemyRoleIds 敌方阵容，未知时为空
+   */
+  static planPick(enemyRoleIds: number[] = []): number[] {
+    return DraftPlanner.rankLineups(enemyRoleIds)[0].roleIds;
+  }
+
+  /**
+   * 复活窗口重新选将：有英雄复活剩余回合为1时，把阵亡英雄换成得分更高的同类型武将
+   * @param myRoles 我方英雄
+   * @param enemyRoleIds 敌方阵容
+   * @returns 新阵容；不在复活窗口或没有更好的阵容时为 null
+   */
+  static planRepick(myRoles: DraftRole[], enemyRoleIds: number[]): number[] | null {
+    if (!myRoles.some(role => role.reviveRound === 1)) {
+      return null;
+    }
+
+    const current = myRoles.map(role => role.roleId);
+    const locked = myRoles.filter(role => role.isAlive).map(role => role.roleId);
+    const best = DraftPlanner.rankLineups(enemyRoleIds, locked, current)[0];
+    if (!best || best.score <= DraftPlanner.scoreLineup(current, enemyRoleIds)) {
+      return null;
+    }
+
+    // 按我方当前阵容的顺序排列，换下的位置填入同类型的新武将
+    return current.map(roleId => best.roleIds[DraftPlanner.slotOf(roleId)] ?? roleId);
+  }
+}
+
+export default DraftPlanner;
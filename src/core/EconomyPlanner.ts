@@ -0,0 +1,277 @@
+/**
+ * 经济规划
+ * ========
+ *
+ * 粮草的收支集中在这里预测和分配，取代各条件节点各自的粮草阈值：
+ * - 收入：计划攻陷的城寨（100/200/400）、计划击杀的敌方英雄（120），超过上限1500的部分作废
+ * - 支出：守旗维护（每回合每名武将2、每名士兵1）、本回合的 MAKE/FORM
+ *
+ * 先按收入和守旗维护预测未来 N 回合的粮草，得出守旗需要预留的粮草，
+ * 剩余部分按 守旗 → 生产士兵 → 变阵 的优先级分配预算，再把预算作为本回合支出重新预测一遍。
+ * 守旗的英雄取据点计划（FlagController）中的驻守名单，放弃据点时不预留维护费。
+ * 团队黑板每回合构建一次（getEconomyPlan），NeedMoreTroops、ExecuteTroopProduction
+ * 和 ShouldChangeFormation 都按这份预算决策。
+ *
+ * @author AI游戏框架开发团队
+ * @version 1.0.0
+ */
+
+import type { TeamBlackboard } from './TeamBlackboard';
+import { CITY_CONFIG, ECONOMY } from './GameConstants';
+import { HERO_ATTACK_RANGE } from './GameEngine';
+import { craneWingFormation } from '../models/units';
+
+/** 默认预测回合数 */
+export const DEFAULT_HORIZON = 10;
+
+/** 守旗预留的回合数：更远的维护费由届时的收入承担 */
+export const FLAG_RESERVE_ROUNDS = 3;
+
+/** 城寨ID → 攻陷奖励 */
+const CITY_REWARDS: Record<number, number> = {
+  [CITY_CONFIG.SMALL_CITY.ROLE_ID]: CITY_CONFIG.SMALL_CITY.REWARD,
+  [CITY_CONFIG.MIDDLE_CITY.ROLE_ID]: CITY_CONFIG.MIDDLE_CITY.REWARD,
+  [CITY_CONFIG.BIG_CITY.ROLE_ID]: CITY_CONFIG.BIG_CITY.REWARD
+};
+
+type HeroData = ReturnType<TeamBlackboard['getMyHeroes']>[number];
+
+/**
+ * 粮草收支事件，收入为正、支出为负
+ */
+export interface FoodEvent {
+  round: number;                        // 结算的回合
+  amount: number;
+  source: 'city' | 'hero' | 'make' | 'form';
+}
+
+/**
+ * 规划输入
+ */
+export interface EconomyInput {
+  round: number;                        // 当前回合
+  supplies: number;                     // 当前粮草
+  morale: number;                       // 当前士气
+  events: FoodEvent[];                  // 预计的收入和已确定的支出
+  heroCount: number;                    // 守旗的武将数
+  soldierCount: number;                 // 守旗的士兵数
+  flagFrom: number | null;              // 从哪个回合开始守旗，不守旗为 null
+  missingSoldiers: number;              // 存活英雄距统帅上限还差的士兵数
+  horizon?: number;                     // 预测回合数，默认 DEFAULT_HORIZON
+}
+
+/**
+ * 某回合结算后的粮草预测
+ */
+export interface ForecastPoint {
+  round: number;
+  supplies: number;                     // 该回合结算后的粮草
+  income: number;                       // 实际入账的收入（已扣除超出上限的部分）
+  wasted: number;                       // 超出上限作废的收入
+  spending: number;                     // MAKE/FORM 支出
+  upkeep: number;                       // 实际支付的守旗维护费
+  upkeepMissed: boolean;                // 粮草不足以支付维护费，该回合不计占领
+}
+
+/**
+ * 本回合的粮草预算
+ */
+export interface EconomyBudgets {
+  flag: number;                         // 守旗预留
+  production: number;                   // 生产士兵
+  formation: number;                    // 变阵
+}
+
+/**
+ * 经济规划结果
+ */
+export interface EconomyPlan {
+  round: number;
+  supplies: number;
+  flagUpkeep: number;                   // 按当前兵力守旗的每回合维护费
+  budgets: EconomyBudgets;
+  forecast: ForecastPoint[];            // 按预算花费后的粮草预测
+  wasted: number;                       // 预测期内超出上限作废的粮草
+}
+
+/**
+ * 经济规划器
+ */
+export class EconomyPlanner {
+  /**
+   * 守旗每回合的维护费
+   */
+  static flagUpkeep(heroCount: number, soldierCount: number): number {
+    return heroCount * ECONOMY.FLAG_MAINTAIN_COST_GENERAL + soldierCount * ECONOMY.FLAG_MAINTAIN_COST_TROOP;
+  }
+
+  /**
+   * 预测未来若干回合的粮草，结算顺序与规则引擎一致：MAKE/FORM → 击杀与城寨奖励 → 守旗维护
+   * @param input 规划输入
+   * @param spending 本回合额外的支出
+   */
+  static forecast(input: EconomyInput, spending: number = 0): ForecastPoint[] {
+    const horizon = input.horizon ?? DEFAULT_HORIZON;
+    const upkeep = EconomyPlanner.flagUpkeep(input.heroCount, input.soldierCount);
+    const points: ForecastPoint[] = [];
+    let supplies = input.supplies;
+
+    for (let round = input.round; round < input.round + horizon; round++) {
+      const events = input.events.filter(event => event.round === round);
+      const spent = events.filter(event => event.amount < 0).reduce((sum, event) => sum - event.amount, 0)
+        + (round === input.round ? spending : 0);
+      supplies = Math.max(0, supplies - spent);
+
+      const earned = events.filter(event => event.amount > 0).reduce((sum, event) => sum + event.amount, 0);
+      const income = Math.min(earned, Math.max(0, ECONOMY.MAX_FOOD - supplies));
+      supplies += income;
+
+      const holding = input.flagFrom !== null && round >= input.flagFrom && upkeep > 0;
+      const paid = holding && supplies >= upkeep ? upkeep : 0;
+      supplies -= paid;
+
+      points.push({
+        round,
+        supplies,
+        income,
+        wasted: earned - income,
+        spending: spent,
+        upkeep: paid,
+        upkeepMissed: holding && paid === 0
+      });
+    }
+    return points;
+  }
+
+  /**
+   * 分配本回合的粮草预算
+   * @param input 规划输入
+   */
+  static plan(input: EconomyInput): EconomyPlan {
+    const flagUpkeep = EconomyPlanner.flagUpkeep(input.heroCount, input.soldierCount);
+
+    // 守旗预留：不花钱时未来几回合粮草的最低点，高出的部分才能动用
+    const baseline = EconomyPlanner.forecast({ ...input, horizon: FLAG_RESERVE_ROUNDS });
+    const trough = Math.min(input.supplies, ...baseline.map(point => point.supplies - (point.upkeepMissed ? flagUpkeep : 0)));
+    let flag = input.supplies - Math.max(0, trough);
+    let free = input.supplies - flag;
+
+    // 生产：新兵除了20粮草，守旗时每回合还要多付1粮草维护费
+    const flagRounds = baseline.filter(point => point.upkeep > 0 || point.upkeepMissed).length;
+    const soldierUpkeep = flagRounds * ECONOMY.FLAG_MAINTAIN_COST_TROOP;
+    const soldiers = Math.min(input.missingSoldiers, Math.floor(free / (ECONOMY.TROOP_COST + soldierUpkeep)));
+    const production = soldiers * ECONOMY.TROOP_COST;
+    flag += soldiers * soldierUpkeep;
+    free -= production + soldiers * soldierUpkeep;
+
+    // 变阵：每次消耗100粮草和50士气
+    const formations = Math.min(
+      Math.floor(free / craneWingFormation.supplyCost),
+      Math.floor(input.morale / craneWingFormation.moraleCost)
+    );
+    const formation = Math.max(0, formations) * craneWingFormation.supplyCost;
+
+    const forecast = EconomyPlanner.forecast(
+      { ...input, soldierCount: input.soldierCount + soldiers },
+      production + formation
+    );
+
+    return {
+      round: input.round,
+      supplies: input.supplies,
+      flagUpkeep,
+      budgets: { flag, production, formation },
+      forecast,
+      wasted: forecast.reduce((sum, point) => sum + point.wasted, 0)
+    };
+  }
+
+  /**
+   * 根据团队黑板构建本回合的经济规划
+   * 收入取黑板上的城寨攻击目标和集火的敌方英雄，按全队火力估算攻陷/击杀的回合；
+   * 据点开放后按据点计划的驻守英雄计算维护费，在预测期内开放时按全队存活英雄计算
+   * @param blackboard 团队黑板
+   * @param horizon 预测回合数
+   */
+  static fromBlackboard(blackboard: TeamBlackboard, horizon: number = DEFAULT_HORIZON): EconomyPlan {
+    const round = blackboard.getCurrentRound();
+    const player = blackboard.getMyPlayerData();
+    const heroes = blackboard.getMyAliveHeroes();
+    const flagPlan = blackboard.getFlagPlan();
+
+    let holders = heroes;
+    let flagFrom: number | null = null;
+    if (flagPlan.mode === 'WAIT') {
+      const opensAt = flagPlan.status.opensAt;
+      flagFrom = opensAt !== null && opensAt < round + horizon ? opensAt : null;
+    } else if (flagPlan.mode !== 'CONCEDE') {
+      holders = heroes.filter(hero => flagPlan.holders.includes(hero.roleId));
+      flagFrom = round;
+    }
+    if (heroes.length === 0) {
+      flagFrom = null;
+    }
+
+    return EconomyPlanner.plan({
+      round,
+      supplies: player?.supplies ?? 0,
+      morale: player?.morale ?? 0,
+      events: EconomyPlanner.plannedIncome(blackboard, round, horizon),
+      heroCount: holders.length,
+      soldierCount: holders.reduce((sum, hero) => sum + hero.totalSoldierCount, 0),
+      flagFrom,
+      missingSoldiers: heroes.reduce((sum, hero) => sum + Math.max(0, hero.commander - hero.totalSoldierCount), 0),
+      horizon
+    });
+  }
+
+  /**
+   * 黑板上已计划的城寨攻陷和英雄击杀收入
+   */
+  private static plannedIncome(blackboard: TeamBlackboard, round: number, horizon: number): FoodEvent[] {
+    const heroes = blackboard.getMyAliveHeroes();
+    const power = heroes.reduce((sum, hero) => sum + EconomyPlanner.attackPower(hero), 0);
+    if (power <= 0) {
+      return [];
+    }
+
+    const events: FoodEvent[] = [];
+    const cityTarget = blackboard.getCityAttackTarget();
+    const city = cityTarget?.position
+      ? blackboard.getCities().find(c => c.position?.x === cityTarget.position!.x && c.position?.y === cityTarget.position!.y)
+      : undefined;
+    if (city && city.position && city.life > 0 && CITY_REWARDS[city.roleId]) {
+      const killRound = round + EconomyPlanner.roundsToReach(heroes, city.position) + Math.ceil(city.life / power) - 1;
+      events.push({ round: killRound, amount: CITY_REWARDS[city.roleId], source: 'city' });
+    }
+
+    const heroTarget = blackboard.getFocusTarget()?.heroTarget;
+    const enemy = heroTarget ? blackboard.getEnemyAliveHeroes().find(e => e.roleId === heroTarget.roleId) : undefined;
+    if (enemy && enemy.position) {
+      const durability = enemy.life + enemy.soldiers.reduce((sum, soldier) => sum + soldier.life, 0);
+      const killRound = round + EconomyPlanner.roundsToReach(heroes, enemy.position) + Math.ceil(durability / power) - 1;
+      events.push({ round: killRound, amount: ECONOMY.KILL_GENERAL_REWARD, source: 'hero' });
+    }
+
+    return events.filter(event => event.round < round + horizon);
+  }
+
+  /**
+   * 最近的我方英雄走到攻击距离内需要的回合数（每回合移动1格）
+   */
+  private static roundsToReach(heroes: HeroData[], target: { x: number; y: number }): number {
+    const distances = heroes
+      .filter(hero => hero.position)
+      .map(hero => Math.max(Math.abs(hero.position!.x - target.x), Math.abs(hero.position!.y - target.y)));
+    return distances.length > 0 ? Math.max(0, Math.min(...distances) - HERO_ATTACK_RANGE) : 0;
+  }
+
+  /**
+   * 英雄连同所带士兵每回合的攻击力
+   */
+  private static attackPower(hero: HeroData): number {
+    return hero.attack + hero.soldiers.reduce((sum, soldier) => sum + soldier.attack, 0);
+  }
+}
+
+export default EconomyPlanner;
@@ -0,0 +1,264 @@
+/**
+ * 据点争夺
+ * ========
+ *
+ * 主要胜利条件是累计占领据点（中央3×3区域）60回合。每回合根据双方的占领回合数、
+ * 据点内外的英雄数量和粮草决定据点的处理方式：
+ * - WAIT：据点未开放
+ * - CONTEST：我方能凑出多数，全员前往据点争夺；粮草付不起维护费时先攒粮（敌方即将获胜时除外）
+ * - HOLD：我方占领且人数占优，驻守并继续发送AC
+ * - CONCEDE：存活英雄凑不出多数，暂时放弃据点
+ *
+ * 占领需要区域内英雄数量多于敌方（相等无效），"多数"按据点内和附近的敌方英雄计算。
+ * 维护费按驻守英雄计算（每回合每名武将2、每名士兵1），粮草不足时只保持占领、不累计回合，
+ * 所以驻守时粮草不够全员留守，只留下凑够多数所需的、带兵最少的英雄，其余英雄离开据点。
+ *
+ * 双方都无法在第1000回合前凑满60回合时进入残局，胜负改由第1000回合的占领回合数决定：
+ * - DEFEND：我方领先，全员驻守据点，阻止敌方累计回合（剩余回合不足以被反超时领先已锁定）
+ * - ALL_IN：我方持平或落后，不计粮草和人数全力争夺据点
+ *
+ * @author AI游戏框架开发团队
+ * @version 1.0.0
+ */
+
+import type { TeamBlackboard } from './TeamBlackboard';
+import { GAME_RULES, STRONGHOLD_CONFIG } from './GameConstants';
+import { EconomyPlanner, FLAG_RESERVE_ROUNDS } from './EconomyPlanner';
+
+/** 敌方英雄距据点中心在此范围内时计入需要压过的人数 */
+export const FLAG_THREAT_DISTANCE = 3;
+
+/** 敌方距离获胜不超过这么多回合时必须争夺 */
+export const FLAG_RACE_ALARM_ROUNDS = 10;
+
+type GameStateData = NonNullable<ReturnType<TeamBlackboard['getGameStateSnapshot']>>;
+type HeroData = GameStateData['players'][number]['roles'][number];
+
+/**
+ * 据点处理方式
+ */
+export type FlagMode = 'WAIT' | 'CONTEST' | 'HOLD' | 'CONCEDE';
+
+/**
+ * 残局模式
+ */
+export type EndgameMode = 'ALL_IN' | 'DEFEND';
+
+/**
+ * 双方的据点争夺态势
+ */
+export interface FlagStatus {
+  round: number;
+  isOpen: boolean;
+  opensAt: number | null;               // 开放回合，没有据点时为 null
+  holder: 'OURS' | 'ENEMY' | 'NEUTRAL';
+  myRounds: number;                     // 我方已累计的占领回合
+  enemyRounds: number;
+  myOnFlag: number;                     // 据点区域内的英雄数
+  enemyOnFlag: number;
+  enemyNearFlag: number;                // 据点内及附近的敌方英雄数
+  heroesNeeded: number;                 // 压过敌方需要的英雄数
+  arrivalRounds: number;                // 凑够所需英雄进入据点还要走的回合数
+  myVictoryRound: number | null;        // 从现在起持续占领时的获胜回合，超过最大回合数为 null
+  enemyVictoryRound: number | null;     // 敌方保持占领时的获胜回合，敌方未占领为 null
+  roundsLeft: number;                   // 包括本回合在内的剩余回合
+}
+
+/**
+ * 本回合的据点计划
+ */
+export interface FlagPlan {
+  status: FlagStatus;
+  mode: FlagMode;
+  sendAC: boolean;                      // 本回合是否发送AC
+  holders: number[];                    // 应驻守据点的英雄ID
+  upkeep: number;                       // 驻守英雄每回合的维护费
+  affordable: boolean;                  // 粮草够支付 FLAG_RESERVE_ROUNDS 回合的维护费
+  raceAlarm: boolean;                   // 敌方即将获胜
+  endgame: EndgameMode | null;          // 双方都凑不满60回合时的残局模式
+  reason: string;
+}
+
+/**
+ * 据点争夺控制器
+ */
+export class FlagController {
+  /**
+   * 根据团队黑板制定本回合的据点计划
+   */
+  static fromBlackboard(blackboard: TeamBlackboard): FlagPlan {
+    return FlagController.plan(blackboard.getGameStateSnapshot(), blackboard.getPlayerId());
+  }
+
+  /**
+   * 制定据点计划
+   * @param gameState 解析后的游戏状态
+   * @param playerId 我方玩家ID
+   */
+  static plan(gameState: GameStateData | null, playerId: number): FlagPlan {
+    const status = FlagController.status(gameState, playerId);
+    const me = gameState?.players.find(p => p.playerId === playerId);
+    const myHeroes = (me?.roles ?? []).filter(hero => hero.isAlive && hero.position);
+    const supplies = me?.supplies ?? 0;
+    const raceAlarm = status.enemyVictoryRound !== null
+      && status.enemyVictoryRound - status.round < FLAG_RACE_ALARM_ROUNDS;
+    const endgame = FlagController.endgame(status);
+    const plan = (mode: FlagMode, holders: HeroData[], reason: string, affordable: boolean = true): FlagPlan => ({
+      status,
+      mode,
+      sendAC: status.isOpen && status.myOnFlag > status.enemyOnFlag,
+      holders: holders.map(hero => hero.roleId),
+      upkeep: FlagController.upkeepOf(holders),
+      affordable,
+      raceAlarm,
+      endgame,
+      reason
+    });
+
+    if (!status.isOpen) {
+      return plan('WAIT', [], status.opensAt === null ? '没有据点' : `据点第${status.opensAt}回合开放`);
+    }
+
+    const canAfford = (heroes: HeroData[]) => supplies >= FlagController.upkeepOf(heroes) * FLAG_RESERVE_ROUNDS;
+    const holding = status.holder === 'OURS' && status.myOnFlag > status.enemyOnFlag;
+
+    // 残局只看占领回合，全员上阵，不因粮草或人数放弃
+    if (endgame) {
+      return plan(holding ? 'HOLD' : 'CONTEST', myHeroes, FlagController.endgameReason(status), canAfford(myHeroes));
+    }
+    if (myHeroes.length < status.heroesNeeded) {
+      return plan('CONCEDE', [], `需要${status.heroesNeeded}名英雄压过敌方，我方仅${myHeroes.length}名存活`);
+    }
+
+    if (holding) {
+      // 全员驻守付不起维护费时，只留凑够多数所需的、带兵最少的英雄（已在据点内的优先）
+      const onFlag = (hero: HeroData) => FlagController.isOnFlag(hero.position, gameState);
+      const holders = canAfford(myHeroes) ? myHeroes : [...myHeroes]
+        .sort((a, b) => a.totalSoldierCount - b.totalSoldierCount || Number(onFlag(b)) - Number(onFlag(a)))
+        .slice(0, Math.max(status.heroesNeeded, status.enemyOnFlag + 1));
+      const affordable = canAfford(holders);
+      return plan('HOLD', holders, affordable ? '我方占领据点，继续驻守' : '粮草不足，驻守据点但暂停累计占领回合', affordable);
+    }
+
+    const affordable = canAfford(myHeroes);
+    const reason = raceAlarm ? `敌方将在第${status.enemyVictoryRound}回合获胜，必须争夺据点`
+      : affordable ? `需要${status.heroesNeeded}名英雄压过敌方，全员争夺据点`
+      : '粮草不足以支付据点维护费，先攒粮再争夺';
+    return plan('CONTEST', myHeroes, reason, affordable);
+  }
+
+  /**
+   * 统计双方的据点争夺态势
+   * @param gameState 解析后的游戏状态
+   * @param playerId 我方玩家ID
+   */
+  static status(gameState: GameStateData | null, playerId: number): FlagStatus {
+    const round = gameState?.round ?? 0;
+    const stronghold = gameState?.stronghold ?? null;
+    const me = gameState?.players.find(p => p.playerId === playerId);
+    const enemy = gameState?.players.find(p => p.playerId !== playerId);
+    const myHeroes = (me?.roles ?? []).filter(hero => hero.isAlive && hero.position);
+    const enemyHeroes = (enemy?.roles ?? []).filter(hero => hero.isAlive && hero.position);
+
+    const myCamp = me?.roles[0]?.camp;
+    const enemyCamp = enemy?.roles[0]?.camp ?? (myCamp === 0 || myCamp === 1 ? 1 - myCamp : undefined);
+    const occupied = stronghold?.occupiedRound ?? [];
+    const myRounds = myCamp === undefined ? 0 : occupied[myCamp] ?? 0;
+    const enemyRounds = enemyCamp === undefined ? 0 : occupied[enemyCamp] ?? 0;
+    const holder = !stronghold ? 'NEUTRAL'
+      : stronghold.camp === myCamp ? 'OURS'
+      : stronghold.camp === enemyCamp ? 'ENEMY'
+      : 'NEUTRAL';
+
+    const isOpen = !!stronghold?.position && stronghold.position.x >= 0
+      && (stronghold.isAvailable || round >= STRONGHOLD_CONFIG.OPEN_ROUND);
+    const distances = isOpen ? myHeroes.map(hero => FlagController.distanceToFlag(hero, gameState!)).sort((a, b) => a - b) : [];
+    const enemyDistances = isOpen ? enemyHeroes.map(hero => FlagController.distanceToFlag(hero, gameState!)) : [];
+    const myOnFlag = distances.filter(d => d <= 1).length;
+    const enemyOnFlag = enemyDistances.filter(d => d <= 1).length;
+    const enemyNearFlag = enemyDistances.filter(d => d <= FLAG_THREAT_DISTANCE).length;
+    const heroesNeeded = enemyNearFlag + 1;
+    const arrivalRounds = distances.length >= heroesNeeded ? Math.max(0, distances[heroesNeeded - 1] - 1) : 0;
+
+    const roundsLeft = Math.max(0, GAME_RULES.MAX_TURNS - round + 1);
+    const myVictoryRound = round + arrivalRounds + (STRONGHOLD_CONFIG.VICTORY_ROUNDS - myRounds) - 1;
+    const enemyHolding = holder === 'ENEMY' && enemyOnFlag > myOnFlag;
+
+    return {
+      round,
+      isOpen,
+      opensAt: stronghold ? Math.max(round, STRONGHOLD_CONFIG.OPEN_ROUND) : null,
+      holder,
+      myRounds,
+      enemyRounds,
+      myOnFlag,
+      enemyOnFlag,
+      enemyNearFlag,
+      heroesNeeded,
+      arrivalRounds,
+      myVictoryRound: myVictoryRound <= GAME_RULES.MAX_TURNS ? myVictoryRound : null,
+      enemyVictoryRound: enemyHolding ? round + (STRONGHOLD_CONFIG.VICTORY_ROUNDS - enemyRounds) - 1 : null,
+      roundsLeft
+    };
+  }
+
+  /**
+   * 判断是否进入残局：据点已开放，且双方在剩余回合内都凑不满60回合
+   * @returns 我方领先时 DEFEND，持平或落后时 ALL_IN，未进入残局为 null
+   */
+  static endgame(status: FlagStatus): EndgameMode | null {
+    const reachable = (rounds: number) => STRONGHOLD_CONFIG.VICTORY_ROUNDS - rounds <= status.roundsLeft;
+    if (!status.isOpen || reachable(status.myRounds) || reachable(status.enemyRounds)) {
+      return null;
+    }
+    return status.myRounds > status.enemyRounds ? 'DEFEND' : 'ALL_IN';
+  }
+
+  /**
+   * 残局模式的说明
+   */
+  private static endgameReason(status: FlagStatus): string {
+    const lead = status.myRounds - status.enemyRounds;
+    const left = status.roundsLeft;
+    if (lead > left) {
+      return `残局：领先${lead}回合，剩余${left}回合已无法被反超，驻守据点`;
+    }
+    if (lead > 0) {
+      return `残局：领先${lead}回合，剩余${left}回合敌方仍可反超，全员驻守据点`;
+    }
+    if (lead === 0) {
+      return `残局：占领回合持平，剩余${left}回合，全力争夺据点`;
+    }
+    return -lead < left
+      ? `残局：落后${-lead}回合，剩余${left}回合仍可反超，全力争夺据点`
+      : `残局：落后${-lead}回合，剩余${left}回合已无法反超，全力争夺据点`;
+  }
+
+  /**
+   * 英雄所在位置是否在据点区域内
+   */
+  static isOnFlag(position: { x: number; y: number } | null, gameState: GameStateData | null): boolean {
+    const center = gameState?.stronghold?.position;
+    if (!position || !center || center.x < 0) {
+      return false;
+    }
+    return Math.max(Math.abs(position.x - center.x), Math.abs(position.y - center.y)) <= 1;
+  }
+
+  /**
+   * 英雄到据点中心的切比雪夫距离
+   */
+  private static distanceToFlag(hero: HeroData, gameState: GameStateData): number {
+    const center = gameState.stronghold!.position!;
+    return Math.max(Math.abs(hero.position!.x - center.x), Math.abs(hero.position!.y - center.y));
+  }
+
+  /**
+   * 驻守英雄每回合的维护费
+   */
+  private static upkeepOf(heroes: HeroData[]): number {
+    return EconomyPlanner.flagUpkeep(heroes.length, heroes.reduce((sum, hero) => sum + hero.totalSoldierCount, 0));
+  }
+}
+
+export default FlagController;
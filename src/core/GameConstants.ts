@@ -319,9 +319,9 @@ export const ECONOMY = {
     INITIAL_FOOD: 100,           // 初始粮草
     MAX_FOOD: 1500,              // 粮草上限
     TROOP_COST: 20,              // 生产士兵成本
-    KILL_GENERAL_REWARD: 100,    // 击杀武将奖励
-    FLAG_MAINTAIN_COST_GENERAL: 5,   // 武将据点维护成本
-    FLAG_MAINTAIN_COST_TROOP: 2      // 士兵据点维护成本
+    KILL_GENERAL_REWARD: 120,    // 击杀武将奖励
+    FLAG_MAINTAIN_COST_GENERAL: 2,   // 武将据点维护成本（每回合）
+    FLAG_MAINTAIN_COST_TROOP: 1      // 士兵据点维护成本（每回合）
 } as const;
 
 // ========== 玩家常量 ==========
@@ -1,908 +1,1126 @@
-import GameMap from './GameMap';
-import General from '../entities/General';
-import {
-  GAME_RULES,
-  ECONOMY,
-  PLAYERS,
-  COMMANDS,
-  TERRAIN_TYPES,
-  CITIES,
-  FORMATIONS,
-  BUFFS,
-  calculateDistance
-} from './GameConstants';
+/**
+ * 游戏规则引擎
+ * =============
+ *
+ * 以 inquire 消息数据为状态，按照协议规定的结算顺序推进回合：
+ * PICK > BUFF > MAKE > FORM > SK > AD & SG > SP > MOVE > AC
+ *
+ * - SK 与 AD、SG 冲突时以 SK 为准；AD 与 SG 互斥，以先发送者为准
+ * - SP 与 MOVE 冲突时以 SP 为准
+ * - 伤害在回合末统一结算，由 DamageCalculator 按盾兵 → 弓兵 → 英雄的顺序承伤
+ * - 技能效果由 SkillRegistry 预测后结算，蓄力、持续伤害等延迟效果在到期回合的 SK 阶段生效
+ *
+ * 引擎不含随机因素，相同输入总是得到相同的下一回合 inquire 数据，
+ * 可供本地服务器和离线测试使用。
+ *
+ * @author AI游戏框架开发团队
+ * @version 1.0.0
+ */
+
+import { HeroStatus } from '../models/inquireMsg';
+import type { CityProp, InquireMessageData, Player, Position, Role, Soldier } from '../models/inquireMsg';
+import type { ActionCommand } from '../models/actionMsg';
+import { generals } from '../models/heros';
+import { archer, craneWingFormation, moraleRules, shieldSoldier } from '../models/units';
+import { CITY_CONFIG, ECONOMY, GAME_RULES, STRONGHOLD_CONFIG, TERRAIN_TYPES } from './GameConstants';
+import { DamageCalculator } from './DamageCalculator';
+import type { AttackModifiers, DefenseModifiers } from './DamageCalculator';
+import { SkillRegistry } from './SkillRegistry';
+import type { SkillEffect, SkillHit, SkillOutcome, SkillStatus } from './SkillRegistry';
+
+/**
+ * 引擎使用的地图数据（与 start 消息中的 map 字段一致）
+ */
+export interface EngineMapData {
+  data: string;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * 参战玩家
+ */
+export interface EnginePlayer {
+  playerId: number;
+  camp: number;  // 0：红方/1：蓝方
+}
+
+/**
+ * 玩家对局统计，用于生成 over 消息
+ */
+export interface PlayerStats {
+  killedNum: number;                    // 击杀总数（小兵+英雄）
+  destroyTowerNum: number;              // 攻陷城寨数
+  heroKills: Record<number, number>;    // 各英雄击杀数，键为 roleId
+}
+
+/**
+ * 持续生效的 BUFF
+ */
+interface ActiveBuff {
+  buffType: number;
+  remainingRounds: number;
+}
+
+/**
+ * 待重生的城寨
+ */
+interface CityRespawn {
+  city: CityProp;
+  respawnRound: number;
+}
+
+/**
+ * 回合末待结算的伤害
+ */
+interface PendingDamage {
+  sourcePlayerId: number;
+  sourceRoleId: number;
+  targetPlayerId: number;
+  targetRoleId: number;
+  amount: number;           // 减伤前伤害
+  directToHero?: boolean;   // 小兵不承伤
+  soldiersOnly?: boolean;   // 只对小兵造成伤害
+  shieldDamageRatio?: number;
+  execute?: boolean;        // 直接击杀
+}
+
+/**
+ * 技能带来的持续增益
+ */
+interface ActiveSkillEffect {
+  role: Role;
+  modifiers: SkillEffect;
+  remainingRounds: number;
+}
+
+/**
+ * 延迟生效的技能效果（蓄力、持续伤害、延迟状态、传送标记）
+ */
+interface ScheduledSkillEffect {
+  round: number;
+  sourcePlayerId: number;
+  caster: Role;
+  hit?: SkillHit;
+  status?: { target: Role; status: SkillStatus; duration: number };
+  teleport?: { target: Role; position: Position };
+}
+
+/** 默认阵容（按阵营下标），可在第1回合通过 PICK 替换 */
+export const DEFAULT_ROLES: number[][] = [
+  [40, 43, 46],
+  [41, 44, 47]
+];
+
+/** 可发送 BUFF 的回合 */
+export const BUFF_ROUNDS = [100, 150, 200];
+
+/** 英雄普通攻击、攻城距离 */
+export const HERO_ATTACK_RANGE = 3;
+/** 传送距离与冷却回合 */
+export const TELEPORT_RANGE = 10;
+export const TELEPORT_COOLDOWN = 60;
+
+const NEUTRAL_CAMP = STRONGHOLD_CONFIG.NEUTRAL_CAMP;
+const REVIVE_ROUNDS = 5;
+const MAX_MORALE = moraleRules.maxMorale;
+const FORMATION_MORALE_COST = craneWingFormation.moraleCost;
+const FORMATION_FOOD_COST = craneWingFormation.supplyCost;
+const CLOSED_STRONGHOLD_POSITION: Position = { x: -1, y: -1 };
+
+/** 城寨属性，按 roleId 索引 */
+const CITY_STATS: Record<number, { maxLife: number; damage: number; range: number; reward: number }> = {
+  [CITY_CONFIG.SMALL_CITY.ROLE_ID]: {
+    maxLife: CITY_CONFIG.SMALL_CITY.MAX_LIFE,
+    damage: CITY_CONFIG.SMALL_CITY.DAMAGE,
+    range: CITY_CONFIG.SMALL_CITY.ATTACK_RANGE,
+    reward: CITY_CONFIG.SMALL_CITY.REWARD
+  },
+  [CITY_CONFIG.MIDDLE_CITY.ROLE_ID]: {
+    maxLife: CITY_CONFIG.MIDDLE_CITY.MAX_LIFE,
+    damage: CITY_CONFIG.MIDDLE_CITY.DAMAGE,
+    range: CITY_CONFIG.MIDDLE_CITY.ATTACK_RANGE,
+    reward: CITY_CONFIG.MIDDLE_CITY.REWARD
+  },
+  [CITY_CONFIG.BIG_CITY.ROLE_ID]: {
+    maxLife: CITY_CONFIG.BIG_CITY.MAX_LIFE,
+    damage: CITY_CONFIG.BIG_CITY.DAMAGE,
+    range: CITY_CONFIG.BIG_CITY.ATTACK_RANGE,
+    reward: CITY_CONFIG.BIG_CITY.REWARD
+  }
+};
+
+/** 兵种属性，按 roleId 索引 */
+const SOLDIER_STATS: Record<number, { attack: number; life: number }> = {
+  [archer.id]: { attack: archer.attack, life: archer.health },
+  [shieldSoldier.id]: { attack: shieldSoldier.attack, life: shieldSoldier.health }
+};
+
+/**
+ * 切比雪夫距离
+ */
+function distance(a: Position, b: Position): number {
+  return Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+}
+
+function samePosition(a: Position, b: Position): boolean {
+  return a.x === b.x && a.y === b.y;
+}
 
 /**
- * 游戏引擎类
- * 负责游戏状态管理、回合系统、玩家操作处理和胜负判定
+ * 游戏规则引擎类
  */
-export default class GameEngine {
-  constructor() {
-    // 游戏基础状态
-    this.currentTurn = 1;
-    this.gameState = 'preparing'; // preparing, running, finished
-    this.winner = null;
-    
-    // 初始化地图
-    this.map = new GameMap();
-    
-    // 玩家数据
-    this.players = {
-      [PLAYERS.PLAYER1]: {
-        id: PLAYERS.PLAYER1,
-        name: '玩家1',
-        generals: new Map(),        // 武将列表
-        food: ECONOMY.INITIAL_FOOD, // 粮草
-        morale: 0,                  // 士气
-        formation: null,            // 当前阵型
-        flagControlTurns: 0,        // 控制龙旗据点的回合数
-        basePosition: { x: 5, y: 5 }, // 基地位置
-        availableBuffs: [],         // 可选择的BUFF
-        nextBuffTurn: 100           // 下次可选择BUFF的回合
-      },
-      [PLAYERS.PLAYER2]: {
-        id: PLAYERS.PLAYER2,
-        name: '玩家2',
-        generals: new Map(),
-        food: ECONOMY.INITIAL_FOOD,
-        morale: 0,
-        formation: null,
-        flagControlTurns: 0,
-        basePosition: { x: this.map.width - 6, y: this.map.height - 6 },
-        availableBuffs: [],
-        nextBuffTurn: 100
+export class GameEngine {
+  private state: InquireMessageData;
+  private readonly map: EngineMapData;
+  private readonly cells: number[];
+  private readonly players: EnginePlayer[];
+  private readonly bases: Map<number, Position> = new Map();       // 阵营 → 主基地
+  private readonly flagCenter: Position;
+  private readonly teleportCooldowns: Map<string, number> = new Map();
+  private readonly activeBuffs: Map<number, ActiveBuff[]> = new Map();
+  private readonly usedBuffRounds: Set<string> = new Set();
+  private readonly charging: Map<Role, number> = new Map();         // 蓄力中的英雄 → 剩余回合
+  private skillEffects: ActiveSkillEffect[] = [];
+  private scheduledSkills: ScheduledSkillEffect[] = [];
+  private readonly stats: Map<number, PlayerStats> = new Map();
+  private cityRespawns: CityRespawn[] = [];
+  private winner: number | null = null;
+  private finished: boolean = false;
+
+  /**
+   * 构造函数
+   * @param map start 消息中的地图数据
+   * @param players 参战玩家及阵营
+   * @param initialRoles 各阵营初始英雄
+   */
+  constructor(map: EngineMapData, players: EnginePlayer[], initialRoles: number[][] = DEFAULT_ROLES) {
+    this.map = map;
+    this.cells = map.data.split(',').map(Number);
+    this.players = players;
+
+    const baseCells = this.findTerrain([TERRAIN_TYPES.BASE]).sort((a, b) => a.x - b.x);
+    if (baseCells.length === 0) {
+      throw new Error('地图中没有主基地');
+    }
+    this.bases.set(0, baseCells[0]);
+    this.bases.set(1, baseCells[baseCells.length - 1]);
+
+    // 3×3据点区域取中心格
+    const flagCells = this.findTerrain([TERRAIN_TYPES.FLAG]);
+    this.flagCenter = flagCells.length > 0
+      ? {
+        x: Math.round(flagCells.reduce((sum, p) => sum + p.x, 0) / flagCells.length),
+        y: Math.round(flagCells.reduce((sum, p) => sum + p.y, 0) / flagCells.length)
       }
-    };
-    
-    // 战斗日志
-    this.battleLog = [];
-    
-    // 游戏统计
-    this.gameStats = {
-      totalTurns: 0,
-      totalBattles: 0,
-      playerStats: {
-        [PLAYERS.PLAYER1]: { kills: 0, deaths: 0, damageDealt: 0, damageTaken: 0 },
-        [PLAYERS.PLAYER2]: { kills: 0, deaths: 0, damageDealt: 0, damageTaken: 0 }
+      : { ...CLOSED_STRONGHOLD_POSITION };
+
+    const cityProps: CityProp[] = this.findTerrain(Object.keys(CITY_STATS).map(Number)).map(position => {
+      const roleId = this.terrainAt(position);
+      return { roleId, position, life: CITY_STATS[roleId].maxLife };
+    });
+
+    this.state = {
+      round: 1,
+      players: players.map(p => {
+        this.stats.set(p.playerId, { killedNum: 0, destroyTowerNum: 0, heroKills: {} });
+        this.activeBuffs.set(p.playerId, []);
+        return {
+          playerId: p.playerId,
+          supplies: ECONOMY.INITIAL_FOOD,
+          morale: 0,
+          roles: initialRoles[p.camp].map(roleId => GameEngine.createRole(roleId, p.camp, this.bases.get(p.camp)!))
+        };
+      }),
+      cityProps,
+      stronghold: {
+        roleId: STRONGHOLD_CONFIG.ROLE_ID,
+        camp: NEUTRAL_CAMP,
+        occupiedRound: [0, 0],
+        position: { ...CLOSED_STRONGHOLD_POSITION }
       }
     };
-    
-    console.log('游戏引擎初始化完成');
   }
 
   /**
-   * 开始游戏
+   * 生成英雄初始数据
+   * @param roleId 英雄ID（40-48）
+   * @param camp 阵营
+   * @param position 出生位置（主基地）
    */
-  startGame() {
-    if (this.gameState !== 'preparing') {
-      throw new Error('游戏已经开始或已结束');
+  static createRole(roleId: number, camp: number, position: Position): Role {
+    const hero = generals.find(g => g.id === roleId);
+    if (!hero) {
+      throw new Error(`未知英雄ID: ${roleId}`);
     }
-    
-    this.gameState = 'running';
-    this.currentTurn = 1;
-    
-    this.addToLog('游戏开始！', 'system');
-    console.log('游戏正式开始！');
+
+    return {
+      roleId,
+      attack: hero.attack,
+      position: { ...position },
+      life: hero.health,
+      maxLife: hero.health,
+      camp,
+      reviveRound: 0,
+      formationType: 0,
+      commander: hero.command,
+      statuses: { [HeroStatus.NONE]: 0 } as Role['statuses'],
+      skills: [hero.skill1, hero.skill2].map((skill, index) => ({
+        skillId: roleId * 100 + index + 1,
+        cd: skill.cooldown,
+        cdRemainRound: 0,
+        damage: 0,
+        damageReduceRatio: 0,
+        damageAddByAttackRatio: 0,
+        roleId
+      })),
+      solderProps: []
+    };
   }
 
   /**
-   * 处理玩家操作
-   * @param {number} playerId - 玩家ID
-   * @param {Object} command - 命令对象
-   * @returns {Object} 操作结果
+   * 从已有的 inquire 数据创建引擎，用于前向模拟
+   * 传送冷却、BUFF、蓄力、延迟技能和城寨重生不在 inquire 中，视为没有
+   * @param map start 消息中的地图数据
+   * @param players 参战玩家及阵营
+   * @param state 当前回合的 inquire 数据
+   */
+  static fromState(map: EngineMapData, players: EnginePlayer[], state: InquireMessageData): GameEngine {
+    const engine = new GameEngine(map, players);
+    engine.state = structuredClone(state);
+    return engine;
+  }
+
+  // ========== 查询接口 ==========
+
+  /**
+   * 获取当前回合的 inquire 数据（深拷贝）
    */
-  processPlayerCommand(playerId, command) {
-    if (this.gameState !== 'running') {
-      return { success: false, message: '游戏未进行中' };
+  getState(): InquireMessageData {
+    return structuredClone(this.state);
+  }
+
+  /**
+   * 对局是否已结束
+   */
+  isFinished(): boolean {
+    return this.finished;
+  }
+
+  /**
+   * 获胜玩家ID，平局或未结束时为 null
+   */
+  getWinner(): number | null {
+    return this.winner;
+  }
+
+  /**
+   * 获取玩家对局统计
+   */
+  getPlayerStats(playerId: number): PlayerStats {
+    const stats = this.stats.get(playerId);
+    return stats
+      ? { ...stats, heroKills: { ...stats.heroKills } }
+      : { killedNum: 0, destroyTowerNum: 0, heroKills: {} };
+  }
+
+  // ========== 回合结算 ==========
+
+  /**
+   * 结算一个回合
+   * @param actionsByPlayer 各玩家本回合提交的行动，键为 playerId
+   * @returns 下一回合的 inquire 数据
+   */
+  step(actionsByPlayer: Map<number, ActionCommand[]>): InquireMessageData {
+    if (this.finished) {
+      return this.getState();
     }
-    
-    const player = this.players[playerId];
-    if (!player) {
-      return { success: false, message: '无效的玩家ID' };
+
+    const round = this.state.round;
+    const actions = new Map<number, ActionCommand[]>();
+    for (const player of this.state.players) {
+      actions.set(player.playerId, this.filterConflicts(actionsByPlayer.get(player.playerId) ?? []));
     }
-    
-    try {
-      const result = this._executeCommand(playerId, command);
-      
-      if (result.success) {
-        this.addToLog(`${player.name}: ${result.message}`, 'action');
+
+    const pendingDamage: PendingDamage[] = [];
+    const cityDamage = new Map<CityProp, Map<number, number>>();
+
+    this.forEachAction(actions, 'PICK', (player, action) => this.applyPick(player, action, round));
+    this.forEachAction(actions, 'BUFF', (player, action) => this.applyBuff(player, action, round));
+    this.forEachAction(actions, 'MAKE', (player, action) => this.applyMake(player, action));
+    this.forEachAction(actions, 'FORM', (player, action) => this.applyFormation(player, action));
+    this.releaseScheduledSkills(round, pendingDamage);
+    this.forEachAction(actions, 'SK', (player, action) => this.applySkill(player, action, round, pendingDamage));
+    this.forEachAction(actions, ['AD', 'SG'], (player, action) => {
+      if (action.action === 'AD') {
+        this.applyAttack(player, action, pendingDamage);
+      } else {
+        this.applySiege(player, action, cityDamage);
       }
-      
-      return result;
-    } catch (error) {
-      console.error('处理玩家命令时发生错误:', error);
-      return { success: false, message: error.message };
+    });
+    this.forEachAction(actions, 'SP', (player, action) => this.applyTeleport(player, action));
+    this.forEachAction(actions, 'MOVE', (player, action) => this.applyMove(player, action));
+    this.applyOccupation(actions, round);
+
+    this.settleCityAttacks(pendingDamage);
+    this.settleDamage(pendingDamage);
+    this.settleCities(cityDamage, round);
+    this.tickRound(round);
+    this.checkVictory(round);
+
+    this.state.round = round + 1;
+    if (this.state.round >= STRONGHOLD_CONFIG.OPEN_ROUND) {
+      this.state.stronghold.position = { ...this.flagCenter };
     }
+
+    return this.getState();
   }
 
   /**
-   * 执行具体的命令
-   * @param {number} playerId - 玩家ID
-   * @param {Object} command - 命令对象
-   * @returns {Object} 执行结果
-   * @private
+   * 过滤单个英雄的冲突指令：
+   * SK 存在时丢弃 AD/SG；AD 与 SG 只保留先出现的一条；SP 存在时丢弃 MOVE；
+   * 同一英雄的同类指令只保留第一条
    */
-  _executeCommand(playerId, command) {
-    const { type, data } = command;
-    
-    switch (type) {
-      case COMMANDS.PICK:
-        return this._handlePickGeneral(playerId, data);
-        
-      case COMMANDS.MAKE:
-        return this._handleMakeTroops(playerId, data);
-        
-      case COMMANDS.MOVE:
-        return this._handleMove(playerId, data);
-        
-      case COMMANDS.AD:
-        return this._handleAttack(playerId, data);
-        
-      case COMMANDS.SK:
-        return this._handleSkill(playerId, data);
-        
-      case COMMANDS.SP:
-        return this._handleTeleport(playerId, data);
-        
-      case COMMANDS.AC:
-        return this._handleOccupyFlag(playerId, data);
-        
-      case COMMANDS.SG:
-        return this._handleAttackCity(playerId, data);
-        
-      case COMMANDS.FORM:
-        return this._handleFormation(playerId, data);
-        
-      case COMMANDS.BUFF:
-        return this._handleBuff(playerId, data);
-        
-      default:
-        return { success: false, message: `未知命令类型: ${type}` };
-    }
+  private filterConflicts(actions: ActionCommand[]): ActionCommand[] {
+    const skillRoles = new Set(actions.filter(a => a.action === 'SK').map(a => a.roleId));
+    const teleportRoles = new Set(actions.filter(a => a.action === 'SP').map(a => a.roleId));
+    const attackTaken = new Set<number | undefined>();
+    const seen = new Set<string>();
+
+    return actions.filter(action => {
+      if (!action || typeof action.action !== 'string') {
+        return false;
+      }
+      if (action.roleId !== undefined) {
+        const key = `${action.roleId}:${action.action}`;
+        if (seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+      }
+      if (action.action === 'AD' || action.action === 'SG') {
+        if (skillRoles.has(action.roleId) || attackTaken.has(action.roleId)) {
+          return false;
+        }
+        attackTaken.add(action.roleId);
+      }
+      if (action.action === 'MOVE' && teleportRoles.has(action.roleId)) {
+        return false;
+      }
+      return true;
+    });
   }
 
   /**
-   * 处理选择武将命令
-   * @param {number} playerId - 玩家ID
-   * @param {Object} data - 命令数据
-   * @returns {Object} 处理结果
-   * @private
+   * 按玩家顺序遍历指定类型的指令
    */
-  _handlePickGeneral(playerId, data) {
-    const { generalName, position } = data;
-    const player = this.players[playerId];
-    
-    // 检查是否可以选择武将
-    if (player.generals.size >= GAME_RULES.MAX_GENERALS_PER_PLAYER) {
-      return { success: false, message: '已达到武将数量上限' };
-    }
-    
-    // 检查武将是否已被选择
-    for (const [, otherPlayer] of Object.entries(this.players)) {
-      for (const [, general] of otherPlayer.generals) {
-        if (general.name === generalName) {
-          return { success: false, message: '该武将已被选择' };
+  private forEachAction(
+    actions: Map<number, ActionCommand[]>,
+    names: ActionCommand['action'] | ActionCommand['action'][],
+    handler: (player: Player, action: ActionCommand) => void
+  ): void {
+    const accepted = Array.isArray(names) ? names : [names];
+    for (const player of this.state.players) {
+      for (const action of actions.get(player.playerId) ?? []) {
+        if (accepted.includes(action.action)) {
+          handler(player, action);
         }
       }
     }
-    
-    // 创建武将
-    const general = new General(generalName, playerId);
-    
-    // 设置位置
-    let targetX, targetY;
-    if (position) {
-      targetX = position.x;
-      targetY = position.y;
-    } else {
-      // 默认放置在基地附近
-      const basePos = player.basePosition;
-      targetX = basePos.x;
-      targetY = basePos.y;
-    }
-    
-    // 放置武将
-    if (this.map.placeUnit(targetX, targetY, general)) {
-      player.generals.set(general.id, general);
-      return { 
-        success: true, 
-        message: `成功选择武将 ${generalName}`,
-        generalId: general.id
-      };
-    } else {
-      return { success: false, message: '无法在指定位置放置武将' };
-    }
   }
 
   /**
-   * 处理生产士兵命令
-   * @param {number} playerId - 玩家ID
-   * @param {Object} data - 命令数据
-   * @returns {Object} 处理结果
-   * @private
+   * PICK：第1回合可任意选择；之后仅当有英雄复活剩余回合为1时，可替换阵亡英雄
    */
-  _handleMakeTroops(playerId, data) {
-    const { generalId, archers, shields } = data;
-    const player = this.players[playerId];
-    
-    const general = player.generals.get(generalId);
-    if (!general || !general.isAlive) {
-      return { success: false, message: '武将不存在或已阵亡' };
-    }
-    
-    const totalTroops = archers + shields;
-    const cost = totalTroops * ECONOMY.TROOP_COST;
-    
-    // 检查粮草是否足够
-    if (player.food < cost) {
-      return { success: false, message: '粮草不足' };
-    }
-    
-    // 检查统帅值上限
-    const currentTroops = general.troops.archers + general.troops.shields;
-    if (currentTroops + totalTroops > general.commandPower) {
-      return { success: false, message: '超过统帅值上限' };
-    }
-    
-    // 配置小兵
-    if (general.configureTroops(
-      general.troops.archers + archers,
-      general.troops.shields + shields
-    )) {
-      player.food -= cost;
-      return { 
-        success: true, 
-        message: `成功为 ${general.name} 生产 ${archers} 弓兵, ${shields} 盾兵`
-      };
-    } else {
-      return { success: false, message: '小兵配置失败' };
+  private applyPick(player: Player, action: ActionCommand, round: number): void {
+    const roles = action.roles ?? [];
+    if (roles.length !== 3 || new Set(roles).size !== 3 || roles.some(id => !generals.some(g => g.id === id))) {
+      return;
     }
+
+    const camp = this.campOf(player.playerId);
+    const base = this.bases.get(camp)!;
+
+    if (round === 1) {
+      player.roles = roles.map(roleId => GameEngine.createRole(roleId, camp, base));
+      return;
+    }
+
+    if (!player.roles.some(r => r.reviveRound === 1)) {
+      return;
+    }
+
+    // 存活英雄不能被换下
+    const alive = player.roles.filter(r => this.isAlive(r));
+    if (alive.some(r => !roles.includes(r.roleId))) {
+      return;
+    }
+
+    const incoming = roles.filter(id => !player.roles.some(r => r.roleId === id));
+    player.roles = player.roles.map(role => {
+      if (this.isAlive(role) || roles.includes(role.roleId) || incoming.length === 0) {
+        return role;
+      }
+      const replacement = GameEngine.createRole(incoming.shift()!, camp, base);
+      replacement.life = 0;
+      replacement.reviveRound = role.reviveRound;
+      replacement.statuses = { [HeroStatus.RESURRECTION]: role.reviveRound } as Role['statuses'];
+      return replacement;
+    });
   }
 
   /**
-   * 处理移动命令
-   * @param {number} playerId - 玩家ID
-   * @param {Object} data - 命令数据
-   * @returns {Object} 处理结果
-   * @private
+   * BUFF：仅在第100/150/200回合可选，每个窗口每名玩家一次
    */
-  _handleMove(playerId, data) {
-    const { generalId, targetX, targetY } = data;
-    const player = this.players[playerId];
-    
-    const general = player.generals.get(generalId);
-    if (!general || !general.isAlive) {
-      return { success: false, message: '武将不存在或已阵亡' };
-    }
-    
-    // 检查移动距离
-    const distance = calculateDistance(general.x, general.y, targetX, targetY);
-    if (distance > GAME_RULES.MOVE_DISTANCE) {
-      return { success: false, message: '移动距离超过限制' };
-    }
-    
-    // 执行移动
-    if (this.map.moveUnit(general.x, general.y, targetX, targetY)) {
-      return { 
-        success: true, 
-        message: `${general.name} 移动到 (${targetX}, ${targetY})`
-      };
-    } else {
-      return { success: false, message: '移动失败，目标位置不可用' };
+  private applyBuff(player: Player, action: ActionCommand, round: number): void {
+    const key = `${player.playerId}:${round}`;
+    if (!BUFF_ROUNDS.includes(round) || this.usedBuffRounds.has(key)) {
+      return;
+    }
+
+    switch (action.buffType) {
+      case 1001: {
+        // 传国玉玺：为指定英雄召唤4名弓兵和2名盾兵，不超过统帅值
+        const role = player.roles.find(r => r.roleId === action.roleId);
+        if (!role || !this.isAlive(role)) {
+          return;
+        }
+        for (const type of [archer.id, archer.id, archer.id, archer.id, shieldSoldier.id, shieldSoldier.id]) {
+          if (role.solderProps.length < role.commander) {
+            role.solderProps.push(this.createSoldier(type, role.roleId));
+          }
+        }
+        break;
+      }
+      case 1002:
+        // 华佗再世：回复所有单位50%体力
+        for (const role of player.roles.filter(r => this.isAlive(r))) {
+          role.life = Math.min(role.maxLife, role.life + Math.floor(role.maxLife * 0.5));
+          for (const soldier of role.solderProps) {
+            const maxLife = SOLDIER_STATS[soldier.roleId].life;
+            soldier.life = Math.min(maxLife, soldier.life + Math.floor(maxLife * 0.5));
+          }
+        }
+        break;
+      case 1003:
+        this.activeBuffs.get(player.playerId)!.push({ buffType: 1003, remainingRounds: 5 });
+        break;
+      case 1004:
+        this.activeBuffs.get(player.playerId)!.push({ buffType: 1004, remainingRounds: 3 });
+        break;
+      default:
+        return;
     }
+    this.usedBuffRounds.add(key);
   }
 
   /**
-   * 处理攻击命令
-   * @param {number} playerId - 玩家ID
-   * @param {Object} data - 命令数据
-   * @returns {Object} 处理结果
-   * @private
+   * MAKE：每名士兵消耗20粮草，总数不超过英雄统帅值；制衡期间每回合可免费生产士兵
    */
-  _handleAttack(playerId, data) {
-    const { generalId, targetX, targetY } = data;
-    const player = this.players[playerId];
-    
-    const attacker = player.generals.get(generalId);
-    if (!attacker || !attacker.isAlive) {
-      return { success: false, message: '攻击者不存在或已阵亡' };
-    }
-    
-    const target = this.map.getUnitAt(targetX, targetY);
-    if (!target) {
-      return { success: false, message: '目标位置没有单位' };
-    }
-    
-    if (target.playerId === playerId) {
-      return { success: false, message: '不能攻击自己的单位' };
-    }
-    
-    // 执行攻击
-    const attackResult = attacker.attack(target);
-    
-    if (attackResult.success) {
-      // 更新统计数据
-      this.gameStats.playerStats[playerId].damageDealt += attackResult.damage;
-      this.gameStats.playerStats[target.playerId].damageTaken += attackResult.damage;
-      
-      // 检查击杀奖励
-      if (!target.isAlive) {
-        this.gameStats.playerStats[playerId].kills++;
-        this.gameStats.playerStats[target.playerId].deaths++;
-        
-        // 给予粮草奖励
-        player.food = Math.min(ECONOMY.MAX_FOOD, 
-          player.food + ECONOMY.KILL_GENERAL_REWARD);
-        
-        // 给予士气奖励
-        player.morale = Math.min(GAME_RULES.MAX_MORALE,
-          player.morale + GAME_RULES.KILL_GENERAL_MORALE);
-        
-        // 从地图移除阵亡武将
-        this.map.removeUnit(target.x, target.y);
-        
-        this.addToLog(`${attacker.name} 击杀了 ${target.name}！`, 'battle');
-      }
-      
-      this.gameStats.totalBattles++;
-    }
-    
-    return attackResult;
+  private applyMake(player: Player, action: ActionCommand): void {
+    let free = player.roles.reduce((sum, r) => sum + this.skillEffectTotal(r, 'freeSoldiers'), 0);
+    for (const detail of action.details ?? []) {
+      const role = player.roles.find(r => r.roleId === detail.roleId);
+      if (!role || !this.isAlive(role)) {
+        continue;
+      }
+      for (const type of detail.solders ?? []) {
+        if (!SOLDIER_STATS[type] || role.solderProps.length >= role.commander) {
+          continue;
+        }
+        if (free > 0) {
+          free--;
+        } else if (player.supplies >= ECONOMY.TROOP_COST) {
+          player.supplies -= ECONOMY.TROOP_COST;
+        } else {
+          continue;
+        }
+        role.solderProps.push(this.createSoldier(type, role.roleId));
+      }
+    }
   }
 
   /**
-   * 处理技能命令
-   * @param {number} playerId - 玩家ID
-   * @param {Object} data - 命令数据
-   * @returns {Object} 处理结果
-   * @private
+   * FORM：切换阵型消耗50士气和100粮草
    */
-  _handleSkill(playerId, data) {
-    const { generalId, skillKey, targets } = data;
-    const player = this.players[playerId];
-    
-    const general = player.generals.get(generalId);
-    if (!general || !general.isAlive) {
-      return { success: false, message: '武将不存在或已阵亡' };
-    }
-    
-    // 解析目标
-    const skillTargets = [];
-    if (targets) {
-      targets.forEach(target => {
-        if (target.type === 'position') {
-          skillTargets.push({ x: target.x, y: target.y });
-        } else if (target.type === 'unit') {
-          const unit = this.map.getUnitAt(target.x, target.y);
-          if (unit) {
-            skillTargets.push(unit);
-          }
-        }
-      });
+  private applyFormation(player: Player, action: ActionCommand): void {
+    const role = player.roles.find(r => r.roleId === action.roleId);
+    if (!role || !this.isAlive(role) || (action.formationType !== 1 && action.formationType !== 2)) {
+      return;
     }
-    
-    // 使用技能
-    const skillResult = general.useSkill(skillKey, skillTargets, this.currentTurn, this.map);
-    
-    if (skillResult.success) {
-      this.addToLog(`${general.name} 使用技能: ${skillResult.message}`, 'skill');
+    if (role.formationType === action.formationType) {
+      return;
     }
-    
-    return skillResult;
+    if (player.morale < FORMATION_MORALE_COST || player.supplies < FORMATION_FOOD_COST) {
+      return;
+    }
+    player.morale -= FORMATION_MORALE_COST;
+    player.supplies -= FORMATION_FOOD_COST;
+    role.formationType = action.formationType;
   }
 
   /**
-   * 处理瞬移命令
-   * @param {number} playerId - 玩家ID
-   * @param {Object} data - 命令数据
-   * @returns {Object} 处理结果
-   * @private
+   * SK：由 SkillRegistry 判定能否释放（沉默、冷却、目标），释放后进入冷却并结算技能效果；
+   * 蓄力中的英雄无法释放技能
    */
-  _handleTeleport(playerId, data) {
-    const { generalId, targetX, targetY } = data;
-    
-    return this._handleSkill(playerId, {
-      generalId,
-      skillKey: 'teleport',
-      targets: [{ type: 'position', x: targetX, y: targetY }]
+  private applySkill(player: Player, action: ActionCommand, round: number, pendingDamage: PendingDamage[]): void {
+    const role = player.roles.find(r => r.roleId === action.roleId);
+    const skill = role?.skills.find(s => s.skillId === action.skillId);
+    if (!role || !skill || this.charging.has(role)) {
+      return;
+    }
+
+    const outcome = SkillRegistry.predict(role, skill.skillId, {
+      allies: player.roles,
+      enemies: this.state.players.filter(p => p !== player).flatMap(p => p.roles),
+      position: action.position,
+      formType: action.formType,
+      teleportPosition: action.teleportPosition,
+      attackModifiers: this.attackModifiers(player.playerId, role),
+      isPassable: position => this.canEnter(position)
     });
+    if (!outcome.castable) {
+      return;
+    }
+    skill.cdRemainRound = skill.cd;
+    this.applySkillOutcome(player, role, outcome, round, pendingDamage);
   }
 
   /**
-   * 处理占领龙旗据点命令
-   * @param {number} playerId - 玩家ID
-   * @param {Object} data - 命令数据
-   * @returns {Object} 处理结果
-   * @private
+   * 结算技能效果：立即生效的部分直接修改局面，延迟部分登记到对应回合
    */
-  _handleOccupyFlag(playerId, data) {
-    const player = this.players[playerId];
-    
-    // 检查龙旗据点是否开放
-    if (!this.map.isFlagZoneOpen(this.currentTurn)) {
-      return { success: false, message: '龙旗据点尚未开放' };
-    }
-    
-    // 获取据点内的己方武将
-    const flagUnits = this._getUnitsInFlagZone();
-    const playerUnits = flagUnits.filter(unit => unit.playerId === playerId);
-    
-    if (playerUnits.length === 0) {
-      return { success: false, message: '据点内没有己方武将' };
-    }
-    
-    // 检查粮草是否足够维持
-    const maintainCost = this._calculateFlagMaintainCost(playerUnits);
-    if (player.food < maintainCost) {
-      return { success: false, message: '粮草不足以维持据点控制' };
-    }
-    
-    return { success: true, message: '正在争夺龙旗据点控制权' };
+  private applySkillOutcome(
+    player: Player,
+    caster: Role,
+    outcome: SkillOutcome,
+    round: number,
+    pendingDamage: PendingDamage[]
+  ): void {
+    const schedule = (delay: number, effect: Omit<ScheduledSkillEffect, 'round' | 'sourcePlayerId' | 'caster'>) =>
+      this.scheduledSkills.push({ round: round + delay, sourcePlayerId: player.playerId, caster, ...effect });
+
+    if (outcome.knockback) {
+      outcome.knockback.target.position = { ...outcome.knockback.position };
+    }
+    for (const hit of outcome.hits) {
+      if (hit.delay > 0) {
+        schedule(hit.delay, { hit });
+      } else {
+        this.pushSkillHit(player.playerId, caster, hit, pendingDamage);
+      }
+    }
+    for (const { target, status, duration, delay } of outcome.statuses) {
+      if (status === 'CHARGING') {
+        this.charging.set(target, duration);
+      } else if (delay > 0) {
+        schedule(delay, { status: { target, status, duration } });
+      } else {
+        this.setStatus(target, status, duration);
+      }
+    }
+    for (const { target, modifiers, duration } of outcome.effects) {
+      this.skillEffects.push({ role: target, modifiers, remainingRounds: duration });
+    }
+    for (const { target, ratio, includeSoldiers } of outcome.heals) {
+      target.life = Math.min(target.maxLife, target.life + Math.floor(target.maxLife * ratio));
+      if (includeSoldiers) {
+        for (const soldier of target.solderProps) {
+          const maxLife = SOLDIER_STATS[soldier.roleId].life;
+          soldier.life = Math.min(maxLife, soldier.life + Math.floor(maxLife * ratio));
+        }
+      }
+    }
+    if (outcome.formation) {
+      outcome.formation.target.formationType = outcome.formation.formationType;
+    }
+    if (outcome.teleport) {
+      schedule(1, { teleport: outcome.teleport });
+    }
   }
 
   /**
-   * 处理攻城命令
-   * @param {number} playerId - 玩家ID
-   * @param {Object} data - 命令数据
-   * @returns {Object} 处理结果
-   * @private
+   * 释放到期的延迟技能效果，施法者已阵亡时蓄力与持续伤害随之失效
    */
-  _handleAttackCity(playerId, data) {
-    const { generalId, targetX, targetY } = data;
-    const player = this.players[playerId];
-    
-    const attacker = player.generals.get(generalId);
-    if (!attacker || !attacker.isAlive) {
-      return { success: false, message: '攻击者不存在或已阵亡' };
-    }
-    
-    const terrainType = this.map.getTerrainType(targetX, targetY);
-    const cityData = CITIES[terrainType];
-    
-    if (!cityData) {
-      return { success: false, message: '目标不是城寨' };
-    }
-    
-    // 检查攻击距离
-    const distance = calculateDistance(attacker.x, attacker.y, targetX, targetY);
-    if (distance > attacker.attackRange) {
-      return { success: false, message: '攻击距离不足' };
-    }
-    
-    // 计算攻击伤害（简化处理，直接摧毁城寨）
-    this.map.destroyCity(targetX, targetY, this.currentTurn);
-    
-    // 给予奖励
-    player.food = Math.min(ECONOMY.MAX_FOOD, 
-      player.food + cityData.food_reward);
-    
-    this.addToLog(`${attacker.name} 攻陷了 ${cityData.level} 级城寨，获得 ${cityData.food_reward} 粮草`, 'battle');
-    
-    return { 
-      success: true, 
-      message: `成功攻陷城寨，获得 ${cityData.food_reward} 粮草`
-    };
+  private releaseScheduledSkills(round: number, pendingDamage: PendingDamage[]): void {
+    const due = this.scheduledSkills.filter(e => e.round <= round);
+    this.scheduledSkills = this.scheduledSkills.filter(e => e.round > round);
+
+    for (const effect of due) {
+      if (effect.hit && this.isAlive(effect.caster)) {
+        this.pushSkillHit(effect.sourcePlayerId, effect.caster, effect.hit, pendingDamage);
+      }
+      if (effect.status && this.isAlive(effect.status.target)) {
+        this.setStatus(effect.status.target, effect.status.status, effect.status.duration);
+      }
+      const teleport = effect.teleport;
+      if (teleport && this.isAlive(teleport.target) && this.canEnter(teleport.position)) {
+        teleport.target.position = { ...teleport.position };
+      }
+    }
+  }
+
+  private pushSkillHit(sourcePlayerId: number, caster: Role, hit: SkillHit, pendingDamage: PendingDamage[]): void {
+    const target = this.ownerOf(hit.target);
+    if (!target || !this.isAlive(hit.target)) {
+      return;
+    }
+    pendingDamage.push({
+      sourcePlayerId,
+      sourceRoleId: caster.roleId,
+      targetPlayerId: target.playerId,
+      targetRoleId: hit.target.roleId,
+      amount: hit.rawDamage,
+      directToHero: hit.directToHero,
+      soldiersOnly: hit.soldiersOnly,
+      shieldDamageRatio: hit.shieldDamageRatio,
+      execute: hit.execute
+    });
   }
 
   /**
-   * 处理阵型命令
-   * @param {number} playerId - 玩家ID
-   * @param {Object} data - 命令数据
-   * @returns {Object} 处理结果
-   * @private
+   * AD：对攻击距离内目标位置的敌方英雄发起普通攻击
    */
-  _handleFormation(playerId, data) {
-    const { formationType } = data;
-    const player = this.players[playerId];
-    
-    const formation = FORMATIONS[formationType];
-    if (!formation) {
-      return { success: false, message: '无效的阵型类型' };
-    }
-    
-    // 检查士气和粮草
-    if (player.morale < formation.morale_cost) {
-      return { success: false, message: '士气不足' };
-    }
-    
-    if (player.food < formation.food_cost) {
-      return { success: false, message: '粮草不足' };
-    }
-    
-    // 消耗资源
-    player.morale -= formation.morale_cost;
-    player.food -= formation.food_cost;
-    player.formation = formationType;
-    
-    return { 
-      success: true, 
-      message: `成功切换到 ${formationType}`
-    };
+  private applyAttack(player: Player, action: ActionCommand, pendingDamage: PendingDamage[]): void {
+    const role = player.roles.find(r => r.roleId === action.roleId);
+    if (!role || !this.isAlive(role) || !action.position || this.charging.has(role)) {
+      return;
+    }
+    const target = this.findEnemyAt(player.playerId, action.position);
+    if (!target || distance(role.position, target.role.position) > HERO_ATTACK_RANGE) {
+      return;
+    }
+    pendingDamage.push({
+      sourcePlayerId: player.playerId,
+      sourceRoleId: role.roleId,
+      targetPlayerId: target.player.playerId,
+      targetRoleId: target.role.roleId,
+      amount: DamageCalculator.calculateAttackPower(role, this.attackModifiers(player.playerId, role))
+    });
   }
 
   /**
-   * 处理BUFF命令
-   * @param {number} playerId - 玩家ID
-   * @param {Object} data - 命令数据
-   * @returns {Object} 处理结果
-   * @private
+   * SG：攻打攻击距离内的城寨，伤害在回合末结算
    */
-  _handleBuff(playerId, data) {
-    const { buffType, targetGeneralId } = data;
-    const player = this.players[playerId];
-    
-    // 检查是否到了可选择BUFF的回合
-    if (this.currentTurn < player.nextBuffTurn) {
-      return { success: false, message: '尚未到选择BUFF的时间' };
-    }
-    
-    const buff = BUFFS[buffType];
-    if (!buff) {
-      return { success: false, message: '无效的BUFF类型' };
-    }
-    
-    // 应用BUFF效果
-    if (buff.type === 'instant') {
-      this._applyInstantBuff(playerId, buff, targetGeneralId);
-    } else if (buff.type === 'duration') {
-      this._applyDurationBuff(playerId, buff, targetGeneralId);
-    }
-    
-    // 设置下次BUFF时间
-    player.nextBuffTurn = this.currentTurn + 100;
-    
-    return { success: true, message: `成功获得BUFF: ${buff.effect}` };
+  private applySiege(player: Player, action: ActionCommand, cityDamage: Map<CityProp, Map<number, number>>): void {
+    const role = player.roles.find(r => r.roleId === action.roleId);
+    if (!role || !this.isAlive(role) || !action.position || this.charging.has(role)) {
+      return;
+    }
+    const city = this.state.cityProps.find(c => samePosition(c.position, action.position!));
+    if (!city || distance(role.position, city.position) > HERO_ATTACK_RANGE) {
+      return;
+    }
+    const byPlayer = cityDamage.get(city) ?? new Map<number, number>();
+    const damage = DamageCalculator.calculateAttackPower(role, this.attackModifiers(player.playerId, role));
+    byPlayer.set(player.playerId, (byPlayer.get(player.playerId) ?? 0) + damage);
+    cityDamage.set(city, byPlayer);
   }
 
   /**
-   * 应用立即生效的BUFF
-   * @param {number} playerId - 玩家ID
-   * @param {Object} buff - BUFF数据
-   * @param {string} targetGeneralId - 目标武将ID
-   * @private
+   * SP：传送到10格内的可通行空位，冷却60回合
    */
-  _applyInstantBuff(playerId, buff, targetGeneralId) {
-    const player = this.players[playerId];
-    
-    switch (buff.id) {
-      case 1001: // 传国玉玺
-        if (targetGeneralId) {
-          const general = player.generals.get(targetGeneralId);
-          if (general && general.isAlive) {
-            general.configureTroops(
-              general.troops.archers + buff.archers,
-              general.troops.shields + buff.shields
-            );
-          }
-        }
-        break;
-        
-      case 1002: // 华佗再世
-        for (const [, general] of player.generals) {
-          if (general.isAlive) {
-            const healAmount = Math.floor(general.maxHealth * buff.heal_percent);
-            general.heal(healAmount);
-          }
-        }
-        break;
+  private applyTeleport(player: Player, action: ActionCommand): void {
+    const role = player.roles.find(r => r.roleId === action.roleId);
+    if (!role || !this.isAlive(role) || !action.position) {
+      return;
+    }
+    if (this.hasStatus(role, HeroStatus.Silence) || this.hasStatus(role, HeroStatus.Grounded)) {
+      return;
+    }
+    const key = `${player.playerId}:${role.roleId}`;
+    if ((this.teleportCooldowns.get(key) ?? 0) > 0) {
+      return;
+    }
+    if (distance(role.position, action.position) > TELEPORT_RANGE || !this.canEnter(action.position)) {
+      return;
     }
+    role.position = { x: action.position.x, y: action.position.y };
+    this.teleportCooldowns.set(key, TELEPORT_COOLDOWN);
   }
 
   /**
-   * 应用持续生效的BUFF
-   * @param {number} playerId - 玩家ID
-   * @param {Object} buff - BUFF数据
-   * @param {string} targetGeneralId - 目标武将ID
-   * @private
+   * MOVE：移动到相邻8格之一的可通行空位
    */
-  _applyDurationBuff(playerId, buff, targetGeneralId) {
-    const player = this.players[playerId];
-    
-    if (targetGeneralId) {
-      const general = player.generals.get(targetGeneralId);
-      if (general && general.isAlive) {
-        general.addStateEffect(buff.effect, {
-          ...buff,
-          endTurn: this.currentTurn + buff.duration
-        });
-      }
-    } else {
-      // 应用到所有武将
-      for (const [, general] of player.generals) {
-        if (general.isAlive) {
-          general.addStateEffect(buff.effect, {
-            ...buff,
-            endTurn: this.currentTurn + buff.duration
-          });
-        }
-      }
+  private applyMove(player: Player, action: ActionCommand): void {
+    const role = player.roles.find(r => r.roleId === action.roleId);
+    if (!role || !this.isAlive(role) || !action.position || this.hasStatus(role, HeroStatus.Grounded)) {
+      return;
     }
+    if (distance(role.position, action.position) !== 1 || !this.canEnter(action.position)) {
+      return;
+    }
+    role.position = { x: action.position.x, y: action.position.y };
   }
 
   /**
-   * 推进到下一回合
+   * AC：据点开放后，区域内英雄数量多的一方发送AC即可占领；
+   * 占领方保持多数时每回合支付维持粮草并累计占领回合，粮草不足时只保持占领不累计
    */
-  nextTurn() {
-    if (this.gameState !== 'running') {
-      return { success: false, message: '游戏未进行中' };
-    }
-    
-    this.currentTurn++;
-    this.gameStats.totalTurns++;
-    
-    // 更新所有武将状态
-    this._updateAllGenerals();
-    
-    // 更新地图状态
-    this.map.updateCities(this.currentTurn);
-    
-    // 更新龙旗据点控制
-    this._updateFlagControl();
-    
-    // 检查胜负条件
-    const winner = this._checkWinCondition();
-    if (winner) {
-      this._endGame(winner);
-      return { success: true, message: `游戏结束，${winner.name} 获胜！` };
-    }
-    
-    this.addToLog(`第 ${this.currentTurn} 回合开始`, 'system');
-    
-    return { success: true, message: `进入第 ${this.currentTurn} 回合` };
+  private applyOccupation(actions: Map<number, ActionCommand[]>, round: number): void {
+    if (round < STRONGHOLD_CONFIG.OPEN_ROUND || this.flagCenter.x < 0) {
+      return;
+    }
+
+    const stronghold = this.state.stronghold;
+    const counts = new Map<number, number>();
+    for (const player of this.state.players) {
+      counts.set(this.campOf(player.playerId), this.heroesOnFlag(player).length);
+    }
+    const countOf = (camp: number) => counts.get(camp) ?? 0;
+
+    for (const player of this.state.players) {
+      const camp = this.campOf(player.playerId);
+      const sentAC = (actions.get(player.playerId) ?? []).some(a => a.action === 'AC');
+      if (sentAC && countOf(camp) > countOf(1 - camp)) {
+        stronghold.camp = camp;
+      }
+    }
+
+    if (stronghold.camp === NEUTRAL_CAMP) {
+      return;
+    }
+
+    const holderCamp = stronghold.camp;
+    if (countOf(holderCamp) === 0) {
+      stronghold.camp = NEUTRAL_CAMP;
+      return;
+    }
+    if (countOf(holderCamp) <= countOf(1 - holderCamp)) {
+      return;
+    }
+
+    const holder = this.state.players.find(p => this.campOf(p.playerId) === holderCamp)!;
+    const heroes = this.heroesOnFlag(holder);
+    const upkeep = heroes.length * ECONOMY.FLAG_MAINTAIN_COST_GENERAL +
+      heroes.reduce((sum, r) => sum + r.solderProps.length, 0) * ECONOMY.FLAG_MAINTAIN_COST_TROOP;
+    if (holder.supplies >= upkeep) {
+      holder.supplies -= upkeep;
+      stronghold.occupiedRound[holderCamp] = (stronghold.occupiedRound[holderCamp] ?? 0) + 1;
+    }
   }
 
+  // ========== 回合末结算 ==========
+
   /**
-   * 更新所有武将状态
-   * @private
+   * 城寨对攻击范围内最近的英雄单位造成伤害
    */
-  _updateAllGenerals() {
-    for (const [, player] of Object.entries(this.players)) {
-      for (const [, general] of player.generals) {
-        general.updateTurn(this.currentTurn);
-        
-        // 如果武将复活，放置在基地
-        if (general.isAlive && general.x === -1) {
-          const basePos = player.basePosition;
-          this.map.placeUnit(basePos.x, basePos.y, general);
+  private settleCityAttacks(pendingDamage: PendingDamage[]): void {
+    for (const city of this.state.cityProps) {
+      const stats = CITY_STATS[city.roleId];
+      let nearest: { player: Player; role: Role; dist: number } | null = null;
+      for (const player of this.state.players) {
+        for (const role of player.roles.filter(r => this.isAlive(r))) {
+          const dist = distance(city.position, role.position);
+          if (dist <= stats.range && (!nearest || dist < nearest.dist)) {
+            nearest = { player, role, dist };
+          }
         }
       }
+      if (nearest) {
+        pendingDamage.push({
+          sourcePlayerId: -1,
+          sourceRoleId: city.roleId,
+          targetPlayerId: nearest.player.playerId,
+          targetRoleId: nearest.role.roleId,
+          amount: stats.damage
+        });
+      }
     }
   }
 
   /**
-   * 获取龙旗据点内的所有单位
-   * @returns {Array} 单位数组
-   * @private
+   * 按盾兵 → 弓兵 → 英雄顺序结算伤害，并发放击杀奖励
    */
-  _getUnitsInFlagZone() {
-    const flagZone = this.map.flagZone;
-    const units = [];
-    
-    for (let dx = -Math.floor(flagZone.size/2); dx <= Math.floor(flagZone.size/2); dx++) {
-      for (let dy = -Math.floor(flagZone.size/2); dy <= Math.floor(flagZone.size/2); dy++) {
-        const x = flagZone.centerX + dx;
-        const y = flagZone.centerY + dy;
-        
-        const unit = this.map.getUnitAt(x, y);
-        if (unit && unit.isAlive) {
-          units.push(unit);
+  private settleDamage(pendingDamage: PendingDamage[]): void {
+    for (const damage of pendingDamage) {
+      const target = this.findRole(damage.targetPlayerId, damage.targetRoleId);
+      if (!target || !this.isAlive(target) || damage.amount <= 0) {
+        continue;
+      }
+
+      if (damage.execute) {
+        this.killHero(target);
+        this.rewardKills(damage.sourcePlayerId, damage.sourceRoleId, 0, true);
+        continue;
+      }
+
+      const result = DamageCalculator.applyDamage(target, damage.amount, {
+        ...this.defenseModifiers(damage.targetPlayerId, target),
+        directToHero: damage.directToHero,
+        soldiersOnly: damage.soldiersOnly,
+        shieldDamageRatio: damage.shieldDamageRatio
+      });
+      target.solderProps = result.remainingSoldiers;
+      target.life = result.remainingLife;
+      if (result.heroKilled) {
+        this.killHero(target);
+      }
+
+      this.rewardKills(damage.sourcePlayerId, damage.sourceRoleId, result.soldiersKilled, result.heroKilled);
+
+      // 乱世枭雄：按造成伤害回复体力
+      const source = this.findRole(damage.sourcePlayerId, damage.sourceRoleId);
+      const lifeSteal = source ? this.skillEffectTotal(source, 'lifeStealRatio') : 0;
+      if (source && lifeSteal > 0 && this.isAlive(source)) {
+        const dealt = result.losses.reduce((sum, l) => sum + l.damage, 0);
+        source.life = Math.min(source.maxLife, source.life + Math.floor(dealt * lifeSteal));
+      }
+    }
+
+    // 酒狂：每回合损失上一回合体力的5%
+    for (const player of this.state.players) {
+      if (this.activeBuffs.get(player.playerId)!.some(b => b.buffType === 1004)) {
+        for (const role of player.roles.filter(r => this.isAlive(r))) {
+          role.life = Math.max(1, role.life - Math.floor(role.life * 0.05));
         }
       }
     }
-    
-    return units;
   }
 
   /**
-   * 计算龙旗据点维持成本
-   * @param {Array} units - 单位数组
-   * @returns {number} 维持成本
-   * @private
+   * 城寨城防结算：攻陷后奖励给本回合伤害最高的玩家，100回合后重生
    */
-  _calculateFlagMaintainCost(units) {
-    let cost = 0;
-    
-    for (const unit of units) {
-      cost += ECONOMY.FLAG_MAINTAIN_COST_GENERAL; // 武将成本
-      
-      if (unit.troops) {
-        cost += unit.troops.archers * ECONOMY.FLAG_MAINTAIN_COST_TROOP;
-        cost += unit.troops.shields * ECONOMY.FLAG_MAINTAIN_COST_TROOP;
+  private settleCities(cityDamage: Map<CityProp, Map<number, number>>, round: number): void {
+    for (const [city, byPlayer] of cityDamage) {
+      const total = [...byPlayer.values()].reduce((sum, d) => sum + d, 0);
+      city.life = Math.max(0, city.life - total);
+      if (city.life > 0) {
+        continue;
+      }
+
+      const best = Math.max(...byPlayer.values());
+      for (const [playerId, dealt] of byPlayer) {
+        if (dealt !== best) {
+          continue;
+        }
+        const player = this.state.players.find(p => p.playerId === playerId)!;
+        player.supplies = Math.min(ECONOMY.MAX_FOOD, player.supplies + CITY_STATS[city.roleId].reward);
+        this.stats.get(playerId)!.destroyTowerNum++;
       }
+
+      this.state.cityProps = this.state.cityProps.filter(c => c !== city);
+      this.cityRespawns.push({
+        city: { ...city, position: { ...city.position }, life: CITY_STATS[city.roleId].maxLife },
+        respawnRound: round + CITY_CONFIG.RESPAWN_ROUNDS
+      });
     }
-    
-    return cost;
   }
 
   /**
-   * 更新龙旗据点控制状态
-   * @private
+   * 回合计时：技能冷却、状态、BUFF、复活和城寨重生
    */
-  _updateFlagControl() {
-    if (!this.map.isFlagZoneOpen(this.currentTurn)) {
-      return;
+  private tickRound(round: number): void {
+    for (const [key, cd] of this.teleportCooldowns) {
+      this.teleportCooldowns.set(key, Math.max(0, cd - 1));
     }
-    
-    const flagUnits = this._getUnitsInFlagZone();
-    const player1Units = flagUnits.filter(unit => unit.playerId === PLAYERS.PLAYER1);
-    const player2Units = flagUnits.filter(unit => unit.playerId === PLAYERS.PLAYER2);
-    
-    const controlStatus = this.map.updateFlagControl(player1Units, player2Units);
-    
-    // 更新玩家的控制回合数
-    if (controlStatus.controller) {
-      const controller = this.players[controlStatus.controller];
-      const opponent = this.players[controlStatus.controller === PLAYERS.PLAYER1 ? PLAYERS.PLAYER2 : PLAYERS.PLAYER1];
-      
-      controller.flagControlTurns = controlStatus.contestTurns;
-      opponent.flagControlTurns = 0;
-      
-      // 扣除维持成本
-      const maintainCost = this._calculateFlagMaintainCost(
-        controlStatus.controller === PLAYERS.PLAYER1 ? player1Units : player2Units
-      );
-      
-      if (controller.food >= maintainCost) {
-        controller.food -= maintainCost;
+    for (const [role, remaining] of this.charging) {
+      if (remaining > 1) {
+        this.charging.set(role, remaining - 1);
       } else {
-        // 粮草不足，失去控制权
-        this.map.flagZone.controller = null;
-        this.map.flagZone.contestTurns = 0;
-        controller.flagControlTurns = 0;
-        
-        this.addToLog(`${controller.name} 因粮草不足失去龙旗据点控制权`, 'system');
+        this.charging.delete(role);
+      }
+    }
+    this.skillEffects.forEach(e => e.remainingRounds--);
+    this.skillEffects = this.skillEffects.filter(e => e.remainingRounds > 0);
+
+    for (const player of this.state.players) {
+      const buffs = this.activeBuffs.get(player.playerId)!;
+      buffs.forEach(b => b.remainingRounds--);
+      this.activeBuffs.set(player.playerId, buffs.filter(b => b.remainingRounds > 0));
+
+      for (const role of player.roles) {
+        role.skills.forEach(s => s.cdRemainRound = Math.max(0, s.cdRemainRound - 1));
+
+        const statuses: Record<string, number> = {};
+        for (const [status, remaining] of Object.entries(role.statuses)) {
+          if (status !== HeroStatus.NONE && status !== HeroStatus.RESURRECTION && remaining > 1) {
+            statuses[status] = remaining - 1;
+          }
+        }
+
+        if (role.reviveRound > 0) {
+          role.reviveRound--;
+          if (role.reviveRound === 0) {
+            role.life = role.maxLife;
+            role.position = { ...this.bases.get(role.camp)! };
+          } else {
+            statuses[HeroStatus.RESURRECTION] = role.reviveRound;
+          }
+        }
+
+        role.statuses = (Object.keys(statuses).length > 0 ? statuses : { [HeroStatus.NONE]: 0 }) as Role['statuses'];
       }
     }
+
+    const due = this.cityRespawns.filter(r => r.respawnRound <= round + 1);
+    this.cityRespawns = this.cityRespawns.filter(r => r.respawnRound > round + 1);
+    this.state.cityProps.push(...due.map(r => r.city));
   }
 
   /**
-   * 检查胜负条件
-   * @returns {Object|null} 获胜玩家或null
-   * @private
+   * 胜负判定：占领满60回合直接获胜；达到最大回合数时占领回合多者获胜
    */
-  _checkWinCondition() {
-    // 检查回合数上限
-    if (this.currentTurn >= GAME_RULES.MAX_TURNS) {
-      // 比较龙旗据点控制回合数
-      const player1 = this.players[PLAYERS.PLAYER1];
-      const player2 = this.players[PLAYERS.PLAYER2];
-      
-      if (player1.flagControlTurns > player2.flagControlTurns) {
-        return player1;
-      } else if (player2.flagControlTurns > player1.flagControlTurns) {
-        return player2;
-      } else {
-        // 平局，比较其他指标
-        return this._determineTieBreaker();
+  private checkVictory(round: number): void {
+    const occupied = this.state.stronghold.occupiedRound;
+    for (const player of this.players) {
+      if ((occupied[player.camp] ?? 0) >= STRONGHOLD_CONFIG.VICTORY_ROUNDS) {
+        this.winner = player.playerId;
+        this.finished = true;
+        return;
       }
     }
-    
-    // 检查龙旗据点胜利条件
-    for (const [, player] of Object.entries(this.players)) {
-      if (player.flagControlTurns >= GAME_RULES.WIN_FLAG_TURNS) {
-        return player;
+
+    if (round >= GAME_RULES.MAX_TURNS) {
+      this.finished = true;
+      const [red, blue] = [occupied[0] ?? 0, occupied[1] ?? 0];
+      if (red !== blue) {
+        const camp = red > blue ? 0 : 1;
+        this.winner = this.players.find(p => p.camp === camp)?.playerId ?? null;
       }
     }
-    
-    return null;
   }
 
-  /**
-   * 决定平局胜负
-   * @returns {Object} 获胜玩家
-   * @private
-   */
-  _determineTieBreaker() {
-    const player1 = this.players[PLAYERS.PLAYER1];
-    const player2 = this.players[PLAYERS.PLAYER2];
-    
-    // 比较存活武将数
-    const player1Alive = Array.from(player1.generals.values()).filter(g => g.isAlive).length;
-    const player2Alive = Array.from(player2.generals.values()).filter(g => g.isAlive).length;
-    
-    if (player1Alive > player2Alive) return player1;
-    if (player2Alive > player1Alive) return player2;
-    
-    // 比较击杀数
-    const player1Stats = this.gameStats.playerStats[PLAYERS.PLAYER1];
-    const player2Stats = this.gameStats.playerStats[PLAYERS.PLAYER2];
-    
-    if (player1Stats.kills > player2Stats.kills) return player1;
-    if (player2Stats.kills > player1Stats.kills) return player2;
-    
-    // 比较造成伤害
-    if (player1Stats.damageDealt > player2Stats.damageDealt) return player1;
-    if (player2Stats.damageDealt > player1Stats.damageDealt) return player2;
-    
-    // 默认返回玩家1
-    return player1;
+  // ========== 辅助方法 ==========
+
+  private killHero(role: Role): void {
+    role.life = 0;
+    role.solderProps = [];
+    role.formationType = 0;
+    role.reviveRound = REVIVE_ROUNDS;
+    role.statuses = { [HeroStatus.RESURRECTION]: REVIVE_ROUNDS } as Role['statuses'];
+    this.charging.delete(role);
+    this.skillEffects = this.skillEffects.filter(e => e.role !== role);
   }
 
-  /**
-   * 结束游戏
-   * @param {Object} winner - 获胜玩家
-   * @private
-   */
-  _endGame(winner) {
-    this.gameState = 'finished';
-    this.winner = winner;
-    
-    this.addToLog(`游戏结束！${winner.name} 获得胜利！`, 'system');
-    this.addToLog(`总回合数: ${this.currentTurn}`, 'system');
-    this.addToLog(`总战斗次数: ${this.gameStats.totalBattles}`, 'system');
-    
-    console.log(`游戏结束，${winner.name} 获胜！`);
+  private rewardKills(playerId: number, roleId: number, soldierKills: number, heroKilled: boolean): void {
+    const player = this.state.players.find(p => p.playerId === playerId);
+    const stats = this.stats.get(playerId);
+    if (!player || !stats) {
+      return;  // 城寨造成的击杀不计奖励
+    }
+
+    const kills = soldierKills + (heroKilled ? 1 : 0);
+    stats.killedNum += kills;
+    stats.heroKills[roleId] = (stats.heroKills[roleId] ?? 0) + kills;
+
+    player.morale = Math.min(MAX_MORALE,
+      player.morale + soldierKills * moraleRules.killSoldier + (heroKilled ? moraleRules.killGeneral : 0));
+    if (heroKilled) {
+      player.supplies = Math.min(ECONOMY.MAX_FOOD, player.supplies + ECONOMY.KILL_GENERAL_REWARD);
+    }
+  }
+
+  private createSoldier(type: number, heroId: number): Soldier {
+    return { roleId: type, attack: SOLDIER_STATS[type].attack, heroId, life: SOLDIER_STATS[type].life };
+  }
+
+  private activeBuffTypes(playerId: number): number[] {
+    return (this.activeBuffs.get(playerId) ?? []).map(b => b.buffType);
   }
 
   /**
-   * 添加战斗日志
-   * @param {string} message - 日志消息
-   * @param {string} type - 日志类型
+   * 攻击修正：己方 BUFF 加上英雄身上的技能增益
    */
-  addToLog(message, type = 'info') {
-    const logEntry = {
-      turn: this.currentTurn,
-      timestamp: Date.now(),
-      type,
-      message
+  private attackModifiers(playerId: number, role: Role): AttackModifiers {
+    const { attack } = DamageCalculator.buffModifiers(this.activeBuffTypes(playerId));
+    return {
+      attackBonus: this.skillEffectTotal(role, 'attackBonus'),
+      attackBonusRatio: (attack.attackBonusRatio ?? 0) + this.skillEffectTotal(role, 'attackBonusRatio')
     };
-    
-    this.battleLog.push(logEntry);
-    
-    // 限制日志数量
-    if (this.battleLog.length > 1000) {
-      this.battleLog = this.battleLog.slice(-500);
-    }
   }
 
   /**
-   * 获取游戏当前状态
-   * @returns {Object} 游戏状态对象
+   * 防守修正：己方 BUFF 加上英雄身上的护盾、免疫等技能增益
    */
-  getGameState() {
+  private defenseModifiers(playerId: number, role: Role): DefenseModifiers {
+    const { defense } = DamageCalculator.buffModifiers(this.activeBuffTypes(playerId));
     return {
-      currentTurn: this.currentTurn,
-      gameState: this.gameState,
-      winner: this.winner,
-      players: Object.fromEntries(
-        Object.entries(this.players).map(([id, player]) => [
-          id,
-          {
-            ...player,
-            generals: Array.from(player.generals.values()).map(g => g.getStatus())
-          }
-        ])
-      ),
-      map: {
-        width: this.map.width,
-        height: this.map.height,
-        flagZone: this.map.flagZone,
-        unitsCount: this.map.units.size,
-        citiesCount: this.map.cities.size
-      },
-      stats: this.gameStats,
-      recentLogs: this.battleLog.slice(-10)
+      damageReduceRatio: (defense.damageReduceRatio ?? 0) + this.skillEffectTotal(role, 'damageReduceRatio')
     };
   }
 
+  private skillEffectTotal(role: Role, key: keyof SkillEffect): number {
+    return this.skillEffects
+      .filter(e => e.role === role)
+      .reduce((sum, e) => sum + (e.modifiers[key] ?? 0), 0);
+  }
+
+  private setStatus(role: Role, status: SkillStatus, duration: number): void {
+    const statuses = role.statuses as Record<string, number>;
+    delete statuses[HeroStatus.NONE];
+    statuses[status] = Math.max(statuses[status] ?? 0, duration);
+  }
+
+  private isAlive(role: Role): boolean {
+    return role.reviveRound === 0 && role.life > 0;
+  }
+
+  private hasStatus(role: Role, status: HeroStatus): boolean {
+    return ((role.statuses as Record<string, number>)[status] ?? 0) > 0;
+  }
+
+  private campOf(playerId: number): number {
+    return this.players.find(p => p.playerId === playerId)?.camp ?? 0;
+  }
+
+  private ownerOf(role: Role): Player | undefined {
+    return this.state.players.find(p => p.roles.includes(role));
+  }
+
+  private findRole(playerId: number, roleId: number): Role | undefined {
+    return this.state.players.find(p => p.playerId === playerId)?.roles.find(r => r.roleId === roleId);
+  }
+
+  private findEnemyAt(playerId: number, position: Position): { player: Player; role: Role } | null {
+    for (const player of this.state.players) {
+      if (player.playerId === playerId) {
+        continue;
+      }
+      const role = player.roles.find(r => this.isAlive(r) && samePosition(r.position, position));
+      if (role) {
+        return { player, role };
+      }
+    }
+    return null;
+  }
+
+  private heroesOnFlag(player: Player): Role[] {
+    return player.roles.filter(r => this.isAlive(r) && distance(r.position, this.flagCenter) <= 1);
+  }
+
+  private terrainAt(position: Position): number {
+    return this.cells[position.y * this.map.maxX + position.x];
+  }
+
   /**
-   * 获取玩家的可见信息
-   * @param {number} playerId - 玩家ID
-   * @returns {Object} 玩家可见的游戏信息
+   * 目标格是否可进入：在地图内、非山丘水域、无存活城寨、无其他存活英雄（主基地除外）
    */
-  getPlayerView(playerId) {
-    const gameState = this.getGameState();
-    const player = gameState.players[playerId];
-    
-    return {
-      currentTurn: gameState.currentTurn,
-      gameState: gameState.gameState,
-      player: player,
-      map: gameState.map,
-      recentLogs: gameState.recentLogs.filter(log => 
-        log.type === 'system' || 
-        log.message.includes(player.name)
-      )
-    };
+  private canEnter(position: Position): boolean {
+    if (position.x < 0 || position.y < 0 || position.x >= this.map.maxX || position.y >= this.map.maxY) {
+      return false;
+    }
+    const terrain = this.terrainAt(position);
+    if (terrain === TERRAIN_TYPES.MOUNT || terrain === TERRAIN_TYPES.WATER) {
+      return false;
+    }
+    if (this.state.cityProps.some(c => samePosition(c.position, position))) {
+      return false;
+    }
+    if (terrain === TERRAIN_TYPES.BASE) {
+      return true;
+    }
+    return !this.state.players.some(p => p.roles.some(r => this.isAlive(r) && samePosition(r.position, position)));
   }
-} 
\ No newline at end of file
+
+  private findTerrain(terrains: number[]): Position[] {
+    const positions: Position[] = [];
+    this.cells.forEach((terrain, index) => {
+      if (terrains.includes(terrain)) {
+        positions.push({ x: index % this.map.maxX, y: Math.floor(index / this.map.maxX) });
+      }
+    });
+    return positions;
+  }
+}
+
+export default GameEngine;
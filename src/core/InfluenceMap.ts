@@ -0,0 +1,272 @@
+/**
+ * 威胁/影响力地图
+ * ===============
+ *
+ * 每回合根据团队黑板重建，记录每个格子上：
+ * - 敌方英雄与其所带士兵在攻击范围（3格）内可造成的预期伤害
+ * - 存活城寨在攻击范围（3/4/5格）内的伤害
+ * - 我方英雄能提供火力支援的强度
+ *
+ * 行为节点通过它查询"N格内最安全的位置"或"能打到目标且承伤最少的位置"，
+ * 不再各自遍历敌人。
+ *
+ * @author AI游戏框架开发团队
+ * @version 1.0.0
+ */
+
+import type { GameMap } from '../context/gameMap';
+import type { TeamBlackboard } from './TeamBlackboard';
+import type { Position } from './types';
+import { DamageCalculator } from './DamageCalculator';
+import type { CombatUnit } from './DamageCalculator';
+import { getFortressByLevel } from '../models/fortress';
+import { archer } from '../models/units';
+
+/** 英雄普通攻击距离 */
+const HERO_ATTACK_RANGE = 3;
+
+type HeroData = ReturnType<TeamBlackboard['getMyHeroes']>[number];
+
+/**
+ * 单个格子的影响力
+ */
+export interface InfluenceCell {
+  heroThreat: number;                   // 敌方英雄本体伤害
+  soldierThreat: number;                // 敌方士兵伤害
+  cityThreat: number;                   // 城寨伤害
+  threat: number;                       // 预期承受的总伤害
+  support: number;                      // 我方可支援的火力
+}
+
+/**
+ * 位置查询结果
+ */
+export interface InfluenceCandidate {
+  position: Position;
+  threat: number;
+  support: number;
+  distance: number;                     // 从起点出发的距离
+}
+
+/**
+ * 位置查询选项
+ */
+export interface InfluenceQueryOptions {
+  useRealDistance?: boolean;            // 按寻路步数（默认）或直线距离限制范围，瞬移时用直线距离
+  excludeSupportOf?: number;            // 计算支援时排除的英雄（通常是自己）
+}
+
+/**
+ * 威胁/影响力地图
+ */
+export class InfluenceMap {
+  readonly width: number;
+  readonly height: number;
+  readonly round: number;
+
+  private readonly heroThreat: Float64Array;
+  private readonly soldierThreat: Float64Array;
+  private readonly cityThreat: Float64Array;
+  private readonly support: Float64Array;
+  // 我方英雄的支援来源，用于排除自身贡献
+  private readonly supporters: Array<{ roleId: number; position: Position; power: number }> = [];
+
+  /**
+   * @param gameMap 本局地图
+   * @param round 所属回合
+   */
+  constructor(private readonly gameMap: GameMap, round: number = 0) {
+    const { width, height } = gameMap.getMapSize();
+    this.width = width;
+    this.height = height;
+    this.round = round;
+    this.heroThreat = new Float64Array(width * height);
+    this.soldierThreat = new Float64Array(width * height);
+    this.cityThreat = new Float64Array(width * height);
+    this.support = new Float64Array(width * height);
+  }
+
+  /**
+   * 根据团队黑板当前的游戏状态构建影响力地图
+   * @param blackboard 团队黑板
+   * @param gameMap 本局地图
+   */
+  static fromBlackboard(blackboard: TeamBlackboard, gameMap: GameMap): InfluenceMap {
+    const influence = new InfluenceMap(gameMap, blackboard.getCurrentRound());
+
+    for (const enemy of blackboard.getEnemyAliveHeroes()) {
+      if (!enemy.position) {
+        continue;
+      }
+      const unit = InfluenceMap.toCombatUnit(enemy);
+      const total = DamageCalculator.calculateAttackPower(unit);
+      const heroPart = DamageCalculator.calculateAttackPower(unit, { heroOnly: true });
+      influence.stamp(influence.heroThreat, enemy.position, HERO_ATTACK_RANGE, heroPart);
+      influence.stamp(influence.soldierThreat, enemy.position, archer.attackRange, total - heroPart);
+    }
+
+    for (const city of blackboard.getCities()) {
+      const fortress = getFortressByLevel(city.roleId - 49);
+      if (!fortress || !city.position || city.life <= 0) {
+        continue;
+      }
+      influence.stamp(influence.cityThreat, city.position, fortress.attackRange, fortress.damage);
+    }
+
+    for (const ally of blackboard.getMyAliveHeroes()) {
+      if (!ally.position) {
+        continue;
+      }
+      const power = DamageCalculator.calculateAttackPower(InfluenceMap.toCombatUnit(ally));
+      influence.stamp(influence.support, ally.position, HERO_ATTACK_RANGE, power);
+      influence.supporters.push({ roleId: ally.roleId, position: ally.position, power });
+    }
+
+    return influence;
+  }
+
+  /**
+   * 黑板中解析后的英雄数据转为伤害计算单位
+   */
+  private static toCombatUnit(hero: HeroData): CombatUnit {
+    const statuses: Record<string, number> = {};
+    for (const [status, info] of Object.entries(hero.statuses ?? {})) {
+      statuses[status] = typeof info === 'number' ? info : (info as any)?.remainingRounds ?? 0;
+    }
+    return {
+      roleId: hero.roleId,
+      attack: hero.attack,
+      life: hero.life,
+      formationType: hero.formationType,
+      solderProps: hero.soldiers as unknown as CombatUnit['solderProps'],
+      statuses,
+      skills: hero.skills as unknown as CombatUnit['skills']
+    };
+  }
+
+  /**
+   * 在以 center 为中心、切比雪夫半径 range 的方形区域内累加数值
+   */
+  private stamp(layer: Float64Array, center: Position, range: number, value: number): void {
+    if (value <= 0) {
+      return;
+    }
+    for (let y = Math.max(0, center.y - range); y <= Math.min(this.height - 1, center.y + range); y++) {
+      for (let x = Math.max(0, center.x - range); x <= Math.min(this.width - 1, center.x + range); x++) {
+        layer[y * this.width + x] += value;
+      }
+    }
+  }
+
+  /**
+   * 指定格子预期承受的总伤害，地图外返回 Infinity
+   */
+  getThreat(x: number, y: number): number {
+    if (!this.gameMap.isValidPosition(x, y)) {
+      return Infinity;
+    }
+    const index = y * this.width + x;
+    return this.heroThreat[index] + this.soldierThreat[index] + this.cityThreat[index];
+  }
+
+  /**
+   * 指定格子的我方支援火力
+   * @param excludeRoleId 不计入该英雄的贡献
+   */
+  getSupport(x: number, y: number, excludeRoleId?: number): number {
+    if (!this.gameMap.isValidPosition(x, y)) {
+      return 0;
+    }
+    let support = this.support[y * this.width + x];
+    const self = this.supporters.find(s => s.roleId === excludeRoleId);
+    if (self && Math.max(Math.abs(self.position.x - x), Math.abs(self.position.y - y)) <= HERO_ATTACK_RANGE) {
+      support -= self.power;
+    }
+    return support;
+  }
+
+  /**
+   * 指定格子的各项影响力
+   */
+  getCell(x: number, y: number): InfluenceCell {
+    const index = y * this.width + x;
+    const valid = this.gameMap.isValidPosition(x, y);
+    return {
+      heroThreat: valid ? this.heroThreat[index] : 0,
+      soldierThreat: valid ? this.soldierThreat[index] : 0,
+      cityThreat: valid ? this.cityThreat[index] : 0,
+      threat: this.getThreat(x, y),
+      support: this.getSupport(x, y)
+    };
+  }
+
+  /**
+   * 起点 maxDistance 范围内承伤最少的可站立格子
+   * 承伤相同时优先支援更多、距离更近的格子
+   * @param origin 起点
+   * @param maxDistance 最大距离
+   * @param options 查询选项
+   */
+  findSafestCell(origin: Position, maxDistance: number, options: InfluenceQueryOptions = {}): InfluenceCandidate | null {
+    return this.collectCandidates(origin, maxDistance, () => true, options)[0] ?? null;
+  }
+
+  /**
+   * 起点 maxDistance 范围内能攻击到目标的格子，按承伤从少到多排序
+   * @param origin 起点
+   * @param target 攻击目标位置
+   * @param attackRange 攻击距离
+   * @param maxDistance 最大移动距离
+   * @param options 查询选项
+   */
+  findAttackCells(
+    origin: Position,
+    target: Position,
+    attackRange: number,
+    maxDistance: number,
+    options: InfluenceQueryOptions = {}
+  ): InfluenceCandidate[] {
+    return this.collectCandidates(
+      origin,
+      maxDistance,
+      (x, y) => Math.max(Math.abs(x - target.x), Math.abs(y - target.y)) <= attackRange,
+      options
+    );
+  }
+
+  /**
+   * 收集范围内满足条件的可站立格子并排序
+   */
+  private collectCandidates(
+    origin: Position,
+    maxDistance: number,
+    accept: (x: number, y: number) => boolean,
+    options: InfluenceQueryOptions
+  ): InfluenceCandidate[] {
+    const useRealDistance = options.useRealDistance ?? true;
+    const field = useRealDistance ? this.gameMap.getDistanceField(origin.x, origin.y) : null;
+    if (useRealDistance && !field) {
+      return [];
+    }
+
+    const candidates: InfluenceCandidate[] = [];
+    for (let y = Math.max(0, origin.y - maxDistance); y <= Math.min(this.height - 1, origin.y + maxDistance); y++) {
+      for (let x = Math.max(0, origin.x - maxDistance); x <= Math.min(this.width - 1, origin.x + maxDistance); x++) {
+        const distance = field ? field[y * this.width + x] : Math.max(Math.abs(x - origin.x), Math.abs(y - origin.y));
+        if (distance < 0 || distance > maxDistance || this.gameMap.isObstacle(x, y) || !accept(x, y)) {
+          continue;
+        }
+        candidates.push({
+          position: { x, y },
+          threat: this.getThreat(x, y),
+          support: this.getSupport(x, y, options.excludeSupportOf),
+          distance
+        });
+      }
+    }
+
+    return candidates.sort((a, b) => a.threat - b.threat || b.support - a.support || a.distance - b.distance);
+  }
+}
+
+export default InfluenceMap;
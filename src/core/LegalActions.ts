@@ -0,0 +1,400 @@
+/**
+ * 合法行动生成与校验
+ * ==================
+ *
+ * ActionBuilder.validateAction 只检查字段格式，这里按规则引擎（与服务器一致）的约束检查行动能否生效：
+ * - MOVE：相邻8格之一，可通行且没有其他单位，定身时不可移动；
+ *   同一回合的移动一起结算，本回合有 MOVE/SP 的我方英雄原来的格子视为空出，两名英雄不能进入同一格
+ * - SP：10格内的可通行空位，传送冷却结束，沉默、定身时不可传送
+ * - AD/SG：目标在攻击距离（3格）内且存活
+ * - SK：技能属于该英雄、未沉默、冷却结束且目标合法（由 SkillRegistry 判定）
+ * - PICK：第1回合，或有英雄即将复活时替换阵亡英雄
+ * - BUFF：仅在第100/150/200回合，每个窗口一次
+ *
+ * 生成器枚举某名英雄本回合所有合法的 MOVE/SP/AD/SG/SK；校验器对不合法的指令给出原因，
+ * NetworkClient 在发送前用它过滤行动。
+ *
+ * @author AI游戏框架开发团队
+ * @version 1.0.0
+ */
+
+import { BUFF_ROUNDS, HERO_ATTACK_RANGE, TELEPORT_COOLDOWN, TELEPORT_RANGE } from './GameEngine';
+import { CombatSimulator } from './CombatSimulator';
+import type { GameSnapshot } from './CombatSimulator';
+import { SkillRegistry } from './SkillRegistry';
+import { STRONGHOLD_CONFIG, TERRAIN_TYPES } from './GameConstants';
+import ActionBuilder from '../network/ActionBuilder';
+import { HeroStatus } from '../models/inquireMsg';
+import type { InquireMessageData, Player, Position, Role } from '../models/inquireMsg';
+import type { ActionCommand } from '../models/actionMsg';
+import { generals } from '../models/heros';
+import type { GameMap } from '../context/gameMap';
+
+/** 可选的 BUFF 类型 */
+const BUFF_TYPES = [1001, 1002, 1003, 1004];
+
+const NEIGHBORS: ReadonlyArray<readonly [number, number]> = [
+  [-1, -1], [0, -1], [1, -1],
+  [-1, 0], [1, 0],
+  [-1, 1], [0, 1], [1, 1]
+];
+
+/**
+ * 生成与校验选项
+ */
+export interface LegalActionOptions {
+  gameMap: GameMap;                     // 本局地图（团队黑板中注册的地图）
+  lastTeleportRounds?: ReadonlyMap<number, number>;  // 英雄ID → 上次传送的回合，inquire 中没有传送冷却
+  includeTeleport?: boolean;            // 生成时是否枚举传送（格子较多），默认 true
+  movingRoleIds?: ReadonlySet<number>;  // 本回合有 MOVE/SP 的我方英雄，校验落点时它们原来的格子视为空出
+}
+
+/**
+ * 被拒绝的指令
+ */
+export interface RejectedAction {
+  action: ActionCommand;
+  reason: string;
+}
+
+/**
+ * 过滤结果
+ */
+export interface LegalActionFilterResult {
+  accepted: ActionCommand[];
+  rejected: RejectedAction[];
+}
+
+/**
+ * 合法行动生成与校验
+ */
+export class LegalActions {
+  /**
+   * 枚举团队黑板中某名英雄本回合所有合法的 MOVE/SP/AD/SG/SK
+   * @param snapshot 团队黑板的游戏状态快照
+   * @param playerId 英雄所属玩家ID
+   * @param roleId 英雄ID
+   * @param options 生成选项
+   */
+  static forRole(snapshot: GameSnapshot, playerId: number, roleId: number, options: LegalActionOptions): ActionCommand[] {
+    return LegalActions.enumerate(CombatSimulator.toInquireData(snapshot), playerId, roleId, options);
+  }
+
+  /**
+   * 枚举 inquire 数据中某名英雄本回合所有合法的 MOVE/SP/AD/SG/SK
+   * 需要 teleportPosition 参数的技能只校验、不枚举
+   * @param state inquire 数据
+   * @param playerId 英雄所属玩家ID
+   * @param roleId 英雄ID
+   * @param options 生成选项
+   */
+  static enumerate(state: InquireMessageData, playerId: number, roleId: number, options: LegalActionOptions): ActionCommand[] {
+    const player = state.players.find(p => p.playerId === playerId);
+    const role = player?.roles.find(r => r.roleId === roleId);
+    if (!player || !role || !isAlive(role)) {
+      return [];
+    }
+    const gameMap = options.gameMap;
+    const enemies = enemiesOf(state, player);
+    const actions: ActionCommand[] = [];
+
+    if (!hasStatus(role, HeroStatus.Grounded)) {
+      for (const [dx, dy] of NEIGHBORS) {
+        const position = { x: role.position.x + dx, y: role.position.y + dy };
+        if (LegalActions.canEnter(state, gameMap, position)) {
+          actions.push({ roleId, action: 'MOVE', position });
+        }
+      }
+    }
+
+    if ((options.includeTeleport ?? true) && LegalActions.checkTeleportReady(state, role, options) === null) {
+      for (let y = role.position.y - TELEPORT_RANGE; y <= role.position.y + TELEPORT_RANGE; y++) {
+        for (let x = role.position.x - TELEPORT_RANGE; x <= role.position.x + TELEPORT_RANGE; x++) {
+          const position = { x, y };
+          if (!samePosition(position, role.position) && LegalActions.canEnter(state, gameMap, position)) {
+            actions.push({ roleId, action: 'SP', position });
+          }
+        }
+      }
+    }
+
+    for (const enemy of enemies) {
+      if (distance(role.position, enemy.position) <= HERO_ATTACK_RANGE) {
+        actions.push({ roleId, action: 'AD', position: { ...enemy.position } });
+      }
+    }
+
+    for (const city of state.cityProps) {
+      if (city.life > 0 && distance(role.position, city.position) <= HERO_ATTACK_RANGE) {
+        actions.push({ roleId, action: 'SG', position: { ...city.position } });
+      }
+    }
+
+    for (const skill of role.skills) {
+      const def = SkillRegistry.get(skill.skillId);
+      if (!def || def.param === 'teleportPosition' || SkillRegistry.checkCaster(role, skill.skillId) !== null) {
+        continue;
+      }
+      const targets = def.targeting === 'SELF' || def.targeting === 'ALL_ALLIES'
+        ? [role.position]
+        : def.targeting === 'ALLY_HERO'
+          ? player.roles.filter(isAlive).map(r => r.position)
+          : enemies.map(r => r.position);
+      const formTypes = def.param === 'formType' ? [1, 2] : [undefined];
+
+      for (const position of targets) {
+        for (const formType of formTypes) {
+          const action: ActionCommand = { roleId, action: 'SK', skillId: skill.skillId, position: { ...position } };
+          if (formType !== undefined) {
+            action.formType = formType;
+          }
+          if (LegalActions.checkSkill(state, player, role, action, gameMap) === null) {
+            actions.push(action);
+          }
+        }
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * 校验单条指令
+   * @param action 行动指令
+   * @param state inquire 数据
+   * @param playerId 我方玩家ID
+   * @param options 校验选项
+   * @returns 不合法的原因，合法时为 null
+   */
+  static validate(action: ActionCommand, state: InquireMessageData, playerId: number, options: LegalActionOptions): string | null {
+    if (!ActionBuilder.validateAction(action)) {
+      return '指令格式错误';
+    }
+    const player = state.players.find(p => p.playerId === playerId);
+    if (!player) {
+      return '找不到我方玩家数据';
+    }
+
+    switch (action.action) {
+      case 'PICK':
+        return LegalActions.checkPick(state, player, action);
+      case 'BUFF':
+        return LegalActions.checkBuff(state, player, action);
+      case 'MAKE':
+        return (action.details ?? []).some(d => !player.roles.some(r => r.roleId === d.roleId && isAlive(r)))
+          ? '生产的英雄不存在或已阵亡'
+          : null;
+      case 'AC':
+        return state.round < STRONGHOLD_CONFIG.OPEN_ROUND ? `据点第${STRONGHOLD_CONFIG.OPEN_ROUND}回合开放` : null;
+      default:
+        break;
+    }
+
+    const role = player.roles.find(r => r.roleId === action.roleId);
+    if (!role) {
+      return `英雄${action.roleId}不属于我方`;
+    }
+    if (!isAlive(role)) {
+      return `英雄${action.roleId}已阵亡`;
+    }
+    const gameMap = options.gameMap;
+
+    const vacated = player.roles.filter(r => options.movingRoleIds?.has(r.roleId));
+
+    switch (action.action) {
+      case 'MOVE':
+        if (hasStatus(role, HeroStatus.Grounded)) {
+          return '定身中无法移动';
+        }
+        if (distance(role.position, action.position!) !== 1) {
+          return '只能移动到相邻8格';
+        }
+        return LegalActions.canEnter(state, gameMap, action.position!, vacated) ? null : '目标格子不可通行或已有单位';
+      case 'SP': {
+        const notReady = LegalActions.checkTeleportReady(state, role, options);
+        if (notReady) {
+          return notReady;
+        }
+        if (distance(role.position, action.position!) > TELEPORT_RANGE) {
+          return `传送距离超过${TELEPORT_RANGE}格`;
+        }
+        return LegalActions.canEnter(state, gameMap, action.position!, vacated) ? null : '目标格子不可通行或已有单位';
+      }
+      case 'AD': {
+        const target = enemiesOf(state, player).find(r => samePosition(r.position, action.position!));
+        if (!target) {
+          return '目标位置没有存活的敌方英雄';
+        }
+        return distance(role.position, target.position) <= HERO_ATTACK_RANGE ? null : `目标超出攻击距离${HERO_ATTACK_RANGE}格`;
+      }
+      case 'SG': {
+        const city = state.cityProps.find(c => samePosition(c.position, action.position!));
+        if (!city || city.life <= 0) {
+          return '目标位置没有城寨';
+        }
+        return distance(role.position, city.position) <= HERO_ATTACK_RANGE ? null : `城寨超出攻击距离${HERO_ATTACK_RANGE}格`;
+      }
+      case 'SK':
+        return LegalActions.checkSkill(state, player, role, action, gameMap);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 过滤一回合的指令，同一 BUFF 窗口只保留第一条 BUFF
+   * 移动和传送一起结算：本回合要离开的我方英雄不挡路，已被前面指令占用的落点不能再进入
+   * @param actions 待发送的指令
+   * @param snapshot 团队黑板的游戏状态快照
+   * @param playerId 我方玩家ID
+   * @param options 校验选项
+   */
+  static filter(
+    actions: ActionCommand[],
+    snapshot: GameSnapshot,
+    playerId: number,
+    options: LegalActionOptions
+  ): LegalActionFilterResult {
+    const state = CombatSimulator.toInquireData(snapshot);
+    const gameMap = options.gameMap;
+    const result: LegalActionFilterResult = { accepted: [], rejected: [] };
+    const movingRoleIds = new Set(actions.filter(isRelocation).map(a => a.roleId!));
+    const claimed: Position[] = [];
+    let buffChosen = false;
+
+    for (const action of actions) {
+      let reason = LegalActions.validate(action, state, playerId, { ...options, movingRoleIds });
+      if (!reason && action?.action === 'BUFF') {
+        reason = buffChosen ? '本窗口已选择BUFF' : null;
+        buffChosen = true;
+      }
+      if (!reason && isRelocation(action) && !isSharedCell(gameMap, action.position!)) {
+        reason = claimed.some(p => samePosition(p, action.position!)) ? '目标格子已有我方英雄本回合进入' : null;
+        claimed.push(action.position!);
+      }
+      if (reason) {
+        result.rejected.push({ action, reason });
+      } else {
+        result.accepted.push(action);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 格子能否进入（移动、传送的落点）
+   * 与规则引擎一致：山丘、水域和城寨不可进入，主基地可以多名英雄同格
+   * @param vacated 本回合会离开原位置的英雄，不占用原来的格子
+   */
+  static canEnter(state: InquireMessageData, gameMap: GameMap, position: Position, vacated: ReadonlyArray<Role> = []): boolean {
+    if (!gameMap.isValidPosition(position.x, position.y) || gameMap.isObstacle(position.x, position.y)) {
+      return false;
+    }
+    if (state.cityProps.some(c => samePosition(c.position, position))) {
+      return false;
+    }
+    if (gameMap.getTerrain(position.x, position.y) === TERRAIN_TYPES.BASE) {
+      return true;
+    }
+    return !state.players.some(p => p.roles.some(r => isAlive(r) && !vacated.includes(r) && samePosition(r.position, position)));
+  }
+
+  /**
+   * 传送是否可用
+   * @returns 不能传送的原因，可以传送时为 null
+   */
+  static checkTeleportReady(state: InquireMessageData, role: Role, options: Pick<LegalActionOptions, 'lastTeleportRounds'> = {}): string | null {
+    if (hasStatus(role, HeroStatus.Silence) || hasStatus(role, HeroStatus.Grounded)) {
+      return '沉默或定身中无法传送';
+    }
+    const last = options.lastTeleportRounds?.get(role.roleId);
+    if (last !== undefined && state.round - last < TELEPORT_COOLDOWN) {
+      return `传送冷却中，还需${TELEPORT_COOLDOWN - (state.round - last)}回合`;
+    }
+    return null;
+  }
+
+  private static checkSkill(
+    state: InquireMessageData,
+    player: Player,
+    role: Role,
+    action: ActionCommand,
+    gameMap: GameMap
+  ): string | null {
+    if (!role.skills.some(s => s.skillId === action.skillId)) {
+      return `技能${action.skillId}不属于英雄${role.roleId}`;
+    }
+    const outcome = SkillRegistry.predict(role, action.skillId!, {
+      allies: player.roles,
+      enemies: enemiesOf(state, player),
+      position: action.position,
+      formType: action.formType,
+      teleportPosition: action.teleportPosition,
+      isPassable: position => LegalActions.canEnter(state, gameMap, position)
+    });
+    return outcome.castable ? null : outcome.reason ?? '技能无法释放';
+  }
+
+  private static checkPick(state: InquireMessageData, player: Player, action: ActionCommand): string | null {
+    const roles = action.roles ?? [];
+    if (action.playerId !== player.playerId) {
+      return '选将的玩家ID不是我方';
+    }
+    if (new Set(roles).size !== 3 || roles.some(id => !generals.some(g => g.id === id))) {
+      return '阵容必须是3名不同的武将';
+    }
+    if (state.round === 1) {
+      return null;
+    }
+    if (!player.roles.some(r => r.reviveRound === 1)) {
+      return '只能在第1回合或英雄即将复活时选将';
+    }
+    return player.roles.some(r => isAlive(r) && !roles.includes(r.roleId)) ? '存活的英雄不能被换下' : null;
+  }
+
+  private static checkBuff(state: InquireMessageData, player: Player, action: ActionCommand): string | null {
+    if (!BUFF_ROUNDS.includes(state.round)) {
+      return `只能在第${BUFF_ROUNDS.join('/')}回合选择BUFF`;
+    }
+    if (!BUFF_TYPES.includes(action.buffType!)) {
+      return `未知的BUFF类型${action.buffType}`;
+    }
+    if (action.buffType === 1001 && !player.roles.some(r => r.roleId === action.roleId && isAlive(r))) {
+      return '传国玉玺需要指定一名存活的我方英雄';
+    }
+    return null;
+  }
+}
+
+function isAlive(role: Role): boolean {
+  return role.life > 0 && role.reviveRound === 0 && role.position.x >= 0;
+}
+
+function isRelocation(action: ActionCommand): boolean {
+  return action?.action === 'MOVE' || action?.action === 'SP';
+}
+
+/**
+ * 主基地可以多名英雄同格
+ */
+function isSharedCell(gameMap: GameMap, position: Position): boolean {
+  return gameMap.getTerrain(position.x, position.y) === TERRAIN_TYPES.BASE;
+}
+
+function hasStatus(role: Role, status: HeroStatus): boolean {
+  return ((role.statuses as Record<string, number>)[status] ?? 0) > 0;
+}
+
+function enemiesOf(state: InquireMessageData, player: Player): Role[] {
+  return state.players.filter(p => p !== player).flatMap(p => p.roles).filter(isAlive);
+}
+
+function distance(a: Position, b: Position): number {
+  return Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+}
+
+function samePosition(a: Position, b: Position): boolean {
+  return a.x === b.x && a.y === b.y;
+}
+
+export default LegalActions;
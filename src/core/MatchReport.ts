@@ -0,0 +1,406 @@
+/**
+ * 赛后报告
+ * ========
+ *
+ * 把 over 消息的结算数据和对局录像合并成结构化的比赛报告：
+ * - 结算：排名、得分、占点进度、摧毁城寨、击杀、存活士兵、剩余粮草（来自 over）
+ * - 每名武将：造成/承受伤害、击杀、阵亡次数、存活士兵（伤害和阵亡来自录像中相邻两回合的状态变化）
+ * - 粮草曲线、据点占领回合数、各团队策略的回合占比、平均决策耗时
+ *
+ * 报告可导出为 JSON 和 CSV（每局一行、每名武将一行），便于跨多局跟踪机器人水平。
+ *
+ * @author AI游戏框架开发团队
+ * @version 1.0.0
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import MessageParser from '../network/MessageParser';
+import ReplayRecorder from '../network/ReplayRecorder';
+import type { ReplayOverRecord, ReplayRecord, ReplayRoundRecord, ReplayStartRecord } from '../network/ReplayRecorder';
+import type { InquireMessageData, Player, Role } from '../models/inquireMsg';
+import type { OverMessageData } from '../models/protocolMsg';
+import { generals } from '../models/heros';
+
+/**
+ * 单名武将的统计
+ */
+export interface HeroReport {
+  roleId: number;
+  name: string;
+  damageDealt: number;          // 对攻击目标（英雄及其士兵）造成的体力损失，多名武将攻击同一目标时平分
+  damageTaken: number;          // 自身及所带士兵的体力损失
+  kills: number;                // 击杀数，有结算数据时取 over 中的 killedNum
+  deaths: number;               // 阵亡次数
+  bowmen: number;               // 结束时存活弓兵
+  shieldmen: number;            // 结束时存活盾兵
+  efficiency: number;           // MessageParser.calculateHeroEfficiency
+}
+
+/**
+ * 粮草曲线上的一个点
+ */
+export interface FoodPoint {
+  round: number;
+  supplies: number;
+  morale: number;
+}
+
+/**
+ * over 消息中我方的结算数据
+ */
+export interface FinalStanding {
+  rank: number;
+  score: number;
+  progress: number;
+  occupyRound: number;
+  destroyTowerNum: number;
+  killedNum: number;
+  soldierNum: number;
+  totalGold: number;
+  online: boolean;
+}
+
+/**
+ * 一局比赛的报告
+ */
+export interface MatchReportData {
+  playerId: number;
+  playerName: string;
+  opponentId: number | null;
+  camp: number | null;
+  startedAt: string | null;
+  result: 'win' | 'loss' | 'unknown';   // 没有结算数据时为 unknown
+  rounds: number;                        // 录像中的回合数
+  final: FinalStanding | null;           // 没有结算数据时为 null
+  flagRoundsHeld: number;                // 据点归我方的回合数
+  enemyFlagRoundsHeld: number;           // 据点归敌方的回合数
+  foodCurve: FoodPoint[];
+  strategyShare: Record<string, number>; // 策略 → 回合占比（0-1），没有策略的回合记为“无”
+  averageDecisionMs: number | null;
+  heroes: HeroReport[];
+}
+
+/** 每局一行的CSV列 */
+const MATCH_COLUMNS = [
+  'playerId', 'playerName', 'opponentId', 'startedAt', 'result', 'rounds',
+  'rank', 'score', 'progress', 'occupyRound', 'flagRoundsHeld', 'enemyFlagRoundsHeld',
+  'destroyTowerNum', 'killedNum', 'soldierNum', 'totalGold',
+  'finalSupplies', 'peakSupplies', 'damageDealt', 'damageTaken', 'deaths',
+  'averageDecisionMs', 'strategyShare'
+];
+
+/** 每名武将一行的CSV列 */
+const HERO_COLUMNS = [
+  'playerId', 'opponentId', 'startedAt', 'result', 'roleId', 'name',
+  'damageDealt', 'damageTaken', 'kills', 'deaths', 'bowmen', 'shieldmen', 'efficiency'
+];
+
+/** 没有策略的回合 */
+const NO_STRATEGY = '无';
+
+/**
+ * 单位在某一回合的体力
+ */
+interface UnitLife {
+  alive: boolean;
+  total: number;                // 英雄体力 + 所带士兵体力
+  position: { x: number; y: number } | null;
+}
+
+/**
+ * 赛后报告生成器
+ */
+export class MatchReport {
+  /**
+   * 读取录像文件生成报告
+   * @param filePath 录像文件路径
+   */
+  static fromFile(filePath: string): MatchReportData {
+    return MatchReport.build(ReplayRecorder.load(filePath));
+  }
+
+  /**
+   * 由录像记录生成报告
+   * @param records 录像记录
+   * @param overData over 消息的 msg_data，缺省时取录像中的结束记录
+   */
+  static build(records: ReplayRecord[], overData?: OverMessageData): MatchReportData {
+    const start = records.find((r): r is ReplayStartRecord => r.type === 'start');
+    const rounds = records.filter((r): r is ReplayRoundRecord => r.type === 'round');
+    const overRecord = records.find((r): r is ReplayOverRecord => r.type === 'over');
+    const over = overData ?? overRecord?.data;
+
+    const playerId = start?.playerId ?? 0;
+    const camp: number | null = start?.data?.players?.find((p: any) => p.playerId === playerId)?.camp ?? null;
+    const states = rounds.map(r => r.inquire as InquireMessageData).filter(state => Array.isArray(state?.players));
+    const opponentId = start?.data?.players?.find((p: any) => p.playerId !== playerId)?.playerId
+      ?? states[0]?.players.find(p => p.playerId !== playerId)?.playerId
+      ?? null;
+
+    const heroes = MatchReport.collectHeroes(rounds, playerId);
+    const standing = MatchReport.parseStanding(over, playerId);
+
+    if (standing) {
+      for (const hero of heroes) {
+        const final = standing.heroes.find(h => h.roleId === hero.roleId);
+        if (final) {
+          hero.kills = final.killedNum;
+          hero.bowmen = final.bowmen;
+          hero.shieldmen = final.shieldmen;
+          hero.efficiency = final.efficiency;
+        }
+      }
+    }
+
+    const ownsFlag = (state: InquireMessageData, side: number | null) => side !== null && state.stronghold?.camp === side;
+    const decisions = rounds.map(r => r.timing?.decisionMs).filter((ms): ms is number => typeof ms === 'number');
+
+    return {
+      playerId,
+      playerName: start?.playerName ?? '',
+      opponentId,
+      camp,
+      startedAt: start?.timestamp ?? null,
+      result: standing ? (standing.isWinner ? 'win' : 'loss') : 'unknown',
+      rounds: rounds.length,
+      final: standing?.final ?? null,
+      flagRoundsHeld: states.filter(state => ownsFlag(state, camp)).length,
+      enemyFlagRoundsHeld: states.filter(state => ownsFlag(state, camp === null ? null : 1 - camp)).length,
+      foodCurve: states.map(state => {
+        const me = state.players.find(p => p.playerId === playerId);
+        return { round: state.round, supplies: me?.supplies ?? 0, morale: me?.morale ?? 0 };
+      }),
+      strategyShare: MatchReport.strategyShare(rounds),
+      averageDecisionMs: decisions.length > 0
+        ? Math.round(decisions.reduce((sum, ms) => sum + ms, 0) / decisions.length)
+        : null,
+      heroes
+    };
+  }
+
+  /**
+   * 导出为 JSON
+   */
+  static toJson(reports: MatchReportData | MatchReportData[]): string {
+    return JSON.stringify(reports, null, 2);
+  }
+
+  /**
+   * 导出为每局一行的 CSV
+   */
+  static toCsv(reports: MatchReportData[]): string {
+    const rows = reports.map(report => {
+      const supplies = report.foodCurve.map(p => p.supplies);
+      const values: Record<string, unknown> = {
+        ...report.final,
+        playerId: report.playerId,
+        playerName: report.playerName,
+        opponentId: report.opponentId,
+        startedAt: report.startedAt,
+        result: report.result,
+        rounds: report.rounds,
+        flagRoundsHeld: report.flagRoundsHeld,
+        enemyFlagRoundsHeld: report.enemyFlagRoundsHeld,
+        finalSupplies: supplies.length > 0 ? supplies[supplies.length - 1] : null,
+        peakSupplies: supplies.length > 0 ? Math.max(...supplies) : null,
+        damageDealt: report.heroes.reduce((sum, h) => sum + h.damageDealt, 0),
+        damageTaken: report.heroes.reduce((sum, h) => sum + h.damageTaken, 0),
+        deaths: report.heroes.reduce((sum, h) => sum + h.deaths, 0),
+        averageDecisionMs: report.averageDecisionMs,
+        strategyShare: Object.entries(report.strategyShare).map(([name, share]) => `${name}:${share}`).join(';')
+      };
+      return MATCH_COLUMNS.map(column => values[column]);
+    });
+    return MatchReport.csv(MATCH_COLUMNS, rows);
+  }
+
+  /**
+   * 导出为每名武将一行的 CSV
+   */
+  static toHeroCsv(reports: MatchReportData[]): string {
+    const rows = reports.flatMap(report => report.heroes.map(hero => {
+      const values: Record<string, unknown> = {
+        ...hero,
+        playerId: report.playerId,
+        opponentId: report.opponentId,
+        startedAt: report.startedAt,
+        result: report.result
+      };
+      return HERO_COLUMNS.map(column => values[column]);
+    }));
+    return MatchReport.csv(HERO_COLUMNS, rows);
+  }
+
+  /**
+   * 写出 <basePath>.json、<basePath>.csv 和 <basePath>-heroes.csv
+   * @returns 写出的文件路径
+   */
+  static writeFiles(reports: MatchReportData[], basePath: string): string[] {
+    mkdirSync(dirname(basePath), { recursive: true });
+    const files: Array<[string, string]> = [
+      [`${basePath}.json`, MatchReport.toJson(reports)],
+      [`${basePath}.csv`, MatchReport.toCsv(reports)],
+      [`${basePath}-heroes.csv`, MatchReport.toHeroCsv(reports)]
+    ];
+    for (const [path, content] of files) {
+      writeFileSync(path, content + '\n', 'utf8');
+    }
+    return files.map(([path]) => path);
+  }
+
+  /**
+   * 逐回合比较相邻两个 inquire，统计每名武将的伤害和阵亡
+   * 第N回合记录中的行动在第N+1回合的 inquire 中体现效果；造成的伤害按攻击目标所在格子归属
+   */
+  private static collectHeroes(rounds: ReplayRoundRecord[], playerId: number): HeroReport[] {
+    const heroes = new Map<number, HeroReport>();
+    const heroOf = (roleId: number) => {
+      if (!heroes.has(roleId)) {
+        heroes.set(roleId, {
+          roleId,
+          name: generals.find(g => g.id === roleId)?.name ?? String(roleId),
+          damageDealt: 0,
+          damageTaken: 0,
+          kills: 0,
+          deaths: 0,
+          bowmen: 0,
+          shieldmen: 0,
+          efficiency: 0
+        });
+      }
+      return heroes.get(roleId)!;
+    };
+
+    for (let i = 0; i < rounds.length; i++) {
+      const state = rounds[i].inquire as InquireMessageData;
+      const me = state?.players?.find(p => p.playerId === playerId);
+      me?.roles.forEach(role => heroOf(role.roleId));
+
+      const next = rounds[i + 1]?.inquire as InquireMessageData | undefined;
+      if (!me || !next?.players) {
+        continue;
+      }
+
+      // 承受伤害与阵亡
+      const nextMe = next.players.find(p => p.playerId === playerId);
+      for (const role of me.roles) {
+        const before = MatchReport.unitLife(role);
+        const after = MatchReport.unitLife(nextMe?.roles.find(r => r.roleId === role.roleId));
+        if (!before.alive) {
+          continue;
+        }
+        heroOf(role.roleId).damageTaken += MatchReport.lifeLost(before, after);
+        if (!after.alive) {
+          heroOf(role.roleId).deaths++;
+        }
+      }
+
+      // 造成伤害：本回合攻击目标格子上的敌方英雄在下一回合的体力损失
+      const attacks = (rounds[i].actions ?? []).filter(a => (a.action === 'AD' || a.action === 'SK') && a.position);
+      for (const enemy of state.players.filter(p => p.playerId !== playerId)) {
+        const nextEnemy = next.players.find(p => p.playerId === enemy.playerId);
+        for (const role of enemy.roles) {
+          const before = MatchReport.unitLife(role);
+          if (!before.alive || !before.position) {
+            continue;
+          }
+          const attackers = [...new Set(attacks
+            .filter(a => a.position.x === before.position!.x && a.position.y === before.position!.y)
+            .map(a => a.roleId as number))];
+          if (attackers.length === 0) {
+            continue;
+          }
+          const after = MatchReport.unitLife(nextEnemy?.roles.find(r => r.roleId === role.roleId));
+          const share = MatchReport.lifeLost(before, after) / attackers.length;
+          for (const roleId of attackers) {
+            heroOf(roleId).damageDealt += share;
+            if (!after.alive) {
+              heroOf(roleId).kills++;
+            }
+          }
+        }
+      }
+    }
+
+    return [...heroes.values()].map(hero => ({
+      ...hero,
+      damageDealt: Math.round(hero.damageDealt),
+      damageTaken: Math.round(hero.damageTaken)
+    }));
+  }
+
+  /**
+   * 解析 over 消息中我方的结算数据
+   */
+  private static parseStanding(over: any, playerId: number) {
+    if (!over || !Array.isArray(over.players) || over.players.length === 0) {
+      return null;
+    }
+    const parsed = MessageParser.parseOverMessage(over);
+    const mine = parsed.players.find(p => p.playerId === playerId);
+    if (!mine) {
+      return null;
+    }
+    return {
+      isWinner: parsed.winner.winner?.playerId === playerId,
+      heroes: mine.heroes,
+      final: {
+        rank: mine.rank,
+        score: mine.score,
+        progress: mine.progress,
+        occupyRound: mine.occupyRound,
+        destroyTowerNum: mine.destroyTowerNum,
+        killedNum: mine.killedNum,
+        soldierNum: mine.soldierNum,
+        totalGold: mine.totalGold,
+        online: mine.online
+      } as FinalStanding
+    };
+  }
+
+  /**
+   * 各策略的回合占比，保留4位小数
+   */
+  private static strategyShare(rounds: ReplayRoundRecord[]): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const record of rounds) {
+      const strategy = record.strategy ?? NO_STRATEGY;
+      counts[strategy] = (counts[strategy] ?? 0) + 1;
+    }
+    const share: Record<string, number> = {};
+    for (const [strategy, count] of Object.entries(counts)) {
+      share[strategy] = Math.round(count / rounds.length * 10000) / 10000;
+    }
+    return share;
+  }
+
+  private static unitLife(role: Role | undefined): UnitLife {
+    if (!role) {
+      return { alive: false, total: 0, position: null };
+    }
+    const alive = role.life > 0 && (role.reviveRound ?? 0) === 0;
+    const soldiers = (role.solderProps ?? []).reduce((sum, s) => sum + s.life, 0);
+    return { alive, total: alive ? role.life + soldiers : 0, position: role.position ?? null };
+  }
+
+  /**
+   * 体力损失，治疗和补兵不计为负伤害
+   */
+  private static lifeLost(before: UnitLife, after: UnitLife): number {
+    return Math.max(0, before.total - after.total);
+  }
+
+  private static csv(columns: string[], rows: unknown[][]): string {
+    const cell = (value: unknown) => {
+      if (value === null || value === undefined) {
+        return '';
+      }
+      const text = String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return [columns.join(','), ...rows.map(row => row.map(cell).join(','))].join('\n');
+  }
+}
+
+export default MatchReport;
@@ -0,0 +1,302 @@
+/**
+ * 蒙特卡洛树搜索行动规划器
+ * ========================
+ *
+ * 在时间预算内为我方三名英雄搜索本回合的联合行动（MOVE/SP/AD/SG/SK）。
+ * 三名英雄同时行动，联合行动数量是各自选项数量的乘积，因此根节点按英雄分别统计（解耦UCT）：
+ * 每次迭代各英雄按 UCB1 挑选一个选项组成联合行动，敌方按随机策略出招，
+ * 用 CombatSimulator 结算本回合并继续随机推演若干回合，把折扣后的得分回传给每个被选中的选项。
+ *
+ * 时间预算用完后，每名英雄取平均得分最高的选项。
+ *
+ * @author AI游戏框架开发团队
+ * @version 1.0.0
+ */
+
+import { CombatSimulator } from './CombatSimulator';
+import type { GameSnapshot } from './CombatSimulator';
+import { HERO_ATTACK_RANGE, TELEPORT_RANGE } from './GameEngine';
+import type { EngineMapData } from './GameEngine';
+import { LegalActions } from './LegalActions';
+import type { Position } from './types';
+import type { ActionCommand } from '../models/actionMsg';
+import type { InquireMessageData, Role } from '../models/inquireMsg';
+import type { GameMap } from '../context/gameMap';
+
+/** 分出胜负时的得分上限，避免 Infinity 破坏 UCB1 的归一化 */
+const DECISIVE_SCORE = 1e6;
+
+/**
+ * 规划器配置
+ */
+export interface MctsPlannerOptions {
+  timeBudgetMs?: number;                // 单回合搜索时间（毫秒），默认150
+  maxIterations?: number;               // 迭代次数上限，默认不限
+  rolloutDepth?: number;                // 本回合之后继续随机推演的回合数，默认2
+  discount?: number;                    // 推演回合得分的折扣，默认0.9
+  exploration?: number;                 // UCB1 探索系数，默认1.4
+  aggression?: number;                  // 随机策略优先选择攻击类行动的概率，默认0.7
+  canTeleport?: (roleId: number) => boolean;  // 传送是否可用，inquire 中没有传送冷却，由调用方提供
+  random?: () => number;                // 随机数来源，默认 Math.random
+}
+
+/**
+ * 单名英雄的候选行动统计
+ */
+export interface MctsOptionStats {
+  roleId: number;
+  action: ActionCommand | null;         // null 表示原地不动
+  visits: number;
+  meanScore: number;
+}
+
+/**
+ * 规划结果
+ */
+export interface MctsPlan {
+  actions: ActionCommand[];             // 我方联合行动
+  iterations: number;
+  elapsedMs: number;
+  stats: MctsOptionStats[][];           // 每名英雄各选项的统计
+}
+
+/**
+ * 根节点上单名英雄的选项
+ */
+interface HeroArm {
+  roleId: number;
+  options: Array<ActionCommand | null>;
+  visits: number[];
+  totals: number[];
+}
+
+/**
+ * 蒙特卡洛树搜索行动规划器
+ */
+export class MctsPlanner {
+  private readonly options: Required<Omit<MctsPlannerOptions, 'maxIterations'>> & { maxIterations: number };
+
+  /**
+   * @param gameMap 本局地图（团队黑板 getGameMap）
+   * @param mapData 规则引擎使用的地图数据（团队黑板 getMapData）
+   * @param options 规划器配置
+   */
+  constructor(
+    private readonly gameMap: GameMap,
+    private readonly mapData: EngineMapData,
+    options: MctsPlannerOptions = {}
+  ) {
+    this.options = {
+      timeBudgetMs: options.timeBudgetMs ?? 150,
+      maxIterations: options.maxIterations ?? Infinity,
+      rolloutDepth: options.rolloutDepth ?? 2,
+      discount: options.discount ?? 0.9,
+      exploration: options.exploration ?? 1.4,
+      aggression: options.aggression ?? 0.7,
+      canTeleport: options.canTeleport ?? (() => true),
+      random: options.random ?? Math.random
+    };
+  }
+
+  /**
+   * 为我方规划本回合行动
+   * @param snapshot 团队黑板的游戏状态快照
+   * @param playerId 我方玩家ID
+   */
+  plan(snapshot: GameSnapshot, playerId: number): MctsPlan {
+    const startedAt = Date.now();
+    const raw = CombatSimulator.toInquireData(snapshot);
+    const enemyId = raw.players.find(p => p.playerId !== playerId)?.playerId;
+
+    const arms: HeroArm[] = this.enumerateTeamOptions(raw, playerId, true).map(({ roleId, options }) => ({
+      roleId,
+      options,
+      visits: new Array(options.length).fill(0),
+      totals: new Array(options.length).fill(0)
+    }));
+
+    let iterations = 0;
+    let minScore = Infinity;
+    let maxScore = -Infinity;
+    const normalize = (score: number) => (maxScore > minScore ? (score - minScore) / (maxScore - minScore) : 0.5);
+
+    while (arms.length > 0 && iterations < this.options.maxIterations) {
+      if (iterations > 0 && Date.now() - startedAt >= this.options.timeBudgetMs) {
+        break;
+      }
+      iterations++;
+
+      const chosen = arms.map(arm => this.selectArm(arm, iterations, normalize));
+      const joint = chosen
+        .map((index, i) => arms[i].options[index])
+        .filter((action): action is ActionCommand => action !== null);
+      const score = this.evaluate(snapshot, raw, playerId, enemyId, joint);
+
+      minScore = Math.min(minScore, score);
+      maxScore = Math.max(maxScore, score);
+      chosen.forEach((index, i) => {
+        arms[i].visits[index]++;
+        arms[i].totals[index] += score;
+      });
+    }
+
+    const actions: ActionCommand[] = [];
+    const stats = arms.map(arm => {
+      const armStats = arm.options.map((action, i) => ({
+        roleId: arm.roleId,
+        action,
+        visits: arm.visits[i],
+        meanScore: arm.visits[i] > 0 ? arm.totals[i] / arm.visits[i] : -Infinity
+      }));
+      const best = armStats.reduce((a, b) => (b.meanScore > a.meanScore ||
+        (b.meanScore === a.meanScore && b.visits > a.visits) ? b : a));
+      if (best.action) {
+        actions.push(best.action);
+      }
+      return armStats;
+    });
+
+    return { actions, iterations, elapsedMs: Date.now() - startedAt, stats };
+  }
+
+  /**
+   * 枚举一方每名存活英雄本回合的合法行动（含原地不动）
+   * 传送落点很多，只保留能攻击到敌人的少数候选
+   * @param state inquire 数据
+   * @param playerId 行动方玩家ID
+   * @param includeTeleport 是否包含传送
+   */
+  enumerateTeamOptions(
+    state: InquireMessageData,
+    playerId: number,
+    includeTeleport: boolean = false
+  ): Array<{ roleId: number; options: Array<ActionCommand | null> }> {
+    const player = state.players.find(p => p.playerId === playerId);
+    if (!player) {
+      return [];
+    }
+    const enemies = state.players.filter(p => p !== player).flatMap(p => p.roles).filter(isAlive);
+
+    return player.roles.filter(isAlive).map(role => {
+      const options: Array<ActionCommand | null> = [
+        null,
+        ...LegalActions.enumerate(state, playerId, role.roleId, { gameMap: this.gameMap, includeTeleport: false })
+      ];
+      if (includeTeleport && LegalActions.checkTeleportReady(state, role) === null && this.options.canTeleport(role.roleId)) {
+        options.push(...this.enumerateTeleports(state, role, enemies));
+      }
+      return { roleId: role.roleId, options };
+    });
+  }
+
+  /**
+   * 传送候选：对每名传送后可攻击到的敌人，取恰好在攻击距离边缘、离自己最近的空位
+   */
+  private enumerateTeleports(state: InquireMessageData, role: Role, enemies: Role[]): ActionCommand[] {
+    const actions: ActionCommand[] = [];
+    for (const enemy of enemies) {
+      const gap = chebyshev(role.position, enemy.position);
+      if (gap <= HERO_ATTACK_RANGE || gap > TELEPORT_RANGE + HERO_ATTACK_RANGE) {
+        continue;
+      }
+      let best: Position | null = null;
+      let bestDistance = Infinity;
+      for (let y = enemy.position.y - HERO_ATTACK_RANGE; y <= enemy.position.y + HERO_ATTACK_RANGE; y++) {
+        for (let x = enemy.position.x - HERO_ATTACK_RANGE; x <= enemy.position.x + HERO_ATTACK_RANGE; x++) {
+          const position = { x, y };
+          const distance = chebyshev(role.position, position);
+          if (chebyshev(enemy.position, position) === HERO_ATTACK_RANGE && distance <= TELEPORT_RANGE &&
+              distance < bestDistance && LegalActions.canEnter(state, this.gameMap, position)) {
+            best = position;
+            bestDistance = distance;
+          }
+        }
+      }
+      if (best) {
+        actions.push({ roleId: role.roleId, action: 'SP', position: best });
+      }
+    }
+    return actions;
+  }
+
+  /**
+   * UCB1 选择，未访问过的选项优先
+   */
+  private selectArm(arm: HeroArm, iteration: number, normalize: (score: number) => number): number {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+    for (let i = 0; i < arm.options.length; i++) {
+      const visits = arm.visits[i];
+      const value = visits === 0
+        ? Infinity
+        : normalize(arm.totals[i] / visits) + this.options.exploration * Math.sqrt(Math.log(iteration) / visits);
+      // 同值时随机打破平局，避免总是先试第一个选项
+      if (value > bestValue || (value === bestValue && this.options.random() < 0.5)) {
+        bestIndex = i;
+        bestValue = value;
+      }
+    }
+    return bestIndex;
+  }
+
+  /**
+   * 结算一次联合行动并随机推演，返回折扣后的累计得分
+   */
+  private evaluate(
+    snapshot: GameSnapshot,
+    raw: InquireMessageData,
+    playerId: number,
+    enemyId: number | undefined,
+    joint: ActionCommand[]
+  ): number {
+    const actions = new Map<number, ActionCommand[]>([[playerId, joint]]);
+    if (enemyId !== undefined) {
+      actions.set(enemyId, this.randomTeamActions(raw, enemyId));
+    }
+
+    let result = CombatSimulator.simulate(snapshot, actions, this.mapData);
+    let total = boundScore(CombatSimulator.score(result, playerId));
+    let weight = 1;
+
+    for (let depth = 0; depth < this.options.rolloutDepth && !result.finished; depth++) {
+      weight *= this.options.discount;
+      const rollout = new Map<number, ActionCommand[]>(
+        result.rawState.players.map(p => [p.playerId, this.randomTeamActions(result.rawState, p.playerId)])
+      );
+      result = CombatSimulator.simulate(result.state, rollout, this.mapData);
+      total += weight * boundScore(CombatSimulator.score(result, playerId));
+    }
+
+    return total;
+  }
+
+  /**
+   * 随机策略：有攻击类选项时按 aggression 概率优先攻击
+   */
+  private randomTeamActions(state: InquireMessageData, playerId: number): ActionCommand[] {
+    const actions: ActionCommand[] = [];
+    for (const { options } of this.enumerateTeamOptions(state, playerId)) {
+      const offensive = options.filter(o => o && (o.action === 'AD' || o.action === 'SK' || o.action === 'SG'));
+      const pool = offensive.length > 0 && this.options.random() < this.options.aggression ? offensive : options;
+      const choice = pool[Math.floor(this.options.random() * pool.length)];
+      if (choice) {
+        actions.push(choice);
+      }
+    }
+    return actions;
+  }
+}
+
+function isAlive(role: Role): boolean {
+  return role.life > 0 && role.reviveRound === 0 && role.position.x >= 0;
+}
+
+function boundScore(score: number): number {
+  return Math.max(-DECISIVE_SCORE, Math.min(DECISIVE_SCORE, score));
+}
+
+function chebyshev(a: Position, b: Position): number {
+  return Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+}
+
+export default MctsPlanner;
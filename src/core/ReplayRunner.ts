@@ -0,0 +1,176 @@
+/**
+ * 离线回放
+ * =========
+ *
+ * 把录像中的 inquire 依次喂给当前版本的 AI：
+ * 按开局记录注册地图并重建 TeamBlackboard，每回合调用 updateGameState 和 BehaviorTreeController.takeTurn，
+ * 再把行动队列取出的结果与录像中当时发送的行动逐回合比对。
+ * 无需服务器即可用真实对局回归测试策略改动。
+ *
+ * @author AI游戏框架开发团队
+ * @version 1.0.0
+ */
+
+import { BehaviorTreeController } from '../bt/BehaviorTreeController';
+import ActionBuilder from '../network/ActionBuilder';
+import MessageParser from '../network/MessageParser';
+import ReplayRecorder from '../network/ReplayRecorder';
+import type { ReplayRecord, ReplayRoundRecord, ReplayStartRecord } from '../network/ReplayRecorder';
+import { createTeamContext, enemyRoleIds, pickGenerals } from './index';
+
+/**
+ * 单回合比对结果
+ */
+export interface ReplayRoundDiff {
+  round: number;
+  recorded: any[];                      // 录像中发送的行动
+  replayed: any[];                      // 当前版本生成的行动
+  missing: any[];                       // 录像中有、当前版本没有
+  extra: any[];                         // 当前版本新增
+  recordedStrategy: string | null;
+  replayedStrategy: string | null;
+  error?: string;                       // 回放时抛出的异常
+}
+
+/**
+ * 回放报告
+ */
+export interface ReplayReport {
+  playerId: number;
+  rounds: number;                       // 回放的回合数
+  differingRounds: number;              // 行动不一致的回合数
+  diffs: ReplayRoundDiff[];             // 仅包含不一致的回合
+}
+
+/**
+ * 生成键顺序无关的比较键
+ */
+function canonical(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonical).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonical(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * 离线回放器
+ */
+export class ReplayRunner {
+  /**
+   * 回放录像文件
+   * @param filePath 录像文件路径
+   */
+  static runFile(filePath: string): ReplayReport {
+    return ReplayRunner.run(ReplayRecorder.load(filePath));
+  }
+
+  /**
+   * 回放录像记录，流程与在线客户端一致：第1回合只选将，之后每回合更新黑板并执行行为树
+   * @param records 录像记录
+   */
+  static run(records: ReplayRecord[]): ReplayReport {
+    const start = records.find((r): r is ReplayStartRecord => r.type === 'start');
+    const rounds = records.filter((r): r is ReplayRoundRecord => r.type === 'round');
+    const playerId = start?.playerId ?? ReplayRunner.guessPlayerId(rounds);
+    const camp = start?.data?.players?.find((p: any) => p.playerId === playerId)?.camp;
+
+    // 与在线客户端一样使用开局消息中的地图；没有开局记录时各回合的寻路会报错并记入差异
+    const context = createTeamContext(playerId, String(camp ?? ''));
+    if (start) {
+      context.teamBlackboard.registerMap(MessageParser.parseStartMessage(start.data).map);
+    }
+    const diffs: ReplayRoundDiff[] = [];
+
+    for (const record of rounds) {
+      context.actionQueue.clear();
+      let error: string | undefined;
+
+      try {
+        if (record.round === 1) {
+          pickGenerals(context.actionQueue, playerId, enemyRoleIds(record.inquire, playerId));
+        } else {
+          const gameState = MessageParser.parseInquireMessage(record.inquire);
+          context.teamBlackboard.updateGameState(gameState, playerId);
+          new BehaviorTreeController(context).takeTurn();
+        }
+      } catch (e) {
+        error = (e as Error).message;
+      }
+
+      const replayed = context.actionQueue.drain();
+      const recorded = record.actions ?? [];
+      const { missing, extra } = ReplayRunner.diffActions(recorded, replayed);
+      if (missing.length > 0 || extra.length > 0 || error) {
+        diffs.push({
+          round: record.round,
+          recorded,
+          replayed,
+          missing,
+          extra,
+          recordedStrategy: record.strategy,
+          replayedStrategy: context.teamBlackboard.getCurrentStrategy(),
+          error
+        });
+      }
+    }
+
+    return { playerId, rounds: rounds.length, differingRounds: diffs.length, diffs };
+  }
+
+  /**
+   * 按多重集合比较两组行动，忽略字段顺序和行动顺序
+   */
+  static diffActions(recorded: any[], replayed: any[]): { missing: any[]; extra: any[] } {
+    const remaining = replayed.map(canonical);
+    const missing: any[] = [];
+    for (const action of recorded) {
+      const index = remaining.indexOf(canonical(action));
+      if (index >= 0) {
+        remaining[index] = '';
+      } else {
+        missing.push(action);
+      }
+    }
+    const extra = replayed.filter((_, index) => remaining[index] !== '');
+    return { missing, extra };
+  }
+
+  /**
+   * 生成可读的比对报告
+   */
+  static formatReport(report: ReplayReport): string {
+    const lines = [
+      `[回放] 玩家${report.playerId}：共${report.rounds}回合，${report.differingRounds}回合行动不一致`
+    ];
+    for (const diff of report.diffs) {
+      lines.push(`第${diff.round}回合` +
+        (diff.recordedStrategy !== diff.replayedStrategy
+          ? `（策略 ${diff.recordedStrategy ?? '无'} → ${diff.replayedStrategy ?? '无'}）`
+          : ''));
+      diff.missing.forEach(a => lines.push(`  - ${ActionBuilder.getActionDescription(a)}`));
+      diff.extra.forEach(a => lines.push(`  + ${ActionBuilder.getActionDescription(a)}`));
+      if (diff.error) {
+        lines.push(`  ! 回放出错: ${diff.error}`);
+      }
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * 缺少开局记录时，取第1回合 PICK 指令中的玩家ID
+   */
+  private static guessPlayerId(rounds: ReplayRoundRecord[]): number {
+    for (const record of rounds) {
+      const pick = (record.actions ?? []).find(a => a.action === 'PICK');
+      if (pick) {
+        return pick.playerId;
+      }
+    }
+    return 0;
+  }
+}
+
+export default ReplayRunner;
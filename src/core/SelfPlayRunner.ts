@@ -0,0 +1,234 @@
+/**
+ * 离线自对弈
+ * ==========
+ *
+ * 在本地规则引擎中让两个机器人完整对战，不需要服务器：
+ * 每个机器人有独立的 TeamBlackboard、行动队列和 BehaviorTreeController，流程与在线客户端一致
+ * （第1回合选将，之后每回合更新黑板并执行行为树）。
+ * 每场比赛打两局并交换阵营，抵消地图左右两侧的差异，最后汇总胜率、据点占领回合数和平均对局长度。
+ *
+ * @author AI游戏框架开发团队
+ * @version 1.0.0
+ */
+
+import { BehaviorTreeController } from '../bt/BehaviorTreeController';
+import { teamBehaviorTrees } from '../bt/BehaviorTree';
+import LocalGameServer from '../network/LocalGameServer';
+import MessageParser from '../network/MessageParser';
+import type { ActionCommand } from '../models/actionMsg';
+import type { InquireMessageData } from '../models/inquireMsg';
+import { GameEngine } from './GameEngine';
+import type { EngineMapData, EnginePlayer } from './GameEngine';
+import { GAME_RULES } from './GameConstants';
+import { TurnWatchdog } from './TurnWatchdog';
+import { createTeamContext, enemyRoleIds, pickGenerals } from './index';
+import type { ActionContext } from './types';
+import type { RoleAssignment } from './TeamRoster';
+
+/**
+ * 参战机器人配置
+ */
+export interface SelfPlayBot {
+  name: string;
+  teamTree?: keyof typeof teamBehaviorTrees;  // 团队行为树，默认 default
+  roleAssignment?: RoleAssignment;            // 团队行为树位置的分配表，默认按武将类型
+}
+
+/**
+ * 自对弈选项
+ */
+export interface SelfPlayOptions {
+  matches: number;                      // 比赛场数，每场交换阵营打两局
+  maxRounds?: number;                   // 每局最多回合数，默认1000
+  map?: EngineMapData;                  // 对局地图，默认本地服务器的默认地图
+  onGameEnd?: (result: SelfPlayGameResult) => void;
+}
+
+/**
+ * 单局结果，机器人按 bots 参数的顺序编号为 0/1
+ */
+export interface SelfPlayGameResult {
+  game: number;                         // 第几局，从1开始
+  camps: [number, number];              // 两个机器人的阵营
+  winner: 0 | 1 | null;                 // 获胜的机器人，平局为 null
+  rounds: number;                       // 实际进行的回合数
+  flagRounds: [number, number];         // 两个机器人的据点占领回合数
+  errors: [number, number];             // 行为树出错、改用兜底行动的回合数
+}
+
+/**
+ * 单个机器人的汇总
+ */
+export interface SelfPlayBotStats {
+  name: string;
+  wins: number;
+  losses: number;
+  draws: number;
+  winRate: number;                      // 胜局 / 总局数
+  averageFlagRounds: number;
+  errors: number;
+}
+
+/**
+ * 自对弈报告
+ */
+export interface SelfPlayReport {
+  games: number;
+  averageRounds: number;
+  bots: [SelfPlayBotStats, SelfPlayBotStats];
+  results: SelfPlayGameResult[];
+}
+
+/** 两个机器人的玩家ID，与阵营无关 */
+const PLAYER_IDS: [number, number] = [1111, 2222];
+
+/**
+ * 离线自对弈运行器
+ */
+export class SelfPlayRunner {
+  /**
+   * 运行多场比赛，每场交换阵营打两局
+   * @param bots 参战的两个机器人
+   * @param options 自对弈选项
+   */
+  static run(bots: [SelfPlayBot, SelfPlayBot], options: SelfPlayOptions): SelfPlayReport {
+    const map = options.map ?? LocalGameServer.createDefaultMap();
+    const results: SelfPlayGameResult[] = [];
+
+    for (let match = 0; match < options.matches; match++) {
+      for (const camps of [[0, 1], [1, 0]] as Array<[number, number]>) {
+        const result = SelfPlayRunner.playGame(bots, camps, map, options.maxRounds ?? GAME_RULES.MAX_TURNS);
+        result.game = results.length + 1;
+        results.push(result);
+        options.onGameEnd?.(result);
+      }
+    }
+
+    return SelfPlayRunner.summarize(bots, results);
+  }
+
+  /**
+   * 进行一局对战
+   * @param bots 参战的两个机器人
+   * @param camps 两个机器人的阵营
+   * @param map 对局地图
+   * @param maxRounds 最多回合数
+   */
+  static playGame(
+    bots: [SelfPlayBot, SelfPlayBot],
+    camps: [number, number],
+    map: EngineMapData,
+    maxRounds: number = GAME_RULES.MAX_TURNS
+  ): SelfPlayGameResult {
+    const players: EnginePlayer[] = PLAYER_IDS.map((playerId, i) => ({ playerId, camp: camps[i] }));
+    const engine = new GameEngine(map, players);
+
+    // 与在线对局一样，每个机器人从开局消息注册自己的地图，单位层随各自黑板的状态更新同步
+    const mapInfo = MessageParser.parseStartMessage({ map, players }).map;
+    const contexts = PLAYER_IDS.map((playerId, i) => createTeamContext(playerId, String(camps[i]), bots[i].roleAssignment));
+    contexts.forEach(context => context.teamBlackboard.registerMap(mapInfo));
+    const errors: [number, number] = [0, 0];
+    let state = engine.getState();
+
+    while (!engine.isFinished() && state.round <= maxRounds) {
+      const actions = new Map<number, ActionCommand[]>();
+      contexts.forEach((context, i) => {
+        if (!SelfPlayRunner.takeTurn(context, state, bots[i])) {
+          errors[i]++;
+        }
+        actions.set(context.playerId, context.actionQueue.drain());
+      });
+      state = engine.step(actions);
+    }
+
+    const flagRounds = camps.map(camp => state.stronghold.occupiedRound[camp] ?? 0) as [number, number];
+    return {
+      game: 0,
+      camps,
+      winner: SelfPlayRunner.winnerOf(engine, flagRounds),
+      rounds: state.round - 1,
+      flagRounds,
+      errors
+    };
+  }
+
+  /**
+   * 汇总各局结果
+   */
+  static summarize(bots: [SelfPlayBot, SelfPlayBot], results: SelfPlayGameResult[]): SelfPlayReport {
+    const games = results.length;
+    const average = (values: number[]) =>
+      values.length > 0 ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length * 10) / 10 : 0;
+
+    const stats = bots.map((bot, i): SelfPlayBotStats => {
+      const wins = results.filter(r => r.winner === i).length;
+      const draws = results.filter(r => r.winner === null).length;
+      return {
+        name: bot.name,
+        wins,
+        losses: games - wins - draws,
+        draws,
+        winRate: games > 0 ? Math.round(wins / games * 1000) / 1000 : 0,
+        averageFlagRounds: average(results.map(r => r.flagRounds[i])),
+        errors: results.reduce((sum, r) => sum + r.errors[i], 0)
+      };
+    });
+
+    return {
+      games,
+      averageRounds: average(results.map(r => r.rounds)),
+      bots: stats as [SelfPlayBotStats, SelfPlayBotStats],
+      results
+    };
+  }
+
+  /**
+   * 生成可读的汇总
+   */
+  static formatReport(report: SelfPlayReport): string {
+    const lines = [`[自对弈] 共${report.games}局，平均${report.averageRounds}回合`];
+    for (const bot of report.bots) {
+      lines.push(`${bot.name}：${bot.wins}胜 ${bot.losses}负 ${bot.draws}平，胜率${(bot.winRate * 100).toFixed(1)}%，` +
+        `平均占领据点${bot.averageFlagRounds}回合` + (bot.errors > 0 ? `，出错${bot.errors}回合` : ''));
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * 一个机器人的一回合决策，行为树出错且队列为空时改用看门狗的兜底行动
+   * @returns 是否正常完成
+   */
+  private static takeTurn(context: ActionContext, state: InquireMessageData, bot: SelfPlayBot): boolean {
+    context.actionQueue.clear();
+    try {
+      context.teamBlackboard.updateGameState(MessageParser.parseInquireMessage(state), context.playerId);
+      if (state.round === 1) {
+        pickGenerals(context.actionQueue, context.playerId, enemyRoleIds(state, context.playerId));
+      } else {
+        new BehaviorTreeController(context, false, teamBehaviorTrees[bot.teamTree ?? 'default']).takeTurn();
+      }
+      return true;
+    } catch (error) {
+      if (context.actionQueue.size === 0) {
+        TurnWatchdog.buildFallbackActions(context).forEach(action => context.actionQueue.add(action));
+      }
+      return false;
+    }
+  }
+
+  /**
+   * 胜负：引擎判定结束时以引擎为准；提前截止时按与第1000回合相同的规则比较占领回合数
+   */
+  private static winnerOf(engine: GameEngine, flagRounds: [number, number]): 0 | 1 | null {
+    if (engine.isFinished()) {
+      const winner = engine.getWinner();
+      return winner === null ? null : PLAYER_IDS.indexOf(winner) as 0 | 1;
+    }
+    if (flagRounds[0] === flagRounds[1]) {
+      return null;
+    }
+    return flagRounds[0] > flagRounds[1] ? 0 : 1;
+  }
+}
+
+export default SelfPlayRunner;
@@ -0,0 +1,489 @@
+/**
+ * 技能注册表
+ * ===========
+ *
+ * 以 skillId（英雄ID×100+技能序号，如 4501）为键，描述九名武将共18个技能的：
+ * - 目标规则与施法距离、区域形状（如周瑜火攻的4×4区域）
+ * - 伤害倍率与承伤方式、附加状态（沉默、禁锢、虚弱、蓄力）
+ * - 持续增益、治疗、击退、传送等附加效果以及冷却
+ *
+ * predict 在不修改局面的前提下给出技能将产生的效果，
+ * 规则引擎据此结算，决策层可在 ActionBuilder.buildSkillAction 之前预判收益。
+ *
+ * @author AI游戏框架开发团队
+ * @version 1.0.0
+ */
+
+import { HeroStatus } from '../models/inquireMsg';
+import type { Position, Role } from '../models/inquireMsg';
+import { generals } from '../models/heros';
+import { FORMATIONS } from './GameConstants';
+import { DamageCalculator } from './DamageCalculator';
+import type { AttackModifiers } from './DamageCalculator';
+
+/**
+ * 目标规则
+ */
+export type SkillTargeting =
+  | 'SELF'                // 自身
+  | 'ALL_ALLIES'          // 己方所有单位
+  | 'ALLY_HERO'           // position 指定的一名己方武将
+  | 'ENEMY_HERO'          // position 指定的距离内单个敌方武将，小兵不承伤
+  | 'ENEMY_UNIT'          // position 指定的距离内单个敌方单位
+  | 'ENEMIES_IN_RANGE'    // 距离内所有敌方单位
+  | 'AREA';               // 以 position 为左上角的区域
+
+/**
+ * 技能附加的状态，CHARGING（蓄力）不在协议状态中，由施法方自行记录
+ */
+export type SkillStatus = HeroStatus.Silence | HeroStatus.Grounded | HeroStatus.WEAKNESS | 'CHARGING';
+
+/**
+ * 伤害描述
+ */
+export interface SkillDamage {
+  multiplier: number;                   // 武力倍率
+  mode: 'unit' | 'hero' | 'soldier';    // 正常承伤/只对武将/每名小兵各自承伤
+  rounds?: number;                      // 持续造成伤害的回合数，默认1
+  shieldDamageRatio?: number;           // 盾兵所受伤害倍率
+  executeBelowRatio?: number;           // 目标体力低于该比例时直接击杀
+  fallback?: SkillDamage;               // 范围内没有可承伤单位时改用的伤害
+}
+
+/**
+ * 状态效果
+ */
+export interface SkillStatusEffect {
+  status: SkillStatus;
+  duration: number;                     // 持续回合数
+  target: 'self' | 'target';
+  delay?: number;                       // 释放后延迟生效的回合数
+}
+
+/**
+ * 持续增益
+ */
+export interface SkillEffect {
+  attackBonus?: number;                 // 额外武力
+  attackBonusRatio?: number;            // 伤害提升比例
+  damageReduceRatio?: number;           // 受到伤害减少比例（1表示免疫）
+  lifeStealRatio?: number;              // 按造成伤害回复体力的比例
+  freeSoldiers?: number;                // 每回合免费生产的士兵数
+}
+
+/**
+ * 技能定义
+ */
+export interface SkillDefinition {
+  skillId: number;
+  heroId: number;
+  name: string;
+  cooldown: number;
+  targeting: SkillTargeting;
+  range: number;                        // 施法距离（切比雪夫），Infinity 表示不限
+  area?: { width: number; height: number };
+  minTargets?: number;                  // 区域内至少需要的敌方单位数
+  maxLifeToCast?: number;               // 体力低于该值时才可释放
+  chargeRounds?: number;                // 蓄力回合数，蓄力结束后才造成伤害
+  damage?: SkillDamage;
+  statuses?: SkillStatusEffect[];
+  effect?: { target: 'self' | 'allies'; duration: number; modifiers: SkillEffect };
+  heal?: { ratio: number; includeSoldiers: boolean };
+  knockback?: { distance: number; blockedMultiplier: number };
+  teleportRange?: number;               // 传送标记距离（以被传送单位为中心）
+  param?: 'formType' | 'teleportPosition';  // SK 指令需要附带的额外字段
+}
+
+/**
+ * 技能释放上下文
+ */
+export interface SkillCastContext {
+  allies: Role[];                       // 己方武将（含施法者）
+  enemies: Role[];                      // 敌方武将
+  position?: Position;                  // SK 指令的 position
+  formType?: number;
+  teleportPosition?: Position;
+  attackModifiers?: AttackModifiers;    // 施法者当前的攻击修正（BUFF、技能增益）
+  isPassable?: (position: Position) => boolean;  // 击退落点判定，缺省视为均可通行
+}
+
+/**
+ * 对单个武将（及其小兵）的一次伤害
+ */
+export interface SkillHit {
+  target: Role;
+  rawDamage: number;                    // 减伤前伤害
+  delay: number;                        // 延迟结算的回合数，0为本回合
+  directToHero?: boolean;
+  soldiersOnly?: boolean;
+  shieldDamageRatio?: number;
+  execute?: boolean;                    // 直接击杀
+}
+
+/**
+ * 技能预测结果
+ */
+export interface SkillOutcome {
+  skillId: number;
+  castable: boolean;
+  reason?: string;                      // 无法释放的原因
+  hits: SkillHit[];
+  statuses: { target: Role; status: SkillStatus; duration: number; delay: number }[];
+  effects: { target: Role; modifiers: SkillEffect; duration: number }[];
+  heals: { target: Role; ratio: number; includeSoldiers: boolean }[];
+  formation?: { target: Role; formationType: number };
+  teleport?: { target: Role; position: Position };
+  knockback?: { target: Role; position: Position; blocked: boolean };
+}
+
+const SKILL_RANGE = 3;
+
+/** 技能定义（冷却取自 models/heros） */
+const DEFINITIONS: Omit<SkillDefinition, 'cooldown' | 'name'>[] = [
+  // 吕布
+  {
+    skillId: 4001, heroId: 40, targeting: 'ENEMIES_IN_RANGE', range: SKILL_RANGE,
+    damage: { multiplier: 2, mode: 'unit' }
+  },
+  {
+    skillId: 4002, heroId: 40, targeting: 'SELF', range: 0, maxLifeToCast: 1000,
+    effect: { target: 'self', duration: 3, modifiers: { attackBonusRatio: 0.5 } },
+    statuses: [{ status: HeroStatus.WEAKNESS, duration: 2, target: 'self', delay: 3 }]
+  },
+  // 赵云
+  {
+    skillId: 4101, heroId: 41, targeting: 'ENEMY_HERO', range: SKILL_RANGE,
+    damage: { multiplier: 2, mode: 'hero', executeBelowRatio: 0.25 }
+  },
+  {
+    skillId: 4102, heroId: 41, targeting: 'ENEMIES_IN_RANGE', range: SKILL_RANGE,
+    damage: { multiplier: 0.5, mode: 'soldier', fallback: { multiplier: 1, mode: 'hero' } }
+  },
+  // 关羽
+  {
+    skillId: 4201, heroId: 42, targeting: 'ENEMY_HERO', range: SKILL_RANGE,
+    damage: { multiplier: 3, mode: 'hero' }
+  },
+  {
+    skillId: 4202, heroId: 42, targeting: 'ENEMIES_IN_RANGE', range: SKILL_RANGE, chargeRounds: 2,
+    damage: { multiplier: 2, mode: 'unit' },
+    statuses: [{ status: 'CHARGING', duration: 2, target: 'self' }]
+  },
+  // 刘备
+  {
+    skillId: 4301, heroId: 43, targeting: 'ALL_ALLIES', range: 0,
+    effect: { target: 'allies', duration: 5, modifiers: { damageReduceRatio: 0.5 } }
+  },
+  {
+    skillId: 4302, heroId: 43, targeting: 'ALLY_HERO', range: Infinity, teleportRange: 8, param: 'teleportPosition'
+  },
+  // 曹操
+  {
+    skillId: 4401, heroId: 44, targeting: 'ENEMY_UNIT', range: SKILL_RANGE,
+    damage: { multiplier: 1.5, mode: 'unit' },
+    knockback: { distance: 5, blockedMultiplier: 2 }
+  },
+  {
+    skillId: 4402, heroId: 44, targeting: 'SELF', range: 0,
+    effect: { target: 'self', duration: 3, modifiers: { attackBonus: 20, lifeStealRatio: 0.1 } }
+  },
+  // 孙权
+  {
+    skillId: 4501, heroId: 45, targeting: 'ALL_ALLIES', range: 0,
+    heal: { ratio: 0.2, includeSoldiers: true }
+  },
+  {
+    skillId: 4502, heroId: 45, targeting: 'SELF', range: 0,
+    effect: { target: 'self', duration: 3, modifiers: { freeSoldiers: 1 } }
+  },
+  // 诸葛亮
+  {
+    skillId: 4601, heroId: 46, targeting: 'ALL_ALLIES', range: 0,
+    effect: { target: 'allies', duration: 3, modifiers: { damageReduceRatio: 1 } }
+  },
+  {
+    skillId: 4602, heroId: 46, targeting: 'ALLY_HERO', range: Infinity, param: 'formType',
+    heal: { ratio: 0.15, includeSoldiers: false }
+  },
+  // 周瑜
+  {
+    skillId: 4701, heroId: 47, targeting: 'AREA', range: SKILL_RANGE, area: { width: 4, height: 4 }, minTargets: 1,
+    damage: { multiplier: 2.5, mode: 'unit', shieldDamageRatio: 2 }
+  },
+  {
+    skillId: 4702, heroId: 47, targeting: 'SELF', range: 0,
+    effect: { target: 'self', duration: 3, modifiers: { attackBonusRatio: 0.2, damageReduceRatio: 0.5 } }
+  },
+  // 司马懿
+  {
+    skillId: 4801, heroId: 48, targeting: 'ENEMIES_IN_RANGE', range: SKILL_RANGE,
+    damage: { multiplier: 1.5, mode: 'hero', rounds: 5 },
+    statuses: [{ status: HeroStatus.Silence, duration: 5, target: 'target' }]
+  },
+  {
+    skillId: 4802, heroId: 48, targeting: 'ENEMY_HERO', range: SKILL_RANGE,
+    damage: { multiplier: 1, mode: 'hero', rounds: 5 },
+    statuses: [{ status: HeroStatus.Grounded, duration: 5, target: 'target' }]
+  }
+];
+
+/**
+ * 切比雪夫距离
+ */
+function distance(a: Position, b: Position): number {
+  return Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+}
+
+function isAlive(role: Role): boolean {
+  return role.reviveRound === 0 && role.life > 0;
+}
+
+function roleAt(roles: Role[], position: Position | undefined): Role | undefined {
+  return position ? roles.find(r => isAlive(r) && r.position.x === position.x && r.position.y === position.y) : undefined;
+}
+
+/**
+ * 技能注册表
+ */
+export class SkillRegistry {
+  private static readonly skills: Map<number, SkillDefinition> = new Map(
+    DEFINITIONS.map(def => {
+      const hero = generals.find(g => g.id === def.heroId)!;
+      const skill = def.skillId % 100 === 1 ? hero.skill1 : hero.skill2;
+      return [def.skillId, { ...def, name: skill.name, cooldown: skill.cooldown }];
+    })
+  );
+
+  /**
+   * 按 skillId 获取技能定义
+   */
+  static get(skillId: number): SkillDefinition | undefined {
+    return SkillRegistry.skills.get(skillId);
+  }
+
+  /**
+   * 获取英雄的两个技能
+   */
+  static getHeroSkills(heroId: number): SkillDefinition[] {
+    return [...SkillRegistry.skills.values()].filter(s => s.heroId === heroId);
+  }
+
+  /**
+   * 全部技能定义
+   */
+  static all(): SkillDefinition[] {
+    return [...SkillRegistry.skills.values()];
+  }
+
+  /**
+   * 检查英雄当前能否释放技能（不考虑目标）
+   * @returns 无法释放的原因，可以释放时为 null
+   */
+  static checkCaster(caster: Role, skillId: number): string | null {
+    const def = SkillRegistry.get(skillId);
+    if (!def || def.heroId !== caster.roleId) {
+      return '英雄没有该技能';
+    }
+    if (!isAlive(caster)) {
+      return '英雄已阵亡';
+    }
+    if (((caster.statuses as Record<string, number>)[HeroStatus.Silence] ?? 0) > 0) {
+      return '沉默中';
+    }
+    const skill = caster.skills.find(s => s.skillId === skillId);
+    if (skill && skill.cdRemainRound > 0) {
+      return '技能冷却中';
+    }
+    if (def.maxLifeToCast !== undefined && caster.life >= def.maxLifeToCast) {
+      return `体力不低于${def.maxLifeToCast}`;
+    }
+    return null;
+  }
+
+  /**
+   * 预测技能效果，不修改传入的任何单位
+   * @param caster 施法英雄
+   * @param skillId 技能ID
+   * @param context 释放上下文
+   */
+  static predict(caster: Role, skillId: number, context: SkillCastContext): SkillOutcome {
+    const outcome: SkillOutcome = { skillId, castable: false, hits: [], statuses: [], effects: [], heals: [] };
+    const fail = (reason: string): SkillOutcome => ({ ...outcome, reason });
+
+    const casterError = SkillRegistry.checkCaster(caster, skillId);
+    if (casterError) {
+      return fail(casterError);
+    }
+    const def = SkillRegistry.get(skillId)!;
+    const allies = context.allies.filter(isAlive);
+    const enemies = context.enemies.filter(isAlive);
+
+    // 选定目标
+    let targets: Role[] = [];
+    switch (def.targeting) {
+      case 'SELF':
+        targets = [caster];
+        break;
+      case 'ALL_ALLIES':
+        targets = allies;
+        break;
+      case 'ALLY_HERO': {
+        const ally = roleAt(allies, context.position);
+        if (!ally) {
+          return fail('目标位置没有己方武将');
+        }
+        targets = [ally];
+        break;
+      }
+      case 'ENEMY_HERO':
+      case 'ENEMY_UNIT': {
+        const enemy = roleAt(enemies, context.position);
+        if (!enemy || distance(caster.position, enemy.position) > def.range) {
+          return fail('距离内没有目标敌方武将');
+        }
+        targets = [enemy];
+        break;
+      }
+      case 'ENEMIES_IN_RANGE':
+        targets = enemies.filter(e => distance(caster.position, e.position) <= def.range);
+        break;
+      case 'AREA': {
+        const origin = context.position;
+        if (!origin || distance(caster.position, origin) > def.range) {
+          return fail('区域超出施法距离');
+        }
+        const { width, height } = def.area!;
+        targets = enemies.filter(e =>
+          e.position.x >= origin.x && e.position.x < origin.x + width &&
+          e.position.y >= origin.y && e.position.y < origin.y + height);
+        if (targets.length < (def.minTargets ?? 0)) {
+          return fail('区域内没有敌方单位');
+        }
+        break;
+      }
+    }
+
+    // 额外参数
+    if (def.param === 'formType') {
+      if (context.formType !== FORMATIONS.ATTACK && context.formType !== FORMATIONS.DEFENSE) {
+        return fail('缺少阵型参数');
+      }
+      outcome.formation = { target: targets[0], formationType: context.formType };
+    }
+    if (def.param === 'teleportPosition') {
+      const to = context.teleportPosition;
+      if (!to || distance(targets[0].position, to) > def.teleportRange! || !(context.isPassable?.(to) ?? true)) {
+        return fail('传送位置无效');
+      }
+      outcome.teleport = { target: targets[0], position: { x: to.x, y: to.y } };
+    }
+
+    if (def.damage) {
+      SkillRegistry.predictHits(caster, def, targets, context, outcome);
+    }
+
+    for (const status of def.statuses ?? []) {
+      const receivers = status.target === 'self' ? [caster] : targets;
+      for (const target of receivers) {
+        outcome.statuses.push({ target, status: status.status, duration: status.duration, delay: status.delay ?? 0 });
+      }
+    }
+
+    if (def.effect) {
+      const receivers = def.effect.target === 'self' ? [caster] : allies;
+      for (const target of receivers) {
+        outcome.effects.push({ target, modifiers: { ...def.effect.modifiers }, duration: def.effect.duration });
+      }
+    }
+
+    if (def.heal) {
+      for (const target of targets) {
+        outcome.heals.push({ target, ratio: def.heal.ratio, includeSoldiers: def.heal.includeSoldiers });
+      }
+    }
+
+    outcome.castable = true;
+    return outcome;
+  }
+
+  /**
+   * 计算伤害技能的每次命中，含斩杀、击退和持续伤害
+   */
+  private static predictHits(
+    caster: Role,
+    def: SkillDefinition,
+    targets: Role[],
+    context: SkillCastContext,
+    outcome: SkillOutcome
+  ): void {
+    let damage = def.damage!;
+    if (damage.mode === 'soldier' && !targets.some(t => t.solderProps.length > 0)) {
+      if (!damage.fallback) {
+        return;
+      }
+      damage = damage.fallback;
+    }
+
+    const power = (multiplier: number) => DamageCalculator.calculateAttackPower(caster, {
+      ...context.attackModifiers,
+      multiplier,
+      heroOnly: true
+    });
+    const rounds = damage.rounds ?? 1;
+    const delay = def.chargeRounds ?? 0;
+
+    for (const target of targets) {
+      if (damage.mode === 'soldier' && target.solderProps.length === 0) {
+        continue;
+      }
+      if (damage.executeBelowRatio !== undefined && target.life < target.maxLife * damage.executeBelowRatio) {
+        outcome.hits.push({ target, rawDamage: target.life, delay, directToHero: true, execute: true });
+        continue;
+      }
+
+      let multiplier = damage.multiplier;
+      if (def.knockback) {
+        const knockback = SkillRegistry.predictKnockback(caster.position, target.position, def.knockback.distance, context);
+        outcome.knockback = { target, ...knockback };
+        if (knockback.blocked) {
+          multiplier *= def.knockback.blockedMultiplier;
+        }
+      }
+
+      for (let i = 0; i < rounds; i++) {
+        outcome.hits.push({
+          target,
+          rawDamage: power(multiplier),
+          delay: delay + i,
+          directToHero: damage.mode === 'hero' || undefined,
+          soldiersOnly: damage.mode === 'soldier' || undefined,
+          shieldDamageRatio: damage.shieldDamageRatio
+        });
+      }
+    }
+  }
+
+  /**
+   * 沿施法者指向目标的方向击退，遇到不可通行格提前停下
+   */
+  private static predictKnockback(
+    from: Position,
+    target: Position,
+    maxDistance: number,
+    context: SkillCastContext
+  ): { position: Position; blocked: boolean } {
+    const dx = Math.sign(target.x - from.x);
+    const dy = Math.sign(target.y - from.y);
+    let position = { x: target.x, y: target.y };
+    for (let step = 0; step < maxDistance; step++) {
+      const next = { x: position.x + dx, y: position.y + dy };
+      if ((dx === 0 && dy === 0) || !(context.isPassable?.(next) ?? true)) {
+        return { position, blocked: true };
+      }
+      position = next;
+    }
+    return { position, blocked: false };
+  }
+}
+
+export default SkillRegistry;
@@ -7,6 +7,7 @@
  * 2. 出发去攻击对方（集合判断、实力对比、距离考量）
  * 3. 对方已经在我方攻击范围，集火攻击对方
  * 4. 占领龙旗
+ * 5. 残局（双方都凑不满60回合时按占领回合数争夺据点）
  * 
  * @author AI游戏框架开发团队
  * @version 1.0.0
@@ -15,6 +16,7 @@
 import { TeamBlackboard } from './TeamBlackboard';
 import { AnalysisTools, Target, DistanceResult } from './AnalysisTools';
 import { TERRAIN_TYPES, FLAG_ZONE } from './GameConstants';
+import { log } from '../logger';
 
 /**
  * 策略类型枚举
@@ -123,10 +125,34 @@ export class StrategyAnalysis {
    * 进行全局策略分析，决定当前应该采取的主要策略
    */
   public analyzeGlobalStrategy(): StrategyDecision {
+    return this.decideGlobalStrategy(() => this.analyzeRegularStrategy());
+  }
+
+  /**
+   * 先判断残局，进入残局时只争夺据点，否则采用 analyze 给出的常规决策
+   * analyzeGlobalStrategy 和团队行为树的 AnalyzeAndSetStrategy 都经由这里做决策，
+   * 残局模式的切换也在这里记入团队黑板
+   * @param analyze 常规的全局策略分析
+   */
+  public decideGlobalStrategy(analyze: () => StrategyDecision): StrategyDecision {
+    const decision = this.analyzeEndgameStrategy() ?? analyze();
+    this.blackboard.updateEndgameMode(
+      this.blackboard.getFlagPlan().endgame,
+      decision.strategy,
+      decision.priority,
+      decision.confidence
+    );
+    return decision;
+  }
+
+  /**
+   * 常规的全局策略分析（未进入残局时）
+   */
+  private analyzeRegularStrategy(): StrategyDecision {
     const currentRound = this.blackboard.getCurrentRound();
     const myHeroes = this.blackboard.getMyAliveHeroes();
     
-    console.log(`[策略分析] 开始全局策略分析 - 回合: ${currentRound}`);
+    log(`[策略分析] 开始全局策略分析 - 回合: ${currentRound}`);
 
     // 如果没有存活英雄，采取防御策略
     if (myHeroes.length === 0) {
@@ -243,7 +269,7 @@ export class StrategyAnalysis {
       // 计算到城寨的平均距离
       const heroDistances = myHeroes
         .filter(hero => hero.position)
-        .map(hero => AnalysisTools.calculateShortestDistance(hero.position!, city.position!));
+        .map(hero => AnalysisTools.calculateShortestDistance(this.blackboard.getGameMap(), hero.position!, city.position!));
       
       const avgDistance = heroDistances.length > 0 
         ? heroDistances.reduce((sum, dist) => sum + (dist.isReachable ? dist.realDistance : 999), 0) / heroDistances.length
@@ -292,7 +318,7 @@ export class StrategyAnalysis {
       const enemyHeroes = this.blackboard.getEnemyAliveHeroes();
       for (const enemy of enemyHeroes) {
         if (enemy.position) {
-          const enemyDistance = AnalysisTools.calculateShortestDistance(enemy.position, city.position!);
+          const enemyDistance = AnalysisTools.calculateShortestDistance(this.blackboard.getGameMap(), enemy.position, city.position!);
           if (enemyDistance.isReachable && enemyDistance.realDistance < 8) {
             safetyScore -= 30;
             attackPriority -= 15;
@@ -305,8 +331,8 @@ export class StrategyAnalysis {
       const recommendedHeroes = myHeroes
         .filter(hero => hero.position && hero.life > hero.maxLife * 0.3) // 血量充足
         .sort((a, b) => {
-          const distA = AnalysisTools.calculateShortestDistance(a.position!, city.position!);
-          const distB = AnalysisTools.calculateShortestDistance(b.position!, city.position!);
+          const distA = AnalysisTools.calculateShortestDistance(this.blackboard.getGameMap(), a.position!, city.position!);
+          const distB = AnalysisTools.calculateShortestDistance(this.blackboard.getGameMap(), b.position!, city.position!);
           return (distA.realDistance - distB.realDistance) + (b.attack - a.attack) * 0.1;
         })
         .slice(0, 2) // 选择最多2个英雄
@@ -373,7 +399,7 @@ export class StrategyAnalysis {
       for (const myHero of myHeroes) {
         if (!myHero.position) continue;
         
-        const dist = AnalysisTools.calculateShortestDistance(myHero.position, enemy.position);
+        const dist = AnalysisTools.calculateShortestDistance(this.blackboard.getGameMap(), myHero.position, enemy.position);
         if (dist.isReachable) {
           distances.push(dist.realDistance);
           if (dist.realDistance < minDistance) {
@@ -469,7 +495,7 @@ export class StrategyAnalysis {
       
       const attackers = myHeroes.filter(hero => {
         if (!hero.position) return false;
-        const distance = AnalysisTools.calculateShortestDistance(hero.position, enemy.position!);
+        const distance = AnalysisTools.calculateShortestDistance(this.blackboard.getGameMap(), hero.position, enemy.position!);
         return distance.isReachable && distance.realDistance <= 3; // 假设攻击距离为3
       });
 
@@ -526,6 +552,31 @@ export class StrategyAnalysis {
     };
   }
 
+  /**
+   * 分析残局策略
+   * 双方都凑不满60回合时，第1000回合按占领回合数定胜负，此时只围绕据点行动：
+   * 领先时全员驻守（DEFEND），持平或落后时全力争夺（ALL_IN）
+   * @returns 残局的策略决策，未进入残局时为 null
+   */
+  private analyzeEndgameStrategy(): StrategyDecision | null {
+    const flagPlan = this.blackboard.getFlagPlan();
+    if (!flagPlan.endgame) {
+      return null;
+    }
+
+    const defend = flagPlan.endgame === 'DEFEND';
+    return {
+      strategy: StrategyType.CAPTURE_FLAG,
+      priority: StrategyPriority.CRITICAL,
+      confidence: 100,
+      details: { ...this.analyzeFlagCaptureStrategy(), endgame: flagPlan.endgame },
+      reason: flagPlan.reason,
+      executionPlan: defend
+        ? ['全员进入据点区域', '保持人数优势，阻止敌方累计占领回合', '不主动追击']
+        : ['全员前往据点', '夺取人数优势并发送占领指令', '不计粮草维持占领']
+    };
+  }
+
   /**
    * 分析龙旗占领策略
    */
@@ -550,30 +601,24 @@ export class StrategyAnalysis {
       return assessment;
     }
 
-    // 检查龙旗是否开放
-    const isAvailable = currentRound >= FLAG_ZONE.OPEN_TURN || stronghold.isAvailable;
+    // 据点开放、控制方和驻守方式以据点计划为准
+    const flagPlan = this.blackboard.getFlagPlan();
+    const isAvailable = flagPlan.status.isOpen;
     assessment.isAvailable = isAvailable;
 
     if (!isAvailable) {
-      const roundsLeft = FLAG_ZONE.OPEN_TURN - currentRound;
+      const roundsLeft = Math.max(0, (flagPlan.status.opensAt ?? FLAG_ZONE.OPEN_TURN) - currentRound);
       assessment.reason = `龙旗将在${roundsLeft}回合后开放`;
       return assessment;
     }
 
-    // 确定控制状态
-    if (stronghold.camp === myPlayer.playerId) {
-      assessment.controlStatus = 'OURS';
-    } else if (stronghold.camp !== 0) {
-      assessment.controlStatus = 'ENEMY';
-    } else {
-      assessment.controlStatus = 'NEUTRAL';
-    }
+    assessment.controlStatus = flagPlan.status.holder;
 
     // 计算到龙旗的距离
     if (stronghold.position) {
       const distances = myHeroes
         .filter(hero => hero.position)
-        .map(hero => AnalysisTools.calculateShortestDistance(hero.position!, stronghold.position!));
+        .map(hero => AnalysisTools.calculateShortestDistance(this.blackboard.getGameMap(), hero.position!, stronghold.position!));
       
       if (distances.length > 0) {
         const avgDistance = distances.reduce((sum, dist) => 
@@ -592,44 +637,41 @@ export class StrategyAnalysis {
     let reason = '';
     let risk = 50;
 
-    if (assessment.controlStatus === 'OURS') {
-      reason = '我方已控制龙旗';
-      shouldCapture = false;
-    } else if (assessment.controlStatus === 'ENEMY') {
+    if (flagPlan.mode === 'HOLD') {
       shouldCapture = true;
-      priority = StrategyPriority.HIGH;
-      reason = '敌方控制龙旗，需要夺回控制权';
-    } else {
-      // 中立状态
-      if (currentRound > FLAG_ZONE.OPEN_TURN + 10) {
-        shouldCapture = true;
-        priority = StrategyPriority.MEDIUM;
-        reason = '龙旗处于中立状态，可以占领';
+      priority = StrategyPriority.CRITICAL;
+      reason = '我方控制龙旗，继续驻守';
+    } else if (flagPlan.mode === 'CONTEST') {
+      shouldCapture = true;
+      priority = assessment.controlStatus === 'ENEMY' ? StrategyPriority.HIGH : StrategyPriority.MEDIUM;
+      reason = assessment.controlStatus === 'ENEMY' ? '敌方控制龙旗，需要夺回控制权' : '龙旗处于中立状态，可以占领';
+      if (flagPlan.raceAlarm || flagPlan.endgame) {
+        priority = StrategyPriority.CRITICAL;
+        reason += `, ${flagPlan.reason}`;
       }
+    } else {
+      priority = StrategyPriority.MINIMAL;
+      reason = flagPlan.reason;
     }
 
-         // 距离因素
-     if (assessment.distance.realDistance < 10) {
-       priority += 20;
-       risk -= 20;
-       reason += ', 距离较近';
-     } else if (assessment.distance.realDistance > 20) {
-       priority -= 20;
-       risk += 20;
-       reason += ', 距离较远';
-     }
-
-     // 粮草考量（占领龙旗需要消耗粮草）
-     const flagSupplyCost = 50; // 占领龙旗的粮草消耗
-     if (shouldCapture && myPlayer.supplies < flagSupplyCost) {
-       shouldCapture = false;
-       priority = StrategyPriority.MINIMAL;
-       reason += ', 粮草不足无法占领龙旗';
-     } else if (shouldCapture && myPlayer.supplies < flagSupplyCost * 2) {
-       priority -= 30;
-       risk += 20;
-       reason += ', 粮草紧张需谨慎占领';
-     }
+    // 距离因素
+    if (assessment.distance.realDistance < 10) {
+      priority += 20;
+      risk -= 20;
+      reason += ', 距离较近';
+    } else if (assessment.distance.realDistance > 20) {
+      priority -= 20;
+      risk += 20;
+      reason += ', 距离较远';
+    }
+
+    // 粮草付不起维护费时先攒粮，敌方即将获胜或进入残局时除外
+    if (shouldCapture && !flagPlan.affordable && !flagPlan.raceAlarm && !flagPlan.endgame) {
+      shouldCapture = flagPlan.mode === 'HOLD';
+      priority = shouldCapture ? priority - 30 : StrategyPriority.MINIMAL;
+      risk += 20;
+      reason += shouldCapture ? ', 粮草紧张暂停累计占领回合' : ', 粮草不足无法占领龙旗';
+    }
 
     // 风险评估：检查附近敌方英雄
     const enemyHeroes = this.blackboard.getEnemyAliveHeroes();
@@ -638,7 +680,7 @@ export class StrategyAnalysis {
     if (stronghold.position) {
       for (const enemy of enemyHeroes) {
         if (enemy.position) {
-          const dist = AnalysisTools.calculateShortestDistance(enemy.position, stronghold.position);
+          const dist = AnalysisTools.calculateShortestDistance(this.blackboard.getGameMap(), enemy.position, stronghold.position);
           if (dist.isReachable && dist.realDistance < 8) {
             enemyNearFlag++;
             risk += 20;
@@ -656,8 +698,8 @@ export class StrategyAnalysis {
       .filter(hero => hero.position && hero.healthPercentage > 50)
       .sort((a, b) => {
         if (!stronghold.position) return 0;
-        const distA = AnalysisTools.calculateShortestDistance(a.position!, stronghold.position);
-        const distB = AnalysisTools.calculateShortestDistance(b.position!, stronghold.position);
+        const distA = AnalysisTools.calculateShortestDistance(this.blackboard.getGameMap(), a.position!, stronghold.position);
+        const distB = AnalysisTools.calculateShortestDistance(this.blackboard.getGameMap(), b.position!, stronghold.position);
         return distA.realDistance - distB.realDistance;
       })
       .slice(0, 2)
@@ -9,6 +9,13 @@
  * - 集合位置管理
  * - Debuff状态追踪
  * - 历史目标记录
+ * - 本局地图
+ * - 队友路径预约
+ * - 威胁/影响力地图
+ * - 传送冷却记录
+ * - 按服务器阵容维护武将代理及其位置分配
+ * - 粮草预测与预算分配
+ * - 据点争夺计划
  * 
  * @author AI游戏框架开发团队
  * @version 1.0.0
@@ -16,108 +23,38 @@
 
 import { Agent } from './Agent';
 import { StrategyType } from './StrategyAnalysis';
+import { PathReservations } from '../context/PathReservations';
+import type { GameMap, PathOptions } from '../context/gameMap';
+import { MapRegistry } from '../context/MapRegistry';
+import type { ParsedMapInfo } from '../context/MapRegistry';
+import { InfluenceMap } from './InfluenceMap';
+import { EconomyPlanner } from './EconomyPlanner';
+import type { EconomyPlan } from './EconomyPlanner';
+import { FlagController } from './FlagController';
+import type { EndgameMode, FlagPlan } from './FlagController';
+import { TELEPORT_COOLDOWN } from './GameEngine';
+import type { EngineMapData } from './GameEngine';
+import { assignRoles, DEFAULT_ROLE_ASSIGNMENT } from './TeamRoster';
+import type { RoleAssignment, TeamRole } from './TeamRoster';
+import { generals } from '../models/heros';
+import { archer, shieldSoldier } from '../models/units';
+import type {
+  ParsedCity,
+  ParsedInquireMessage,
+  ParsedPlayer,
+  ParsedRole,
+  ParsedStronghold
+} from '../network/MessageParser';
+import { log } from '../logger';
 
 /**
- * 游戏状态接口
+ * 游戏状态及其中的玩家、英雄、城寨、据点，与 MessageParser 的解析结果保持一致
  */
-interface GameStateData {
-  round: number;
-  players: PlayerData[];
-  cityProps: CityData[];
-  stronghold: StrongholdData | null;
-  timestamp: string;
-}
-
-/**
- * 玩家数据接口
- */
-interface PlayerData {
-  playerId: number;
-  supplies: number;
-  morale: number;
-  roles: RoleData[];
-  totalLife: number;
-  aliveHeroes: number;
-  totalSoldiers: number;
-}
-
-/**
- * 英雄数据接口
- */
-interface RoleData {
-  roleId: number;
-  attack: number;
-  position: { x: number; y: number } | null;
-  life: number;
-  maxLife: number;
-  camp: number;
-  campName: string;
-  reviveRound: number;
-  formationType: number;
-  formationName: string;
-  commander: number;
-  statuses: any;
-  skills: SkillData[];
-  soldiers: SoldierData[];
-  isAlive: boolean;
-  isReviving: boolean;
-  totalSoldierCount: number;
-  healthPercentage: number;
-}
-
-/**
- * 技能数据接口
- */
-interface SkillData {
-  skillId: number;
-  cd: number;
-  cdRemainRound: number;
-  damage: number;
-  damageReduceRatio: number;
-  damageAddByAttackRatio: number;
-  roleId: number;
-  isReady: boolean;
-  cooldownProgress: number;
-}
-
-/**
- * 士兵数据接口
- */
-interface SoldierData {
-  roleId: number;
-  attack: number;
-  heroId: number;
-  life: number;
-  type: string;
-  typeName: string;
-}
-
-/**
- * 城寨数据接口
- */
-interface CityData {
-  roleId: number;
-  position: { x: number; y: number } | null;
-  life: number;
-  maxLife: number;
-  cityType: string;
-  healthPercentage: number;
-}
-
-/**
- * 据点数据接口
- */
-interface StrongholdData {
-  roleId: number;
-  camp: number;
-  campName: string;
-  occupiedRound: number[];
-  position: { x: number; y: number } | null;
-  isAvailable: boolean;
-  redOccupiedRounds: number;
-  blueOccupiedRounds: number;
-  totalOccupiedRounds: number;
-}
+type GameStateData = ParsedInquireMessage;
+type PlayerData = ParsedPlayer;
+type RoleData = ParsedRole;
+type CityData = ParsedCity;
+type StrongholdData = ParsedStronghold;
 
 /**
  * 集火目标数据
@@ -232,6 +169,8 @@ interface StrategyHistoryEntry {
   reason: string;
   data: any; // 对应策略的具体数据
   result?: 'SUCCESS' | 'FAILED' | 'INTERRUPTED'; // 执行结果
+  endgame?: EndgameMode; // 设置策略时所处的残局模式
+  endgameSwitch?: { from: EndgameMode | null; to: EndgameMode | null }; // 残局模式切换记录，普通策略记录没有该字段
 }
 
 /**
@@ -259,20 +198,66 @@ export class TeamBlackboard {
 
   // 历史记录
   private strategyHistory: StrategyHistoryEntry[] = [];     // 策略历史记录
+  private endgameMode: EndgameMode | null = null;           // 最近一次全局策略决策时的残局模式
+
+  // 本局地图，由服务器 start 消息注册，每个机器人一份
+  private maps: MapRegistry = new MapRegistry();
+
+  // 本回合队友的路径预约
+  private pathReservations: PathReservations = new PathReservations();
+
+  // 本回合的影响力地图，首次使用时构建
+  private influenceMap: InfluenceMap | null = null;
 
-  public warrior: Agent;
-  public support: Agent;
-  public leader: Agent;
-  public team: Agent[];
+  // 本回合的经济规划，首次使用时构建
+  private economyPlan: EconomyPlan | null = null;
+
+  // 本回合的据点计划，首次使用时制定
+  private flagPlan: FlagPlan | null = null;
+
+  // 英雄ID → 上次发送传送的回合（inquire 中没有传送冷却，跨回合保留）
+  private teleportRounds: Map<number, number> = new Map();
+
+  // 英雄ID → 代理，按服务器下发的阵容维护
+  private agents: Map<number, Agent> = new Map();
+
+  // 代理所属队伍和团队行为树位置的分配表
+  private teamId: string = '';
+  private roleAssignment: RoleAssignment = DEFAULT_ROLE_ASSIGNMENT;
+
+  // 阵容里没有可分配到该位置的武将时为 undefined
+  public warrior: Agent | undefined;
+  public support: Agent | undefined;
+  public leader: Agent | undefined;
+  public team: Agent[] = [];
 
   constructor(public food: number = 100) {
   }
 
-  setTeam(warrior: Agent, support: Agent, leader: Agent) {
+  setTeam(warrior: Agent | undefined, support: Agent | undefined, leader: Agent | undefined) {
     this.warrior = warrior;
     this.support = support;
     this.leader = leader;
-    this.team = [warrior, support, leader];
+    this.team = [warrior, support, leader].filter((agent): agent is Agent => agent !== undefined);
+  }
+
+  /**
+   * 设置代理所属队伍和角色分配表，武将代理在收到 inquire 后按阵容创建
+   * @param teamId 队伍ID（阵营）
+   * @param assignment 团队行为树位置的分配表
+   */
+  public configureTeam(teamId: string, assignment: RoleAssignment = DEFAULT_ROLE_ASSIGNMENT): void {
+    this.teamId = teamId;
+    this.roleAssignment = assignment;
+    this.syncAgents();
+  }
+
+  /**
+   * 获取我方英雄的代理
+   * @param roleId 英雄ID
+   */
+  public getAgent(roleId: number): Agent | undefined {
+    return this.agents.get(roleId);
   }
 
   /**
@@ -286,6 +271,180 @@ export class TeamBlackboard {
     
     // 找到敌方玩家ID
     this.enemyPlayerId = gameStateData.players.find(p => p.playerId !== myPlayerId)?.playerId || null;
+
+    // 新回合重新预约路径，影响力地图、经济规划和据点计划按需重建
+    this.pathReservations.clear();
+    this.influenceMap = null;
+    this.economyPlan = null;
+    this.flagPlan = null;
+
+    // 更新地图单位层，供考虑占位的寻路使用
+    if (this.maps.has()) {
+      this.maps.get().syncGameState(gameStateData);
+    }
+
+    this.syncAgents();
+  }
+
+  /**
+   * 按 inquire 中的我方阵容维护武将代理，是代理与阵容同步的唯一入口：
+   * 新上场的武将（第1回合选将、复活窗口换将）创建代理，已有代理沿用；
+   * 位置、体力和士兵数每回合按服务器数据同步，再按分配表重新绑定 warrior/support/leader
+   */
+  private syncAgents(): void {
+    const roles = this.getMyHeroes();
+    if (roles.length === 0) {
+      return;
+    }
+
+    const agents = new Map<number, Agent>();
+    for (const role of roles) {
+      const hero = generals.find(g => g.id === role.roleId);
+      if (!hero) {
+        continue;
+      }
+      const agent = this.agents.get(role.roleId)
+        ?? new Agent(hero, { x: 0, y: 0 }, this.teamId || String(role.camp), this);
+      if (role.position) {
+        agent.position = { ...role.position };
+      }
+      agent.health = role.life;
+      agent.bowmen = role.soldiers.filter(s => s.roleId === archer.id).length;
+      agent.shieldmen = role.soldiers.filter(s => s.roleId === shieldSoldier.id).length;
+      agent.currentTurn = this.getCurrentRound();
+      agents.set(role.roleId, agent);
+    }
+
+    const removed = [...this.agents.values()].filter(agent => !agents.has(agent.id));
+    const added = [...agents.values()].filter(agent => !this.agents.has(agent.id));
+    if (removed.length > 0) {
+      log(`[团队黑板] 换将: ${removed.map(a => a.hero.name).join(',')} → ${added.map(a => a.hero.name).join(',')}`);
+    }
+    this.agents = agents;
+
+    const slots = assignRoles([...agents.keys()], this.roleAssignment);
+    const agentAt = (role: TeamRole): Agent | undefined => {
+      const roleId = slots[role];
+      return roleId === null ? undefined : agents.get(roleId);
+    };
+    this.setTeam(agentAt('warrior'), agentAt('support'), agentAt('leader'));
+  }
+
+  /**
+   * 注册本局地图
+   * @param mapInfo MessageParser.parseStartMessage(...).map
+   * @returns 新建的GameMap实例
+   */
+  public registerMap(mapInfo: ParsedMapInfo): GameMap {
+    return this.maps.register(mapInfo);
+  }
+
+  /**
+   * 是否已注册本局地图
+   */
+  public hasGameMap(): boolean {
+    return this.maps.has();
+  }
+
+  /**
+   * 获取本局地图
+   * @throws 尚未注册地图时
+   */
+  public getGameMap(): GameMap {
+    return this.maps.get();
+  }
+
+  /**
+   * 获取本局地图的原始数据，供规则引擎模拟使用
+   * @throws 尚未注册地图时
+   */
+  public getMapData(): EngineMapData {
+    return this.maps.getMapData();
+  }
+
+  /**
+   * 获取本回合的威胁/影响力地图
+   * 每回合第一次调用时根据当前游戏状态和已注册的地图构建
+   */
+  public getInfluenceMap(): InfluenceMap {
+    if (!this.influenceMap) {
+      this.influenceMap = InfluenceMap.fromBlackboard(this, this.getGameMap());
+    }
+    return this.influenceMap;
+  }
+
+  /**
+   * 获取本回合的经济规划
+   * 每回合第一次调用时预测粮草并分配守旗、生产和变阵的预算
+   */
+  public getEconomyPlan(): EconomyPlan {
+    if (!this.economyPlan) {
+      this.economyPlan = EconomyPlanner.fromBlackboard(this);
+      const { flag, production, formation } = this.economyPlan.budgets;
+      log(`[经济规划] 粮草${this.economyPlan.supplies}，守旗预留${flag}，生产${production}，变阵${formation}`, 'debug');
+    }
+    return this.economyPlan;
+  }
+
+  /**
+   * 获取本回合的据点计划
+   * 每回合第一次调用时根据双方占领回合数、据点内外的英雄和粮草决定争夺、驻守还是放弃
+   */
+  public getFlagPlan(): FlagPlan {
+    if (!this.flagPlan) {
+      this.flagPlan = FlagController.fromBlackboard(this);
+      const { mode, status, reason } = this.flagPlan;
+      if (mode !== 'WAIT') {
+        log(`[据点计划] ${mode} 占领回合 ${status.myRounds}:${status.enemyRounds}，据点内 ${status.myOnFlag}:${status.enemyOnFlag}，${reason}`, 'debug');
+      }
+    }
+    return this.flagPlan;
+  }
+
+  /**
+   * 获取本回合的路径预约表
+   */
+  public getPathReservations(): PathReservations {
+    return this.pathReservations;
+  }
+
+  /**
+   * 英雄移动时的寻路选项：绕开敌军，尽量不与友军重叠，并避开队友已预约的格子
+   * @param roleId 寻路的英雄ID
+   */
+  public getHeroPathOptions(roleId: number): PathOptions {
+    return {
+      playerId: this.myPlayerId ?? undefined,
+      roleId,
+      friendlyUnits: 'penalize',
+      enemyUnits: 'block',
+      reservations: this.pathReservations
+    };
+  }
+
+  /**
+   * 记录我方英雄发送了传送指令
+   * @param roleId 英雄ID
+   * @param round 发送的回合
+   */
+  public recordTeleport(roleId: number, round: number): void {
+    this.teleportRounds.set(roleId, round);
+  }
+
+  /**
+   * 获取我方英雄上次传送的回合
+   */
+  public getLastTeleportRounds(): ReadonlyMap<number, number> {
+    return this.teleportRounds;
+  }
+
+  /**
+   * 英雄的传送是否已冷却
+   * @param roleId 英雄ID
+   */
+  public isTeleportReady(roleId: number): boolean {
+    const last = this.teleportRounds.get(roleId);
+    return last === undefined || this.getCurrentRound() - last >= TELEPORT_COOLDOWN;
   }
 
   public getPlayerId(): number {
@@ -321,23 +480,59 @@ export class TeamBlackboard {
     // 根据策略类型存储对应数据
     this.storeStrategyData(strategy, data, currentRound);
 
-    // 记录策略历史
-    this.strategyHistory.push({
+    // 记录策略历史，残局中的记录带上残局模式
+    this.pushStrategyHistory({
       round: currentRound,
       strategy,
       priority,
       confidence,
       reason,
-      data
+      data,
+      ...(this.endgameMode ? { endgame: this.endgameMode } : {})
+    });
+
+    log(`[团队黑板] 设置全局策略: ${strategy}, 优先级: ${priority}, 置信度: ${confidence}%`);
+    log(`[团队黑板] 策略理由: ${reason}`);
+  }
+
+  /**
+   * 更新残局模式，进入和退出残局时各记一条切换记录
+   * 由 StrategyAnalysis.decideGlobalStrategy 在每次全局策略决策时调用
+   * @param endgame 本回合据点计划的残局模式
+   * @param strategy 本次决策的策略
+   * @param priority 本次决策的优先级
+   * @param confidence 本次决策的置信度
+   */
+  public updateEndgameMode(
+    endgame: EndgameMode | null,
+    strategy: StrategyType,
+    priority: number,
+    confidence: number
+  ): void {
+    if (endgame === this.endgameMode) {
+      return;
+    }
+    this.pushStrategyHistory({
+      round: this.getCurrentRound(),
+      strategy,
+      priority,
+      confidence,
+      reason: endgame ? `进入残局模式 ${endgame}` : `退出残局模式 ${this.endgameMode}`,
+      data: null,
+      ...(endgame ? { endgame } : {}),
+      endgameSwitch: { from: this.endgameMode, to: endgame }
     });
+    this.endgameMode = endgame;
+  }
 
-    // 保持历史记录不超过20条
+  /**
+   * 追加一条策略历史，保持历史记录不超过20条
+   */
+  private pushStrategyHistory(entry: StrategyHistoryEntry): void {
+    this.strategyHistory.push(entry);
     if (this.strategyHistory.length > 20) {
       this.strategyHistory = this.strategyHistory.slice(-20);
     }
-
-    console.log(`[团队黑板] 设置全局策略: ${strategy}, 优先级: ${priority}, 置信度: ${confidence}%`);
-    console.log(`[团队黑板] 策略理由: ${reason}`);
   }
 
   /**
@@ -415,7 +610,7 @@ export class TeamBlackboard {
       const lastEntry = this.strategyHistory[this.strategyHistory.length - 1];
       if (!lastEntry.result) {
         lastEntry.result = result;
-        console.log(`[团队黑板] 策略 ${lastEntry.strategy} 执行结果: ${result}`);
+        log(`[团队黑板] 策略 ${lastEntry.strategy} 执行结果: ${result}`);
       }
     }
   }
@@ -476,6 +671,13 @@ export class TeamBlackboard {
     return [...this.strategyHistory];
   }
 
+  /**
+   * 获取当前残局模式，未进入残局时为 null
+   */
+  public getEndgameMode(): EndgameMode | null {
+    return this.endgameMode;
+  }
+
   /**
    * 获取最近N个策略记录
    */
@@ -504,7 +706,7 @@ export class TeamBlackboard {
         this.flagCaptureTarget = null;
         break;
     }
-    console.log(`[团队黑板] 清除策略数据: ${strategy}`);
+    log(`[团队黑板] 清除策略数据: ${strategy}`);
   }
 
   /**
@@ -601,7 +803,7 @@ export class TeamBlackboard {
   public setFocusTarget(target: any): void {
     if (!target) {
       this.focusTarget = null;
-      console.log(`[团队黑板]: 取消集火目标`);
+      log(`[团队黑板]: 取消集火目标`);
       return;
     }
 
@@ -625,7 +827,7 @@ export class TeamBlackboard {
             camp: target.camp
           }
         };
-        console.log(`[团队黑板]: 设置敌方英雄目标 - 英雄${target.roleId}`);
+        log(`[团队黑板]: 设置敌方英雄目标 - 英雄${target.roleId}`);
       }
     } else if (target.cityType !== undefined) {
       // 城寨目标
@@ -643,7 +845,7 @@ export class TeamBlackboard {
           healthPercentage: target.healthPercentage
         }
       };
-      console.log(`[团队黑板]: 设置城寨目标 - ${target.cityType}(${target.roleId})`);
+      log(`[团队黑板]: 设置城寨目标 - ${target.cityType}(${target.roleId})`);
     } else if (target.campName !== undefined && target.isAvailable !== undefined) {
       // 据点/龙旗目标
       this.focusTarget = {
@@ -659,7 +861,7 @@ export class TeamBlackboard {
           isAvailable: target.isAvailable
         }
       };
-      console.log(`[团队黑板]: 设置龙旗目标 - 位置(${target.position?.x}, ${target.position?.y})`);
+      log(`[团队黑板]: 设置龙旗目标 - 位置(${target.position?.x}, ${target.position?.y})`);
     } else if (target.position !== undefined && target.purpose !== undefined) {
       // 集合位置目标
       this.focusTarget = {
@@ -674,10 +876,10 @@ export class TeamBlackboard {
           participatingHeroes: target.participatingHeroes || []
         }
       };
-      console.log(`[团队黑板]: 设置集合目标 - 位置(${target.position.x}, ${target.position.y})`);
+      log(`[团队黑板]: 设置集合目标 - 位置(${target.position.x}, ${target.position.y})`);
     } else {
       // 兼容旧的字符串ID格式（临时保留）
-      console.log(`[团队黑板]: 设置目标 - ${target}`);
+      log(`[团队黑板]: 设置目标 - ${target}`);
     }
   }
 
@@ -709,7 +911,7 @@ export class TeamBlackboard {
   public setCityTarget(cityTarget: any): void {
     if (!cityTarget) {
       this.cityAttackTarget = null;
-      console.log(`[团队黑板]: 取消城寨攻击目标`);
+      log(`[团队黑板]: 取消城寨攻击目标`);
       return;
     }
 
@@ -726,7 +928,7 @@ export class TeamBlackboard {
       reason: '选择最优城寨攻击目标',
       setAt: currentRound
     };
-    console.log(`[团队黑板]: 设置城寨攻击目标 - ${cityTarget.cityType}(${cityTarget.roleId})`);
+    log(`[团队黑板]: 设置城寨攻击目标 - ${cityTarget.cityType}(${cityTarget.roleId})`);
   }
 
   /**
@@ -736,7 +938,7 @@ export class TeamBlackboard {
   public setEnemyTarget(enemyTarget: any): void {
     if (!enemyTarget) {
       this.enemyAttackTarget = null;
-      console.log(`[团队黑板]: 取消敌方攻击目标`);
+      log(`[团队黑板]: 取消敌方攻击目标`);
       return;
     }
 
@@ -751,7 +953,7 @@ export class TeamBlackboard {
       reason: '选择距离最近的敌方英雄',
       setAt: currentRound
     };
-    console.log(`[团队黑板]: 设置敌方攻击目标 - 英雄${enemyTarget.roleId}`);
+    log(`[团队黑板]: 设置敌方攻击目标 - 英雄${enemyTarget.roleId}`);
   }
 
   /**
@@ -761,7 +963,7 @@ export class TeamBlackboard {
   public setFlagTarget(flagTarget: any): void {
     if (!flagTarget) {
       this.flagCaptureTarget = null;
-      console.log(`[团队黑板]: 取消龙旗占领目标`);
+      log(`[团队黑板]: 取消龙旗占领目标`);
       return;
     }
 
@@ -775,7 +977,7 @@ export class TeamBlackboard {
       reason: '占领龙旗据点',
       setAt: currentRound
     };
-    console.log(`[团队黑板]: 设置龙旗占领目标 - 位置(${flagTarget.position?.x}, ${flagTarget.position?.y})`);
+    log(`[团队黑板]: 设置龙旗占领目标 - 位置(${flagTarget.position?.x}, ${flagTarget.position?.y})`);
   }
 
   /**
@@ -817,7 +1019,7 @@ export class TeamBlackboard {
       appliedTurn: currentTurn,
       expiresTurn: currentTurn + durationTurns - 1
     });
-    console.log(`[团队黑板]: 目标 ${targetId} 获得debuff "${debuffType}" (来自: ${sourceSkill}, 持续到回合结束: ${currentTurn + durationTurns - 1})`);
+    log(`[团队黑板]: 目标 ${targetId} 获得debuff "${debuffType}" (来自: ${sourceSkill}, 持续到回合结束: ${currentTurn + durationTurns - 1})`);
   }
 
   /**
@@ -0,0 +1,62 @@
+/**
+ * 团队角色分配
+ * ============
+ *
+ * 团队行为树按 warrior/support/leader 三个位置驱动武将（ExecuteWarriorActions 等），
+ * 这里决定服务器下发的阵容中哪名武将占哪个位置。
+ * 分配表为每个位置列出优先的武将ID，默认猛将打头阵、统帅支援、谋士居后，
+ * 可以按阵容改写，例如让诸葛亮担任 support。
+ *
+ * @author AI游戏框架开发团队
+ * @version 1.0.0
+ */
+
+import { generalsByType } from '../models/heros';
+
+/**
+ * 团队行为树中的位置
+ */
+export type TeamRole = 'warrior' | 'support' | 'leader';
+
+/**
+ * 角色分配表：位置 → 按优先级排列的武将ID
+ */
+export type RoleAssignment = Record<TeamRole, number[]>;
+
+/** 位置的分配顺序 */
+export const TEAM_ROLES: TeamRole[] = ['warrior', 'support', 'leader'];
+
+/** 默认分配：猛将 → warrior，统帅 → support，谋士 → leader */
+export const DEFAULT_ROLE_ASSIGNMENT: RoleAssignment = {
+  warrior: generalsByType['猛将'].map(hero => hero.id),
+  support: generalsByType['统帅'].map(hero => hero.id),
+  leader: generalsByType['谋士'].map(hero => hero.id)
+};
+
+/**
+ * 把阵容中的武将分配到三个位置
+ * 按 warrior、support、leader 的顺序，每个位置取分配表中第一名在阵容里且未被占用的武将；
+ * 分配表没有覆盖到的武将按阵容顺序补到空位上
+ * @param roleIds 服务器下发的我方武将ID
+ * @param assignment 角色分配表
+ * @returns 位置 → 武将ID，阵容不足三人时为 null
+ */
+export function assignRoles(roleIds: number[], assignment: RoleAssignment = DEFAULT_ROLE_ASSIGNMENT): Record<TeamRole, number | null> {
+  const result: Record<TeamRole, number | null> = { warrior: null, support: null, leader: null };
+  const unassigned = [...roleIds];
+
+  for (const role of TEAM_ROLES) {
+    const roleId = assignment[role].find(id => unassigned.includes(id));
+    if (roleId !== undefined) {
+      result[role] = roleId;
+      unassigned.splice(unassigned.indexOf(roleId), 1);
+    }
+  }
+  for (const role of TEAM_ROLES) {
+    if (result[role] === null && unassigned.length > 0) {
+      result[role] = unassigned.shift()!;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,195 @@
+/**
+ * 回合看门狗
+ * ==========
+ *
+ * 行为树抛错或耗时过长时本回合可能一条指令都发不出去，掉线直接判负。
+ * 看门狗为每回合的决策设置时间预算：
+ * - 决策正常结束：照常发送队列中的指令
+ * - 决策抛错或超出预算：记录超时及耗时，队列中已有指令时照常发送，
+ *   队列为空时写入兜底行动（守住据点时发送AC，残血英雄向主基地撤退一步，其余原地不动），
+ *   兜底行动本身出错时全部原地不动
+ *
+ * 同步的行为树无法被中途打断，超出预算只能在返回后发现；异步决策会在预算用完时直接放弃等待，
+ * 并用本回合的令牌关闭行动队列的写入，放弃等待的决策之后写入的指令被丢弃。
+ *
+ * @author AI游戏框架开发团队
+ * @version 1.0.0
+ */
+
+import type { GameSnapshot } from './CombatSimulator';
+import { STRONGHOLD_CONFIG } from './GameConstants';
+import type { ActionContext } from './types';
+import ActionBuilder from '../network/ActionBuilder';
+import type { ActionCommand } from '../models/actionMsg';
+import { TerrainType } from '../context/gameMap';
+import type { GameMap } from '../context/gameMap';
+import { log } from '../logger';
+
+/** 默认每回合决策预算（毫秒），本地服务器默认等待2000毫秒 */
+export const DEFAULT_TURN_BUDGET_MS = 1000;
+
+/** 血量百分比低于该值的英雄在兜底行动中撤回主基地 */
+export const RETREAT_HEALTH_PERCENT = 30;
+
+/**
+ * 看门狗配置
+ */
+export interface TurnWatchdogOptions {
+  budgetMs?: number;        // 每回合决策预算（毫秒）
+  now?: () => number;       // 计时函数，测试时可替换
+}
+
+/**
+ * 一回合的执行结果
+ */
+export interface TurnWatchdogResult {
+  elapsedMs: number;
+  overrun: boolean;         // 是否超出预算
+  error: unknown;           // 决策抛出的错误，没有时为 null
+  fallback: ActionCommand[]; // 写入队列的兜底行动
+}
+
+/**
+ * 回合看门狗类
+ */
+export class TurnWatchdog {
+  private readonly budgetMs: number;
+  private readonly now: () => number;
+
+  constructor(options: TurnWatchdogOptions = {}) {
+    this.budgetMs = options.budgetMs ?? DEFAULT_TURN_BUDGET_MS;
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  /**
+   * 在预算内执行一回合的决策，必要时向上下文的行动队列写入兜底行动
+   * @param turn 本回合的决策（通常是 handleTurn）
+   * @param context 行动上下文
+   */
+  async runTurn(turn: () => void | Promise<void>, context: ActionContext): Promise<TurnWatchdogResult> {
+    const start = this.now();
+    const queue = context.actionQueue;
+    const token = queue.beginRound();
+    // 耗时的节点（如MCTS规划）按截止时间分配自己的搜索时间
+    context.turnDeadline = Date.now() + this.budgetMs;
+    let error: unknown = null;
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    try {
+      const deadline = new Promise<void>(resolve => {
+        timer = setTimeout(() => {
+          timedOut = true;
+          resolve();
+        }, this.budgetMs);
+      });
+      await Promise.race([Promise.resolve().then(turn), deadline]);
+    } catch (e) {
+      error = e;
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+    }
+
+    const elapsedMs = this.now() - start;
+    const overrun = timedOut || elapsedMs > this.budgetMs;
+    const round = context.teamBlackboard?.getCurrentRound() ?? 0;
+
+    if (error) {
+      log(`[回合看门狗] 第${round}回合决策出错，耗时${elapsedMs}ms: ${error}`, 'error');
+    }
+    if (overrun) {
+      log(`[回合看门狗] 第${round}回合决策超时，耗时${elapsedMs}ms，预算${this.budgetMs}ms`, 'warn');
+    }
+
+    let fallback: ActionCommand[] = [];
+    if ((error || overrun) && queue.size === 0) {
+      try {
+        fallback = TurnWatchdog.buildFallbackActions(context);
+      } catch (e) {
+        log(`[回合看门狗] 生成兜底行动出错: ${e}`, 'error');
+      }
+      for (const action of fallback) {
+        queue.add(action);
+      }
+      log(`[回合看门狗] 队列为空，发送兜底行动: ${fallback.map(a => ActionBuilder.getActionDescription(a)).join(', ') || '原地不动'}`, 'warn');
+    }
+    if (timedOut) {
+      queue.closeRound(token);
+    }
+
+    return { elapsedMs, overrun, error, fallback };
+  }
+
+  /**
+   * 根据团队黑板的状态生成兜底行动，缺少状态或地图时原地不动
+   */
+  static buildFallbackActions(context: ActionContext): ActionCommand[] {
+    const snapshot = context.teamBlackboard?.getGameStateSnapshot();
+    if (!snapshot || !context.teamBlackboard.hasGameMap()) {
+      return [];
+    }
+    return TurnWatchdog.fallbackFor(snapshot, context.teamBlackboard.getPlayerId(), context.teamBlackboard.getGameMap());
+  }
+
+  /**
+   * 兜底行动：
+   * - 据点开放后我方在据点内的英雄多于敌方时发送AC
+   * - 血量低于 RETREAT_HEALTH_PERCENT 的英雄沿路径向主基地移动一步
+   */
+  static fallbackFor(snapshot: GameSnapshot, playerId: number, gameMap: GameMap): ActionCommand[] {
+    const actions: ActionCommand[] = [];
+    const me = snapshot.players.find(p => p.playerId === playerId);
+    if (!me) {
+      return actions;
+    }
+    const enemy = snapshot.players.find(p => p.playerId !== playerId);
+    const aliveHeroes = (player: typeof me | undefined) => (player?.roles ?? []).filter(r => r.isAlive && r.position);
+
+    const onFlag = (player: typeof me | undefined) => aliveHeroes(player)
+      .filter(r => gameMap.getTerrain(r.position!.x, r.position!.y) === TerrainType.FLAG).length;
+    if (snapshot.round >= STRONGHOLD_CONFIG.OPEN_ROUND && onFlag(me) > onFlag(enemy)) {
+      actions.push(ActionBuilder.buildOccupyAction());
+    }
+
+    const myCamp = aliveHeroes(me)[0]?.camp;
+    const base = myCamp === undefined ? null : TurnWatchdog.findBase(gameMap, myCamp);
+    if (!base) {
+      return actions;
+    }
+    for (const hero of aliveHeroes(me)) {
+      const position = hero.position!;
+      if (hero.healthPercentage >= RETREAT_HEALTH_PERCENT || gameMap.getTerrain(position.x, position.y) === TerrainType.BASE) {
+        continue;
+      }
+      const path = gameMap.findPath(position, base);
+      if (path && path.length > 1) {
+        actions.push(ActionBuilder.buildMoveAction(hero.roleId, path[1]));
+      }
+    }
+    return actions;
+  }
+
+  /**
+   * 我方主基地位置，与规则引擎一致：红方取最左侧的主基地格，蓝方取最右侧
+   */
+  private static findBase(gameMap: GameMap, camp: number): { x: number; y: number } | null {
+    const { width, height } = gameMap.getMapSize();
+    const bases: { x: number; y: number }[] = [];
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (gameMap.getTerrain(x, y) === TerrainType.BASE) {
+          bases.push({ x, y });
+        }
+      }
+    }
+    if (bases.length === 0) {
+      return null;
+    }
+    bases.sort((a, b) => a.x - b.x);
+    return camp === STRONGHOLD_CONFIG.RED_CAMP ? bases[0] : bases[bases.length - 1];
+  }
+}
+
+export default TurnWatchdog;
@@ -1,51 +1,96 @@
 import { GameMap, GameState } from "../types";
 import { BehaviorTreeController } from "../bt/BehaviorTreeController";
+import { teamBehaviorTree } from "../bt/BehaviorTree";
 import { ActionContext, IAgent } from "./types";
-import { Agent } from "./Agent";
-import { sunquan, zhaoyun, zhugeliang } from "../models/heros";
+import { generals } from "../models/heros";
 import ActionBuilder from "../network/ActionBuilder";
+import ActionQueue from "../network/ActionQueue";
 import { TeamBlackboard } from "./TeamBlackboard";
+import { TurnWatchdog } from "./TurnWatchdog";
+import { DraftPlanner } from "./DraftPlanner";
+import type { RoleAssignment } from "./TeamRoster";
+import type { TurnWatchdogResult } from "./TurnWatchdog";
 import NetworkClient from "../network/NetworkClient";
-import { log } from "console";
+import { log } from "../logger";
 
 const context: ActionContext = {
     playerId: 0,
     agent: null,
     teamBlackboard: null as unknown as TeamBlackboard,
+    actionQueue: new ActionQueue(),
 }
 
+/**
+ * 创建本机器人的团队黑板和行动队列并关联网络客户端
+ * 需在第1回合的决策交给看门狗之前调用，看门狗整回合使用同一个行动队列
+ */
 export function init(client: NetworkClient, playerId: number) {
-    // 选择武将
-    pickGenerals(playerId);
     // 创建团队黑板
-    const teamBlackboard = new TeamBlackboard();
-    
-    const warrior = new Agent(zhaoyun, { x: 0, y: 0 }, client.gameState.camp, teamBlackboard);
-    const support = new Agent(sunquan, { x: 0, y: 0 }, client.gameState.camp, teamBlackboard);
-    const leader = new Agent(zhugeliang, { x: 0, y: 0 }, client.gameState.camp, teamBlackboard);
-    teamBlackboard.setTeam(warrior, support, leader);
+    const team = createTeamContext(playerId, String(client.gameState.camp));
     // 初始化上下文
-    context.teamBlackboard = teamBlackboard;
+    context.teamBlackboard = team.teamBlackboard;
+    context.actionQueue = team.actionQueue;
     context.playerId = playerId;
-    
-    // 关联网络客户端，让网络客户端可以更新团队黑板的数据
-    client.setTeamBlackboard(teamBlackboard);
+
+    // 关联网络客户端，让网络客户端可以更新团队黑板的数据，并从本机器人的队列发送指令
+    client.setTeamBlackboard(team.teamBlackboard);
+    client.setActionQueue(team.actionQueue);
     log(`初始化成功: ${playerId}`);
 }
 
+/**
+ * 第1回合的决策：按看到的敌方阵容选择武将
+ */
+function handlePick(client: NetworkClient) {
+    pickGenerals(context.actionQueue, context.playerId, enemyRoleIds(client.gameState.lastGameData, context.playerId));
+}
+
+/**
+ * 创建团队黑板和行动队列，返回新的行动上下文
+ * 武将代理在团队黑板收到 inquire 后按服务器下发的阵容创建
+ * 供在线客户端、离线回放和自对弈共用
+ * @param roleAssignment 团队行为树位置的分配表，默认猛将/统帅/谋士对应 warrior/support/leader
+ */
+export function createTeamContext(playerId: number, teamId: string, roleAssignment?: RoleAssignment): ActionContext {
+    const teamBlackboard = new TeamBlackboard();
+    teamBlackboard.configureTeam(teamId, roleAssignment);
 
-function pickGenerals(playerId: number): void {
-    ActionBuilder.buildPickAction([zhaoyun.id, sunquan.id, zhugeliang.id], playerId);
-    log(`武将选择成功: ${playerId}:${zhaoyun.name},${sunquan.name},${zhugeliang.name}`);
+    return { playerId, agent: null, teamBlackboard, actionQueue: new ActionQueue() };
+}
+
+/**
+ * 第1回合选将，由 DraftPlanner 按敌方阵容选出猛将、统帅、谋士各一名
+ * @param enemyRoleIds 敌方阵容，未知时沿用默认阵容
+ */
+export function pickGenerals(actionQueue: ActionQueue, playerId: number, enemyRoleIds: number[] = []): void {
+    const lineup = DraftPlanner.planPick(enemyRoleIds);
+    actionQueue.add(ActionBuilder.buildPickAction(lineup, playerId));
+    log(`武将选择成功: ${playerId}:${lineup.map(id => generals.find(g => g.id === id)?.name ?? id).join(',')}`);
+}
+
+/**
+ * 取 inquire 数据中敌方玩家的英雄ID
+ */
+export function enemyRoleIds(gameState: { players: Array<{ playerId: number; roles: Array<{ roleId: number }> }> } | null | undefined, playerId: number): number[] {
+    return gameState?.players.find(p => p.playerId !== playerId)?.roles.map(r => r.roleId) ?? [];
 }
 
 // 调用行为树，处理每回合的行动
-function handleTurn() {
+function handleTurn(treeDefinition: string = teamBehaviorTree) {
     // 新建行为树控制器
-    const behaviorTreeController = new BehaviorTreeController(context);
+    const behaviorTreeController = new BehaviorTreeController(context, false, treeDefinition);
 
     // 执行行为树
     behaviorTreeController.takeTurn();
 }
 
-export { handleTurn };
\ No newline at end of file
+/**
+ * 在看门狗的时间预算内执行本回合决策，出错或超时且队列为空时写入兜底行动
+ * @param watchdog 回合看门狗
+ * @param turn 本回合的决策，如 init 或 handleTurn
+ */
+function guardTurn(watchdog: TurnWatchdog, turn: () => void | Promise<void>): Promise<TurnWatchdogResult> {
+    return watchdog.runTurn(turn, context);
+}
+
+export { handleTurn, handlePick, guardTurn };
\ No newline at end of file
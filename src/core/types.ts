@@ -11,6 +11,7 @@
 import { Hero } from '../models/heros';
 import { GameMap } from '../context/gameMap';
 import { TeamBlackboard } from './TeamBlackboard';
+import type ActionQueue from '../network/ActionQueue';
 
 /**
  * 全局目标类型枚举
@@ -126,4 +127,6 @@ export interface ActionContext {
   agent: IAgent | null;                       // 当前执行行为的代理（或其模拟状态）
   destination?: { x: number, y: number };    // 潜在的目的地 (用于移动行为)
   teamBlackboard: TeamBlackboard;            // 所属队伍的黑板，用于共享信息
+  actionQueue: ActionQueue;                  // 本回合待发送的行动指令
+  turnDeadline?: number;                     // 本回合决策的截止时间（Date.now() 毫秒），耗时节点据此分配时间
 }
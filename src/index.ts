@@ -4,13 +4,18 @@
  */
 
 import { ExecutePickGenerals } from './actions/GameStateActions';
-import { handleTurn, init } from './core/index';
+import { guardTurn, handlePick, handleTurn, init } from './core/index';
+import MatchReport from './core/MatchReport';
+import { TurnWatchdog } from './core/TurnWatchdog';
 import { ActionContext } from './core/types';
 import { sunquan, zhaoyun, zhugeliang } from './models/heros';
 import { InquireMessageData } from './models/inquireMsg';
-import ActionBuilder from './network/ActionBuilder';
+import { teamBehaviorTrees } from './bt/BehaviorTree';
 import NetworkClient from './network/NetworkClient';
 import type { GameConfig, InquireMessage } from './types/index';
+import { log } from './logger';
+
+export { log };
 
 /**
  * 游戏配置
@@ -24,31 +29,20 @@ const config: GameConfig = {
     playerId: parseInt(process.env.PLAYER_ID || '8680'),
     playerName: process.env.PLAYER_NAME || 'Player',
 
-    logLevel: (process.env.LOG_LEVEL as 'debug' | 'info' | 'warn' | 'error') || 'info'
-};
+    logLevel: (process.env.LOG_LEVEL as 'debug' | 'info' | 'warn' | 'error') || 'info',
 
-/**
- * 日志输出函数
- */
-export function log(message: string, level: 'debug' | 'info' | 'warn' | 'error' = 'info') {
-    const timestamp = new Date().toISOString();
-    const levelMap = {
-        debug: '🔍',
-        info: 'ℹ️',
-        warn: '⚠️',
-        error: '❌'
-    };
+    // 对局录像
+    replayFile: process.env.REPLAY_FILE,
 
-    const shouldLog =
-        config.logLevel === 'debug' ||
-        (config.logLevel === 'info' && ['info', 'warn', 'error'].includes(level)) ||
-        (config.logLevel === 'warn' && ['warn', 'error'].includes(level)) ||
-        (config.logLevel === 'error' && level === 'error');
+    // 团队行为树
+    teamTree: process.env.TEAM_TREE === 'mcts' ? 'mcts' : 'default',
 
-    if (shouldLog) {
-        console.log(`[${timestamp}] ${levelMap[level]} ${message}`);
-    }
-}
+    // 断线后自动重连，设置 AUTO_RECONNECT=false 关闭
+    autoReconnect: process.env.AUTO_RECONNECT !== 'false',
+
+    // 每回合决策预算（毫秒）
+    turnBudgetMs: parseInt(process.env.TURN_BUDGET_MS || '1000')
+};
 
 /**
  * 启动人类玩家客户端
@@ -57,18 +51,27 @@ async function startHumanClient(): Promise<void> {
     log(`启动人类玩家客户端`, 'info');
 
     const client = new NetworkClient();
+    if (config.replayFile) {
+        client.enableReplay(config.replayFile);
+    }
+    if (config.autoReconnect) {
+        client.enableReconnect();
+    }
 
     // 设置事件监听器
     setupClientEventListeners(client);
 
     try {
         log(`连接服务器: ${config.serverHost}:${config.serverPort}`, 'info');
-        await client.connect(
+        const connected = await client.connect(
             config.serverHost,
             config.serverPort,
             config.playerId,
             config.playerName
         );
+        if (!connected) {
+            throw new Error(`无法连接 ${config.serverHost}:${config.serverPort}`);
+        }
         log('客户端连接成功', 'info');
     } catch (error) {
         log(`客户端连接失败: ${(error as Error).message}`, 'error');
@@ -95,6 +98,19 @@ function setupClientEventListeners(client: NetworkClient): void {
             log('与服务器断开连接', 'warn');
         });
 
+        client.on('reconnecting', ({ attempt, delayMs }: { attempt: number; delayMs: number }) => {
+            log(`${delayMs}ms后第${attempt}次重连`, 'warn');
+        });
+
+        client.on('reconnected', () => {
+            log('重连成功，等待下一回合', 'info');
+        });
+
+        client.on('reconnectFailed', (attempts: number) => {
+            log(`重连${attempts}次均失败，退出`, 'error');
+            process.exit(1);
+        });
+
         client.on('error', (error: Error) => {
             log(`客户端错误: ${error.message}`, 'error');
         });
@@ -106,16 +122,33 @@ function setupClientEventListeners(client: NetworkClient): void {
 
         client.on('gameOver', (result: any) => {
             log(`游戏结束 - 获胜者: ${result.winner?.playerName || '未知'}`, 'info');
+            if (config.replayFile) {
+                // 录像旁写出赛后报告：match-001.jsonl → match-001-report.json/.csv/-heroes.csv
+                try {
+                    const report = MatchReport.fromFile(config.replayFile);
+                    const files = MatchReport.writeFiles([report], config.replayFile.replace(/\.jsonl$/, '') + '-report');
+                    log(`赛后报告已写入: ${files.join(', ')}`, 'info');
+                } catch (error) {
+                    log(`赛后报告生成失败: ${(error as Error).message}`, 'warn');
+                }
+            }
         });
 
-        client.on('inquire', (gameData: InquireMessageData) => {
+        // 决策出错或超时也要发送行动，避免被判掉线
+        const watchdog = new TurnWatchdog({ budgetMs: config.turnBudgetMs });
+        client.on('inquire', async (gameData: InquireMessageData) => {
             log(`第${gameData.round}回合 - 等待行动`, 'debug');
             if (gameData.round === 1) {
-                init(client, client.getGameState().playerId);
-            } else {
-                handleTurn();
+                init(client, client.getGameState().playerId!);
             }
-            client.sendActions(ActionBuilder.buildActions());
+            await guardTurn(watchdog, () => {
+                if (gameData.round === 1) {
+                    handlePick(client);
+                } else {
+                    handleTurn(teamBehaviorTrees[config.teamTree ?? 'default']);
+                }
+            });
+            client.sendActions();
         });
     }
 }
@@ -142,6 +175,9 @@ async function main(): Promise<void> {
     log(`模式: ${config.gameMode}`, 'info');
     log(`服务器: ${config.serverHost}:${config.serverPort}`, 'info');
     log(`玩家: ${config.playerName} (ID: ${config.playerId})`, 'info');
+    log(`团队行为树: ${config.teamTree}`, 'info');
+    log(`回合决策预算: ${config.turnBudgetMs}ms`, 'info');
+    log(`断线重连: ${config.autoReconnect ? '开启' : '关闭'}`, 'info');
 
     // 设置优雅退出
     setupGracefulShutdown();
@@ -154,22 +190,7 @@ async function main(): Promise<void> {
     }
 }
 
-// 添加连接重试逻辑
-const maxRetries = 5;
-let retryCount = 0;
-
-const connectWithRetry = () => {
-    setTimeout(() => {
-        if (retryCount < maxRetries) {
-            retryCount++;
-            console.log(`重试连接 (${retryCount}/${maxRetries})`);
-            // 启动程序
-            main().catch((error) => {
-                console.error('程序启动失败:', error);
-                process.exit(1);
-            });
-        }
-    }, 2000); // 2秒后重试
-};
-
-connectWithRetry();
+main().catch((error) => {
+    console.error('程序启动失败:', error);
+    process.exit(1);
+});
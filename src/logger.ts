@@ -0,0 +1,31 @@
+/**
+ * 日志输出
+ * 独立于入口文件，离线工具和测试引用时不会启动客户端
+ */
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const logLevel: LogLevel = (process.env.LOG_LEVEL as LogLevel) || 'info';
+
+/**
+ * 日志输出函数
+ */
+export function log(message: string, level: LogLevel = 'info') {
+    const timestamp = new Date().toISOString();
+    const levelMap = {
+        debug: '🔍',
+        info: 'ℹ️',
+        warn: '⚠️',
+        error: '❌'
+    };
+
+    const shouldLog =
+        logLevel === 'debug' ||
+        (logLevel === 'info' && ['info', 'warn', 'error'].includes(level)) ||
+        (logLevel === 'warn' && ['warn', 'error'].includes(level)) ||
+        (logLevel === 'error' && level === 'error');
+
+    if (shouldLog) {
+        console.log(`[${timestamp}] ${levelMap[level]} ${message}`);
+    }
+}
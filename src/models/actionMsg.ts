@@ -0,0 +1,38 @@
+import type { Position } from './inquireMsg';
+
+// 行动指令类型
+export type ActionName = 'MOVE' | 'SP' | 'PICK' | 'MAKE' | 'FORM' | 'BUFF' | 'AC' | 'SG' | 'AD' | 'SK';
+
+// 生产兵力详情
+export interface MakeDetail {
+  roleId: number;  // 英雄ID
+  solders: number[];  // 士兵类型数组（7：弓兵/8：盾兵）
+}
+
+// 行动指令对象
+export interface ActionCommand {
+  action: ActionName;  // 指令类型
+  roleId?: number;  // 英雄ID（MOVE/SP/FORM/SG/AD/SK，BUFF为1001时必填）
+  playerId?: number;  // 玩家ID（PICK）
+  position?: Position;  // 目标位置（MOVE/SP/SG/AD/SK）
+  roles?: number[];  // 选择的英雄ID，固定长度为3（PICK）
+  details?: MakeDetail[];  // 生产详情（MAKE）
+  formationType?: number;  // 阵型类型（1：攻击/2：防守）
+  buffType?: number;  // buff类型（1001-1004）
+  skillId?: number;  // 技能ID（SK）
+  formType?: number;  // 诸葛亮二技能指定的阵型（skillId为4602时有效）
+  teleportPosition?: Position;  // 刘备二技能指定的传送位置（skillId为4302时有效）
+}
+
+// action消息数据结构
+export interface ActionMessageData {
+  round: number;  // 当前的回合数
+  playerId: number;  // 玩家ID
+  actions: ActionCommand[];  // 行动指令数组，顺序表示角色攻击先后
+}
+
+// action消息完整结构
+export interface ActionMessage {
+  msg_name: 'action';
+  msg_data: ActionMessageData;
+}
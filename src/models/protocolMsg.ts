@@ -0,0 +1,105 @@
+import type { InquireMessage, InquireMessageData } from './inquireMsg';
+import type { ActionMessage, ActionMessageData } from './actionMsg';
+
+// registration消息数据结构
+export interface RegistrationMessageData {
+  playerId: number;  // 玩家ID
+  playerName: string;  // 战队名称，最长40字节
+  version: string;  // 客户端版本号
+}
+
+// registration消息完整结构
+export interface RegistrationMessage {
+  msg_name: 'registration';
+  msg_data: RegistrationMessageData;
+}
+
+// start消息中的地图数据
+export interface MapMessageData {
+  data: string;  // 从左往右、从上往下的地形编号，逗号分隔
+  maxX: number;  // 地图宽度
+  maxY: number;  // 地图高度
+}
+
+// start消息中的玩家阵营
+export interface StartPlayer {
+  playerId: number;  // 玩家ID
+  camp: number;  // 阵营（0：红方，在地图左侧/1：蓝方，在地图右侧）
+}
+
+// start消息数据结构
+export interface StartMessageData {
+  map: MapMessageData;  // 地图信息
+  players: StartPlayer[];  // 参与游戏的玩家及其阵营
+}
+
+// start消息完整结构
+export interface StartMessage {
+  msg_name: 'start';
+  msg_data: StartMessageData;
+}
+
+// ready消息数据结构
+export interface ReadyMessageData {
+  playerId: number;  // 玩家ID
+  status: string;  // 固定为ready
+}
+
+// ready消息完整结构
+export interface ReadyMessage {
+  msg_name: 'ready';
+  msg_data: ReadyMessageData;
+}
+
+// over消息中的英雄结算
+export interface OverHero {
+  id: number;  // 英雄实例ID（红方1500-1508/蓝方1510-1518）
+  roleId: number;  // 英雄ID（40-48）
+  name: string;  // 英雄名称
+  bowmen: number;  // 存活弓兵数量
+  shieldmen: number;  // 存活盾兵数量
+  killedNum: number;  // 击杀总量
+}
+
+// over消息中的玩家结算
+export interface OverPlayer {
+  playerId: number;  // 玩家ID
+  playerName: string;  // 玩家名称
+  online: boolean;  // 是否在线
+  overRound: number;  // 结束回合
+  progress: number;  // 占点进度（1.0表示100%）
+  soldierNum: number;  // 存活士兵总量
+  totalGold: number;  // 剩余粮草
+  destroyTowerNum: number;  // 摧毁城寨数量
+  killedNum: number;  // 击杀总量
+  occupyRound: number;  // 占领据点回合数
+  heroes: OverHero[];  // 英雄情况
+}
+
+// over消息数据结构
+export interface OverMessageData {
+  players: OverPlayer[];
+}
+
+// over消息完整结构
+export interface OverMessage {
+  msg_name: 'over';
+  msg_data: OverMessageData;
+}
+
+// 服务器发给客户端的消息
+export type ServerMessage = StartMessage | InquireMessage | OverMessage;
+
+// 客户端发给服务器的消息
+export type ClientMessage = RegistrationMessage | ReadyMessage | ActionMessage;
+
+// 协议中的全部消息，按 msg_name 区分
+export type ProtocolMessage = ServerMessage | ClientMessage;
+
+// 消息名称
+export type MessageName = ProtocolMessage['msg_name'];
+
+// 按消息名称取对应的 msg_data 类型
+export type MessageData<N extends MessageName> = Extract<ProtocolMessage, { msg_name: N }>['msg_data'];
+
+export type { InquireMessage, InquireMessageData, ActionMessage, ActionMessageData };
@@ -4,6 +4,12 @@
  */
 
 import { ACTION_TYPES, FORMATION_TYPES, SOLDIER_TYPES } from './ProtocolManager';
+import { SkillRegistry } from '../core/SkillRegistry';
+import type { ActionCommand } from '../models/actionMsg';
+import type { Position } from '../models/inquireMsg';
+
+/** 每回合只能发送一条的全局指令 */
+const SINGLE_ACTIONS = [ACTION_TYPES.PICK, ACTION_TYPES.MAKE, ACTION_TYPES.BUFF, ACTION_TYPES.AC];
 
 /**
  * 行动指令构建器类
@@ -11,20 +17,51 @@ import { ACTION_TYPES, FORMATION_TYPES, SOLDIER_TYPES } from './ProtocolManager'
  */
 class ActionBuilder {
 
-    static actionsToSend: any[] = [];
-
-    static clearActions() {
-        this.actionsToSend = [];
-    }
+    /**
+     * 解决同一回合的指令冲突，服务器遇到冲突会静默丢弃其中一条，这里按协议优先级提前处理：
+     * - 同一英雄的同类指令只保留第一条
+     * - SK 优先于 AD/SG，AD 与 SG 互斥，保留先加入的一条
+     * - SP 优先于 MOVE
+     * - PICK/MAKE/BUFF/AC 每回合只保留第一条
+     * @param {Array<Object>} actions - 行动指令数组
+     * @returns {{actions: Array<Object>, discarded: Array<{action: Object, reason: string}>}} 保留和丢弃的指令
+     */
+    static resolveConflicts(actions: any[]): { actions: any[]; discarded: Array<{ action: any; reason: string }> } {
+        const skillRoles = new Set(actions.filter(a => a.action === ACTION_TYPES.SK).map(a => a.roleId));
+        const teleportRoles = new Set(actions.filter(a => a.action === ACTION_TYPES.SP).map(a => a.roleId));
+        const attackRoles = new Map<number, string>();
+        const seen = new Set<string>();
+        const kept: any[] = [];
+        const discarded: Array<{ action: any; reason: string }> = [];
+
+        for (const action of actions) {
+            let reason: string | null = null;
+            const isSingle = SINGLE_ACTIONS.includes(action.action);
+            const key = isSingle ? action.action : `${action.roleId}:${action.action}`;
+
+            if (seen.has(key)) {
+                reason = isSingle ? `每回合只能发送一条${action.action}` : `英雄${action.roleId}已有${action.action}指令`;
+            } else if (action.action === ACTION_TYPES.AD || action.action === ACTION_TYPES.SG) {
+                if (skillRoles.has(action.roleId)) {
+                    reason = `英雄${action.roleId}本回合释放技能，SK优先于${action.action}`;
+                } else if (attackRoles.has(action.roleId)) {
+                    reason = `英雄${action.roleId}已有${attackRoles.get(action.roleId)}指令，AD与SG互斥`;
+                } else {
+                    attackRoles.set(action.roleId, action.action);
+                }
+            } else if (action.action === ACTION_TYPES.MOVE && teleportRoles.has(action.roleId)) {
+                reason = `英雄${action.roleId}本回合传送，SP优先于MOVE`;
+            }
 
-    static addAction(action: any) {
-        this.actionsToSend.push(action);
-    }
+            if (reason) {
+                discarded.push({ action, reason });
+            } else {
+                seen.add(key);
+                kept.push(action);
+            }
+        }
 
-    static buildActions() {
-        const actions = this.actionsToSend;
-        this.clearActions();
-        return actions;
+        return { actions: kept, discarded };
     }
     
     /**
@@ -38,14 +75,14 @@ class ActionBuilder {
             throw new Error('构建移动指令参数错误：需要roleId和有效的position{x, y}');
         }
 
-        this.addAction({
+        return {
             roleId: roleId,
             action: ACTION_TYPES.MOVE,
             position: {
                 x: position.x,
                 y: position.y
             }
-        });
+        };
     }
 
     /**
@@ -59,14 +96,14 @@ class ActionBuilder {
             throw new Error('构建传送指令参数错误：需要roleId和有效的position{x, y}');
         }
 
-        this.addAction({
+        return {
             roleId: roleId,
             action: ACTION_TYPES.SP,
             position: {
                 x: position.x,
                 y: position.y
             }
-        });
+        };
     }
 
     /**
@@ -91,11 +128,11 @@ class ActionBuilder {
             }
         }
 
-        this.addAction({
+        return {
             action: ACTION_TYPES.PICK,
             roles: heroIds,
             playerId: playerId
-        });
+        };
     }
 
     /**
@@ -123,13 +160,13 @@ class ActionBuilder {
             }
         }
 
-        this.addAction({
+        return {
             action: ACTION_TYPES.MAKE,
             details: productionDetails.map(detail => ({
                 roleId: detail.roleId,
                 solders: detail.soldiers // 注意协议中使用的是'solders'
             }))
-        });
+        };
     }
 
     /**
@@ -143,11 +180,11 @@ class ActionBuilder {
             throw new Error('构建阵型指令参数错误：需要roleId和有效的阵型类型(1攻击/2防守)');
         }
 
-        this.addAction({
+        return {
             roleId: roleId,
             action: ACTION_TYPES.FORM,
             formationType: formationType
-        });
+        };
     }
 
     /**
@@ -174,7 +211,7 @@ class ActionBuilder {
             action.roleId = roleId;
         }
 
-        this.addAction(action);
+        return action;
     }
 
     /**
@@ -182,9 +219,9 @@ class ActionBuilder {
      * @returns {Object} 占领据点行动指令
      */
     static buildOccupyAction() {
-        this.addAction({
+        return {
             action: ACTION_TYPES.AC
-        });
+        };
     }
 
     /**
@@ -198,14 +235,14 @@ class ActionBuilder {
             throw new Error('构建攻城指令参数错误：需要roleId和有效的position{x, y}');
         }
 
-        this.addAction({
+        return {
             roleId: roleId,
             action: ACTION_TYPES.SG,
             position: {
                 x: position.x,
                 y: position.y
             }
-        });
+        };
     }
 
     /**
@@ -219,14 +256,14 @@ class ActionBuilder {
             throw new Error('构建攻击指令参数错误：需要roleId和有效的position{x, y}');
         }
 
-        this.addAction({
+        return {
             roleId: roleId,
             action: ACTION_TYPES.AD,
             position: {
                 x: position.x,
                 y: position.y
             }
-        });
+        };
     }
 
     /**
@@ -238,12 +275,18 @@ class ActionBuilder {
      * @param {Object} [teleportPosition] - 刘备二技能专用传送位置 {x, y}
      * @returns {Object} 技能攻击行动指令
      */
-    static buildSkillAction(roleId, skillId, position = null, formType = null, teleportPosition = null) {
+    static buildSkillAction(
+        roleId: number,
+        skillId: number,
+        position: Position | null = null,
+        formType: number | null = null,
+        teleportPosition: Position | null = null
+    ): ActionCommand {
         if (!roleId || !skillId) {
             throw new Error('构建技能指令参数错误：需要roleId和skillId');
         }
 
-        const action = {
+        const action: ActionCommand = {
             roleId: roleId,
             action: ACTION_TYPES.SK,
             skillId: skillId
@@ -257,13 +300,14 @@ class ActionBuilder {
             };
         }
 
-        // 诸葛亮二技能(4601)专用阵型参数
-        if (skillId === 4601 && formType !== null) {
+        // 额外参数由技能注册表决定（诸葛亮二技能指定阵型，刘备二技能指定传送位置）
+        const param = SkillRegistry.get(skillId)?.param;
+
+        if (param === 'formType' && formType !== null) {
             action.formType = formType;
         }
 
-        // 刘备二技能(4301)专用传送位置参数
-        if (skillId === 4301 && teleportPosition) {
+        if (param === 'teleportPosition' && teleportPosition) {
             if (typeof teleportPosition.x !== 'number' || typeof teleportPosition.y !== 'number') {
                 throw new Error('刘备技能传送位置参数错误');
             }
@@ -273,7 +317,7 @@ class ActionBuilder {
             };
         }
 
-        this.addAction(action);
+        return action;
     }
 
     /**
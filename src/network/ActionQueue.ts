@@ -0,0 +1,91 @@
+/**
+ * 行动指令队列
+ * 每个机器人持有自己的队列：行为树节点通过 ActionContext.actionQueue 写入本回合的指令，
+ * NetworkClient 发送前取出，同一进程内运行多个机器人时互不干扰。
+ * 回合看门狗每回合领取一个令牌，放弃等待超时的决策时用令牌关闭本回合的写入，
+ * 仍在运行的过期决策在下一回合开始前写入的指令被丢弃，不会留到下一回合一起发送
+ */
+
+import ActionBuilder from './ActionBuilder';
+import type { ActionCommand } from '../models/actionMsg';
+import { log } from '../logger';
+
+/**
+ * 行动指令队列类
+ */
+class ActionQueue {
+
+    private actions: ActionCommand[] = [];
+    private round: number = 0;          // 当前回合的令牌
+    private closed: boolean = false;    // 当前回合是否已停止写入
+
+    /**
+     * 开始新一回合的写入
+     * @returns {number} 本回合的令牌
+     */
+    beginRound(): number {
+        this.round++;
+        this.closed = false;
+        return this.round;
+    }
+
+    /**
+     * 停止令牌所属回合的写入，令牌已过期时不做处理
+     * @param {number} round - beginRound 返回的令牌
+     */
+    closeRound(round: number): void {
+        if (round === this.round) {
+            this.closed = true;
+        }
+    }
+
+    /**
+     * 加入一条指令，本回合已停止写入时丢弃
+     * @param {ActionCommand} action - ActionBuilder 构建的行动指令
+     */
+    add(action: ActionCommand): void {
+        if (this.closed) {
+            log(`[行动队列] 本回合已停止写入，丢弃过期指令 ${ActionBuilder.getActionDescription(action)}`, 'warn');
+            return;
+        }
+        this.actions.push(action);
+    }
+
+    /**
+     * 查看队列中的指令（不取出）
+     * @returns {Array<ActionCommand>} 指令副本
+     */
+    peek(): ActionCommand[] {
+        return [...this.actions];
+    }
+
+    /**
+     * 队列中的指令数量
+     */
+    get size(): number {
+        return this.actions.length;
+    }
+
+    /**
+     * 清空队列
+     */
+    clear(): void {
+        this.actions = [];
+    }
+
+    /**
+     * 取出本回合的全部指令并解决冲突，队列随之清空
+     * @returns {Array<ActionCommand>} 去除冲突后的行动指令
+     */
+    drain(): ActionCommand[] {
+        const { actions, discarded } = ActionBuilder.resolveConflicts(this.actions);
+        this.clear();
+
+        for (const { action, reason } of discarded) {
+            log(`[行动队列] 丢弃 ${ActionBuilder.getActionDescription(action)}: ${reason}`, 'warn');
+        }
+        return actions;
+    }
+}
+
+export default ActionQueue;
@@ -0,0 +1,500 @@
+/**
+ * 本地对战服务器
+ * 模拟主办方服务端，使用与正式服务器相同的“5位字节长度 + JSON消息体”协议，
+ * 支持两个客户端在无网络环境下完成 registration → start → ready → inquire/action → over 全流程，
+ * 每回合的行动由 GameEngine 统一结算
+ */
+
+import { createServer, Server, Socket, AddressInfo } from 'net';
+import { EventEmitter } from 'events';
+import { CAMP_TYPES, TERRAIN_TYPES } from './ProtocolManager.js';
+import MessageValidator from './MessageValidator.js';
+import type { ClientMessage, ReadyMessageData, RegistrationMessageData } from '../models/protocolMsg.js';
+import { GameEngine, DEFAULT_ROLES } from '../core/GameEngine.js';
+import { generals } from '../models/heros.js';
+import { GAME_RULES, STRONGHOLD_CONFIG } from '../core/GameConstants.js';
+import type { InquireMessageData, Position } from '../models/inquireMsg.js';
+import type { ActionCommand, ActionMessageData } from '../models/actionMsg.js';
+
+// ========== 类型定义 ==========
+
+/** start消息中的地图数据 */
+export interface ServerMapData {
+    data: string;   // 从左往右、从上往下的逗号分隔地形数据
+    maxX: number;   // 地图宽度
+    maxY: number;   // 地图高度
+}
+
+/** 本地服务器配置 */
+export interface LocalGameServerOptions {
+    host?: string;                 // 监听地址
+    port?: number;                 // 监听端口，0表示由系统分配
+    playerCount?: number;          // 开局所需玩家数
+    maxRounds?: number;            // 最大回合数
+    actionTimeout?: number;        // 每回合等待行动的最长时间（毫秒）
+    map?: ServerMapData;           // 自定义地图，缺省使用内置80×60地图
+    initialRoles?: number[][];     // 各阵营初始英雄，按阵营下标
+}
+
+/** 已连接玩家 */
+interface ConnectedPlayer {
+    playerId: number;
+    playerName: string;
+    version: string;
+    camp: number;
+    socket: Socket | null;
+    ready: boolean;
+    online: boolean;
+}
+
+/** 本地服务器事件接口 */
+export interface LocalGameServerEvents {
+    'listening': (port: number) => void;
+    'playerRegistered': (playerId: number, playerName: string) => void;
+    'gameStart': (players: Array<{ playerId: number; camp: number }>) => void;
+    'round': (state: InquireMessageData) => void;
+    'gameOver': (result: any) => void;
+    'error': (error: Error) => void;
+}
+
+// 扩展EventEmitter的类型
+declare interface LocalGameServer {
+    on<K extends keyof LocalGameServerEvents>(
+        event: K,
+        listener: LocalGameServerEvents[K]
+    ): this;
+
+    emit<K extends keyof LocalGameServerEvents>(
+        event: K,
+        ...args: Parameters<LocalGameServerEvents[K]>
+    ): boolean;
+}
+
+/**
+ * 本地对战服务器主类
+ */
+class LocalGameServer extends EventEmitter {
+    private server: Server | null = null;
+    private readonly options: Required<Omit<LocalGameServerOptions, 'map'>>;
+    private readonly map: ServerMapData;
+    private engine: GameEngine | null = null;
+    private players: ConnectedPlayer[] = [];
+    private state: InquireMessageData | null = null;
+    private pendingActions: Map<number, ActionCommand[]> = new Map();
+    private roundTimer: NodeJS.Timeout | null = null;
+    private gameOver: boolean = false;
+
+    constructor(options: LocalGameServerOptions = {}) {
+        super();
+        this.options = {
+            host: options.host ?? '127.0.0.1',
+            port: options.port ?? 30000,
+            playerCount: options.playerCount ?? 2,
+            maxRounds: options.maxRounds ?? GAME_RULES.MAX_TURNS,
+            actionTimeout: options.actionTimeout ?? 2000,
+            initialRoles: options.initialRoles ?? DEFAULT_ROLES
+        };
+        this.map = options.map ?? LocalGameServer.createDefaultMap();
+    }
+
+    /**
+     * 启动监听
+     * @returns 实际监听的端口
+     */
+    async start(): Promise<number> {
+        return new Promise((resolve, reject) => {
+            this.server = createServer(socket => this.handleConnection(socket));
+            this.server.once('error', reject);
+            this.server.listen(this.options.port, this.options.host, () => {
+                const port = (this.server!.address() as AddressInfo).port;
+                console.log(`[本地服务器] 监听 ${this.options.host}:${port}`);
+                this.emit('listening', port);
+                resolve(port);
+            });
+        });
+    }
+
+    /**
+     * 停止服务器并断开所有客户端
+     */
+    async stop(): Promise<void> {
+        this.clearRoundTimer();
+        for (const player of this.players) {
+            player.socket?.destroy();
+            player.socket = null;
+        }
+        if (!this.server) {
+            return;
+        }
+        const server = this.server;
+        this.server = null;
+        await new Promise<void>(resolve => server.close(() => resolve()));
+        console.log('[本地服务器] 已停止');
+    }
+
+    /**
+     * 获取当前回合的inquire数据
+     */
+    getState(): InquireMessageData | null {
+        return this.state;
+    }
+
+    /**
+     * 获取start消息中的地图数据
+     */
+    getMap(): ServerMapData {
+        return this.map;
+    }
+
+    // ========== 连接与消息处理 ==========
+
+    /**
+     * 处理新连接，按5位长度前缀拆包
+     * @param socket 客户端套接字
+     */
+    private handleConnection(socket: Socket): void {
+        let buffer = Buffer.alloc(0);
+
+        socket.on('data', (data: Buffer) => {
+            buffer = Buffer.concat([buffer, data]);
+
+            while (buffer.length >= 5) {
+                const lengthStr = buffer.toString('utf8', 0, 5);
+                const messageLength = parseInt(lengthStr, 10);
+
+                if (isNaN(messageLength)) {
+                    console.error('[本地服务器] 消息长度格式错误:', lengthStr);
+                    socket.destroy();
+                    return;
+                }
+
+                const totalLength = 5 + messageLength;
+                if (buffer.length < totalLength) {
+                    break;
+                }
+
+                const messageStr = buffer.toString('utf8', 5, totalLength);
+                buffer = buffer.subarray(totalLength);
+
+                try {
+                    this.handleMessage(socket, MessageValidator.validateClientMessage(JSON.parse(messageStr)));
+                } catch (error) {
+                    console.error('[本地服务器] 消息解析错误:', (error as Error).message, messageStr);
+                }
+            }
+        });
+
+        socket.on('close', () => {
+            const player = this.players.find(p => p.socket === socket);
+            if (player) {
+                console.log(`[本地服务器] 玩家 ${player.playerId} 断开连接`);
+                player.socket = null;
+                player.online = false;
+                this.tryResolveRound();
+            }
+        });
+
+        socket.on('error', (error: Error) => {
+            console.error('[本地服务器] 连接错误:', error.message);
+        });
+    }
+
+    /**
+     * 分发客户端消息，消息已由 MessageValidator 校验
+     * @param socket 来源套接字
+     * @param message 解析后的消息
+     */
+    private handleMessage(socket: Socket, message: ClientMessage): void {
+        switch (message.msg_name) {
+            case 'registration':
+                this.handleRegistration(socket, message.msg_data);
+                break;
+            case 'ready':
+                this.handleReady(message.msg_data);
+                break;
+            case 'action':
+                this.handleAction(message.msg_data);
+                break;
+        }
+    }
+
+    /**
+     * 处理注册消息，人满后广播start
+     */
+    private handleRegistration(socket: Socket, data: RegistrationMessageData): void {
+        const existing = this.players.find(p => p.playerId === data.playerId);
+        if (existing) {
+            // 同一playerId重新注册视为断线重连
+            existing.socket = socket;
+            existing.online = true;
+            console.log(`[本地服务器] 玩家 ${data.playerId} 重新注册`);
+            return;
+        }
+
+        if (this.players.length >= this.options.playerCount) {
+            console.warn(`[本地服务器] 玩家已满，拒绝 ${data.playerId}`);
+            socket.destroy();
+            return;
+        }
+
+        this.players.push({
+            playerId: data.playerId,
+            playerName: data.playerName,
+            version: data.version,
+            camp: this.players.length === 0 ? CAMP_TYPES.RED : CAMP_TYPES.BLUE,
+            socket,
+            ready: false,
+            online: true
+        });
+        console.log(`[本地服务器] 玩家注册: ${data.playerName} (ID: ${data.playerId})`);
+        this.emit('playerRegistered', data.playerId, data.playerName);
+
+        if (this.players.length === this.options.playerCount) {
+            this.startGame();
+        }
+    }
+
+    /**
+     * 处理准备完成消息，全部就绪后发送第1回合inquire
+     */
+    private handleReady(data: ReadyMessageData): void {
+        const player = this.players.find(p => p.playerId === data.playerId);
+        if (!player || player.ready) {
+            return;
+        }
+        player.ready = true;
+
+        if (this.players.every(p => p.ready) && this.state) {
+            this.sendInquire();
+        }
+    }
+
+    /**
+     * 处理行动消息，过期回合的行动直接丢弃
+     */
+    private handleAction(data: ActionMessageData): void {
+        if (!this.state || this.gameOver || data.round !== this.state.round) {
+            return;
+        }
+        if (!this.players.some(p => p.playerId === data.playerId)) {
+            return;
+        }
+        this.pendingActions.set(data.playerId, data.actions);
+        this.tryResolveRound();
+    }
+
+    /**
+     * 按协议格式发送消息
+     * @param socket 目标套接字
+     * @param messageData 消息数据
+     * @param messageName 消息名称
+     */
+    private send(socket: Socket | null, messageData: any, messageName: string): void {
+        if (!socket || socket.destroyed) {
+            return;
+        }
+        const messageStr = JSON.stringify({ msg_name: messageName, msg_data: messageData });
+        const lengthStr = Buffer.byteLength(messageStr, 'utf8').toString().padStart(5, '0');
+        socket.write(lengthStr + messageStr, 'utf8');
+    }
+
+    /**
+     * 向所有在线玩家广播消息
+     */
+    private broadcast(messageData: any, messageName: string): void {
+        for (const player of this.players) {
+            this.send(player.socket, messageData, messageName);
+        }
+    }
+
+    // ========== 对局流程 ==========
+
+    /**
+     * 广播start消息并初始化第1回合状态
+     */
+    private startGame(): void {
+        const playersInfo = this.players.map(p => ({ playerId: p.playerId, camp: p.camp }));
+        this.engine = new GameEngine(this.map, playersInfo, this.options.initialRoles);
+        this.state = this.engine.getState();
+        this.broadcast({ map: this.map, players: playersInfo }, 'start');
+        console.log('[本地服务器] 游戏开始');
+        this.emit('gameStart', playersInfo);
+    }
+
+    /**
+     * 发送当前回合inquire并启动超时计时
+     */
+    private sendInquire(): void {
+        if (!this.state) {
+            return;
+        }
+        this.pendingActions.clear();
+        this.broadcast(this.state, 'inquire');
+        this.emit('round', this.state);
+
+        this.clearRoundTimer();
+        this.roundTimer = setTimeout(() => this.resolveRound(), this.options.actionTimeout);
+    }
+
+    /**
+     * 所有在线玩家都已提交行动时立即结算
+     */
+    private tryResolveRound(): void {
+        if (!this.state || this.gameOver || !this.players.every(p => p.ready)) {
+            return;
+        }
+        const waiting = this.players.filter(p => p.online && !this.pendingActions.has(p.playerId));
+        if (waiting.length === 0) {
+            this.resolveRound();
+        }
+    }
+
+    /**
+     * 结算本回合并推进到下一回合
+     */
+    private resolveRound(): void {
+        this.clearRoundTimer();
+        if (!this.state || !this.engine || this.gameOver) {
+            return;
+        }
+
+        try {
+            this.state = this.engine.step(new Map(this.pendingActions));
+        } catch (error) {
+            console.error('[本地服务器] 回合结算失败:', error);
+            this.emit('error', error as Error);
+        }
+
+        if (this.engine.isFinished() || this.state.round > this.options.maxRounds) {
+            this.finishGame();
+        } else {
+            this.sendInquire();
+        }
+    }
+
+    /**
+     * 广播over消息
+     */
+    private finishGame(): void {
+        this.gameOver = true;
+        const result = this.buildOverData();
+        this.broadcast(result, 'over');
+        console.log(`[本地服务器] 游戏结束，共 ${result.players[0]?.overRound ?? 0} 回合`);
+        this.emit('gameOver', result);
+    }
+
+    private clearRoundTimer(): void {
+        if (this.roundTimer) {
+            clearTimeout(this.roundTimer);
+            this.roundTimer = null;
+        }
+    }
+
+    /**
+     * 根据引擎状态和统计生成over消息数据
+     */
+    private buildOverData(): any {
+        const state = this.state!;
+        const overRound = state.round - 1;  // 已结算的最后一个回合
+
+        return {
+            players: this.players.map(p => {
+                const statePlayer = state.players.find(sp => sp.playerId === p.playerId);
+                const roles = statePlayer?.roles ?? [];
+                const occupyRound = state.stronghold.occupiedRound[p.camp] ?? 0;
+                const stats = this.engine!.getPlayerStats(p.playerId);
+                const heroes = roles.map(role => ({
+                    bowmen: role.solderProps.filter(s => s.roleId === 7).length,
+                    id: 1500 + p.camp * 10 + (role.roleId - 40),
+                    killedNum: stats.heroKills[role.roleId] ?? 0,
+                    name: generals.find(g => g.id === role.roleId)?.name ?? '',
+                    roleId: role.roleId,
+                    shieldmen: role.solderProps.filter(s => s.roleId === 8).length
+                }));
+
+                return {
+                    destroyTowerNum: stats.destroyTowerNum,
+                    heroes,
+                    killedNum: stats.killedNum,
+                    occupyRound,
+                    online: p.online,
+                    overRound,
+                    playerId: p.playerId,
+                    playerName: p.playerName,
+                    progress: Math.round(occupyRound / STRONGHOLD_CONFIG.VICTORY_ROUNDS * 10000) / 10000,
+                    soldierNum: heroes.reduce((sum, h) => sum + h.bowmen + h.shieldmen, 0),
+                    totalGold: statePlayer?.supplies ?? 0
+                };
+            })
+        };
+    }
+
+    // ========== 静态工具 ==========
+
+    /**
+     * 查找指定地形的所有格子
+     */
+    static findTerrain(cells: number[], maxX: number, terrains: number[]): Position[] {
+        const positions: Position[] = [];
+        cells.forEach((terrain, index) => {
+            if (terrains.includes(terrain)) {
+                positions.push({ x: index % maxX, y: Math.floor(index / maxX) });
+            }
+        });
+        return positions;
+    }
+
+    /**
+     * 生成内置80×60地图
+     * 地图关于中心点对称：左侧红方主基地、右侧蓝方主基地，中央3×3龙旗据点，
+     * 两侧各有一至三级城寨各一座，并散布山丘与河流
+     */
+    static createDefaultMap(): ServerMapData {
+        const maxX = 80;
+        const maxY = 60;
+        const cells: number[] = new Array(maxX * maxY).fill(TERRAIN_TYPES.SPACE);
+
+        // 同时写入对称位置，保证双方地形一致
+        const place = (x: number, y: number, terrain: number) => {
+            cells[y * maxX + x] = terrain;
+            cells[(maxY - 1 - y) * maxX + (maxX - 1 - x)] = terrain;
+        };
+        const fill = (x1: number, y1: number, x2: number, y2: number, terrain: number) => {
+            for (let y = y1; y <= y2; y++) {
+                for (let x = x1; x <= x2; x++) {
+                    place(x, y, terrain);
+                }
+            }
+        };
+
+        // 山丘
+        fill(10, 5, 14, 8, TERRAIN_TYPES.MOUNT);
+        fill(22, 18, 24, 26, TERRAIN_TYPES.MOUNT);
+        fill(30, 40, 36, 42, TERRAIN_TYPES.MOUNT);
+        fill(8, 44, 11, 50, TERRAIN_TYPES.MOUNT);
+
+        // 河流，留出渡口
+        fill(18, 0, 19, 12, TERRAIN_TYPES.WATER);
+        fill(18, 16, 19, 22, TERRAIN_TYPES.WATER);
+        fill(28, 28, 33, 29, TERRAIN_TYPES.WATER);
+
+        // 主基地
+        place(2, 30, TERRAIN_TYPES.BASE);
+
+        // 城寨（一级/二级/三级）
+        place(15, 12, 50);
+        place(26, 48, 51);
+        place(38, 8, 52);
+
+        // 中央龙旗据点
+        for (let y = 29; y <= 31; y++) {
+            for (let x = 39; x <= 41; x++) {
+                cells[y * maxX + x] = TERRAIN_TYPES.FLAG;
+            }
+        }
+
+        return { data: cells.join(','), maxX, maxY };
+    }
+}
+
+export default LocalGameServer;
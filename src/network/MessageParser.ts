@@ -6,6 +6,19 @@
 import { TERRAIN_TYPES, CAMP_TYPES, HERO_STATUS } from './ProtocolManager';
 import { TerrainType, MapCell, CityInfo, StrongholdInfo } from '../context/gameMap.js';
 import type { Position } from '../core/types.js';
+import type { CityProp, InquireMessageData, Player, Role, Skill, Soldier, Stronghold } from '../models/inquireMsg';
+import type { MapMessageData, OverHero, OverPlayer, StartMessageData } from '../models/protocolMsg';
+
+/** inquire数据，城寨和据点缺失时按空处理 */
+type InquireInput = Omit<InquireMessageData, 'cityProps' | 'stronghold'> & {
+    cityProps?: InquireMessageData['cityProps'];
+    stronghold?: InquireMessageData['stronghold'] | null;
+};
+
+/** over消息中的玩家结算，除playerId外缺失的字段按默认值处理 */
+type OverPlayerInput = Partial<Omit<OverPlayer, 'heroes'>> & Pick<OverPlayer, 'playerId'> & {
+    heroes?: Partial<OverHero>[];
+};
 
 /**
  * 消息解析器类
@@ -22,7 +35,7 @@ class MessageParser {
      * @returns {boolean} returns.gameStarted - 游戏是否已开始
      * @returns {string} returns.timestamp - 解析时间戳
      */
-    static parseStartMessage(startData) {
+    static parseStartMessage(startData: StartMessageData) {
         if (!startData || !startData.map || !startData.players) {
             throw new Error('start消息格式错误：缺少map或players字段');
         }
@@ -57,7 +70,7 @@ class MessageParser {
      * @returns {Array} returns.rawData - 原始地形数据数组
      * @returns {Object} returns.specialLocations - 特殊地形位置信息
      */
-    static parseMapData(mapData) {
+    static parseMapData(mapData: MapMessageData) {
         const { data, maxX, maxY } = mapData;
         
         // 解析地形数据
@@ -107,7 +120,7 @@ class MessageParser {
      * @returns {Object} returns.stronghold - 据点状态对象
      * @returns {string} returns.timestamp - 解析时间戳
      */
-    static parseInquireMessage(inquireData) {
+    static parseInquireMessage(inquireData: InquireInput) {
         if (!inquireData || typeof inquireData.round !== 'number' || !Array.isArray(inquireData.players)) {
             throw new Error('inquire消息格式错误：缺少round或players字段');
         }
@@ -133,7 +146,7 @@ class MessageParser {
      * @returns {number} returns.aliveHeroes - 存活英雄数量
      * @returns {number} returns.totalSoldiers - 总士兵数量
      */
-    static parsePlayerData(playerData) {
+    static parsePlayerData(playerData: Player) {
         if (!playerData.hasOwnProperty('playerId') || !Array.isArray(playerData.roles)) {
             throw new Error('玩家数据格式错误：缺少playerId或roles字段');
         }
@@ -172,7 +185,7 @@ class MessageParser {
      * @returns {number} returns.totalSoldierCount - 总士兵数量
      * @returns {number} returns.healthPercentage - 血量百分比
      */
-    static parseRoleData(roleData) {
+    static parseRoleData(roleData: Role) {
         if (!roleData.hasOwnProperty('roleId')) {
             throw new Error('英雄数据格式错误：缺少roleId字段');
         }
@@ -216,7 +229,7 @@ class MessageParser {
      * @returns {boolean} returns.isReady - 是否可用
      * @returns {number} returns.cooldownProgress - 冷却进度百分比
      */
-    static parseSkillData(skillData) {
+    static parseSkillData(skillData: Skill) {
         return {
             skillId: skillData.skillId,                               // 技能唯一标识ID
             cd: skillData.cd || 0,                                    // 最大冷却时间（回合数）
@@ -242,7 +255,7 @@ class MessageParser {
      * @returns {string} returns.type - 士兵类型英文名
      * @returns {string} returns.typeName - 士兵类型中文名
      */
-    static parseSoldierData(soldierData) {
+    static parseSoldierData(soldierData: Soldier) {
         return {
             roleId: soldierData.roleId,                              // 士兵类型ID (7弓兵/8盾兵)
             attack: soldierData.attack || 0,                         // 士兵攻击力数值
@@ -264,7 +277,7 @@ class MessageParser {
      * @returns {string} returns.cityType - 城寨类型名称
      * @returns {number} returns.healthPercentage - 血量百分比
      */
-    static parseCityData(cityData) {
+    static parseCityData(cityData: CityProp) {
         const cityInfo = this.getCityInfo(cityData.roleId);
         
         return {
@@ -291,7 +304,7 @@ class MessageParser {
      * @returns {number} returns.blueOccupiedRounds - 蓝方占领回合数
      * @returns {number} returns.totalOccupiedRounds - 总占领回合数
      */
-    static parseStrongholdData(strongholdData) {
+    static parseStrongholdData(strongholdData: Stronghold) {
         const isAvailable = strongholdData.position && 
                            strongholdData.position.x !== -1 && 
                            strongholdData.position.y !== -1;
@@ -323,7 +336,7 @@ class MessageParser {
      * @returns {number} returns.totalPlayers - 总玩家数
      * @returns {Object} returns.summary - 游戏总结信息
      */
-    static parseOverMessage(overData) {
+    static parseOverMessage(overData: { players: OverPlayerInput[] }) {
         if (!overData || !Array.isArray(overData.players)) {
             throw new Error('over消息格式错误：缺少players字段');
         }
@@ -360,7 +373,7 @@ class MessageParser {
      * @returns {number} returns.rank - 玩家排名
      * @returns {number} returns.score - 玩家得分
      */
-    static parseGameResultPlayer(playerData) {
+    static parseGameResultPlayer(playerData: OverPlayerInput) {
         return {
             playerId: playerData.playerId,                            // 玩家唯一标识ID
             playerName: playerData.playerName || '未知玩家',           // 玩家显示名称
@@ -391,7 +404,7 @@ class MessageParser {
      * @returns {number} returns.totalSoldiers - 总存活士兵数
      * @returns {number} returns.efficiency - 英雄效率值
      */
-    static parseGameResultHero(heroData) {
+    static parseGameResultHero(heroData: Partial<OverHero>) {
         return {
             id: heroData.id,                                          // 英雄实例唯一ID
             roleId: heroData.roleId,                                  // 英雄角色类型ID
@@ -769,4 +782,19 @@ class MessageParser {
     }
 }
 
-export default MessageParser; 
\ No newline at end of file
+/** parseStartMessage 的返回值 */
+export type ParsedStartMessage = ReturnType<typeof MessageParser.parseStartMessage>;
+
+/** parseInquireMessage 的返回值，团队黑板和策略代码使用的游戏状态 */
+export type ParsedInquireMessage = ReturnType<typeof MessageParser.parseInquireMessage>;
+export type ParsedPlayer = ReturnType<typeof MessageParser.parsePlayerData>;
+export type ParsedRole = ReturnType<typeof MessageParser.parseRoleData>;
+export type ParsedSkill = ReturnType<typeof MessageParser.parseSkillData>;
+export type ParsedSoldier = ReturnType<typeof MessageParser.parseSoldierData>;
+export type ParsedCity = ReturnType<typeof MessageParser.parseCityData>;
+export type ParsedStronghold = ReturnType<typeof MessageParser.parseStrongholdData>;
+
+/** parseOverMessage 的返回值 */
+export type ParsedOverMessage = ReturnType<typeof MessageParser.parseOverMessage>;
+
+export default MessageParser;
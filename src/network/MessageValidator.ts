@@ -0,0 +1,243 @@
+/**
+ * 协议消息校验器
+ * 在套接字边界按通讯协议校验消息结构，格式错误的消息在这里变成 ProtocolValidationError，
+ * 不会带着缺失或类型错误的字段进入 MessageParser 和策略代码
+ */
+
+import type {
+    ClientMessage,
+    MessageName,
+    ProtocolMessage,
+    ServerMessage
+} from '../models/protocolMsg';
+
+/**
+ * 协议消息格式错误
+ */
+export class ProtocolValidationError extends Error {
+    readonly msgName: string | null;  // 出错的消息名称，无法识别时为 null
+    readonly path: string;            // 出错字段的路径，如 msg_data.players[0].roles[1].life
+
+    constructor(msgName: string | null, path: string, reason: string) {
+        super(`${msgName ?? '未知'}消息格式错误：${path} ${reason}`);
+        this.name = 'ProtocolValidationError';
+        this.msgName = msgName;
+        this.path = path;
+    }
+}
+
+/** 字段校验函数，不合法时返回原因 */
+type Schema = (value: unknown, path: string) => [string, string] | null;
+
+const fail = (path: string, reason: string): [string, string] => [path, reason];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const number: Schema = (value, path) =>
+    typeof value === 'number' && Number.isFinite(value) ? null : fail(path, '应为数字');
+
+const string: Schema = (value, path) =>
+    typeof value === 'string' ? null : fail(path, '应为字符串');
+
+const boolean: Schema = (value, path) =>
+    typeof value === 'boolean' ? null : fail(path, '应为布尔值');
+
+const nullable = (schema: Schema): Schema => (value, path) =>
+    value === null ? null : schema(value, path);
+
+const optional = (schema: Schema): Schema => (value, path) =>
+    value === undefined ? null : schema(value, path);
+
+const oneOf = (values: readonly string[]): Schema => (value, path) =>
+    typeof value === 'string' && values.includes(value) ? null : fail(path, `应为 ${values.join('/')} 之一`);
+
+const arrayOf = (item: Schema): Schema => (value, path) => {
+    if (!Array.isArray(value)) {
+        return fail(path, '应为数组');
+    }
+    for (let i = 0; i < value.length; i++) {
+        const error = item(value[i], `${path}[${i}]`);
+        if (error) {
+            return error;
+        }
+    }
+    return null;
+};
+
+const recordOf = (item: Schema): Schema => (value, path) => {
+    if (!isObject(value)) {
+        return fail(path, '应为对象');
+    }
+    for (const [key, entry] of Object.entries(value)) {
+        const error = item(entry, `${path}.${key}`);
+        if (error) {
+            return error;
+        }
+    }
+    return null;
+};
+
+const object = (fields: Record<string, Schema>): Schema => (value, path) => {
+    if (!isObject(value)) {
+        return fail(path, '应为对象');
+    }
+    for (const [key, schema] of Object.entries(fields)) {
+        if (!(key in value) && schema(undefined, '') !== null) {
+            return fail(`${path}.${key}`, '缺失');
+        }
+        const error = schema(value[key], `${path}.${key}`);
+        if (error) {
+            return error;
+        }
+    }
+    return null;
+};
+
+// ========== 通讯协议中的消息结构 ==========
+
+const position = object({ x: number, y: number });
+
+const skill = object({
+    skillId: number,
+    cd: number,
+    cdRemainRound: number,
+    damage: number,
+    damageReduceRatio: number,
+    damageAddByAttackRatio: number,
+    roleId: number
+});
+
+const soldier = object({ roleId: number, attack: number, heroId: number, life: number });
+
+const role = object({
+    roleId: number,
+    attack: number,
+    position: nullable(position),  // 阵亡复活中的英雄没有位置
+    life: number,
+    maxLife: number,
+    camp: number,
+    reviveRound: number,
+    formationType: number,
+    commander: number,
+    statuses: recordOf(number),
+    skills: arrayOf(skill),
+    solderProps: arrayOf(soldier)
+});
+
+const SCHEMAS: Record<MessageName, Schema> = {
+    registration: object({ playerId: number, playerName: string, version: string }),
+    start: object({
+        map: object({ data: string, maxX: number, maxY: number }),
+        players: arrayOf(object({ playerId: number, camp: number }))
+    }),
+    ready: object({ playerId: number, status: string }),
+    inquire: object({
+        round: number,
+        players: arrayOf(object({ playerId: number, supplies: number, morale: number, roles: arrayOf(role) })),
+        cityProps: arrayOf(object({ roleId: number, position, life: number })),
+        stronghold: object({ roleId: number, camp: number, occupiedRound: arrayOf(number), position })
+    }),
+    action: object({
+        round: number,
+        playerId: number,
+        actions: arrayOf(object({
+            action: oneOf(['MOVE', 'SP', 'PICK', 'MAKE', 'FORM', 'BUFF', 'AC', 'SG', 'AD', 'SK']),
+            roleId: optional(number),
+            playerId: optional(number),
+            position: optional(position),
+            roles: optional(arrayOf(number)),
+            details: optional(arrayOf(object({ roleId: number, solders: arrayOf(number) }))),
+            formationType: optional(number),
+            buffType: optional(number),
+            skillId: optional(number),
+            formType: optional(number),
+            teleportPosition: optional(position)
+        }))
+    }),
+    over: object({
+        players: arrayOf(object({
+            playerId: number,
+            playerName: string,
+            online: boolean,
+            overRound: number,
+            progress: number,
+            soldierNum: number,
+            totalGold: number,
+            destroyTowerNum: number,
+            killedNum: number,
+            occupyRound: number,
+            heroes: arrayOf(object({
+                id: number,
+                roleId: number,
+                name: string,
+                bowmen: number,
+                shieldmen: number,
+                killedNum: number
+            }))
+        }))
+    })
+};
+
+const SERVER_MESSAGES: readonly MessageName[] = ['start', 'inquire', 'over'];
+const CLIENT_MESSAGES: readonly MessageName[] = ['registration', 'ready', 'action'];
+
+/**
+ * 协议消息校验器类
+ */
+class MessageValidator {
+
+    /**
+     * 校验任意一条协议消息
+     * @param {unknown} raw - JSON.parse 得到的消息
+     * @returns {ProtocolMessage} 按 msg_name 区分类型的消息
+     * @throws {ProtocolValidationError} 消息名称未知或字段缺失、类型错误
+     */
+    static validate(raw: unknown): ProtocolMessage {
+        return this.validateAs(raw, Object.keys(SCHEMAS) as MessageName[]) as ProtocolMessage;
+    }
+
+    /**
+     * 校验服务器发来的消息（start/inquire/over）
+     * @param {unknown} raw - JSON.parse 得到的消息
+     * @returns {ServerMessage} 服务器消息
+     * @throws {ProtocolValidationError} 格式错误或不是服务器消息
+     */
+    static validateServerMessage(raw: unknown): ServerMessage {
+        return this.validateAs(raw, SERVER_MESSAGES) as ServerMessage;
+    }
+
+    /**
+     * 校验客户端发来的消息（registration/ready/action）
+     * @param {unknown} raw - JSON.parse 得到的消息
+     * @returns {ClientMessage} 客户端消息
+     * @throws {ProtocolValidationError} 格式错误或不是客户端消息
+     */
+    static validateClientMessage(raw: unknown): ClientMessage {
+        return this.validateAs(raw, CLIENT_MESSAGES) as ClientMessage;
+    }
+
+    /**
+     * 按允许的消息名称校验
+     */
+    private static validateAs(raw: unknown, allowed: readonly MessageName[]): ProtocolMessage {
+        if (!isObject(raw)) {
+            throw new ProtocolValidationError(null, 'message', '应为对象');
+        }
+        const msgName = raw.msg_name;
+        if (typeof msgName !== 'string') {
+            throw new ProtocolValidationError(null, 'msg_name', '应为字符串');
+        }
+        if (!allowed.includes(msgName as MessageName)) {
+            throw new ProtocolValidationError(msgName, 'msg_name', '不是可接收的消息类型');
+        }
+
+        const error = SCHEMAS[msgName as MessageName](raw.msg_data, 'msg_data');
+        if (error) {
+            throw new ProtocolValidationError(msgName, error[0], error[1]);
+        }
+        return raw as unknown as ProtocolMessage;
+    }
+}
+
+export default MessageValidator;
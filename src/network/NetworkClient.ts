@@ -4,20 +4,42 @@
  */
 
 import ProtocolManager from './ProtocolManager';
+import type { ReconnectOptions } from './ProtocolManager';
 import MessageParser from './MessageParser';
+import type { ParsedInquireMessage, ParsedStartMessage } from './MessageParser';
 import ActionBuilder from './ActionBuilder';
+import ActionQueue from './ActionQueue';
+import ReplayRecorder from './ReplayRecorder';
+import LegalActions from '../core/LegalActions';
+import type { LegalActionFilterResult } from '../core/LegalActions';
 import { EventEmitter } from 'events';
 import { TeamBlackboard } from '../core/TeamBlackboard.js';
-import { log } from 'src';
+import { log } from '../logger';
+
+/**
+ * 网络客户端维护的对局状态
+ */
+export interface ClientGameState {
+    connected: boolean;
+    gameStarted: boolean;
+    currentRound: number;
+    playerId: number | null;
+    playerName: string;
+    camp: number | null;
+    lastGameData: ParsedInquireMessage | null;  // 最近一回合解析后的inquire数据
+    mapData: ParsedStartMessage['map'] | null;
+}
 
 /**
  * 网络客户端主类
  * 封装所有网络通信相关功能
  */
 class NetworkClient extends EventEmitter {
-    private protocolManager: any;
-    public gameState: any;
+    private protocolManager: ProtocolManager;
+    public gameState: ClientGameState;
     private teamBlackboard: TeamBlackboard | null = null;  // 可选的TeamBlackboard实例
+    private replayRecorder: ReplayRecorder | null = null;  // 可选的对局录像
+    private actionQueue: ActionQueue = new ActionQueue();   // 本机器人的行动指令队列
 
     constructor() {
         super();
@@ -43,13 +65,36 @@ class NetworkClient extends EventEmitter {
 
     /**
      * 设置TeamBlackboard实例以进行数据填充
+     * 已收到 start 消息时同时把本局地图注册到该团队黑板
      * @param teamBlackboard TeamBlackboard实例
      */
     setTeamBlackboard(teamBlackboard: TeamBlackboard): void {
         this.teamBlackboard = teamBlackboard;
+        if (this.gameState.mapData) {
+            try {
+                teamBlackboard.registerMap(this.gameState.mapData);
+            } catch (error) {
+                console.error('[网络客户端] 注册地图失败:', error);
+            }
+        }
         console.log('[网络客户端] TeamBlackboard已连接，将自动填充游戏数据');
     }
 
+    /**
+     * 设置本机器人的行动指令队列，sendActions 未传入指令时从中取出
+     * @param actionQueue ActionQueue实例
+     */
+    setActionQueue(actionQueue: ActionQueue): void {
+        this.actionQueue = actionQueue;
+    }
+
+    /**
+     * 获取本机器人的行动指令队列
+     */
+    getActionQueue(): ActionQueue {
+        return this.actionQueue;
+    }
+
     /**
      * 移除TeamBlackboard连接
      */
@@ -58,6 +103,32 @@ class NetworkClient extends EventEmitter {
         console.log('[网络客户端] TeamBlackboard连接已断开');
     }
 
+    /**
+     * 开启断线重连：意外断开后按指数退避重连并用同一playerId重新注册，
+     * 团队黑板、策略历史和对局状态保持不变，从下一回合的 inquire 继续决策
+     * @param options 重连配置
+     */
+    enableReconnect(options: ReconnectOptions = {}): void {
+        this.protocolManager.enableReconnect(options);
+        console.log('[网络客户端] 断线重连已开启');
+    }
+
+    /**
+     * 开启对局录像，每回合写入一行JSONL记录
+     * @param filePath 录像文件路径
+     */
+    enableReplay(filePath: string): void {
+        this.replayRecorder = new ReplayRecorder(filePath);
+        console.log(`[网络客户端] 对局录像已开启: ${filePath}`);
+    }
+
+    /**
+     * 关闭对局录像
+     */
+    disableReplay(): void {
+        this.replayRecorder = null;
+    }
+
     /**
      * 绑定协议管理器事件
      */
@@ -66,10 +137,13 @@ class NetworkClient extends EventEmitter {
         this.protocolManager.on('gameStart', (startData) => {
             try {
                 console.log('[网络客户端] 收到游戏开始消息');
+                this.replayRecorder?.recordStart(this.gameState.playerId!, this.gameState.playerName, startData);
                 const parsedData = MessageParser.parseStartMessage(startData);
                 
                 this.gameState.gameStarted = true;
                 this.gameState.mapData = parsedData.map;
+                this.teamBlackboard?.registerMap(parsedData.map);
+                console.log(`[网络客户端] 收到地图: ${parsedData.map.width}x${parsedData.map.height}`);
                 
                 // 找到自己的阵营信息
                 const myInfo = parsedData.players.find(p => p.playerId === this.gameState.playerId);
@@ -94,6 +168,7 @@ class NetworkClient extends EventEmitter {
         this.protocolManager.on('inquire', (inquireData) => {
             try {
                 console.log(`[网络客户端] 收到第${inquireData.round}回合询问消息`);
+                this.replayRecorder?.recordInquire(inquireData.round, inquireData);
                 const parsedData = MessageParser.parseInquireMessage(inquireData);
                 
                 this.gameState.currentRound = parsedData.round;
@@ -122,6 +197,7 @@ class NetworkClient extends EventEmitter {
         this.protocolManager.on('gameOver', (overData) => {
             try {
                 console.log('[网络客户端] 收到游戏结束消息');
+                this.replayRecorder?.recordOver(overData);
                 const parsedData = MessageParser.parseOverMessage(overData);
                 
                 this.gameState.gameStarted = false;
@@ -137,16 +213,43 @@ class NetworkClient extends EventEmitter {
 
         // 连接断开事件
         this.protocolManager.on('disconnected', () => {
-            console.log('[网络客户端] 连接已断开');
             this.gameState.connected = false;
-            this.gameState.gameStarted = false;
+            if (this.protocolManager.isReconnecting()) {
+                console.log('[网络客户端] 连接已断开，等待重连，保留对局状态');
+            } else {
+                console.log('[网络客户端] 连接已断开');
+                this.gameState.gameStarted = false;
+            }
             this.emit('disconnected');
         });
 
-        // 未知消息事件
-        this.protocolManager.on('unknownMessage', (message) => {
-            console.log('[网络客户端] 收到未知消息:', message.msg_name);
-            this.emit('unknownMessage', message);
+        // 连接错误由 connect() 的返回值和重连流程处理，这里只记录，避免无人监听 error 时抛出异常
+        this.protocolManager.on('error', (error) => {
+            console.error(`[网络客户端] 连接错误: ${error.message}`);
+        });
+
+        // 断线重连事件
+        this.protocolManager.on('reconnecting', (info) => {
+            console.log(`[网络客户端] 第${info.attempt}次重连，等待${info.delayMs}ms`);
+            this.emit('reconnecting', info);
+        });
+
+        this.protocolManager.on('reconnected', (info) => {
+            this.gameState.connected = true;
+            console.log(`[网络客户端] 重连成功，从第${this.gameState.currentRound + 1}回合继续`);
+            this.emit('reconnected', info);
+        });
+
+        this.protocolManager.on('reconnectFailed', (attempts) => {
+            this.gameState.gameStarted = false;
+            console.error(`[网络客户端] 重连${attempts}次均失败`);
+            this.emit('reconnectFailed', attempts);
+        });
+
+        // 格式错误或未知的消息，已在协议层丢弃
+        this.protocolManager.on('protocolError', (error) => {
+            console.error(`[网络客户端] 丢弃格式错误的消息: ${error.message}`);
+            this.emit('protocolError', error);
         });
     }
 
@@ -201,20 +304,50 @@ class NetworkClient extends EventEmitter {
     }
 
     /**
-     * 发送行动指令
+     * 用合法行动校验器过滤指令
+     * 没有团队黑板或地图时（例如尚未开局）全部放行
      * @param {Array} actions - 行动指令数组
+     * @returns {LegalActionFilterResult} 合法的指令和被丢弃的指令及原因
+     */
+    filterLegalActions(actions): LegalActionFilterResult {
+        const snapshot = this.teamBlackboard?.getGameStateSnapshot();
+        if (!snapshot || !this.teamBlackboard!.hasGameMap()) {
+            return { accepted: actions, rejected: [] };
+        }
+
+        const result = LegalActions.filter(actions, snapshot, this.teamBlackboard!.getPlayerId(), {
+            gameMap: this.teamBlackboard!.getGameMap(),
+            lastTeleportRounds: this.teamBlackboard!.getLastTeleportRounds()
+        });
+        for (const { action, reason } of result.rejected) {
+            log(`[网络客户端] 丢弃非法指令 ${JSON.stringify(action)}: ${reason}`, 'warn');
+        }
+        return result;
+    }
+
+    /**
+     * 发送行动指令
+     * 没有指令时也发送空的 actions，每回合都回复服务器
+     * @param {Array} actions - 行动指令数组，默认取出本机器人队列中的指令
      * @returns {Promise<boolean>} 发送是否成功
      */
-    async sendActions(actions) {
+    async sendActions(actions: any[] = this.actionQueue.drain()) {
         try {
             if (!Array.isArray(actions)) {
                 throw new Error('行动指令必须是数组');
             }
 
-            if( actions.length === 0 ) {
-                log('[网络客户端] 没有行动指令，跳过', 'warn');
-                return true;
-            }
+            // 按规则过滤不会生效的指令，录像记录实际发送的指令，被丢弃的指令和原因单独记录
+            const { accepted, rejected } = this.filterLegalActions(actions);
+            actions = accepted;
+
+            this.replayRecorder?.recordActions(
+                this.gameState.currentRound,
+                actions,
+                this.teamBlackboard?.getCurrentStrategy() ?? null,
+                this.teamBlackboard?.getCurrentStrategyData() ?? null
+            );
+            this.replayRecorder?.recordRejected(this.gameState.currentRound, rejected);
 
             // 验证所有行动指令
             for (const action of actions) {
@@ -226,11 +359,21 @@ class NetworkClient extends EventEmitter {
             const success = await this.protocolManager.sendAction(this.gameState.currentRound, actions);
             
             if (success) {
+                // 传送冷却不在 inquire 中，发送成功后自行记录
+                for (const action of actions) {
+                    if (action.action === 'SP') {
+                        this.teamBlackboard?.recordTeleport(action.roleId, this.gameState.currentRound);
+                    }
+                }
+
                 // 记录行动日志
                 console.log(`[网络客户端] 第${this.gameState.currentRound}回合行动已发送:`);
                 actions.forEach((action, index) => {
                     console.log(`  ${index + 1}. ${ActionBuilder.getActionDescription(action)}`);
                 });
+                if (actions.length === 0) {
+                    console.log('  （无行动）');
+                }
             }
 
             return success;
@@ -404,10 +547,7 @@ class NetworkClient extends EventEmitter {
             currentRound: this.gameState.currentRound,
             playerId: this.gameState.playerId,
             camp: this.gameState.camp,
-            socketStatus: this.protocolManager.socket ? {
-                readyState: this.protocolManager.socket.readyState,
-                destroyed: this.protocolManager.socket.destroyed
-            } : null
+            socketStatus: this.protocolManager.getSocketStatus()
         };
     }
 
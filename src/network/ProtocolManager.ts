@@ -5,7 +5,17 @@
 
 import { Socket } from 'net';
 import { EventEmitter } from 'events';
-import type { GameAction, GameState, GameResult, GameMap } from '../types/index.js';
+import MessageValidator, { ProtocolValidationError } from './MessageValidator';
+import type {
+    ClientMessage,
+    MessageData,
+    OverMessageData,
+    ProtocolMessage,
+    RegistrationMessageData,
+    StartMessageData
+} from '../models/protocolMsg';
+import type { InquireMessageData } from '../models/inquireMsg';
+import type { ActionCommand, ActionMessageData } from '../models/actionMsg';
 
 /**
  * 地形类型常量
@@ -74,45 +84,54 @@ export const SOLDIER_TYPES = {
 
 // ========== 类型定义 ==========
 
-/** 协议消息接口 */
-export interface ProtocolMessage {
-    msg_name: string;
-    msg_data: any;
-}
+/** 协议消息，按 msg_name 区分的联合类型 */
+export type { ProtocolMessage };
 
 /** 游戏开始消息数据 */
-export interface GameStartData {
-    map: any;
-    players: Array<{
-        playerId: number;
-        camp: number;
-    }>;
-}
+export type GameStartData = StartMessageData;
 
 /** 注册消息数据 */
-export interface RegistrationData {
-    playerId: number;
-    playerName: string;
-    version: string;
-}
+export type RegistrationData = RegistrationMessageData;
 
 /** 行动消息数据 */
-export interface ActionData {
-    round: number;
-    actions: GameAction[];
-    playerId: number;
+export type ActionData = ActionMessageData;
+
+/** 断线重连配置 */
+export interface ReconnectOptions {
+    maxAttempts?: number;      // 最多尝试次数
+    initialDelayMs?: number;   // 第1次重连前的等待时间
+    maxDelayMs?: number;       // 等待时间上限
+    factor?: number;           // 每次失败后等待时间的倍数
+}
+
+/** 重连尝试信息 */
+export interface ReconnectAttempt {
+    attempt: number;           // 第几次尝试，从1开始
+    delayMs: number;           // 本次尝试前的等待时间
 }
 
 /** 协议管理器事件接口 */
 export interface ProtocolManagerEvents {
-    'gameStart': (data: GameStartData) => void;
-    'inquire': (data: GameState) => void;
-    'gameOver': (data: GameResult) => void;
+    'gameStart': (data: StartMessageData) => void;
+    'inquire': (data: InquireMessageData) => void;
+    'gameOver': (data: OverMessageData) => void;
+    'protocolError': (error: ProtocolValidationError) => void;
     'disconnected': () => void;
     'error': (error: Error) => void;
     'connected': () => void;
+    'reconnecting': (info: ReconnectAttempt) => void;
+    'reconnected': (info: ReconnectAttempt) => void;
+    'reconnectFailed': (attempts: number) => void;
 }
 
+/** 默认重连配置：0.5s、1s、2s、4s、8s，共5次 */
+const DEFAULT_RECONNECT: Required<ReconnectOptions> = {
+    maxAttempts: 5,
+    initialDelayMs: 500,
+    maxDelayMs: 8000,
+    factor: 2
+};
+
 // 扩展EventEmitter的类型
 declare interface ProtocolManager {
     on<K extends keyof ProtocolManagerEvents>(
@@ -136,11 +155,48 @@ class ProtocolManager extends EventEmitter {
     private playerId: number | null = null;
     private playerName: string = '';
     private version: string = '1.0';
+    private host: string = '';
+    private port: number = 0;
+    private reconnectOptions: Required<ReconnectOptions> | null = null;  // 为空时不自动重连
+    private reconnectAttempt: number = 0;
+    private reconnectTimer: NodeJS.Timeout | null = null;
 
     constructor() {
         super();
     }
 
+    /**
+     * 开启断线重连：连接意外断开后按指数退避重新连接，并用同一playerId重新发送registration
+     * @param options 重连配置
+     */
+    enableReconnect(options: ReconnectOptions = {}): void {
+        this.reconnectOptions = { ...DEFAULT_RECONNECT, ...options };
+    }
+
+    /**
+     * 关闭断线重连，并取消尚未开始的重连
+     */
+    disableReconnect(): void {
+        this.reconnectOptions = null;
+        this.cancelReconnect();
+    }
+
+    /**
+     * 是否正在等待或进行重连
+     */
+    isReconnecting(): boolean {
+        return this.reconnectAttempt > 0;
+    }
+
+    /**
+     * 第attempt次重连前的等待时间
+     * @param attempt 第几次尝试，从1开始
+     */
+    getReconnectDelay(attempt: number): number {
+        const options = this.reconnectOptions ?? DEFAULT_RECONNECT;
+        return Math.min(options.initialDelayMs * Math.pow(options.factor, attempt - 1), options.maxDelayMs);
+    }
+
     /**
      * 连接到服务器
      * @param host 服务器地址
@@ -157,56 +213,137 @@ class ProtocolManager extends EventEmitter {
         playerName: string, 
         version: string = '1.0'
     ): Promise<boolean> {
-        return new Promise((resolve, reject) => {
-            this.playerId = playerId;
-            this.playerName = playerName;
-            this.version = version;
+        this.playerId = playerId;
+        this.playerName = playerName;
+        this.version = version;
+        this.host = host;
+        this.port = port;
+        this.cancelReconnect();
+
+        return this.openSocket(false);
+    }
 
-            this.socket = new Socket();
+    /**
+     * 建立套接字连接并发送注册消息
+     * @param reconnecting 是否为断线重连，重连失败只记录日志，由重连流程决定是否继续
+     * @returns 连接是否成功
+     */
+    private openSocket(reconnecting: boolean): Promise<boolean> {
+        const { host, port } = this;
+
+        return new Promise((resolve, reject) => {
+            const socket = new Socket();
+            this.socket = socket;
+            this.buffer = Buffer.alloc(0);
+            let opened = false;
             
             // 设置编码为UTF-8
-            this.socket.setEncoding('utf8');
+            socket.setEncoding('utf8');
             
             // 连接成功事件
-            this.socket.on('connect', () => {
+            socket.on('connect', () => {
                 console.log(`[协议管理器] 成功连接到服务器 ${host}:${port}`);
+                opened = true;
                 this.isConnected = true;
                 
                 // 立即发送注册消息
                 this.sendRegistration()
                     .then(() => {
                         console.log('[协议管理器] 注册消息已发送');
-                        this.emit('connected');
+                        if (!reconnecting) {
+                            this.emit('connected');
+                        }
                         resolve(true);
                     })
                     .catch(reject);
             });
 
             // 数据接收事件
-            this.socket.on('data', (data: string | Buffer) => {
+            socket.on('data', (data: string | Buffer) => {
                 this.handleIncomingData(data);
             });
 
             // 连接关闭事件
-            this.socket.on('close', () => {
+            socket.on('close', () => {
+                // 主动断开时 disconnect() 已置空 socket，不触发重连
+                const unexpected = this.socket === socket;
+                if (unexpected) {
+                    this.socket = null;
+                    this.isConnected = false;
+                }
+                if (reconnecting && !opened) {
+                    return;
+                }
                 console.log('[协议管理器] 连接已关闭');
-                this.isConnected = false;
+                // 先进入重连状态再通知断开，监听者可据此保留对局状态
+                if (unexpected && opened && this.reconnectOptions) {
+                    this.scheduleReconnect();
+                }
                 this.emit('disconnected');
             });
 
             // 错误事件
-            this.socket.on('error', (error: Error) => {
-                console.error('[协议管理器] 连接错误:', error);
+            socket.on('error', (error: Error) => {
                 this.isConnected = false;
-                this.emit('error', error);
+                // 只有重连中尚未连上的失败由重连流程处理，连上之后的错误与普通连接一样上报
+                if (reconnecting && !opened) {
+                    console.warn(`[协议管理器] 重连失败: ${error.message}`);
+                } else {
+                    console.error('[协议管理器] 连接错误:', error);
+                    this.emit('error', error);
+                }
                 reject(error);
             });
 
             // 开始连接
-            this.socket.connect(port, host);
+            socket.connect(port, host);
         });
     }
 
+    /**
+     * 安排下一次重连，超过最大次数后放弃
+     */
+    private scheduleReconnect(): void {
+        const options = this.reconnectOptions;
+        if (!options || this.reconnectTimer) {
+            return;
+        }
+        if (this.reconnectAttempt >= options.maxAttempts) {
+            console.error(`[协议管理器] 重连${this.reconnectAttempt}次均失败，放弃重连`);
+            const attempts = this.reconnectAttempt;
+            this.reconnectAttempt = 0;
+            this.emit('reconnectFailed', attempts);
+            return;
+        }
+
+        const attempt = ++this.reconnectAttempt;
+        const delayMs = this.getReconnectDelay(attempt);
+        console.log(`[协议管理器] ${delayMs}ms后第${attempt}次重连 ${this.host}:${this.port}`);
+        this.emit('reconnecting', { attempt, delayMs });
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            this.openSocket(true)
+                .then(() => {
+                    console.log(`[协议管理器] 第${attempt}次重连成功，已重新注册玩家 ${this.playerId}`);
+                    this.reconnectAttempt = 0;
+                    this.emit('reconnected', { attempt, delayMs });
+                })
+                .catch(() => this.scheduleReconnect());
+        }, delayMs);
+    }
+
+    /**
+     * 取消尚未开始的重连
+     */
+    private cancelReconnect(): void {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        this.reconnectAttempt = 0;
+    }
+
     /**
      * 处理接收到的数据，解决粘包和分包问题
      * @param data 接收到的数据
@@ -239,15 +376,32 @@ class ProtocolManager extends EventEmitter {
             const messageBuffer = this.buffer.slice(5, totalLength);
             const messageStr = messageBuffer.toString('utf8');
 
+            let raw: unknown;
             try {
-                const message: ProtocolMessage = JSON.parse(messageStr);
-                this.handleMessage(message).catch(error => {
-                    console.error('[协议管理器] 处理消息时发生错误:', error);
-                });
+                raw = JSON.parse(messageStr);
             } catch (error) {
                 console.error('[协议管理器] JSON解析错误:', error, messageStr);
             }
 
+            if (raw !== undefined) {
+                try {
+                    const message = MessageValidator.validateServerMessage(raw);
+                    this.handleMessage(message).catch(error => {
+                        console.error('[协议管理器] 处理消息时发生错误:', error);
+                    });
+                } catch (error) {
+                    // 在 socket 的 data 回调里抛出会打断连接，校验之外的错误也只记录并上报
+                    if (error instanceof ProtocolValidationError) {
+                        // 格式错误的消息不进入后续流程，交给监听者决定如何处理
+                        console.error(`[协议管理器] ${error.message}`);
+                        this.emit('protocolError', error);
+                    } else {
+                        console.error('[协议管理器] 校验消息时发生错误:', error);
+                        this.emit('error', error instanceof Error ? error : new Error(String(error)));
+                    }
+                }
+            }
+
             // 从缓冲区移除已处理的消息
             this.buffer = this.buffer.slice(totalLength);
         }
@@ -261,7 +415,7 @@ class ProtocolManager extends EventEmitter {
         switch (message.msg_name) {
             case 'start':
                 // 触发gameStart事件
-                this.emit('gameStart', message.msg_data as GameStartData);
+                this.emit('gameStart', message.msg_data);
                 
                 // 自动发送ready消息
                 try {
@@ -273,10 +427,10 @@ class ProtocolManager extends EventEmitter {
                 }
                 break;
             case 'inquire':
-                this.emit('inquire', message.msg_data as GameState);
+                this.emit('inquire', message.msg_data);
                 break;
             case 'over':
-                this.emit('gameOver', message.msg_data as GameResult);
+                this.emit('gameOver', message.msg_data);
                 break;
             default:
                 console.warn(`[协议管理器] 未知消息类型: ${message.msg_name}`);
@@ -289,17 +443,17 @@ class ProtocolManager extends EventEmitter {
      * @param messageName 消息名称
      * @returns 发送是否成功
      */
-    async sendMessage(messageData: any, messageName: string): Promise<boolean> {
+    async sendMessage<N extends ClientMessage['msg_name']>(messageData: MessageData<N>, messageName: N): Promise<boolean> {
         if (!this.socket || !this.isConnected) {
             console.error('[协议管理器] 未连接到服务器，无法发送消息');
             return false;
         }
 
         try {
-            const message: ProtocolMessage = {
+            const message = {
                 msg_name: messageName,
                 msg_data: messageData
-            };
+            } as ClientMessage;
 
             const messageStr = JSON.stringify(message);
             const messageBuffer = Buffer.from(messageStr, 'utf8');
@@ -330,7 +484,7 @@ class ProtocolManager extends EventEmitter {
      * @returns 发送是否成功
      */
     async sendRegistration(): Promise<boolean> {
-        const registrationData: RegistrationData = {
+        const registrationData: RegistrationMessageData = {
             playerId: this.playerId!,
             playerName: this.playerName,
             version: this.version
@@ -345,7 +499,7 @@ class ProtocolManager extends EventEmitter {
      */
     async sendReady(): Promise<boolean> {
         const readyData = {
-            playerId: this.playerId,
+            playerId: this.playerId!,
             status: 'ready'
         };
 
@@ -358,8 +512,8 @@ class ProtocolManager extends EventEmitter {
      * @param actions 行动列表
      * @returns 发送是否成功
      */
-    async sendAction(round: number, actions: GameAction[]): Promise<boolean> {
-        const actionData: ActionData = {
+    async sendAction(round: number, actions: ActionCommand[]): Promise<boolean> {
+        const actionData: ActionMessageData = {
             round: round,
             actions: actions,
             playerId: this.playerId!
@@ -372,11 +526,14 @@ class ProtocolManager extends EventEmitter {
      * 断开连接
      */
     disconnect(): void {
+        this.cancelReconnect();
         if (this.socket) {
             console.log('[协议管理器] 主动断开连接');
-            this.socket.destroy();
+            // 先置空再销毁，close事件据此判断为主动断开
+            const socket = this.socket;
             this.socket = null;
             this.isConnected = false;
+            socket.destroy();
         }
     }
 
@@ -388,6 +545,17 @@ class ProtocolManager extends EventEmitter {
         return this.isConnected && this.socket !== null;
     }
 
+    /**
+     * 获取套接字状态，未连接时为 null
+     * @returns 套接字的readyState和是否已销毁
+     */
+    getSocketStatus(): { readyState: string; destroyed: boolean } | null {
+        return this.socket ? {
+            readyState: this.socket.readyState,
+            destroyed: this.socket.destroyed
+        } : null;
+    }
+
     /**
      * 获取当前玩家ID
      * @returns 玩家ID
@@ -0,0 +1,199 @@
+/**
+ * 对局录像记录器
+ * 以 JSONL 格式逐行记录一局比赛，便于对比不同版本机器人的行为：
+ * - start：开局消息原始数据
+ * - round：每回合收到的 inquire 原始数据、发送的行动、团队黑板当时的策略和耗时
+ * - rejected：发送前被合法性校验丢弃的行动及原因
+ * - over：结束消息原始数据
+ */
+
+import { appendFileSync, mkdirSync, readFileSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * 开局记录
+ */
+export interface ReplayStartRecord {
+    type: 'start';
+    playerId: number;
+    playerName: string;
+    timestamp: string;
+    data: any;                    // start 消息的 msg_data
+}
+
+/**
+ * 回合记录
+ */
+export interface ReplayRoundRecord {
+    type: 'round';
+    round: number;
+    inquire: any;                 // inquire 消息的 msg_data
+    actions: any[] | null;        // 本回合发送的行动，未发送时为 null
+    strategy: string | null;      // TeamBlackboard.getCurrentStrategy()
+    strategyData: any;            // TeamBlackboard.getCurrentStrategyData()
+    timing: {
+        receivedAt: string;       // 收到 inquire 的时间
+        sentAt: string | null;    // 发送 action 的时间
+        decisionMs: number | null; // 从收到询问到发送行动的耗时
+    };
+}
+
+/**
+ * 被丢弃的行动记录，紧跟在所属回合的记录之后
+ */
+export interface ReplayRejectedRecord {
+    type: 'rejected';
+    round: number;
+    rejected: Array<{ action: any; reason: string }>;
+}
+
+/**
+ * 结束记录
+ */
+export interface ReplayOverRecord {
+    type: 'over';
+    timestamp: string;
+    data: any;                    // over 消息的 msg_data
+}
+
+export type ReplayRecord = ReplayStartRecord | ReplayRoundRecord | ReplayRejectedRecord | ReplayOverRecord;
+
+/**
+ * 录像记录器
+ * 每条记录写入后立即落盘，进程异常退出时已记录的回合不会丢失
+ */
+class ReplayRecorder {
+    private readonly filePath: string;
+    private pending: { round: number; inquire: any; receivedAt: number } | null = null;
+
+    /**
+     * @param {string} filePath - 录像文件路径（.jsonl），目录不存在时自动创建
+     */
+    constructor(filePath: string) {
+        this.filePath = filePath;
+        mkdirSync(dirname(filePath), { recursive: true });
+    }
+
+    /**
+     * 读取录像文件，跳过空行
+     * @param {string} filePath - 录像文件路径
+     * @returns {ReplayRecord[]} 按写入顺序排列的记录
+     */
+    static load(filePath: string): ReplayRecord[] {
+        const records: ReplayRecord[] = [];
+        readFileSync(filePath, 'utf8').split('\n').forEach((line, index) => {
+            if (line.trim().length === 0) {
+                return;
+            }
+            try {
+                records.push(JSON.parse(line));
+            } catch (error) {
+                throw new Error(`录像文件第${index + 1}行格式错误: ${(error as Error).message}`);
+            }
+        });
+        return records;
+    }
+
+    /**
+     * 录像文件路径
+     */
+    getFilePath(): string {
+        return this.filePath;
+    }
+
+    /**
+     * 记录开局消息
+     */
+    recordStart(playerId: number, playerName: string, startData: any) {
+        this.write({
+            type: 'start',
+            playerId,
+            playerName,
+            timestamp: new Date().toISOString(),
+            data: startData
+        });
+    }
+
+    /**
+     * 收到询问消息，等待本回合的行动后一起写入
+     * 上一回合没有发送行动时，先以空行动写入
+     */
+    recordInquire(round: number, inquireData: any) {
+        this.flush();
+        this.pending = { round, inquire: structuredClone(inquireData), receivedAt: Date.now() };
+    }
+
+    /**
+     * 记录本回合发送的行动并写入回合记录
+     * @param {number} round - 行动所属回合
+     * @param {Array} actions - 发送的行动指令
+     * @param {string|null} strategy - 当前团队策略
+     * @param {any} strategyData - 当前策略数据
+     */
+    recordActions(round: number, actions: any[], strategy: string | null = null, strategyData: any = null) {
+        if (!this.pending || this.pending.round !== round) {
+            return;
+        }
+        this.flush(actions, strategy, strategyData);
+    }
+
+    /**
+     * 记录本回合发送前被丢弃的行动，没有被丢弃的行动时不写入
+     * @param {number} round - 行动所属回合
+     * @param {Array} rejected - 被丢弃的行动及原因
+     */
+    recordRejected(round: number, rejected: Array<{ action: any; reason: string }>) {
+        if (rejected.length === 0) {
+            return;
+        }
+        this.write({ type: 'rejected', round, rejected });
+    }
+
+    /**
+     * 记录结束消息
+     */
+    recordOver(overData: any) {
+        this.flush();
+        this.write({
+            type: 'over',
+            timestamp: new Date().toISOString(),
+            data: overData
+        });
+    }
+
+    /**
+     * 写入尚未落盘的回合
+     */
+    private flush(actions: any[] | null = null, strategy: string | null = null, strategyData: any = null) {
+        if (!this.pending) {
+            return;
+        }
+        const { round, inquire, receivedAt } = this.pending;
+        const sentAt = actions ? Date.now() : null;
+        this.pending = null;
+
+        this.write({
+            type: 'round',
+            round,
+            inquire,
+            actions,
+            strategy,
+            strategyData,
+            timing: {
+                receivedAt: new Date(receivedAt).toISOString(),
+                sentAt: sentAt === null ? null : new Date(sentAt).toISOString(),
+                decisionMs: sentAt === null ? null : sentAt - receivedAt
+            }
+        });
+    }
+
+    private write(record: ReplayRecord) {
+        try {
+            appendFileSync(this.filePath, JSON.stringify(record) + '\n', 'utf8');
+        } catch (error) {
+            console.error('[录像] 写入失败:', error);
+        }
+    }
+}
+
+export default ReplayRecorder;
@@ -449,8 +449,17 @@ export interface GameConfig {
     aiDifficulty?: 'easy' | 'normal' | 'hard' | 'expert';
     
     // 连接配置
-    autoReconnect?: boolean;
+    autoReconnect?: boolean;   // 断线后按指数退避重连并重新注册
     logLevel?: 'debug' | 'info' | 'warn' | 'error';
+
+    // 对局录像（JSONL），为空时不记录
+    replayFile?: string;
+
+    // 团队行为树：default 为手写行为树，mcts 为蒙特卡洛树搜索规划武将行动
+    teamTree?: 'default' | 'mcts';
+
+    // 每回合决策预算（毫秒），超出或出错时发送兜底行动
+    turnBudgetMs?: number;
     
     // 游戏规则配置（可选）
     maxRounds?: number;
@@ -0,0 +1,69 @@
+/**
+ * 行动指令队列与冲突处理测试
+ */
+import ActionBuilder from '../src/network/ActionBuilder';
+import ActionQueue from '../src/network/ActionQueue';
+
+describe('ActionQueue.drain', () => {
+  let queue: ActionQueue;
+
+  beforeEach(() => {
+    queue = new ActionQueue();
+  });
+
+  test('SK 优先于 AD/SG，SP 优先于 MOVE', () => {
+    queue.add(ActionBuilder.buildAttackAction(40, { x: 5, y: 5 }));
+    queue.add({ roleId: 40, action: 'SK', skillId: 4001, position: { x: 5, y: 5 } });
+    queue.add(ActionBuilder.buildSiegeAction(40, { x: 6, y: 6 }));
+    queue.add(ActionBuilder.buildMoveAction(43, { x: 1, y: 1 }));
+    queue.add(ActionBuilder.buildTeleportAction(43, { x: 8, y: 8 }));
+
+    expect(queue.drain()).toEqual([
+      { roleId: 40, action: 'SK', skillId: 4001, position: { x: 5, y: 5 } },
+      { roleId: 43, action: 'SP', position: { x: 8, y: 8 } }
+    ]);
+    expect(queue.size).toBe(0);
+  });
+
+  test('AD 与 SG 互斥，保留先加入的一条', () => {
+    queue.add(ActionBuilder.buildSiegeAction(46, { x: 6, y: 6 }));
+    queue.add(ActionBuilder.buildAttackAction(46, { x: 5, y: 5 }));
+    queue.add(ActionBuilder.buildAttackAction(43, { x: 5, y: 5 }));
+
+    expect(queue.drain()).toEqual([
+      { roleId: 46, action: 'SG', position: { x: 6, y: 6 } },
+      { roleId: 43, action: 'AD', position: { x: 5, y: 5 } }
+    ]);
+  });
+
+  test('同一英雄的同类指令和重复的全局指令只保留第一条，并给出原因', () => {
+    const { actions, discarded } = ActionBuilder.resolveConflicts([
+      { roleId: 40, action: 'MOVE', position: { x: 1, y: 1 } },
+      { roleId: 40, action: 'MOVE', position: { x: 2, y: 2 } },
+      { action: 'MAKE', details: [{ roleId: 40, solders: [7] }] },
+      { action: 'MAKE', details: [{ roleId: 43, solders: [8] }] },
+      { action: 'BUFF', buffType: 1003 },
+      { action: 'BUFF', buffType: 1002 },
+      { action: 'AC' },
+      { action: 'AC' }
+    ]);
+
+    expect(actions.map(a => a.action)).toEqual(['MOVE', 'MAKE', 'BUFF', 'AC']);
+    expect(actions[0].position).toEqual({ x: 1, y: 1 });
+    expect(discarded.map(d => d.reason)).toEqual([
+      '英雄40已有MOVE指令',
+      '每回合只能发送一条MAKE',
+      '每回合只能发送一条BUFF',
+      '每回合只能发送一条AC'
+    ]);
+  });
+
+  test('不同机器人的队列互不影响', () => {
+    const other = new ActionQueue();
+    queue.add(ActionBuilder.buildOccupyAction());
+    other.add(ActionBuilder.buildMoveAction(41, { x: 2, y: 2 }));
+
+    expect(queue.drain()).toEqual([{ action: 'AC' }]);
+    expect(other.peek()).toEqual([{ roleId: 41, action: 'MOVE', position: { x: 2, y: 2 } }]);
+  });
+});
@@ -3,6 +3,8 @@ import { TeamBlackboard } from '../src/core/TeamBlackboard';
 import { StrategyType } from '../src/core/StrategyAnalysis';
 import { GlobalGoalType } from '../src/core/types';
 import { State } from 'mistreevous';
+import MessageParser from '../src/network/MessageParser';
+import LocalGameServer from '../src/network/LocalGameServer';
 
 /**
  * AnalyzeAndSetStrategy 动作测试
@@ -15,6 +17,8 @@ import { State } from 'mistreevous';
  */
 
 describe('AnalyzeAndSetStrategy', () => {
+  const mapInfo = MessageParser.parseStartMessage({ map: LocalGameServer.createDefaultMap(), players: [] }).map;
+
   let mockBlackboard: TeamBlackboard;
   let mockAgent: any;
   let mockContext: any;
@@ -22,6 +26,7 @@ describe('AnalyzeAndSetStrategy', () => {
   beforeEach(() => {
     // 创建模拟的TeamBlackboard
     mockBlackboard = new TeamBlackboard(500);
+    mockBlackboard.registerMap(mapInfo);
     
     // 设置测试用的游戏状态数据
     const testGameState = {
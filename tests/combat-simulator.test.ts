@@ -0,0 +1,86 @@
+/**
+ * 前向战斗模拟器测试
+ */
+import { CombatSimulator } from '../src/core/CombatSimulator';
+import type { GameSnapshot } from '../src/core/CombatSimulator';
+import { GameEngine } from '../src/core/GameEngine';
+import type { ActionCommand } from '../src/models/actionMsg';
+import type { InquireMessageData } from '../src/models/inquireMsg';
+import MessageParser from '../src/network/MessageParser';
+import LocalGameServer from '../src/network/LocalGameServer';
+
+const RED = 1111;
+const BLUE = 2222;
+const mapData = LocalGameServer.createDefaultMap();
+
+function role(state: InquireMessageData, playerId: number, roleId: number) {
+  return state.players.find(p => p.playerId === playerId)!.roles.find(r => r.roleId === roleId)!;
+}
+
+/**
+ * 红方吕布与蓝方英雄41相距2格，英雄41带一名盾兵和一名弓兵
+ */
+function createSnapshot(adjust?: (state: InquireMessageData) => void): GameSnapshot {
+  const map = LocalGameServer.createDefaultMap();
+  const state = new GameEngine(map, [{ playerId: RED, camp: 0 }, { playerId: BLUE, camp: 1 }]).getState();
+  role(state, RED, 40).position = { x: 40, y: 30 };
+  const target = role(state, BLUE, 41);
+  target.position = { x: 42, y: 30 };
+  target.solderProps = [
+    { roleId: 7, attack: 25, heroId: 41, life: 240 },
+    { roleId: 8, attack: 15, heroId: 41, life: 100 }
+  ];
+  adjust?.(state);
+  return MessageParser.parseInquireMessage(state) as GameSnapshot;
+}
+
+const attack: ActionCommand = { roleId: 40, action: 'AD', position: { x: 42, y: 30 } };
+
+describe('CombatSimulator', () => {
+  test('快照还原为 inquire 数据时士兵和状态恢复为原始格式', () => {
+    const raw = CombatSimulator.toInquireData(createSnapshot());
+    const target = role(raw, BLUE, 41);
+
+    expect(target.solderProps).toEqual([
+      { roleId: 7, attack: 25, heroId: 41, life: 240 },
+      { roleId: 8, attack: 15, heroId: 41, life: 100 }
+    ]);
+    expect(Object.values(target.statuses).every(v => typeof v === 'number')).toBe(true);
+  });
+
+  test('集火结算士兵损失、士气和回合推进，且不修改输入快照', () => {
+    const snapshot = createSnapshot();
+    const before = JSON.stringify(snapshot);
+
+    const result = CombatSimulator.simulate(snapshot, { [RED]: [attack], [BLUE]: [] }, mapData);
+
+    expect(result.state.round).toBe(snapshot.round + 1);
+    expect(result.outcomes[BLUE].soldierLifeLost).toBe(100);
+    expect(result.outcomes[BLUE].lifeLost).toBe(0);
+    expect(result.outcomes[RED].soldierLifeLost).toBe(0);
+    expect(result.outcomes[RED].moraleDelta).toBeGreaterThan(0);
+    expect(result.finished).toBe(false);
+    expect(JSON.stringify(snapshot)).toBe(before);
+  });
+
+  test('英雄阵亡计入 heroesKilled', () => {
+    const snapshot = createSnapshot(state => {
+      const target = role(state, BLUE, 41);
+      target.solderProps = [];
+      target.life = 50;
+    });
+
+    const result = CombatSimulator.simulate(snapshot, new Map([[RED, [attack]]]), mapData);
+
+    expect(result.outcomes[BLUE].heroesKilled).toEqual([41]);
+    expect(result.outcomes[BLUE].lifeLost).toBe(50);
+  });
+
+  test('rank 把造成伤害的候选行动排在前面', () => {
+    const idle: ActionCommand[] = [];
+    const ranked = CombatSimulator.rank(createSnapshot(), RED, [idle, [attack]], mapData);
+
+    expect(ranked[0].actions).toEqual([attack]);
+    expect(ranked[0].score).toBeGreaterThan(ranked[1].score);
+  });
+});
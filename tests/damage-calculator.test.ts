@@ -0,0 +1,110 @@
+/**
+ * 伤害计算器测试
+ * 验证攻击力加成、减伤叠加以及盾兵 → 弓兵 → 英雄的承伤顺序
+ */
+import { DamageCalculator, CombatUnit } from '../src/core/DamageCalculator';
+import { HeroStatus } from '../src/models/inquireMsg';
+
+function archerOf(heroId: number, life = 240) {
+  return { roleId: 7, attack: 25, heroId, life };
+}
+
+function shieldOf(heroId: number, life = 400) {
+  return { roleId: 8, attack: 15, heroId, life };
+}
+
+function createUnit(overrides: Partial<CombatUnit> = {}): CombatUnit {
+  return {
+    roleId: 40,
+    attack: 100,
+    life: 1500,
+    formationType: 0,
+    solderProps: [],
+    ...overrides
+  };
+}
+
+describe('DamageCalculator 攻击力', () => {
+  test('攻击力为英雄武力加士兵攻击力', () => {
+    const unit = createUnit({ solderProps: [archerOf(40), shieldOf(40)] });
+    expect(DamageCalculator.calculateAttackPower(unit)).toBe(140);
+  });
+
+  test('鹤翼阵按人数加成，酒狂额外加成30%', () => {
+    const unit = createUnit({ formationType: 1, solderProps: [archerOf(40), archerOf(40)] });
+    // 150 × (1 + 10%)
+    expect(DamageCalculator.calculateAttackPower(unit)).toBe(165);
+    // 150 × (1 + 10% + 30%)
+    const { attack } = DamageCalculator.buffModifiers([1004]);
+    expect(DamageCalculator.calculateAttackPower(unit, attack)).toBe(210);
+  });
+
+  test('技能只计英雄武力并乘以倍率', () => {
+    const unit = createUnit({ solderProps: [archerOf(40)] });
+    expect(DamageCalculator.calculateAttackPower(unit, { multiplier: 2, heroOnly: true })).toBe(200);
+  });
+
+  test('虚弱状态无法造成伤害', () => {
+    const unit = createUnit({ statuses: { [HeroStatus.WEAKNESS]: 2 } });
+    expect(DamageCalculator.calculateAttackPower(unit)).toBe(0);
+  });
+});
+
+describe('DamageCalculator 承伤', () => {
+  test('按盾兵 → 弓兵 → 英雄顺序承伤，并统计士气', () => {
+    const defender = createUnit({
+      roleId: 41,
+      solderProps: [archerOf(41), shieldOf(41), archerOf(41, 100)]
+    });
+    const result = DamageCalculator.applyDamage(defender, 800);
+
+    expect(result.losses.map(l => [l.unitType, l.soldierIndex, l.damage, l.killed])).toEqual([
+      ['shield', 1, 400, true],
+      ['archer', 0, 240, true],
+      ['archer', 2, 100, true],
+      ['hero', -1, 60, false]
+    ]);
+    expect(result.soldiersKilled).toBe(3);
+    expect(result.heroKilled).toBe(false);
+    expect(result.remainingLife).toBe(1440);
+    expect(result.remainingSoldiers).toEqual([]);
+    expect(result.moraleGained).toBe(30);
+    // 输入不被修改
+    expect(defender.solderProps[1].life).toBe(400);
+  });
+
+  test('直接对武将的伤害跳过小兵', () => {
+    const defender = createUnit({ life: 100, solderProps: [shieldOf(40)] });
+    const result = DamageCalculator.applyDamage(defender, 150, { directToHero: true });
+
+    expect(result.remainingSoldiers).toHaveLength(1);
+    expect(result.heroKilled).toBe(true);
+    expect(result.remainingLife).toBe(0);
+    expect(result.moraleGained).toBe(80);
+  });
+
+  test('八卦阵、青龙护体与技能护盾叠加减伤', () => {
+    const defender = createUnit({
+      formationType: 2,
+      skills: [{
+        skillId: 4301, cd: 50, cdRemainRound: 10, damage: 0,
+        damageReduceRatio: 0.5, damageAddByAttackRatio: 0, roleId: 43
+      }]
+    });
+    const { defense } = DamageCalculator.buffModifiers([1003]);
+
+    // 10% + 20% + 50% = 80%
+    expect(DamageCalculator.calculateReduceRatio(defender, defense)).toBeCloseTo(0.8);
+    expect(DamageCalculator.applyDamage(defender, 1000, defense).totalDamage).toBe(200);
+  });
+
+  test('resolve 组合攻防计算', () => {
+    const attacker = createUnit({ solderProps: [archerOf(40)] });
+    const defender = createUnit({ roleId: 44, solderProps: [shieldOf(44)] });
+    const result = DamageCalculator.resolve(attacker, defender);
+
+    expect(result.rawDamage).toBe(125);
+    expect(result.remainingSoldiers).toEqual([shieldOf(44, 275)]);
+    expect(result.remainingLife).toBe(1500);
+  });
+});
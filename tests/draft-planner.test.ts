@@ -0,0 +1,99 @@
+/**
+ * 选将规划测试
+ */
+import { DraftPlanner, DEFAULT_LINEUP } from '../src/core/DraftPlanner';
+import { GameEngine } from '../src/core/GameEngine';
+import { createTeamContext } from '../src/core/index';
+import { ExecutePickGenerals } from '../src/actions/GameStateActions';
+import { ShouldRepickGenerals } from '../src/conditions/ShouldRepickGenerals';
+import LocalGameServer from '../src/network/LocalGameServer';
+import MessageParser from '../src/network/MessageParser';
+import { State } from 'mistreevous';
+
+const PLAYER_ID = 1111;
+const players = [{ playerId: PLAYER_ID, camp: 0 }, { playerId: 2222, camp: 1 }];
+
+/**
+ * 我方 [赵云, 孙权, 诸葛亮] 对敌方 [吕布, 刘备, 诸葛亮]，孙权阵亡且复活剩余1回合
+ */
+function reviveWindowEngine(): GameEngine {
+  const map = LocalGameServer.createDefaultMap();
+  const state = new GameEngine(map, players, [[41, 45, 46], [40, 43, 46]]).getState();
+  state.round = 120;
+  const sunquan = state.players[0].roles.find(r => r.roleId === 45)!;
+  sunquan.life = 0;
+  sunquan.reviveRound = 1;
+  sunquan.solderProps = [];
+  return GameEngine.fromState(map, players, state);
+}
+
+describe('DraftPlanner', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('27种阵容各含猛将、统帅、谋士一名', () => {
+    const lineups = DraftPlanner.lineups();
+
+    expect(lineups).toHaveLength(27);
+    expect(new Set(lineups.map(l => l.join(','))).size).toBe(27);
+    expect(lineups.every(l => l.map(id => DraftPlanner.slotOf(id)).join() === '0,1,2')).toBe(true);
+  });
+
+  test('谋士克制猛将', () => {
+    expect(DraftPlanner.matchup(48, 40)).toBeGreaterThan(0);
+    expect(DraftPlanner.matchup(40, 48)).toBeLessThan(0);
+    expect(DraftPlanner.matchup(46, 42)).toBe(-DraftPlanner.matchup(42, 46));
+  });
+
+  test('敌方阵容未知时沿用默认阵容，已知时选择得分最高的阵容', () => {
+    expect(DraftPlanner.planPick()).toEqual(DEFAULT_LINEUP);
+
+    const enemy = [40, 43, 46];
+    const pick = DraftPlanner.planPick(enemy);
+    const best = Math.max(...DraftPlanner.lineups().map(l => DraftPlanner.scoreLineup(l, enemy)));
+    expect(DraftPlanner.scoreLineup(pick, enemy)).toBe(best);
+    expect(DraftPlanner.scoreLineup(pick, enemy)).toBeGreaterThan(DraftPlanner.scoreLineup(DEFAULT_LINEUP, enemy));
+  });
+
+  test('只在复活窗口换将，存活英雄保持不变', () => {
+    const roles = [
+      { roleId: 41, isAlive: true, reviveRound: 0 },
+      { roleId: 45, isAlive: false, reviveRound: 1 },
+      { roleId: 46, isAlive: true, reviveRound: 0 }
+    ];
+
+    expect(DraftPlanner.planRepick(roles, [40, 43, 46])).toEqual([41, 43, 46]);
+    expect(DraftPlanner.planRepick([roles[0], { ...roles[1], reviveRound: 3 }, roles[2]], [40, 43, 46])).toBeNull();
+    // 已是最优阵容时不换
+    expect(DraftPlanner.planRepick([roles[0], { ...roles[1], roleId: 43 }, roles[2]], [40, 43, 46])).toBeNull();
+  });
+
+  test('复活窗口发出的PICK被规则引擎接受，团队黑板换上新武将的代理', () => {
+    const engine = reviveWindowEngine();
+    const context = createTeamContext(PLAYER_ID, '0');
+    context.teamBlackboard.updateGameState(MessageParser.parseInquireMessage(engine.getState()), PLAYER_ID);
+    const { warrior, leader } = context.teamBlackboard;
+
+    expect(ShouldRepickGenerals(context)).toBe(true);
+    expect(ExecutePickGenerals(context)).toBe(State.SUCCEEDED);
+    const actions = context.actionQueue.drain();
+    expect(actions).toEqual([{ action: 'PICK', playerId: PLAYER_ID, roles: [41, 43, 46] }]);
+
+    const next = engine.step(new Map([[PLAYER_ID, actions]]));
+    expect(next.players[0].roles.map(r => r.roleId)).toEqual([41, 43, 46]);
+
+    context.teamBlackboard.updateGameState(MessageParser.parseInquireMessage(next), PLAYER_ID);
+    const team = context.teamBlackboard;
+    expect(team.support!.id).toBe(43);
+    expect(team.support!.hero.name).toBe('刘备');
+    expect(team.team.map(agent => agent.id)).toEqual([41, 43, 46]);
+    expect(team.warrior).toBe(warrior);
+    expect(team.leader).toBe(leader);
+    expect(ShouldRepickGenerals(context)).toBe(false);
+  });
+});
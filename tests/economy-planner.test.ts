@@ -0,0 +1,148 @@
+/**
+ * 经济规划测试
+ */
+import EconomyPlanner, { FLAG_RESERVE_ROUNDS } from '../src/core/EconomyPlanner';
+import type { EconomyInput } from '../src/core/EconomyPlanner';
+import { TeamBlackboard } from '../src/core/TeamBlackboard';
+import { GameEngine } from '../src/core/GameEngine';
+import LocalGameServer from '../src/network/LocalGameServer';
+import MessageParser from '../src/network/MessageParser';
+
+function input(overrides: Partial<EconomyInput> = {}): EconomyInput {
+  return {
+    round: 200,
+    supplies: 500,
+    morale: 0,
+    events: [],
+    heroCount: 3,
+    soldierCount: 10,
+    flagFrom: null,
+    missingSoldiers: 0,
+    ...overrides
+  };
+}
+
+describe('EconomyPlanner.forecast', () => {
+  test('收入超过1500上限的部分作废', () => {
+    const forecast = EconomyPlanner.forecast(input({
+      supplies: 1400,
+      events: [{ round: 200, amount: 400, source: 'city' }]
+    }));
+
+    expect(forecast[0]).toMatchObject({ round: 200, supplies: 1500, income: 100, wasted: 300 });
+    expect(forecast).toHaveLength(10);
+  });
+
+  test('守旗从 flagFrom 开始每回合扣维护费，粮草不够时记为未支付', () => {
+    const forecast = EconomyPlanner.forecast(input({ supplies: 40, flagFrom: 201, horizon: 4 }));
+
+    // 3名武将 × 2 + 10名士兵 × 1 = 16
+    expect(forecast.map(point => point.upkeep)).toEqual([0, 16, 16, 0]);
+    expect(forecast.map(point => point.supplies)).toEqual([40, 24, 8, 8]);
+    expect(forecast[3].upkeepMissed).toBe(true);
+  });
+
+  test('本回合支出在收入之前结算', () => {
+    const forecast = EconomyPlanner.forecast(input({
+      supplies: 100,
+      events: [{ round: 200, amount: 120, source: 'hero' }, { round: 200, amount: -100, source: 'form' }]
+    }), 60);
+
+    expect(forecast[0]).toMatchObject({ supplies: 120, spending: 160, income: 120 });
+  });
+});
+
+describe('EconomyPlanner.plan', () => {
+  test('不守旗时先补满士兵，余粮按士气分给变阵', () => {
+    const plan = EconomyPlanner.plan(input({ supplies: 300, morale: 100, missingSoldiers: 10 }));
+
+    expect(plan.budgets).toEqual({ flag: 0, production: 200, formation: 100 });
+    expect(plan.forecast[0].supplies).toBe(0);
+  });
+
+  test('守旗时预留维护费，新兵的维护费一并计入', () => {
+    const plan = EconomyPlanner.plan(input({ flagFrom: 200, missingSoldiers: 30 }));
+
+    // 3回合维护费 48；每名新兵 20 + 3，余下 452 够生产19名
+    expect(plan.flagUpkeep).toBe(16);
+    expect(plan.budgets.production).toBe(19 * 20);
+    expect(plan.budgets.flag).toBe(48 + 19 * FLAG_RESERVE_ROUNDS);
+    expect(plan.forecast.slice(0, FLAG_RESERVE_ROUNDS).every(point => !point.upkeepMissed)).toBe(true);
+  });
+
+  test('预留期内的预计收入抵扣守旗预留', () => {
+    const plan = EconomyPlanner.plan(input({
+      flagFrom: 200,
+      events: [{ round: 201, amount: 200, source: 'city' }]
+    }));
+
+    expect(plan.budgets.flag).toBe(16);
+  });
+
+  test('粮草不够守旗时不分配生产和变阵预算', () => {
+    const plan = EconomyPlanner.plan(input({ supplies: 40, morale: 100, flagFrom: 200, missingSoldiers: 5 }));
+
+    expect(plan.budgets).toEqual({ flag: 40, production: 0, formation: 0 });
+  });
+});
+
+describe('TeamBlackboard.getEconomyPlan', () => {
+  const players = [{ playerId: 1111, camp: 0 }, { playerId: 2222, camp: 1 }];
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function blackboard(): TeamBlackboard {
+    const state = new GameEngine(LocalGameServer.createDefaultMap(), players).getState();
+    const teamBlackboard = new TeamBlackboard();
+    teamBlackboard.updateGameState(MessageParser.parseInquireMessage(state), 1111);
+    return teamBlackboard;
+  }
+
+  test('开局据点未开放，初始粮草全部用于生产', () => {
+    const plan = blackboard().getEconomyPlan();
+
+    expect(plan.budgets).toEqual({ flag: 0, production: 100, formation: 0 });
+  });
+
+  test('城寨攻击目标按全队火力和距离估算攻陷回合', () => {
+    const teamBlackboard = blackboard();
+    const city = teamBlackboard.getCities().find(c => c.position?.x === 15 && c.position?.y === 12)!;
+    teamBlackboard.setCityTarget(city);
+
+    // 距离18需走15回合进入攻击距离，全队攻击210需5回合打掉1000城防
+    const forecast = EconomyPlanner.fromBlackboard(teamBlackboard, 30).forecast;
+    expect(forecast.find(point => point.income > 0)).toMatchObject({ round: 20, income: 100 });
+  });
+
+  test('据点在预测期内开放时，从开放回合起按全部存活英雄计算维护费', () => {
+    const teamBlackboard = new TeamBlackboard();
+    const state = MessageParser.parseInquireMessage(new GameEngine(LocalGameServer.createDefaultMap(), players).getState());
+    state.round = 95;
+    state.players.find(p => p.playerId === 1111)!.supplies = 1000;
+    const heroes = state.players.find(p => p.playerId === 1111)!.roles;
+    heroes.forEach(hero => { hero.totalSoldierCount = hero.commander; });
+    teamBlackboard.updateGameState(state, 1111);
+
+    expect(teamBlackboard.getFlagPlan()).toMatchObject({ mode: 'WAIT', holders: [] });
+    // 满兵不再生产，第100回合起每回合扣除3名武将和全部士兵的维护费
+    const upkeep = EconomyPlanner.flagUpkeep(3, heroes.reduce((sum, hero) => sum + hero.commander, 0));
+    const forecast = EconomyPlanner.fromBlackboard(teamBlackboard).forecast;
+    expect(forecast.filter(point => point.round < 100).every(point => point.upkeep === 0)).toBe(true);
+    expect(forecast.filter(point => point.round >= 100).map(point => point.upkeep)).toEqual(Array(5).fill(upkeep));
+  });
+
+  test('同一回合内复用规划，更新游戏状态后重建', () => {
+    const teamBlackboard = blackboard();
+    const plan = teamBlackboard.getEconomyPlan();
+
+    expect(teamBlackboard.getEconomyPlan()).toBe(plan);
+    teamBlackboard.updateGameState(teamBlackboard.getGameStateSnapshot()!, 1111);
+    expect(teamBlackboard.getEconomyPlan()).not.toBe(plan);
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * 据点争夺测试
+ */
+import FlagController from '../src/core/FlagController';
+import { TeamBlackboard } from '../src/core/TeamBlackboard';
+import { StrategyAnalysis, StrategyType } from '../src/core/StrategyAnalysis';
+import { GameEngine } from '../src/core/GameEngine';
+import LocalGameServer from '../src/network/LocalGameServer';
+import MessageParser from '../src/network/MessageParser';
+
+type GameStateData = ReturnType<typeof MessageParser.parseInquireMessage>;
+
+const players = [{ playerId: 1111, camp: 0 }, { playerId: 2222, camp: 1 }];
+const FLAG = { x: 40, y: 30 };
+
+/**
+ * 开局状态；setup 中按需改写回合、据点和英雄
+ */
+function gameState(setup: (state: GameStateData) => void = () => {}): GameStateData {
+  const state = MessageParser.parseInquireMessage(new GameEngine(LocalGameServer.createDefaultMap(), players).getState());
+  setup(state);
+  return state;
+}
+
+/**
+ * 据点在第100回合开放于 FLAG
+ */
+function openFlag(state: GameStateData): void {
+  state.round = 100;
+  state.stronghold!.position = { ...FLAG };
+  state.stronghold!.isAvailable = true;
+}
+
+function heroes(state: GameStateData, playerId: number) {
+  return state.players.find(p => p.playerId === playerId)!.roles;
+}
+
+function place(state: GameStateData, playerId: number, positions: Array<{ x: number; y: number }>, soldiers: number[] = []): void {
+  heroes(state, playerId).forEach((hero, i) => {
+    hero.position = positions[i];
+    hero.totalSoldierCount = soldiers[i] ?? 0;
+  });
+}
+
+describe('FlagController.plan', () => {
+  test('据点未开放时等待，记录开放回合', () => {
+    const plan = FlagController.plan(gameState(), 1111);
+
+    expect(plan).toMatchObject({ mode: 'WAIT', sendAC: false, holders: [] });
+    expect(plan.status.opensAt).toBe(100);
+  });
+
+  test('据点开放后全员前往争夺，预测获胜回合', () => {
+    const plan = FlagController.plan(gameState(state => {
+      openFlag(state);
+      place(state, 1111, [{ x: 38, y: 30 }, { x: 37, y: 30 }, { x: 36, y: 30 }]);
+    }), 1111);
+
+    expect(plan).toMatchObject({ mode: 'CONTEST', sendAC: false, holders: [40, 43, 46], affordable: true });
+    // 最近的英雄还要走1回合，之后连续占领60回合
+    expect(plan.status.arrivalRounds).toBe(1);
+    expect(plan.status.myVictoryRound).toBe(160);
+  });
+
+  test('占领后粮草不够全员驻守时，只留带兵最少的英雄', () => {
+    const plan = FlagController.plan(gameState(state => {
+      openFlag(state);
+      state.stronghold!.camp = 0;
+      state.stronghold!.occupiedRound = [20, 0];
+      place(state, 1111, [{ x: 40, y: 30 }, { x: 41, y: 30 }, { x: 39, y: 31 }], [30, 10, 20]);
+    }), 1111);
+
+    // 全员 3×2 + 60 = 66，3回合198 > 100；只留43：2 + 10 = 12
+    expect(plan).toMatchObject({ mode: 'HOLD', sendAC: true, holders: [43], upkeep: 12, affordable: true });
+    expect(plan.status).toMatchObject({ holder: 'OURS', myRounds: 20, myOnFlag: 3, myVictoryRound: 139 });
+  });
+
+  test('存活英雄压不过据点附近的敌方时放弃据点', () => {
+    const plan = FlagController.plan(gameState(state => {
+      openFlag(state);
+      place(state, 1111, [{ x: 30, y: 30 }, { x: 30, y: 31 }, { x: 30, y: 32 }]);
+      place(state, 2222, [{ x: 40, y: 30 }, { x: 42, y: 30 }, { x: 43, y: 32 }]);
+    }), 1111);
+
+    expect(plan.status.heroesNeeded).toBe(4);
+    expect(plan).toMatchObject({ mode: 'CONCEDE', sendAC: false, holders: [] });
+  });
+
+  test('粮草付不起维护费时仍按争夺计划攒粮', () => {
+    const plan = FlagController.plan(gameState(state => {
+      openFlag(state);
+      state.players.find(p => p.playerId === 1111)!.supplies = 10;
+      place(state, 1111, [{ x: 38, y: 30 }, { x: 37, y: 30 }, { x: 36, y: 30 }], [5, 5, 5]);
+    }), 1111);
+
+    expect(plan).toMatchObject({ mode: 'CONTEST', affordable: false, raceAlarm: false, holders: [40, 43, 46] });
+    expect(plan.reason).toContain('先攒粮');
+  });
+
+  test('敌方即将获胜时拉响警报', () => {
+    const plan = FlagController.plan(gameState(state => {
+      openFlag(state);
+      state.stronghold!.camp = 1;
+      state.stronghold!.occupiedRound = [0, 55];
+      state.players.find(p => p.playerId === 1111)!.supplies = 0;
+      place(state, 1111, [{ x: 30, y: 30 }, { x: 30, y: 31 }, { x: 30, y: 32 }]);
+      place(state, 2222, [{ x: 40, y: 30 }, { x: 60, y: 30 }, { x: 60, y: 31 }]);
+    }), 1111);
+
+    expect(plan.status).toMatchObject({ holder: 'ENEMY', enemyRounds: 55, enemyVictoryRound: 104 });
+    expect(plan).toMatchObject({ mode: 'CONTEST', raceAlarm: true, affordable: false });
+    expect(plan.reason).toContain('第104回合获胜');
+  });
+
+  test('据点内人数相等时不发送AC', () => {
+    const plan = FlagController.plan(gameState(state => {
+      openFlag(state);
+      place(state, 1111, [{ x: 40, y: 30 }, { x: 30, y: 31 }, { x: 30, y: 32 }]);
+      place(state, 2222, [{ x: 41, y: 31 }, { x: 60, y: 30 }, { x: 60, y: 31 }]);
+    }), 1111);
+
+    expect(plan.status).toMatchObject({ myOnFlag: 1, enemyOnFlag: 1 });
+    expect(plan.sendAC).toBe(false);
+  });
+});
+
+describe('残局', () => {
+  /**
+   * 第 round 回合，双方占领回合为 occupied；我方在据点外，敌方三名英雄守在据点附近
+   */
+  function endgameState(round: number, occupied: [number, number], supplies: number = 100): GameStateData {
+    return gameState(state => {
+      openFlag(state);
+      state.round = round;
+      state.stronghold!.occupiedRound = occupied;
+      state.players.find(p => p.playerId === 1111)!.supplies = supplies;
+      place(state, 1111, [{ x: 30, y: 30 }, { x: 30, y: 31 }, { x: 30, y: 32 }], [20, 20, 20]);
+      place(state, 2222, [{ x: 40, y: 30 }, { x: 42, y: 30 }, { x: 43, y: 32 }]);
+    });
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('还有一方能凑满60回合时不进入残局', () => {
+    expect(FlagController.plan(endgameState(900, [20, 10]), 1111).endgame).toBeNull();
+  });
+
+  test('落后时不计粮草和人数全力争夺', () => {
+    const plan = FlagController.plan(endgameState(970, [10, 20], 0), 1111);
+
+    expect(plan.status.roundsLeft).toBe(31);
+    expect(plan).toMatchObject({ endgame: 'ALL_IN', mode: 'CONTEST', holders: [40, 43, 46], affordable: false });
+    expect(plan.reason).toContain('仍可反超');
+  });
+
+  test('领先时全员驻守，剩余回合不够反超时领先已锁定', () => {
+    const plan = FlagController.plan(endgameState(990, [30, 10]), 1111);
+
+    expect(plan).toMatchObject({ endgame: 'DEFEND', mode: 'CONTEST', holders: [40, 43, 46] });
+    expect(plan.reason).toContain('已无法被反超');
+  });
+
+  test('全局策略固定为占领龙旗，策略历史记录残局模式', () => {
+    const teamBlackboard = new TeamBlackboard();
+    teamBlackboard.registerMap(MessageParser.parseStartMessage({ map: LocalGameServer.createDefaultMap(), players: [] }).map);
+    teamBlackboard.updateGameState(endgameState(900, [20, 10]), 1111);
+    teamBlackboard.setGlobalStrategy(StrategyType.ATTACK_CITY, {}, 60, 85, '攻击城寨');
+
+    teamBlackboard.updateGameState(endgameState(970, [10, 20], 0), 1111);
+    const decision = new StrategyAnalysis(teamBlackboard).analyzeGlobalStrategy();
+    teamBlackboard.setGlobalStrategy(decision.strategy, decision.details, decision.priority, decision.confidence, decision.reason);
+
+    expect(decision).toMatchObject({ strategy: StrategyType.CAPTURE_FLAG, confidence: 100 });
+    expect(teamBlackboard.getEndgameMode()).toBe('ALL_IN');
+    expect(teamBlackboard.getStrategyHistory().map(entry => entry.endgame)).toEqual([undefined, 'ALL_IN', 'ALL_IN']);
+    expect(teamBlackboard.getStrategyHistory()[1]).toMatchObject({
+      round: 970,
+      reason: '进入残局模式 ALL_IN',
+      endgameSwitch: { from: null, to: 'ALL_IN' }
+    });
+  });
+
+  test('退出残局时记录切换，设置策略本身不记录切换', () => {
+    const teamBlackboard = new TeamBlackboard();
+    teamBlackboard.registerMap(MessageParser.parseStartMessage({ map: LocalGameServer.createDefaultMap(), players: [] }).map);
+    const analysis = new StrategyAnalysis(teamBlackboard);
+    const decide = () => {
+      const decision = analysis.analyzeGlobalStrategy();
+      teamBlackboard.setGlobalStrategy(decision.strategy, decision.details, decision.priority, decision.confidence, decision.reason);
+    };
+
+    teamBlackboard.updateGameState(endgameState(990, [30, 10]), 1111);
+    decide();
+
+    // 新对局复用同一块黑板
+    teamBlackboard.updateGameState(gameState(), 1111);
+    decide();
+    teamBlackboard.setGlobalStrategy(StrategyType.ATTACK_CITY, {}, 60, 85, '攻击城寨');
+
+    expect(teamBlackboard.getEndgameMode()).toBeNull();
+    expect(teamBlackboard.getStrategyHistory().map(entry => entry.endgameSwitch ?? null)).toEqual([
+      { from: null, to: 'DEFEND' },
+      null,
+      { from: 'DEFEND', to: null },
+      null,
+      null
+    ]);
+  });
+});
+
+describe('FlagController.isOnFlag', () => {
+  test('据点中心周围3×3区域内算在据点上', () => {
+    const state = gameState(openFlag);
+
+    expect(FlagController.isOnFlag({ x: 41, y: 29 }, state)).toBe(true);
+    expect(FlagController.isOnFlag({ x: 42, y: 30 }, state)).toBe(false);
+    expect(FlagController.isOnFlag({ x: 40, y: 30 }, gameState())).toBe(false);
+  });
+});
+
+describe('TeamBlackboard.getFlagPlan', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('同一回合内复用计划，更新游戏状态后重建', () => {
+    const teamBlackboard = new TeamBlackboard();
+    teamBlackboard.updateGameState(gameState(), 1111);
+    const plan = teamBlackboard.getFlagPlan();
+
+    expect(teamBlackboard.getFlagPlan()).toBe(plan);
+    teamBlackboard.updateGameState(gameState(openFlag), 1111);
+    expect(teamBlackboard.getFlagPlan().mode).toBe('CONTEST');
+  });
+});
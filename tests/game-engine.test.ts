@@ -0,0 +1,247 @@
+/**
+ * 游戏规则引擎测试
+ * 覆盖结算顺序、指令冲突、伤害承伤顺序、城寨奖励、据点占领与胜负判定
+ */
+import { GameEngine } from '../src/core/GameEngine';
+import type { ActionCommand } from '../src/models/actionMsg';
+import type { InquireMessageData } from '../src/models/inquireMsg';
+
+/**
+ * 构建20×10测试地图：
+ * 红方主基地(0,5)，蓝方主基地(19,5)，一级城寨(10,1)，据点中心(10,5)，山丘(5,5)
+ */
+function createTestMap() {
+  const maxX = 20;
+  const maxY = 10;
+  const cells = new Array(maxX * maxY).fill(0);
+  const set = (x: number, y: number, terrain: number) => { cells[y * maxX + x] = terrain; };
+  set(0, 5, 5);
+  set(19, 5, 5);
+  set(10, 1, 50);
+  set(5, 5, 1);
+  for (let y = 4; y <= 6; y++) {
+    for (let x = 9; x <= 11; x++) {
+      set(x, y, 3);
+    }
+  }
+  return { data: cells.join(','), maxX, maxY };
+}
+
+const RED = 1111;
+const BLUE = 2222;
+
+function createEngine() {
+  return new GameEngine(createTestMap(), [
+    { playerId: RED, camp: 0 },
+    { playerId: BLUE, camp: 1 }
+  ]);
+}
+
+function act(red: ActionCommand[] = [], blue: ActionCommand[] = []) {
+  return new Map<number, ActionCommand[]>([[RED, red], [BLUE, blue]]);
+}
+
+function role(state: InquireMessageData, playerId: number, roleId: number) {
+  return state.players.find(p => p.playerId === playerId)!.roles.find(r => r.roleId === roleId)!;
+}
+
+/**
+ * 直接改写引擎内部状态，便于构造测试局面
+ */
+function mutate(engine: GameEngine, fn: (state: InquireMessageData) => void) {
+  fn((engine as any).state);
+}
+
+describe('GameEngine', () => {
+  test('初始状态：英雄位于各自主基地，据点未开放', () => {
+    const state = createEngine().getState();
+
+    expect(state.round).toBe(1);
+    expect(role(state, RED, 40).position).toEqual({ x: 0, y: 5 });
+    expect(role(state, BLUE, 41).position).toEqual({ x: 19, y: 5 });
+    expect(state.cityProps).toEqual([{ roleId: 50, position: { x: 10, y: 1 }, life: 1000 }]);
+    expect(state.stronghold.position).toEqual({ x: -1, y: -1 });
+    expect(state.players[0].supplies).toBe(100);
+  });
+
+  test('第1回合PICK替换阵容', () => {
+    const engine = createEngine();
+    const next = engine.step(act([{ action: 'PICK', playerId: RED, roles: [42, 45, 48] }]));
+
+    expect(next.round).toBe(2);
+    expect(next.players[0].roles.map(r => r.roleId)).toEqual([42, 45, 48]);
+  });
+
+  test('SP优先于MOVE，MOVE只能到相邻可通行格', () => {
+    const engine = createEngine();
+    const next = engine.step(act([
+      { roleId: 40, action: 'MOVE', position: { x: 1, y: 5 } },
+      { roleId: 40, action: 'SP', position: { x: 8, y: 2 } },
+      { roleId: 43, action: 'MOVE', position: { x: 2, y: 5 } },
+      { roleId: 46, action: 'MOVE', position: { x: 1, y: 4 } }
+    ]));
+
+    expect(role(next, RED, 40).position).toEqual({ x: 8, y: 2 });
+    expect(role(next, RED, 43).position).toEqual({ x: 0, y: 5 });
+    expect(role(next, RED, 46).position).toEqual({ x: 1, y: 4 });
+
+    // 传送冷却中，第二次SP无效
+    const after = engine.step(act([{ roleId: 40, action: 'SP', position: { x: 12, y: 2 } }]));
+    expect(role(after, RED, 40).position).toEqual({ x: 8, y: 2 });
+  });
+
+  test('MAKE消耗粮草且不超过统帅值', () => {
+    const engine = createEngine();
+    const next = engine.step(act([{
+      action: 'MAKE',
+      details: [{ roleId: 40, solders: [7, 7, 8, 8, 8, 8, 8, 8] }]
+    }]));
+
+    // 初始100粮草只够5名士兵
+    expect(role(next, RED, 40).solderProps).toHaveLength(5);
+    expect(next.players[0].supplies).toBe(0);
+  });
+
+  test('SK与AD同时发送时以SK为准，伤害按盾兵→弓兵→英雄承伤', () => {
+    const engine = createEngine();
+    mutate(engine, state => {
+      role(state, RED, 40).position = { x: 8, y: 8 };
+      const target = role(state, BLUE, 41);
+      target.position = { x: 10, y: 8 };
+      target.solderProps = [
+        { roleId: 7, attack: 25, heroId: 41, life: 240 },
+        { roleId: 8, attack: 15, heroId: 41, life: 100 }
+      ];
+    });
+
+    const next = engine.step(act([
+      { roleId: 40, action: 'AD', position: { x: 10, y: 8 } },
+      { roleId: 40, action: 'SK', skillId: 4001, position: { x: 10, y: 8 } }
+    ]));
+
+    // 技能伤害200：盾兵承受100阵亡，弓兵承受100
+    const target = role(next, BLUE, 41);
+    expect(target.solderProps).toEqual([{ roleId: 7, attack: 25, heroId: 41, life: 140 }]);
+    expect(target.life).toBe(1500);
+    expect(role(next, RED, 40).skills[0].cdRemainRound).toBe(49);
+    expect(next.players[0].morale).toBe(10);
+  });
+
+  test('天命禁锢目标使其无法移动，并在之后每回合造成伤害', () => {
+    const engine = createEngine();
+    mutate(engine, state => {
+      state.players[0].roles[2] = GameEngine.createRole(48, 0, { x: 8, y: 8 });
+      role(state, BLUE, 41).position = { x: 10, y: 8 };
+    });
+
+    let state = engine.step(act(
+      [{ roleId: 48, action: 'SK', skillId: 4802, position: { x: 10, y: 8 } }],
+      [{ roleId: 41, action: 'MOVE', position: { x: 11, y: 8 } }]
+    ));
+    expect(role(state, BLUE, 41).position).toEqual({ x: 10, y: 8 });
+    expect(role(state, BLUE, 41).statuses).toEqual({ Grounded: 4 });
+    expect(role(state, BLUE, 41).life).toBe(1450);
+
+    state = engine.step(act());
+    expect(role(state, BLUE, 41).life).toBe(1400);
+  });
+
+  test('青龙偃月斩蓄力2回合后生效，蓄力期间无法普通攻击', () => {
+    const engine = createEngine();
+    mutate(engine, state => {
+      state.players[0].roles[0] = GameEngine.createRole(42, 0, { x: 8, y: 8 });
+      role(state, BLUE, 41).position = { x: 10, y: 8 };
+    });
+
+    let state = engine.step(act([{ roleId: 42, action: 'SK', skillId: 4202 }]));
+    expect(role(state, BLUE, 41).life).toBe(1500);
+    state = engine.step(act([{ roleId: 42, action: 'AD', position: { x: 10, y: 8 } }]));
+    expect(role(state, BLUE, 41).life).toBe(1500);
+    state = engine.step(act());
+    expect(role(state, BLUE, 41).life).toBe(1300);
+  });
+
+  test('击杀英雄获得士气和粮草，英雄5回合后在主基地复活', () => {
+    const engine = createEngine();
+    mutate(engine, state => {
+      role(state, RED, 40).position = { x: 8, y: 8 };
+      const target = role(state, BLUE, 41);
+      target.position = { x: 10, y: 8 };
+      target.life = 50;
+    });
+
+    let state = engine.step(act([{ roleId: 40, action: 'AD', position: { x: 10, y: 8 } }]));
+    expect(role(state, BLUE, 41).reviveRound).toBe(4);
+    expect(state.players[0].morale).toBe(80);
+    expect(state.players[0].supplies).toBe(220);
+    expect(engine.getPlayerStats(RED).heroKills[40]).toBe(1);
+
+    for (let i = 0; i < 4; i++) {
+      state = engine.step(act());
+    }
+    expect(role(state, BLUE, 41).reviveRound).toBe(0);
+    expect(role(state, BLUE, 41).life).toBe(1500);
+    expect(role(state, BLUE, 41).position).toEqual({ x: 19, y: 5 });
+  });
+
+  test('攻陷城寨获得粮草奖励并在100回合后重生', () => {
+    const engine = createEngine();
+    mutate(engine, state => {
+      role(state, RED, 40).position = { x: 8, y: 1 };
+      state.cityProps[0].life = 80;
+    });
+
+    const next = engine.step(act([{ roleId: 40, action: 'SG', position: { x: 10, y: 1 } }]));
+    expect(next.cityProps).toHaveLength(0);
+    expect(next.players[0].supplies).toBe(200);
+    expect(engine.getPlayerStats(RED).destroyTowerNum).toBe(1);
+
+    let state = next;
+    for (let i = 0; i < 100; i++) {
+      state = engine.step(act());
+    }
+    expect(state.cityProps).toEqual([{ roleId: 50, position: { x: 10, y: 1 }, life: 1000 }]);
+  });
+
+  test('据点开放后多数方发送AC占领并支付维持粮草', () => {
+    const engine = createEngine();
+    mutate(engine, state => {
+      state.round = 99;
+      role(state, RED, 40).position = { x: 10, y: 5 };
+      role(state, RED, 43).position = { x: 9, y: 4 };
+      role(state, BLUE, 41).position = { x: 11, y: 6 };
+    });
+
+    // 第99回合据点未开放，AC无效
+    let state = engine.step(act([{ action: 'AC' }]));
+    expect(state.stronghold.camp).toBe(2);
+    expect(state.stronghold.position).toEqual({ x: 10, y: 5 });
+
+    state = engine.step(act([{ action: 'AC' }], [{ action: 'AC' }]));
+    expect(state.stronghold.camp).toBe(0);
+    expect(state.stronghold.occupiedRound).toEqual([1, 0]);
+    expect(state.players[0].supplies).toBe(96);
+  });
+
+  test('占领满60回合判定胜利', () => {
+    const engine = createEngine();
+    mutate(engine, state => {
+      state.round = 200;
+      state.stronghold.camp = 1;
+      state.stronghold.occupiedRound = [10, 59];
+      role(state, BLUE, 41).position = { x: 10, y: 5 };
+    });
+
+    engine.step(act());
+    expect(engine.isFinished()).toBe(true);
+    expect(engine.getWinner()).toBe(BLUE);
+  });
+
+  test('相同输入得到相同输出', () => {
+    const actions = act(
+      [{ roleId: 40, action: 'MOVE', position: { x: 1, y: 6 } }, { action: 'MAKE', details: [{ roleId: 43, solders: [7, 8] }] }],
+      [{ roleId: 41, action: 'SP', position: { x: 12, y: 5 } }]
+    );
+    expect(createEngine().step(actions)).toEqual(createEngine().step(actions));
+  });
+});
@@ -7,10 +7,10 @@
  * - A*路径查找算法：距离计算、路径可达性判断
  * - 障碍物检测：墙壁碰撞、边界检查
  * - 直线移动检测：Bresenham算法的路径遮挡判断
- * - 复杂地图场景：使用真实16x16地图的综合测试
+ * - 复杂地图场景：使用16x16测试地图的综合测试
  */
 import { GameMap, TileType } from '../src/context/gameMap';
-import { MapLayout } from '../src/mapData';
+import LocalGameServer from '../src/network/LocalGameServer';
 
 describe('游戏地图基础功能测试', () => {
   /**
@@ -83,7 +83,29 @@ describe('游戏地图基础功能测试', () => {
 
 describe('复杂地图测试', () => {
   /**
-   * 使用项目中定义的16x16复杂地图布局进行综合测试
+   * 16x16 测试地图布局，0表示空地，1表示墙壁
+   */
+  const MapLayout: TileType[][] = [
+    [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // 顶部边界
+    [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // 开放区域
+    [0, 0, 1, 1, 1, 0, 0, 0, 0, 0, 0, 1, 1, 0, 0, 0], // 左上和右上障碍物
+    [0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0], // 左上和右上通道
+    [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // 开放区域
+    [0, 0, 0, 0, 0, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0], // 中央障碍物上边
+    [0, 0, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0], // 中央内部通道
+    [0, 0, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0], // 中央内部通道
+    [0, 0, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0], // 中央内部通道
+    [0, 0, 0, 0, 0, 1, 1, 0, 1, 1, 0, 0, 0, 0, 0, 0], // 中央障碍物下边（中间有缺口）
+    [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // 开放区域
+    [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // 开放区域
+    [0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0], // 左下和右下通道
+    [0, 0, 1, 1, 1, 0, 0, 0, 0, 0, 0, 1, 1, 1, 0, 0], // 左下和右下障碍物
+    [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // 开放区域
+    [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // 底部边界
+  ].reverse(); // 反转数组以匹配坐标系统（Y轴向上为正）
+
+  /**
+   * 使用16x16复杂地图布局进行综合测试
    * 该地图包含：
    * - 多个分离的障碍物区域
    * - 中央大型障碍物结构
@@ -111,4 +133,72 @@ describe('复杂地图测试', () => {
     expect(map.canDirectMove(4, 9, 8, 11)).toEqual(true);   // 开放区域间可直线移动
     expect(map.canDirectMove(9, 11, 11, 14)).toEqual(true); // 开放区域间可直线移动
   });
-});
\ No newline at end of file
+});
+describe('80x60地图寻路与距离场缓存', () => {
+  const { data, maxX, maxY } = LocalGameServer.createDefaultMap();
+  const map = new GameMap(data, maxX, maxY);
+
+  /**
+   * 不依赖启发函数的参考实现：朴素BFS求步数
+   */
+  function bfsDistance(x1: number, y1: number, x2: number, y2: number): number {
+    const seen = new Set([`${x1},${y1}`]);
+    let frontier = [[x1, y1]];
+    for (let steps = 0; frontier.length > 0; steps++) {
+      const next: number[][] = [];
+      for (const [x, y] of frontier) {
+        if (x === x2 && y === y2) return steps;
+        for (let dx = -1; dx <= 1; dx++) {
+          for (let dy = -1; dy <= 1; dy++) {
+            const key = `${x + dx},${y + dy}`;
+            if (!seen.has(key) && !map.isObstacle(x + dx, y + dy)) {
+              seen.add(key);
+              next.push([x + dx, y + dy]);
+            }
+          }
+        }
+      }
+      frontier = next;
+    }
+    return -1;
+  }
+
+  it('A*绕过河流得到最短路径，路径每步相邻且不经过障碍物', () => {
+    // (17,5) → (20,5) 之间是 x=18..19 的河流，需要绕到 y=13..15 的渡口
+    const path = map.findPathAStar(17, 5, 20, 5)!;
+
+    expect(path.length - 1).toBe(bfsDistance(17, 5, 20, 5));
+    expect(path[0]).toEqual({ x: 17, y: 5 });
+    expect(path[path.length - 1]).toEqual({ x: 20, y: 5 });
+    for (let i = 1; i < path.length; i++) {
+      expect(Math.max(Math.abs(path[i].x - path[i - 1].x), Math.abs(path[i].y - path[i - 1].y))).toBe(1);
+      expect(map.isObstacle(path[i].x, path[i].y)).toBe(false);
+    }
+  });
+
+  it('A*距离与BFS一致，终点为障碍物时不可达', () => {
+    const pairs = [[0, 0, 79, 59], [12, 4, 12, 9], [21, 22, 25, 22], [9, 43, 10, 51], [30, 39, 33, 43]];
+    for (const [x1, y1, x2, y2] of pairs) {
+      expect(map.getRealDistance(x1, y1, x2, y2)).toBe(bfsDistance(x1, y1, x2, y2));
+    }
+    expect(map.findPathAStar(0, 0, 12, 6)).toBeNull();
+  });
+
+  it('主基地、城寨、龙旗的距离场预先缓存，查表结果与A*一致', () => {
+    expect(map.precomputeDistanceFields()).toBe(17);
+
+    const flagField = map.getDistanceField(40, 30)!;
+    expect(map.getDistanceField(40, 30)).toBe(flagField);
+    expect(flagField[30 * maxX + 2]).toBe(map.findPathAStar(2, 30, 40, 30)!.length - 1);
+
+    // 非关键格子不缓存
+    expect(map.getDistanceField(5, 5)).not.toBe(map.getDistanceField(5, 5));
+
+    // 以关键格子为终点时沿距离场得到的路径同样最短
+    const path = map.findPath({ x: 17, y: 3 }, { x: 15, y: 12 })!;
+    expect(path.length - 1).toBe(map.findPathAStar(17, 3, 15, 12)!.length - 1);
+    expect(path[0]).toEqual({ x: 17, y: 3 });
+    expect(path[path.length - 1]).toEqual({ x: 15, y: 12 });
+    expect(map.getRealDistance(15, 12, 17, 3)).toBe(path.length - 1);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * 威胁/影响力地图测试
+ */
+import { GameMap } from '../src/context/gameMap';
+import { GameEngine } from '../src/core/GameEngine';
+import { InfluenceMap } from '../src/core/InfluenceMap';
+import { TeamBlackboard } from '../src/core/TeamBlackboard';
+import MessageParser from '../src/network/MessageParser';
+
+const ME = 1111;
+const ENEMY = 2222;
+
+/**
+ * 30×20 空地，x=10 一列为山（留出 y=19 的缺口）
+ */
+function createMap(): GameMap {
+  const cells = new Array(30 * 20).fill(0);
+  for (let y = 0; y < 19; y++) {
+    cells[y * 30 + 10] = 1;
+  }
+  return new GameMap(cells.join(','), 30, 20);
+}
+
+function createBlackboard(): TeamBlackboard {
+  const enemy = GameEngine.createRole(40, 1, { x: 5, y: 5 });       // 吕布，武力100
+  enemy.solderProps = [{ roleId: 7, attack: 25, heroId: 40, life: 240 }, { roleId: 8, attack: 15, heroId: 40, life: 400 }];
+  const ally = GameEngine.createRole(41, 0, { x: 3, y: 5 });
+
+  const blackboard = new TeamBlackboard();
+  blackboard.updateGameState(MessageParser.parseInquireMessage({
+    round: 10,
+    players: [
+      { playerId: ME, supplies: 0, morale: 0, roles: [ally] },
+      { playerId: ENEMY, supplies: 0, morale: 0, roles: [enemy] }
+    ],
+    cityProps: [{ roleId: 52, position: { x: 20, y: 5 }, life: 3000 }],
+    stronghold: null
+  }), ME);
+  return blackboard;
+}
+
+describe('InfluenceMap', () => {
+  const influence = InfluenceMap.fromBlackboard(createBlackboard(), createMap());
+
+  test('敌方英雄和士兵在3格内分别计入威胁', () => {
+    expect(influence.getCell(8, 8)).toMatchObject({ heroThreat: 100, soldierThreat: 40, cityThreat: 0, threat: 140 });
+    expect(influence.getThreat(9, 5)).toBe(0);
+  });
+
+  test('三级城寨按5格攻击范围和180伤害计入威胁', () => {
+    expect(influence.getCell(25, 10)).toMatchObject({ cityThreat: 180, threat: 180 });
+    expect(influence.getThreat(26, 5)).toBe(0);
+  });
+
+  test('我方支援可以排除自身', () => {
+    expect(influence.getSupport(0, 5)).toBeGreaterThan(0);
+    expect(influence.getSupport(0, 5, 41)).toBe(0);
+  });
+
+  test('范围内最安全的格子：按寻路步数或直线距离限制范围', () => {
+    const walking = influence.findSafestCell({ x: 6, y: 5 }, 3)!;
+    expect(walking.threat).toBe(0);
+    expect(walking.distance).toBeLessThanOrEqual(3);
+    expect(walking.position.x).toBeLessThan(10);
+
+    // 直线距离可以越过山
+    const teleport = influence.findSafestCell({ x: 8, y: 5 }, 3, { useRealDistance: false })!;
+    expect(teleport.threat).toBe(0);
+  });
+
+  test('能打到目标且承伤最少的格子排在最前', () => {
+    const cells = influence.findAttackCells({ x: 4, y: 3 }, { x: 5, y: 5 }, 3, 2);
+    expect(cells.length).toBeGreaterThan(0);
+    cells.forEach(c => expect(Math.max(Math.abs(c.position.x - 5), Math.abs(c.position.y - 5))).toBeLessThanOrEqual(3));
+    expect(cells[0].threat).toBe(Math.min(...cells.map(c => c.threat)));
+  });
+});
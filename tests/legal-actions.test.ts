@@ -0,0 +1,137 @@
+/**
+ * 合法行动生成与校验测试
+ */
+import { LegalActions } from '../src/core/LegalActions';
+import type { GameSnapshot } from '../src/core/CombatSimulator';
+import { GameEngine } from '../src/core/GameEngine';
+import { HeroStatus } from '../src/models/inquireMsg';
+import type { InquireMessageData } from '../src/models/inquireMsg';
+import type { ActionCommand } from '../src/models/actionMsg';
+import MessageParser from '../src/network/MessageParser';
+import LocalGameServer from '../src/network/LocalGameServer';
+import { MapRegistry } from '../src/context/MapRegistry';
+import type { GameMap } from '../src/context/gameMap';
+
+const RED = 1111;
+const BLUE = 2222;
+
+let gameMap: GameMap;
+
+function role(state: InquireMessageData, playerId: number, roleId: number) {
+  return state.players.find(p => p.playerId === playerId)!.roles.find(r => r.roleId === roleId)!;
+}
+
+/**
+ * 红方吕布位于(40,30)，蓝方英雄41位于(42,30)，蓝方英雄44位于(46,30)
+ */
+function createState(adjust?: (state: InquireMessageData) => void): InquireMessageData {
+  const state = new GameEngine(LocalGameServer.createDefaultMap(), [
+    { playerId: RED, camp: 0 },
+    { playerId: BLUE, camp: 1 }
+  ]).getState();
+  state.round = 20;
+  role(state, RED, 40).position = { x: 40, y: 30 };
+  role(state, BLUE, 41).position = { x: 42, y: 30 };
+  role(state, BLUE, 44).position = { x: 46, y: 30 };
+  adjust?.(state);
+  return state;
+}
+
+function validate(action: ActionCommand, state: InquireMessageData = createState(), lastTeleportRounds?: Map<number, number>) {
+  return LegalActions.validate(action, state, RED, { gameMap, lastTeleportRounds });
+}
+
+describe('LegalActions', () => {
+  beforeAll(() => {
+    gameMap = new MapRegistry().register(MessageParser.parseStartMessage({ map: LocalGameServer.createDefaultMap(), players: [] }).map);
+  });
+
+  test('MOVE 只能到相邻的可通行空位，定身时不能移动', () => {
+    expect(validate({ roleId: 40, action: 'MOVE', position: { x: 41, y: 31 } })).toBeNull();
+    expect(validate({ roleId: 40, action: 'MOVE', position: { x: 42, y: 30 } })).toBe('只能移动到相邻8格');
+
+    const crowded = createState(state => { role(state, BLUE, 41).position = { x: 41, y: 30 }; });
+    expect(validate({ roleId: 40, action: 'MOVE', position: { x: 41, y: 30 } }, crowded)).toBe('目标格子不可通行或已有单位');
+
+    const grounded = createState(state => { role(state, RED, 40).statuses = { [HeroStatus.Grounded]: 2 } as any; });
+    expect(validate({ roleId: 40, action: 'MOVE', position: { x: 41, y: 31 } }, grounded)).toBe('定身中无法移动');
+  });
+
+  test('SP 需要在10格内且传送已冷却', () => {
+    expect(validate({ roleId: 40, action: 'SP', position: { x: 48, y: 34 } })).toBeNull();
+    expect(validate({ roleId: 40, action: 'SP', position: { x: 51, y: 30 } })).toBe('传送距离超过10格');
+    expect(validate({ roleId: 40, action: 'SP', position: { x: 48, y: 34 } }, createState(), new Map([[40, 1]])))
+      .toBe('传送冷却中，还需41回合');
+  });
+
+  test('AD 目标必须是攻击距离内存活的敌方英雄', () => {
+    expect(validate({ roleId: 40, action: 'AD', position: { x: 42, y: 30 } })).toBeNull();
+    expect(validate({ roleId: 40, action: 'AD', position: { x: 46, y: 30 } })).toBe('目标超出攻击距离3格');
+    expect(validate({ roleId: 40, action: 'AD', position: { x: 41, y: 30 } })).toBe('目标位置没有存活的敌方英雄');
+    expect(validate({ roleId: 41, action: 'AD', position: { x: 40, y: 30 } })).toBe('英雄41不属于我方');
+  });
+
+  test('SK 需要技能属于该英雄且未被沉默', () => {
+    expect(validate({ roleId: 40, action: 'SK', skillId: 4001, position: { x: 42, y: 30 } })).toBeNull();
+    expect(validate({ roleId: 40, action: 'SK', skillId: 4101, position: { x: 42, y: 30 } })).toBe('技能4101不属于英雄40');
+
+    const silenced = createState(state => { role(state, RED, 40).statuses = { [HeroStatus.Silence]: 1 } as any; });
+    expect(validate({ roleId: 40, action: 'SK', skillId: 4001, position: { x: 42, y: 30 } }, silenced)).toBe('沉默中');
+  });
+
+  test('PICK 和 BUFF 只能在对应回合发送', () => {
+    const pick: ActionCommand = { action: 'PICK', playerId: RED, roles: [40, 43, 46] };
+    expect(validate(pick, createState(state => { state.round = 1; }))).toBeNull();
+    expect(validate(pick)).toBe('只能在第1回合或英雄即将复活时选将');
+
+    const buff: ActionCommand = { action: 'BUFF', buffType: 1003 };
+    expect(validate(buff, createState(state => { state.round = 100; }))).toBeNull();
+    expect(validate(buff)).toBe('只能在第100/150/200回合选择BUFF');
+  });
+
+  test('filter 保留合法指令并给出被拒绝指令的原因', () => {
+    const snapshot = MessageParser.parseInquireMessage(createState(state => { state.round = 100; })) as GameSnapshot;
+    const { accepted, rejected } = LegalActions.filter([
+      { roleId: 40, action: 'AD', position: { x: 42, y: 30 } },
+      { roleId: 40, action: 'MOVE', position: { x: 45, y: 30 } },
+      { action: 'BUFF', buffType: 1003 },
+      { action: 'BUFF', buffType: 1002 }
+    ], snapshot, RED, { gameMap });
+
+    expect(accepted).toEqual([
+      { roleId: 40, action: 'AD', position: { x: 42, y: 30 } },
+      { action: 'BUFF', buffType: 1003 }
+    ]);
+    expect(rejected.map(r => r.reason)).toEqual(['只能移动到相邻8格', '本窗口已选择BUFF']);
+  });
+
+  test('filter 允许两名英雄排成一列跟进移动，同一落点只接受第一条', () => {
+    const state = createState(state => {
+      role(state, RED, 43).position = { x: 39, y: 30 };
+      role(state, RED, 46).position = { x: 41, y: 31 };
+    });
+    const follow: ActionCommand = { roleId: 43, action: 'MOVE', position: { x: 40, y: 30 } };
+    const { accepted, rejected } = LegalActions.filter([
+      follow,
+      { roleId: 40, action: 'MOVE', position: { x: 41, y: 30 } },
+      { roleId: 46, action: 'MOVE', position: { x: 41, y: 30 } }
+    ], MessageParser.parseInquireMessage(state) as GameSnapshot, RED, { gameMap });
+
+    expect(accepted).toEqual([follow, { roleId: 40, action: 'MOVE', position: { x: 41, y: 30 } }]);
+    expect(rejected.map(r => r.reason)).toEqual(['目标格子已有我方英雄本回合进入']);
+    // 前面的英雄不动时仍然挡路
+    expect(validate(follow, state)).toBe('目标格子不可通行或已有单位');
+  });
+
+  test('生成的行动都能通过校验，传送冷却中时不生成传送', () => {
+    const state = createState();
+    const actions = LegalActions.enumerate(state, RED, 40, { gameMap });
+
+    expect(actions).toContainEqual({ roleId: 40, action: 'AD', position: { x: 42, y: 30 } });
+    expect(actions.some(a => a.action === 'SP')).toBe(true);
+    expect(actions.every(a => LegalActions.validate(a, state, RED, { gameMap }) === null)).toBe(true);
+
+    const cooling = LegalActions.enumerate(state, RED, 40, { gameMap, lastTeleportRounds: new Map([[40, 10]]) });
+    expect(cooling.some(a => a.action === 'SP')).toBe(false);
+  });
+});
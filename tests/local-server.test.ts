@@ -0,0 +1,110 @@
+/**
+ * 本地对战服务器测试
+ * 使用真实的ProtocolManager客户端连接本地服务器，验证协议流程与回合推进
+ */
+import { Socket } from 'net';
+import LocalGameServer from '../src/network/LocalGameServer';
+import ProtocolManager from '../src/network/ProtocolManager';
+
+/** 等待事件触发 */
+function waitFor<T = any>(emitter: { once: (event: string, listener: (arg: T) => void) => any }, event: string): Promise<T> {
+  return new Promise(resolve => emitter.once(event, resolve));
+}
+
+describe('LocalGameServer', () => {
+  let server: LocalGameServer;
+  let port: number;
+  const clients: ProtocolManager[] = [];
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    server = new LocalGameServer({ port: 0, maxRounds: 3, actionTimeout: 500 });
+    port = await server.start();
+  });
+
+  afterEach(async () => {
+    clients.splice(0).forEach(client => client.disconnect());
+    await server.stop();
+    jest.restoreAllMocks();
+  });
+
+  test('内置地图为80×60且包含主基地、城寨和据点', () => {
+    const map = LocalGameServer.createDefaultMap();
+    const cells = map.data.split(',').map(Number);
+
+    expect(map.maxX).toBe(80);
+    expect(map.maxY).toBe(60);
+    expect(cells).toHaveLength(80 * 60);
+    expect(LocalGameServer.findTerrain(cells, map.maxX, [5])).toHaveLength(2);
+    expect(LocalGameServer.findTerrain(cells, map.maxX, [50, 51, 52])).toHaveLength(6);
+    expect(LocalGameServer.findTerrain(cells, map.maxX, [3])).toHaveLength(9);
+  });
+
+  test('两个客户端完成注册、对局并收到over消息', async () => {
+    const starts: any[] = [];
+    const moves: Array<{ x: number; y: number }> = [];
+
+    for (const playerId of [1111, 2222]) {
+      const client = new ProtocolManager();
+      clients.push(client);
+      client.on('gameStart', data => starts.push(data));
+      client.on('inquire', (state: any) => {
+        const me = state.players.find((p: any) => p.playerId === playerId);
+        const hero = me.roles[0];
+        const target = { x: hero.position.x, y: hero.position.y - 1 };
+        if (playerId === 1111 && state.round === 2) {
+          moves.push(hero.position);
+        }
+        client.sendAction(state.round, [
+          { roleId: hero.roleId, action: 'MOVE', position: target } as any
+        ]);
+      });
+    }
+
+    const over = Promise.all(clients.map(client => waitFor<any>(client, 'gameOver')));
+    await clients[0].connect('127.0.0.1', port, 1111, '红方');
+    await clients[1].connect('127.0.0.1', port, 2222, '蓝方');
+    const [result] = await over;
+
+    expect(starts).toHaveLength(2);
+    expect(starts[0].map.maxX).toBe(80);
+    expect(starts[0].players).toEqual([
+      { playerId: 1111, camp: 0 },
+      { playerId: 2222, camp: 1 }
+    ]);
+
+    // 红方主基地位于(2, 30)，第1回合向上移动一格
+    expect(moves).toEqual([{ x: 2, y: 29 }]);
+
+    expect(result.players).toHaveLength(2);
+    expect(result.players[0].overRound).toBe(3);
+    expect(result.players[0].heroes).toHaveLength(3);
+    expect(result.players[1].playerName).toBe('蓝方');
+  });
+
+  test('按字节长度拆分分包和粘包的消息', async () => {
+    const registered: number[] = [];
+    server.on('playerRegistered', playerId => registered.push(playerId));
+
+    const frame = (playerId: number, playerName: string) => {
+      const body = JSON.stringify({
+        msg_name: 'registration',
+        msg_data: { playerId, playerName, version: '1.0' }
+      });
+      return Buffer.byteLength(body, 'utf8').toString().padStart(5, '0') + body;
+    };
+
+    const socket = new Socket();
+    await new Promise<void>(resolve => socket.connect(port, '127.0.0.1', resolve));
+    const started = waitFor(server, 'gameStart');
+
+    // 中文队名使字节长度大于字符长度；两条消息粘连后再从中间拆开发送
+    const payload = Buffer.from(frame(1, '诸葛') + frame(2, '司马'), 'utf8');
+    socket.write(payload.subarray(0, 20));
+    socket.write(payload.subarray(20));
+    await started;
+
+    expect(registered).toEqual([1, 2]);
+    socket.destroy();
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * 地图注册表测试
+ * 验证寻路使用服务器下发的地图，未注册时不回退到内置地图，各机器人的地图互不影响
+ */
+import MapRegistry from '../src/context/MapRegistry';
+import { AnalysisTools } from '../src/core/AnalysisTools';
+import { TeamBlackboard } from '../src/core/TeamBlackboard';
+import MessageParser from '../src/network/MessageParser';
+import LocalGameServer from '../src/network/LocalGameServer';
+
+function startMap(map: any) {
+  return MessageParser.parseStartMessage({ map, players: [] }).map;
+}
+
+describe('MapRegistry', () => {
+  test('未注册地图时取地图直接报错', () => {
+    const registry = new MapRegistry();
+    expect(registry.has()).toBe(false);
+    expect(() => registry.get()).toThrow('地图尚未注册');
+    expect(() => new TeamBlackboard().getGameMap()).toThrow('地图尚未注册');
+  });
+
+  test('地图尺寸取自start消息', () => {
+    const gameMap = new MapRegistry().register(startMap(LocalGameServer.createDefaultMap()));
+
+    expect(gameMap.getMapSize()).toEqual({ width: 80, height: 60 });
+    expect(AnalysisTools.calculateShortestDistance(gameMap, { x: 70, y: 50 }, { x: 75, y: 52 })).toMatchObject({
+      straightDistance: 5,
+      isReachable: true
+    });
+    expect(AnalysisTools.calculateShortestDistance(gameMap, { x: 1, y: 1 }, { x: 80, y: 1 }).isReachable).toBe(false);
+  });
+
+  test('地形数据与尺寸不符时拒绝注册', () => {
+    const registry = new MapRegistry();
+    expect(() => registry.register(startMap({ maxX: 3, maxY: 2, data: '0,0,0,0' }))).toThrow('地图数据与尺寸不符');
+    expect(registry.has()).toBe(false);
+  });
+
+  test('clear 清除已注册的地图', () => {
+    const registry = new MapRegistry();
+    registry.register(startMap({ maxX: 2, maxY: 2, data: '0,0,0,0' }));
+    registry.clear();
+    expect(registry.has()).toBe(false);
+  });
+
+  test('每个团队黑板各自注册地图，互不影响', () => {
+    const red = new TeamBlackboard();
+    const blue = new TeamBlackboard();
+    red.registerMap(startMap(LocalGameServer.createDefaultMap()));
+    blue.registerMap(startMap({ maxX: 2, maxY: 2, data: '0,0,0,0' }));
+
+    expect(red.getGameMap()).not.toBe(blue.getGameMap());
+    expect(red.getGameMap().getMapSize()).toEqual({ width: 80, height: 60 });
+    expect(blue.getMapData()).toEqual({ data: '0,0,0,0', maxX: 2, maxY: 2 });
+  });
+});
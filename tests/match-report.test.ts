@@ -0,0 +1,139 @@
+/**
+ * 赛后报告测试
+ */
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MatchReport } from '../src/core/MatchReport';
+import { GameEngine } from '../src/core/GameEngine';
+import LocalGameServer from '../src/network/LocalGameServer';
+import type { ReplayRecord } from '../src/network/ReplayRecorder';
+
+const PLAYER_ID = 1111;
+const ENEMY_ID = 2222;
+const timing = { receivedAt: '', sentAt: '', decisionMs: 10 };
+
+/**
+ * 三回合录像：
+ * 第1回合我方刘备(43)和诸葛亮(46)攻击(10,30)上的敌方赵云(41)，第2回合赵云阵亡；
+ * 我方吕布(40)在第2回合损失200体力；第2、3回合据点归我方
+ */
+function createRecords(): ReplayRecord[] {
+  const players = [{ playerId: PLAYER_ID, camp: 0 }, { playerId: ENEMY_ID, camp: 1 }];
+  const round1 = new GameEngine(LocalGameServer.createDefaultMap(), players).getState();
+  const enemyHero = (state: any) => state.players[1].roles.find((r: any) => r.roleId === 41);
+  const myHero = (state: any) => state.players[0].roles.find((r: any) => r.roleId === 40);
+  enemyHero(round1).position = { x: 10, y: 30 };
+
+  const round2 = JSON.parse(JSON.stringify(round1));
+  round2.round = 2;
+  round2.players[0].supplies = 140;
+  enemyHero(round2).life = 0;
+  enemyHero(round2).reviveRound = 5;
+  myHero(round2).life -= 200;
+  round2.stronghold.camp = 0;
+
+  const round3 = JSON.parse(JSON.stringify(round2));
+  round3.round = 3;
+  round3.players[0].supplies = 90;
+
+  return [
+    { type: 'start', playerId: PLAYER_ID, playerName: 'Bot', timestamp: '2026-10-19T00:00:00.000Z', data: { map: {}, players } },
+    {
+      type: 'round', round: 1, inquire: round1, strategy: 'ATTACK_ENEMY', strategyData: null, timing,
+      actions: [
+        { action: 'AD', roleId: 43, position: { x: 10, y: 30 } },
+        { action: 'SK', roleId: 46, skillId: 4601, position: { x: 10, y: 30 } }
+      ]
+    },
+    { type: 'round', round: 2, inquire: round2, actions: [], strategy: 'ATTACK_ENEMY', strategyData: null, timing: { ...timing, decisionMs: 30 } },
+    { type: 'round', round: 3, inquire: round3, actions: null, strategy: null, strategyData: null, timing: { ...timing, decisionMs: null } }
+  ];
+}
+
+function overData(): any {
+  const overPlayer = (playerId: number, killedNum: number, occupyRound: number) => ({
+    playerId,
+    playerName: playerId === PLAYER_ID ? 'Bot' : 'Enemy',
+    online: true,
+    overRound: 3,
+    progress: 0,
+    soldierNum: 0,
+    totalGold: 90,
+    destroyTowerNum: 0,
+    killedNum,
+    occupyRound,
+    heroes: (playerId === PLAYER_ID ? [40, 43, 46] : [41, 44, 47]).map((roleId, i) => ({
+      id: 1500 + i,
+      roleId,
+      name: '',
+      bowmen: 2,
+      shieldmen: 1,
+      killedNum: roleId === 43 ? killedNum : 0
+    }))
+  });
+  return { players: [overPlayer(PLAYER_ID, 1, 2), overPlayer(ENEMY_ID, 0, 0)] };
+}
+
+describe('MatchReport', () => {
+  test('没有结算数据时从录像统计伤害、击杀和阵亡', () => {
+    const report = MatchReport.build(createRecords());
+    const hero = (roleId: number) => report.heroes.find(h => h.roleId === roleId)!;
+
+    expect(report.result).toBe('unknown');
+    expect(report.final).toBeNull();
+    expect(report.opponentId).toBe(ENEMY_ID);
+    expect(report.heroes.map(h => h.roleId)).toEqual([40, 43, 46]);
+    expect(hero(43).damageDealt).toBe(750);
+    expect(hero(46).damageDealt).toBe(750);
+    expect(hero(43).kills).toBe(1);
+    expect(hero(40).damageTaken).toBe(200);
+    expect(hero(40).deaths).toBe(0);
+  });
+
+  test('统计粮草曲线、据点占领、策略占比和决策耗时', () => {
+    const report = MatchReport.build(createRecords());
+
+    expect(report.foodCurve.map(p => p.supplies)).toEqual([100, 140, 90]);
+    expect(report.flagRoundsHeld).toBe(2);
+    expect(report.enemyFlagRoundsHeld).toBe(0);
+    expect(report.strategyShare).toEqual({ ATTACK_ENEMY: 0.6667, 无: 0.3333 });
+    expect(report.averageDecisionMs).toBe(20);
+  });
+
+  test('合并 over 消息的排名、得分和武将结算', () => {
+    const report = MatchReport.build(createRecords(), overData());
+    const liubei = report.heroes.find(h => h.roleId === 43)!;
+
+    expect(report.result).toBe('win');
+    expect(report.final).toMatchObject({ rank: 1, occupyRound: 2, killedNum: 1, totalGold: 90 });
+    expect(liubei).toMatchObject({ kills: 1, bowmen: 2, shieldmen: 1 });
+    expect(report.heroes.find(h => h.roleId === 46)!.kills).toBe(0);
+  });
+
+  test('导出 CSV：每局一行、每名武将一行，含逗号的字段加引号', () => {
+    const report = MatchReport.build(createRecords(), overData());
+    report.playerName = 'Bot, Inc';
+    const matchCsv = MatchReport.toCsv([report, report]).split('\n');
+    const heroCsv = MatchReport.toHeroCsv([report]).split('\n');
+
+    expect(matchCsv).toHaveLength(3);
+    expect(matchCsv[0]).toMatch(/^playerId,playerName,opponentId/);
+    expect(matchCsv[1]).toContain('1111,"Bot, Inc",2222');
+    expect(matchCsv[1]).toContain('ATTACK_ENEMY:0.6667;无:0.3333');
+    expect(heroCsv).toHaveLength(4);
+    expect(heroCsv[2]).toBe('1111,2222,2026-10-19T00:00:00.000Z,win,43,刘备,750,0,1,0,2,1,2.5');
+  });
+
+  test('writeFiles 写出 JSON 和两份 CSV', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'match-report-'));
+    try {
+      const files = MatchReport.writeFiles([MatchReport.build(createRecords())], join(dir, 'out', 'report'));
+
+      expect(files.map(f => f.slice(dir.length))).toEqual(['/out/report.json', '/out/report.csv', '/out/report-heroes.csv']);
+      expect(JSON.parse(readFileSync(files[0], 'utf8'))[0].playerId).toBe(PLAYER_ID);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * 蒙特卡洛树搜索规划器测试
+ */
+import { MctsPlanner } from '../src/core/MctsPlanner';
+import { CombatSimulator } from '../src/core/CombatSimulator';
+import type { GameSnapshot } from '../src/core/CombatSimulator';
+import { GameEngine } from '../src/core/GameEngine';
+import { HeroStatus } from '../src/models/inquireMsg';
+import type { InquireMessageData } from '../src/models/inquireMsg';
+import MessageParser from '../src/network/MessageParser';
+import LocalGameServer from '../src/network/LocalGameServer';
+import { MapRegistry } from '../src/context/MapRegistry';
+import type { GameMap } from '../src/context/gameMap';
+import { BehaviorTreeController } from '../src/bt/BehaviorTreeController';
+import { mctsTeamBehaviorTree } from '../src/bt/BehaviorTree';
+import { TeamBlackboard } from '../src/core/TeamBlackboard';
+import ActionQueue from '../src/network/ActionQueue';
+
+const RED = 1111;
+const BLUE = 2222;
+const mapData = LocalGameServer.createDefaultMap();
+
+let gameMap: GameMap;
+
+function role(state: InquireMessageData, playerId: number, roleId: number) {
+  return state.players.find(p => p.playerId === playerId)!.roles.find(r => r.roleId === roleId)!;
+}
+
+/**
+ * 固定种子的随机数，保证搜索结果可复现
+ */
+function seededRandom(seed: number): () => number {
+  let value = seed;
+  return () => {
+    value = (value * 1103515245 + 12345) % 2147483648;
+    return value / 2147483648;
+  };
+}
+
+/**
+ * 红方吕布与残血的蓝方英雄41相距2格，其余英雄留在主基地
+ */
+function createSnapshot(adjust?: (state: InquireMessageData) => void): GameSnapshot {
+  const state = new GameEngine(LocalGameServer.createDefaultMap(), [
+    { playerId: RED, camp: 0 },
+    { playerId: BLUE, camp: 1 }
+  ]).getState();
+  role(state, RED, 40).position = { x: 40, y: 30 };
+  const target = role(state, BLUE, 41);
+  target.position = { x: 42, y: 30 };
+  target.life = 80;
+  adjust?.(state);
+  return MessageParser.parseInquireMessage(state) as GameSnapshot;
+}
+
+describe('MctsPlanner', () => {
+  beforeAll(() => {
+    gameMap = new MapRegistry().register(MessageParser.parseStartMessage({ map: mapData, players: [] }).map);
+  });
+
+  test('枚举原地不动、相邻移动和攻击距离内的普通攻击', () => {
+    const planner = new MctsPlanner(gameMap, mapData);
+    const raw = CombatSimulator.toInquireData(createSnapshot());
+    const lubu = planner.enumerateTeamOptions(raw, RED).find(o => o.roleId === 40)!;
+
+    expect(lubu.options[0]).toBeNull();
+    expect(lubu.options.filter(o => o?.action === 'MOVE')).toHaveLength(8);
+    expect(lubu.options).toContainEqual({ roleId: 40, action: 'AD', position: { x: 42, y: 30 } });
+  });
+
+  test('定身的英雄没有移动和传送选项', () => {
+    const planner = new MctsPlanner(gameMap, mapData);
+    const raw = CombatSimulator.toInquireData(createSnapshot(state => {
+      role(state, RED, 40).statuses = { [HeroStatus.Grounded]: 2 } as any;
+    }));
+    const lubu = planner.enumerateTeamOptions(raw, RED, true).find(o => o.roleId === 40)!;
+
+    expect(lubu.options.some(o => o?.action === 'MOVE' || o?.action === 'SP')).toBe(false);
+  });
+
+  test('能击杀残血英雄时选择攻击该英雄', () => {
+    const planner = new MctsPlanner(gameMap, mapData, { maxIterations: 200, timeBudgetMs: 10000, rolloutDepth: 0, random: seededRandom(7) });
+    const plan = planner.plan(createSnapshot(), RED);
+
+    expect(plan.iterations).toBe(200);
+    const lubu = plan.actions.find(a => a.roleId === 40)!;
+    expect(['AD', 'SK']).toContain(lubu.action);
+    expect(lubu.position).toEqual({ x: 42, y: 30 });
+    expect(plan.stats).toHaveLength(3);
+
+    // 击杀的得分高于原地不动
+    const lubuStats = plan.stats.find(options => options[0].roleId === 40)!;
+    const stay = lubuStats.find(o => o.action === null)!;
+    const kill = lubuStats.find(o => o.action?.action === lubu.action && o.action.position?.x === 42 && o.action.position?.y === 30)!;
+    expect(stay.visits).toBeGreaterThan(0);
+    expect(kill.meanScore).toBeGreaterThan(stay.meanScore);
+  });
+
+  test('在时间预算内结束搜索', () => {
+    const planner = new MctsPlanner(gameMap, mapData, { timeBudgetMs: 50, random: seededRandom(1) });
+    const plan = planner.plan(createSnapshot(), RED);
+
+    expect(plan.iterations).toBeGreaterThan(0);
+    expect(plan.elapsedMs).toBeLessThan(1000);
+  });
+
+  test('MCTS团队行为树可以被行为树控制器加载', () => {
+    const context = { playerId: RED, agent: null, teamBlackboard: new TeamBlackboard(), actionQueue: new ActionQueue() };
+    expect(() => new BehaviorTreeController(context, false, mctsTeamBehaviorTree)).not.toThrow();
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * 协议消息校验测试
+ */
+import { createServer, AddressInfo, Socket } from 'net';
+import MessageValidator, { ProtocolValidationError } from '../src/network/MessageValidator';
+import ProtocolManager from '../src/network/ProtocolManager';
+import LocalGameServer from '../src/network/LocalGameServer';
+import { GameEngine } from '../src/core/GameEngine';
+
+function inquireMessage(): any {
+  const state = new GameEngine(LocalGameServer.createDefaultMap(), [
+    { playerId: 1111, camp: 0 },
+    { playerId: 2222, camp: 1 }
+  ]).getState();
+  return JSON.parse(JSON.stringify({ msg_name: 'inquire', msg_data: state }));
+}
+
+function validationError(raw: unknown): ProtocolValidationError {
+  try {
+    MessageValidator.validate(raw);
+  } catch (error) {
+    return error as ProtocolValidationError;
+  }
+  throw new Error('消息应当校验失败');
+}
+
+describe('MessageValidator', () => {
+  test('规则引擎生成的inquire消息通过校验', () => {
+    const message = MessageValidator.validateServerMessage(inquireMessage());
+
+    expect(message.msg_name).toBe('inquire');
+    if (message.msg_name === 'inquire') {
+      expect(message.msg_data.players).toHaveLength(2);
+    }
+  });
+
+  test('字段类型错误时给出消息名称和字段路径', () => {
+    const raw = inquireMessage();
+    raw.msg_data.players[0].roles[1].life = '100';
+    const error = validationError(raw);
+
+    expect(error).toBeInstanceOf(ProtocolValidationError);
+    expect(error.msgName).toBe('inquire');
+    expect(error.path).toBe('msg_data.players[0].roles[1].life');
+    expect(error.message).toBe('inquire消息格式错误：msg_data.players[0].roles[1].life 应为数字');
+  });
+
+  test('缺失必选字段时报告缺失', () => {
+    const raw = inquireMessage();
+    delete raw.msg_data.stronghold;
+
+    expect(validationError(raw).message).toBe('inquire消息格式错误：msg_data.stronghold 缺失');
+  });
+
+  test('行动指令只接受协议中的指令类型', () => {
+    const action = { msg_name: 'action', msg_data: { round: 3, playerId: 1111, actions: [{ roleId: 40, action: 'FLY' }] } };
+
+    expect(validationError(action).path).toBe('msg_data.actions[0].action');
+    expect(() => MessageValidator.validateClientMessage({
+      msg_name: 'action',
+      msg_data: { round: 3, playerId: 1111, actions: [{ roleId: 40, action: 'MOVE', position: { x: 1, y: 2 } }] }
+    })).not.toThrow();
+  });
+
+  test('未知消息和方向不对的消息被拒绝', () => {
+    expect(validationError({ msg_name: 'chat', msg_data: {} }).path).toBe('msg_name');
+    expect(validationError('not json object').path).toBe('message');
+    expect(() => MessageValidator.validateServerMessage({
+      msg_name: 'ready',
+      msg_data: { playerId: 1111, status: 'ready' }
+    })).toThrow(ProtocolValidationError);
+  });
+
+  test('ProtocolManager 收到格式错误的inquire时发出protocolError而不是inquire', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const raw = inquireMessage();
+    raw.msg_data.players[1].roles = null;
+    const body = JSON.stringify(raw);
+    const sockets: Socket[] = [];
+    const server = createServer(socket => {
+      sockets.push(socket);
+      socket.write(Buffer.byteLength(body, 'utf8').toString().padStart(5, '0') + body);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    const protocol = new ProtocolManager();
+    const onInquire = jest.fn();
+    protocol.on('inquire', onInquire);
+    const protocolError = new Promise<ProtocolValidationError>(resolve => protocol.once('protocolError', resolve));
+    await protocol.connect('127.0.0.1', (server.address() as AddressInfo).port, 1111, '红方');
+
+    const error = await protocolError;
+    expect(error.path).toBe('msg_data.players[1].roles');
+    expect(onInquire).not.toHaveBeenCalled();
+
+    const disconnected = new Promise(resolve => protocol.once('disconnected', resolve));
+    protocol.disconnect();
+    await disconnected;
+    sockets.forEach(socket => socket.destroy());
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * 网络客户端发送行动测试
+ */
+import NetworkClient from '../src/network/NetworkClient';
+import ProtocolManager from '../src/network/ProtocolManager';
+
+describe('NetworkClient.sendActions', () => {
+  let sendAction: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    sendAction = jest.spyOn(ProtocolManager.prototype, 'sendAction').mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('队列为空时也发送空的行动消息', async () => {
+    const client = new NetworkClient();
+    client.gameState.currentRound = 5;
+
+    await expect(client.sendActions()).resolves.toBe(true);
+    expect(sendAction).toHaveBeenCalledWith(5, []);
+  });
+
+  test('发送队列中的指令并清空队列', async () => {
+    const client = new NetworkClient();
+    client.gameState.currentRound = 5;
+    client.getActionQueue().add({ action: 'AC' });
+
+    await client.sendActions();
+    expect(sendAction).toHaveBeenCalledWith(5, [{ action: 'AC' }]);
+    expect(client.getActionQueue().size).toBe(0);
+  });
+});
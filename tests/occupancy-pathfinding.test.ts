@@ -0,0 +1,89 @@
+/**
+ * 考虑单位占位的寻路测试
+ * 单位层来自 GameMap.syncGameState，友军/敌军可分别设为阻挡、加代价或忽略
+ */
+import { GameMap } from '../src/context/gameMap';
+import { PathReservations } from '../src/context/PathReservations';
+
+const ME = 1111;
+const ENEMY = 2222;
+
+/**
+ * 5×3 空地：
+ * y=0 . . . . .
+ * y=1 A . X . B
+ * y=2 . . . . .
+ */
+function createMap(units: Array<{ playerId: number; roleId: number; x: number; y: number }>): GameMap {
+  const map = new GameMap(new Array(15).fill(0).join(','), 5, 3);
+  map.syncGameState({
+    round: 2,
+    players: [ME, ENEMY].map(playerId => ({
+      playerId,
+      roles: units.filter(u => u.playerId === playerId)
+        .map(u => ({ roleId: u.roleId, position: { x: u.x, y: u.y }, reviveRound: 0 }))
+    })),
+    cityProps: [],
+    stronghold: null
+  });
+  return map;
+}
+
+describe('单位占位寻路', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('默认忽略单位，阻挡时绕行，终点上的单位不阻挡', () => {
+    const map = createMap([{ playerId: ENEMY, roleId: 40, x: 2, y: 1 }]);
+
+    expect(map.findPath({ x: 0, y: 1 }, { x: 4, y: 1 })).toContainEqual({ x: 2, y: 1 });
+
+    const path = map.findPath({ x: 0, y: 1 }, { x: 4, y: 1 }, { playerId: ME, enemyUnits: 'block' })!;
+    expect(path).toHaveLength(5);
+    expect(path).not.toContainEqual({ x: 2, y: 1 });
+
+    expect(map.findPath({ x: 0, y: 1 }, { x: 2, y: 1 }, { playerId: ME, enemyUnits: 'block' })).toHaveLength(3);
+  });
+
+  test('友军和敌军分别适用各自的策略', () => {
+    const map = createMap([{ playerId: ME, roleId: 41, x: 2, y: 1 }]);
+
+    expect(map.findPath({ x: 0, y: 1 }, { x: 4, y: 1 }, { playerId: ME, enemyUnits: 'block' }))
+      .toContainEqual({ x: 2, y: 1 });
+    expect(map.findPath({ x: 0, y: 1 }, { x: 4, y: 1 }, { playerId: ME, friendlyUnits: 'penalize' }))
+      .not.toContainEqual({ x: 2, y: 1 });
+  });
+
+  test('加代价时只在绕路更便宜时绕开', () => {
+    // 整列被敌军堵住，无法绕开
+    const map = createMap([0, 1, 2].map(y => ({ playerId: ENEMY, roleId: 40 + y, x: 2, y })));
+
+    expect(map.findPath({ x: 0, y: 1 }, { x: 4, y: 1 }, { playerId: ME, enemyUnits: 'block' })).toBeNull();
+    expect(map.findPath({ x: 0, y: 1 }, { x: 4, y: 1 }, { playerId: ME, enemyUnits: 'penalize' })).toHaveLength(5);
+  });
+
+  test('后寻路的英雄避开队友同一回合预约的格子', () => {
+    const map = createMap([]);
+    const reservations = new PathReservations();
+
+    const first = map.findPath({ x: 0, y: 1 }, { x: 2, y: 1 }, { roleId: 41, reservations })!;
+    reservations.reserve(41, first);
+    expect(first[1]).toEqual({ x: 1, y: 1 });
+
+    // 第1步不能再进入 (1,1)，终点 (2,1) 在第2步之后一直被占用
+    const second = map.findPath({ x: 0, y: 0 }, { x: 3, y: 1 }, { roleId: 45, reservations })!;
+    expect(second[1]).not.toEqual({ x: 1, y: 1 });
+    second.slice(2).forEach(p => expect(p).not.toEqual({ x: 2, y: 1 }));
+
+    // 自己的预约不影响自己
+    expect(map.findPath({ x: 0, y: 1 }, { x: 2, y: 1 }, { roleId: 41, reservations })).toEqual(first);
+
+    reservations.clear();
+    expect(reservations.isReserved(1, 1, 1, 45)).toBe(false);
+  });
+});
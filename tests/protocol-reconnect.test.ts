@@ -0,0 +1,151 @@
+/**
+ * 断线重连测试
+ * 使用只处理 registration 的最小服务器，主动断开连接后验证客户端按退避重连并重新注册
+ */
+import { createServer, Server, Socket } from 'net';
+import { AddressInfo } from 'net';
+import ProtocolManager from '../src/network/ProtocolManager';
+import NetworkClient from '../src/network/NetworkClient';
+
+/** 等待事件触发 */
+function waitFor<T = any>(emitter: { once: (event: string, listener: (arg: T) => void) => any }, event: string): Promise<T> {
+  return new Promise(resolve => emitter.once(event, resolve));
+}
+
+/**
+ * 记录收到的 registration，并保留每条连接以便测试主动断开
+ */
+class RegistrationServer {
+  readonly server: Server;
+  readonly registrations: number[] = [];
+  readonly sockets: Socket[] = [];
+
+  constructor() {
+    this.server = createServer(socket => {
+      this.sockets.push(socket);
+      socket.on('data', data => {
+        const body = data.toString('utf8').slice(5);
+        const message = JSON.parse(body);
+        if (message.msg_name === 'registration') {
+          this.registrations.push(message.msg_data.playerId);
+        }
+      });
+      socket.on('error', () => {});
+    });
+  }
+
+  async start(): Promise<number> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  /** 断开最近一条连接 */
+  dropLatest(): void {
+    this.sockets[this.sockets.length - 1].destroy();
+  }
+
+  async stop(): Promise<void> {
+    this.sockets.forEach(socket => socket.destroy());
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+}
+
+describe('断线重连', () => {
+  let server: RegistrationServer;
+  let port: number;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    server = new RegistrationServer();
+    port = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop().catch(() => {});
+    jest.restoreAllMocks();
+  });
+
+  test('重连等待时间按倍数增长且不超过上限', () => {
+    const protocol = new ProtocolManager();
+    protocol.enableReconnect({ initialDelayMs: 100, factor: 2, maxDelayMs: 500 });
+
+    expect([1, 2, 3, 4, 5].map(attempt => protocol.getReconnectDelay(attempt))).toEqual([100, 200, 400, 500, 500]);
+  });
+
+  test('意外断开后用同一playerId重新注册', async () => {
+    const protocol = new ProtocolManager();
+    protocol.enableReconnect({ initialDelayMs: 10 });
+    await protocol.connect('127.0.0.1', port, 1111, '红方');
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    const reconnecting = waitFor<any>(protocol, 'reconnecting');
+    const reconnected = waitFor<any>(protocol, 'reconnected');
+    server.dropLatest();
+
+    expect(await reconnecting).toEqual({ attempt: 1, delayMs: 10 });
+    expect(await reconnected).toEqual({ attempt: 1, delayMs: 10 });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(server.registrations).toEqual([1111, 1111]);
+    expect(protocol.isConnectedToServer()).toBe(true);
+    expect(protocol.isReconnecting()).toBe(false);
+    const disconnected = waitFor(protocol, 'disconnected');
+    protocol.disconnect();
+    await disconnected;
+  });
+
+  test('服务器不可用时达到最大次数后放弃', async () => {
+    const protocol = new ProtocolManager();
+    protocol.enableReconnect({ initialDelayMs: 5, maxAttempts: 3 });
+    protocol.on('error', () => {});
+    await protocol.connect('127.0.0.1', port, 1111, '红方');
+
+    const attempts: number[] = [];
+    protocol.on('reconnecting', info => attempts.push(info.attempt));
+    const failed = waitFor<number>(protocol, 'reconnectFailed');
+    await server.stop();
+
+    expect(await failed).toBe(3);
+    expect(attempts).toEqual([1, 2, 3]);
+    expect(protocol.isReconnecting()).toBe(false);
+  });
+
+  test('主动断开时不重连', async () => {
+    const protocol = new ProtocolManager();
+    protocol.enableReconnect({ initialDelayMs: 5 });
+    await protocol.connect('127.0.0.1', port, 1111, '红方');
+
+    const onReconnecting = jest.fn();
+    protocol.on('reconnecting', onReconnecting);
+    const disconnected = waitFor(protocol, 'disconnected');
+    protocol.disconnect();
+    await disconnected;
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    expect(onReconnecting).not.toHaveBeenCalled();
+  });
+
+  test('NetworkClient 转发重连事件并保留对局状态', async () => {
+    const client = new NetworkClient();
+    client.enableReconnect({ initialDelayMs: 10 });
+    await client.connect('127.0.0.1', port, 1111, '红方');
+    await new Promise(resolve => setTimeout(resolve, 20));
+    client.gameState.gameStarted = true;
+    client.gameState.currentRound = 42;
+
+    const events: string[] = [];
+    ['disconnected', 'reconnecting', 'reconnected'].forEach(event => client.on(event, () => events.push(event)));
+    const reconnected = waitFor(client, 'reconnected');
+    server.dropLatest();
+    await reconnected;
+
+    expect(events).toEqual(['reconnecting', 'disconnected', 'reconnected']);
+    expect(client.isConnected()).toBe(true);
+    expect(client.isGameStarted()).toBe(true);
+    expect(client.gameState.currentRound).toBe(42);
+    const disconnected = waitFor(client, 'disconnected');
+    client.disconnect();
+    await disconnected;
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * 对局录像记录器测试
+ */
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import ReplayRecorder from '../src/network/ReplayRecorder';
+
+describe('ReplayRecorder', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'replay-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function readRecords(file: string) {
+    return readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+  }
+
+  test('每回合写入一行，包含询问、行动、策略和耗时', () => {
+    const file = join(dir, 'nested', 'match.jsonl');
+    const recorder = new ReplayRecorder(file);
+    const inquire = { round: 1, players: [], cityProps: [], stronghold: { camp: 2 } };
+
+    recorder.recordStart(1111, 'Bot', { map: { maxX: 2, maxY: 1, data: '5,5' }, players: [] });
+    recorder.recordInquire(1, inquire);
+    inquire.round = 99;  // 记录的是收到时的数据
+    recorder.recordActions(1, [{ action: 'AC' }], 'CAPTURE_FLAG', { position: { x: 1, y: 1 } });
+    recorder.recordOver({ winner: 1111 });
+
+    const records = readRecords(file);
+    expect(records.map(r => r.type)).toEqual(['start', 'round', 'over']);
+    expect(records[1]).toMatchObject({
+      round: 1,
+      inquire: { round: 1 },
+      actions: [{ action: 'AC' }],
+      strategy: 'CAPTURE_FLAG',
+      strategyData: { position: { x: 1, y: 1 } }
+    });
+    expect(records[1].timing.decisionMs).toBeGreaterThanOrEqual(0);
+    expect(records[2].data).toEqual({ winner: 1111 });
+  });
+
+  test('未发送行动的回合在下一次询问时以空行动写入，过期回合的行动被忽略', () => {
+    const file = join(dir, 'match.jsonl');
+    const recorder = new ReplayRecorder(file);
+
+    recorder.recordInquire(1, { round: 1 });
+    recorder.recordInquire(2, { round: 2 });
+    recorder.recordActions(1, [{ action: 'AC' }]);
+    recorder.recordActions(2, []);
+
+    const records = readRecords(file);
+    expect(records.map(r => [r.round, r.actions])).toEqual([[1, null], [2, []]]);
+    expect(records[0].timing).toMatchObject({ sentAt: null, decisionMs: null });
+  });
+
+  test('被丢弃的行动紧跟在回合记录之后单独写入', () => {
+    const file = join(dir, 'match.jsonl');
+    const recorder = new ReplayRecorder(file);
+
+    recorder.recordInquire(1, { round: 1 });
+    recorder.recordActions(1, [{ action: 'AC' }]);
+    recorder.recordRejected(1, [{ action: { action: 'SP', roleId: 40 }, reason: '传送冷却中' }]);
+    recorder.recordInquire(2, { round: 2 });
+    recorder.recordActions(2, []);
+    recorder.recordRejected(2, []);
+    recorder.recordOver({ winner: 1111 });
+
+    const records = readRecords(file);
+    expect(records.map(r => r.type)).toEqual(['round', 'rejected', 'round', 'over']);
+    expect(records[0].actions).toEqual([{ action: 'AC' }]);
+    expect(records[1]).toEqual({
+      type: 'rejected',
+      round: 1,
+      rejected: [{ action: { action: 'SP', roleId: 40 }, reason: '传送冷却中' }]
+    });
+  });
+});
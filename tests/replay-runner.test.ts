@@ -0,0 +1,68 @@
+/**
+ * 离线回放测试
+ */
+import { ReplayRunner } from '../src/core/ReplayRunner';
+import { GameEngine } from '../src/core/GameEngine';
+import LocalGameServer from '../src/network/LocalGameServer';
+import type { ReplayRecord } from '../src/network/ReplayRecorder';
+
+const PLAYER_ID = 1111;
+
+function createRecords(roundOneActions: any[]): ReplayRecord[] {
+  const map = LocalGameServer.createDefaultMap();
+  const engine = new GameEngine(map, [{ playerId: PLAYER_ID, camp: 0 }, { playerId: 2222, camp: 1 }]);
+  const round1 = engine.getState();
+  const round2 = engine.step(new Map());
+  const timing = { receivedAt: '', sentAt: '', decisionMs: 0 };
+
+  return [
+    {
+      type: 'start',
+      playerId: PLAYER_ID,
+      playerName: 'Bot',
+      timestamp: '',
+      data: { map, players: [{ playerId: PLAYER_ID, camp: 0 }, { playerId: 2222, camp: 1 }] }
+    },
+    { type: 'round', round: 1, inquire: round1, actions: roundOneActions, strategy: null, strategyData: null, timing },
+    { type: 'round', round: 2, inquire: round2, actions: null, strategy: null, strategyData: null, timing },
+    { type: 'over', timestamp: '', data: {} }
+  ];
+}
+
+describe('ReplayRunner', () => {
+  test('diffActions 忽略字段顺序和行动顺序', () => {
+    const recorded = [
+      { action: 'MOVE', roleId: 41, position: { x: 1, y: 2 } },
+      { action: 'AC' },
+      { action: 'AC' }
+    ];
+    const replayed = [
+      { action: 'AC' },
+      { position: { y: 2, x: 1 }, roleId: 41, action: 'MOVE' },
+      { action: 'SG', roleId: 45, position: { x: 3, y: 3 } }
+    ];
+
+    expect(ReplayRunner.diffActions(recorded, replayed)).toEqual({
+      missing: [{ action: 'AC' }],
+      extra: [{ action: 'SG', roleId: 45, position: { x: 3, y: 3 } }]
+    });
+  });
+
+  // 第1回合的敌方阵容为 [赵云, 曹操, 周瑜]，DraftPlanner 选出 [赵云, 孙权, 周瑜]
+  test('第1回合重放选将，与录像一致时不报告差异', () => {
+    const report = ReplayRunner.run(createRecords([{ action: 'PICK', playerId: PLAYER_ID, roles: [41, 45, 47] }]));
+
+    expect(report.playerId).toBe(PLAYER_ID);
+    expect(report.rounds).toBe(2);
+    expect(report.diffs.find(d => d.round === 1)).toBeUndefined();
+  });
+
+  test('行动不一致的回合列出缺失和新增的行动', () => {
+    const report = ReplayRunner.run(createRecords([{ action: 'PICK', playerId: PLAYER_ID, roles: [40, 43, 46] }]));
+    const diff = report.diffs.find(d => d.round === 1)!;
+
+    expect(diff.missing).toEqual([{ action: 'PICK', playerId: PLAYER_ID, roles: [40, 43, 46] }]);
+    expect(diff.extra).toEqual([{ action: 'PICK', playerId: PLAYER_ID, roles: [41, 45, 47] }]);
+    expect(ReplayRunner.formatReport(report)).toContain('第1回合');
+  });
+});
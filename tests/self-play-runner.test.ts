@@ -0,0 +1,50 @@
+/**
+ * 离线自对弈测试
+ */
+import { SelfPlayRunner } from '../src/core/SelfPlayRunner';
+import type { SelfPlayGameResult } from '../src/core/SelfPlayRunner';
+
+const bots: [{ name: string }, { name: string }] = [{ name: 'A' }, { name: 'B' }];
+
+function result(winner: 0 | 1 | null, rounds: number, flagRounds: [number, number]): SelfPlayGameResult {
+  return { game: 0, camps: [0, 1], winner, rounds, flagRounds, errors: [0, 0] };
+}
+
+describe('SelfPlayRunner', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('每场交换阵营打两局，按截止回合结束', () => {
+    const games: SelfPlayGameResult[] = [];
+    const report = SelfPlayRunner.run(bots, { matches: 1, maxRounds: 20, onGameEnd: r => games.push(r) });
+
+    expect(report.games).toBe(2);
+    expect(games.map(g => g.game)).toEqual([1, 2]);
+    expect(games.map(g => g.camps)).toEqual([[0, 1], [1, 0]]);
+    expect(games.every(g => g.rounds === 20)).toBe(true);
+    expect(report.averageRounds).toBe(20);
+    expect(report.bots.map(b => b.errors)).toEqual([0, 0]);
+  });
+
+  test('汇总胜率、平局和平均据点占领回合数', () => {
+    const report = SelfPlayRunner.summarize(bots, [
+      result(0, 1000, [120, 80]),
+      result(1, 400, [10, 60]),
+      result(0, 700, [60, 0]),
+      result(null, 1000, [0, 0])
+    ]);
+
+    expect(report.averageRounds).toBe(775);
+    expect(report.bots[0]).toEqual({
+      name: 'A', wins: 2, losses: 1, draws: 1, winRate: 0.5, averageFlagRounds: 47.5, errors: 0
+    });
+    expect(report.bots[1]).toMatchObject({ wins: 1, losses: 2, draws: 1, winRate: 0.25, averageFlagRounds: 35 });
+    expect(SelfPlayRunner.formatReport(report)).toContain('A：2胜 1负 1平，胜率50.0%');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * 技能注册表测试
+ * 验证技能定义覆盖九名武将，以及目标选择、伤害、状态和附加效果的预测
+ */
+import { SkillRegistry } from '../src/core/SkillRegistry';
+import { GameEngine } from '../src/core/GameEngine';
+import { HeroStatus } from '../src/models/inquireMsg';
+import type { Position, Role } from '../src/models/inquireMsg';
+
+function hero(roleId: number, camp: number, position: Position, overrides: Partial<Role> = {}): Role {
+  return { ...GameEngine.createRole(roleId, camp, position), ...overrides };
+}
+
+describe('SkillRegistry 定义', () => {
+  test('九名武将各有两个技能，ID为英雄ID×100+序号', () => {
+    const skills = SkillRegistry.all();
+    expect(skills).toHaveLength(18);
+    for (let heroId = 40; heroId <= 48; heroId++) {
+      expect(SkillRegistry.getHeroSkills(heroId).map(s => s.skillId)).toEqual([heroId * 100 + 1, heroId * 100 + 2]);
+    }
+    expect(SkillRegistry.get(4701)).toMatchObject({ name: '火攻', cooldown: 50, area: { width: 4, height: 4 } });
+    expect(SkillRegistry.get(4602)?.param).toBe('formType');
+    expect(SkillRegistry.get(4302)?.param).toBe('teleportPosition');
+  });
+});
+
+describe('SkillRegistry.predict', () => {
+  test('沉默、冷却和体力条件阻止释放', () => {
+    const lvbu = hero(40, 0, { x: 5, y: 5 });
+    expect(SkillRegistry.predict(lvbu, 4002, { allies: [lvbu], enemies: [] }).reason).toBe('体力不低于1000');
+
+    lvbu.statuses = { [HeroStatus.Silence]: 2 } as Role['statuses'];
+    expect(SkillRegistry.predict(lvbu, 4001, { allies: [lvbu], enemies: [] }).castable).toBe(false);
+
+    const zhaoyun = hero(41, 0, { x: 5, y: 5 });
+    zhaoyun.skills[0].cdRemainRound = 3;
+    expect(SkillRegistry.checkCaster(zhaoyun, 4101)).toBe('技能冷却中');
+    expect(SkillRegistry.checkCaster(zhaoyun, 4001)).toBe('英雄没有该技能');
+  });
+
+  test('龙胆突刺对低于25%体力的武将直接击杀', () => {
+    const zhaoyun = hero(41, 0, { x: 5, y: 5 });
+    const weak = hero(44, 1, { x: 7, y: 5 }, { life: 300 });
+    const outcome = SkillRegistry.predict(zhaoyun, 4101, { allies: [zhaoyun], enemies: [weak], position: { x: 7, y: 5 } });
+
+    expect(outcome.castable).toBe(true);
+    expect(outcome.hits).toEqual([expect.objectContaining({ target: weak, execute: true, directToHero: true })]);
+  });
+
+  test('冲锋陷阵范围内没有小兵时改为对武将造成1倍伤害', () => {
+    const zhaoyun = hero(41, 0, { x: 5, y: 5 });
+    const enemy = hero(46, 1, { x: 6, y: 6 });
+    const outcome = SkillRegistry.predict(zhaoyun, 4102, { allies: [zhaoyun], enemies: [enemy] });
+
+    expect(outcome.hits.map(h => [h.rawDamage, h.directToHero])).toEqual([[100, true]]);
+  });
+
+  test('火攻只命中4×4区域内的敌方单位，盾兵伤害翻倍', () => {
+    const zhouyu = hero(47, 0, { x: 5, y: 5 });
+    const inside = hero(40, 1, { x: 9, y: 8 });
+    const outside = hero(41, 1, { x: 12, y: 8 });
+    const context = { allies: [zhouyu], enemies: [inside, outside], position: { x: 8, y: 5 } };
+
+    const outcome = SkillRegistry.predict(zhouyu, 4701, context);
+    expect(outcome.hits).toEqual([expect.objectContaining({ target: inside, rawDamage: 125, shieldDamageRatio: 2 })]);
+
+    expect(SkillRegistry.predict(zhouyu, 4701, { ...context, position: { x: 2, y: 2 } }).reason).toBe('区域内没有敌方单位');
+  });
+
+  test('鬼谋沉默范围内武将并持续5回合造成伤害', () => {
+    const simayi = hero(48, 0, { x: 5, y: 5 });
+    const enemy = hero(42, 1, { x: 7, y: 7 });
+    const outcome = SkillRegistry.predict(simayi, 4801, { allies: [simayi], enemies: [enemy] });
+
+    expect(outcome.hits.map(h => h.delay)).toEqual([0, 1, 2, 3, 4]);
+    expect(outcome.hits[0].rawDamage).toBe(75);
+    expect(outcome.statuses).toEqual([{ target: enemy, status: HeroStatus.Silence, duration: 5, delay: 0 }]);
+  });
+
+  test('虎豹骑召令撞到障碍时伤害翻倍', () => {
+    const caocao = hero(44, 0, { x: 5, y: 5 });
+    const enemy = hero(40, 1, { x: 7, y: 5 });
+    const outcome = SkillRegistry.predict(caocao, 4401, {
+      allies: [caocao],
+      enemies: [enemy],
+      position: { x: 7, y: 5 },
+      isPassable: p => p.x < 10
+    });
+
+    expect(outcome.knockback).toEqual({ target: enemy, position: { x: 9, y: 5 }, blocked: true });
+    expect(outcome.hits[0].rawDamage).toBe(180);
+    // 预测不移动目标
+    expect(enemy.position).toEqual({ x: 7, y: 5 });
+  });
+
+  test('斗转星移需要阵型参数，蜀汉旗需要8格内的传送位置', () => {
+    const zhugeliang = hero(46, 0, { x: 5, y: 5 });
+    const liubei = hero(43, 0, { x: 20, y: 20 });
+    const allies = [zhugeliang, liubei];
+
+    expect(SkillRegistry.predict(zhugeliang, 4602, { allies, enemies: [], position: { x: 20, y: 20 } }).reason)
+      .toBe('缺少阵型参数');
+    const form = SkillRegistry.predict(zhugeliang, 4602, { allies, enemies: [], position: { x: 20, y: 20 }, formType: 2 });
+    expect(form.formation).toEqual({ target: liubei, formationType: 2 });
+    expect(form.heals).toEqual([{ target: liubei, ratio: 0.15, includeSoldiers: false }]);
+
+    const tooFar = { allies, enemies: [], position: { x: 5, y: 5 }, teleportPosition: { x: 14, y: 5 } };
+    expect(SkillRegistry.predict(liubei, 4302, tooFar).castable).toBe(false);
+    expect(SkillRegistry.predict(liubei, 4302, { ...tooFar, teleportPosition: { x: 13, y: 5 } }).teleport)
+      .toEqual({ target: zhugeliang, position: { x: 13, y: 5 } });
+  });
+});
@@ -5,8 +5,12 @@
 
 import { TeamBlackboard } from '../src/core/TeamBlackboard';
 import { StrategyAnalysis, StrategyType } from '../src/core/StrategyAnalysis';
+import MessageParser from '../src/network/MessageParser';
+import LocalGameServer from '../src/network/LocalGameServer';
 
 describe('StrategyAnalysis 演示测试', () => {
+  const mapInfo = MessageParser.parseStartMessage({ map: LocalGameServer.createDefaultMap(), players: [] }).map;
+
   test('应该能够分析前期游戏策略 - 优先攻击城寨', () => {
     // 创建前期游戏状态
     const gameState = {
@@ -98,6 +102,7 @@ describe('StrategyAnalysis 演示测试', () => {
     };
 
     const blackboard = new TeamBlackboard(100);
+    blackboard.registerMap(mapInfo);
     const strategy = new StrategyAnalysis(blackboard);
     
     blackboard.updateGameState(gameState, 1111);
@@ -214,6 +219,7 @@ describe('StrategyAnalysis 演示测试', () => {
     };
 
     const blackboard = new TeamBlackboard(200);
+    blackboard.registerMap(mapInfo);
     const strategy = new StrategyAnalysis(blackboard);
     
     blackboard.updateGameState(gameState, 1111);
@@ -321,6 +327,7 @@ describe('StrategyAnalysis 演示测试', () => {
     };
 
     const blackboard = new TeamBlackboard(100);
+    blackboard.registerMap(mapInfo);
     const strategy = new StrategyAnalysis(blackboard);
     
     blackboard.updateGameState(gameState, 1111);
@@ -0,0 +1,100 @@
+/**
+ * 团队角色分配与武将代理同步测试
+ */
+import { assignRoles, DEFAULT_ROLE_ASSIGNMENT } from '../src/core/TeamRoster';
+import { createTeamContext } from '../src/core/index';
+import { GameEngine } from '../src/core/GameEngine';
+import LocalGameServer from '../src/network/LocalGameServer';
+import MessageParser from '../src/network/MessageParser';
+import type { InquireMessageData } from '../src/models/inquireMsg';
+
+const PLAYER_ID = 1111;
+const players = [{ playerId: PLAYER_ID, camp: 0 }, { playerId: 2222, camp: 1 }];
+
+function initialState(roles: number[]): InquireMessageData {
+  return new GameEngine(LocalGameServer.createDefaultMap(), players, [roles, [41, 44, 47]]).getState();
+}
+
+describe('assignRoles', () => {
+  test('默认按猛将、统帅、谋士分配位置，与阵容顺序无关', () => {
+    expect(assignRoles([46, 40, 43])).toEqual({ warrior: 40, support: 43, leader: 46 });
+  });
+
+  test('按分配表的优先级分配，分配表没有覆盖的武将补到空位', () => {
+    const assignment = { ...DEFAULT_ROLE_ASSIGNMENT, support: [46, ...DEFAULT_ROLE_ASSIGNMENT.support] };
+
+    expect(assignRoles([41, 45, 46], assignment)).toEqual({ warrior: 41, support: 46, leader: 45 });
+    expect(assignRoles([41, 46])).toEqual({ warrior: 41, support: null, leader: 46 });
+  });
+});
+
+describe('TeamBlackboard 武将代理', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('收到inquire前没有代理，之后按服务器下发的阵容创建', () => {
+    const { teamBlackboard } = createTeamContext(PLAYER_ID, '0');
+    expect(teamBlackboard.team).toEqual([]);
+
+    teamBlackboard.updateGameState(MessageParser.parseInquireMessage(initialState([42, 44, 48])), PLAYER_ID);
+
+    expect(teamBlackboard.warrior!.id).toBe(42);
+    expect(teamBlackboard.support!.id).toBe(44);
+    expect(teamBlackboard.leader!.id).toBe(48);
+    expect(teamBlackboard.leader!.hero.name).toBe('司马懿');
+    expect(teamBlackboard.team.every(agent => agent.teamId === '0')).toBe(true);
+  });
+
+  test('每回合按服务器数据同步位置、体力和士兵数，代理对象沿用', () => {
+    const { teamBlackboard } = createTeamContext(PLAYER_ID, '0');
+    const state = initialState([41, 45, 46]);
+    teamBlackboard.updateGameState(MessageParser.parseInquireMessage(state), PLAYER_ID);
+    const warrior = teamBlackboard.warrior!;
+
+    const zhaoyun = state.players[0].roles[0];
+    zhaoyun.position = { x: 10, y: 28 };
+    zhaoyun.life = 900;
+    zhaoyun.solderProps = [
+      { roleId: 7, attack: 5, heroId: 41, life: 100 },
+      { roleId: 7, attack: 5, heroId: 41, life: 100 },
+      { roleId: 8, attack: 5, heroId: 41, life: 150 }
+    ];
+    state.round = 2;
+    teamBlackboard.updateGameState(MessageParser.parseInquireMessage(state), PLAYER_ID);
+
+    expect(teamBlackboard.warrior).toBe(warrior);
+    expect(warrior.position).toEqual({ x: 10, y: 28 });
+    expect(warrior.health).toBe(900);
+    expect(warrior.bowmen).toBe(2);
+    expect(warrior.shieldmen).toBe(1);
+    expect(warrior.currentTurn).toBe(2);
+    expect(teamBlackboard.getAgent(41)).toBe(warrior);
+  });
+
+  test('阵容不足三人时空出的位置没有代理', () => {
+    const { teamBlackboard } = createTeamContext(PLAYER_ID, '0');
+    const state = MessageParser.parseInquireMessage(initialState([41, 45, 46]));
+    state.players[0].roles = state.players[0].roles.filter(role => role.roleId !== 45);
+    teamBlackboard.updateGameState(state, PLAYER_ID);
+
+    expect(teamBlackboard.warrior!.id).toBe(41);
+    expect(teamBlackboard.support).toBeUndefined();
+    expect(teamBlackboard.leader!.id).toBe(46);
+    expect(teamBlackboard.team.map(agent => agent.id)).toEqual([41, 46]);
+  });
+
+  test('角色分配可配置', () => {
+    const assignment = { ...DEFAULT_ROLE_ASSIGNMENT, warrior: [46], leader: [41] };
+    const { teamBlackboard } = createTeamContext(PLAYER_ID, '0', assignment);
+    teamBlackboard.updateGameState(MessageParser.parseInquireMessage(initialState([41, 45, 46])), PLAYER_ID);
+
+    expect(teamBlackboard.warrior!.id).toBe(46);
+    expect(teamBlackboard.support!.id).toBe(45);
+    expect(teamBlackboard.leader!.id).toBe(41);
+  });
+});
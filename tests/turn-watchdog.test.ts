@@ -0,0 +1,155 @@
+/**
+ * 回合看门狗测试
+ */
+import { TurnWatchdog } from '../src/core/TurnWatchdog';
+import type { GameSnapshot } from '../src/core/CombatSimulator';
+import { GameEngine } from '../src/core/GameEngine';
+import { TeamBlackboard } from '../src/core/TeamBlackboard';
+import type { ActionContext } from '../src/core/types';
+import type { InquireMessageData } from '../src/models/inquireMsg';
+import ActionQueue from '../src/network/ActionQueue';
+import NetworkClient from '../src/network/NetworkClient';
+import ProtocolManager from '../src/network/ProtocolManager';
+import MessageParser from '../src/network/MessageParser';
+import LocalGameServer from '../src/network/LocalGameServer';
+import { MapRegistry } from '../src/context/MapRegistry';
+
+const RED = 1111;
+const BLUE = 2222;
+const mapInfo = MessageParser.parseStartMessage({ map: LocalGameServer.createDefaultMap(), players: [] }).map;
+
+function role(state: InquireMessageData, playerId: number, roleId: number) {
+  return state.players.find(p => p.playerId === playerId)!.roles.find(r => r.roleId === roleId)!;
+}
+
+/**
+ * 红方吕布在龙旗据点(40,30)，残血的红方英雄43在(10,30)，蓝方英雄都在主基地
+ */
+function createSnapshot(round: number): GameSnapshot {
+  const state = new GameEngine(LocalGameServer.createDefaultMap(), [
+    { playerId: RED, camp: 0 },
+    { playerId: BLUE, camp: 1 }
+  ]).getState();
+  state.round = round;
+  role(state, RED, 40).position = { x: 40, y: 30 };
+  const weak = role(state, RED, 43);
+  weak.position = { x: 10, y: 30 };
+  weak.life = 100;
+  return MessageParser.parseInquireMessage(state) as GameSnapshot;
+}
+
+function createContext(round: number): ActionContext {
+  const teamBlackboard = new TeamBlackboard();
+  teamBlackboard.registerMap(mapInfo);
+  teamBlackboard.updateGameState(createSnapshot(round), RED);
+  return { playerId: RED, agent: null, teamBlackboard, actionQueue: new ActionQueue() };
+}
+
+describe('TurnWatchdog', () => {
+  const gameMap = new MapRegistry().register(mapInfo);
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('守住据点时发送AC，残血英雄向主基地撤退一步', () => {
+    const actions = TurnWatchdog.fallbackFor(createSnapshot(120), RED, gameMap);
+
+    expect(actions).toEqual([
+      { action: 'AC' },
+      { roleId: 43, action: 'MOVE', position: expect.objectContaining({ x: 9 }) }
+    ]);
+  });
+
+  test('据点开放前不发送AC', () => {
+    const actions = TurnWatchdog.fallbackFor(createSnapshot(50), RED, gameMap);
+
+    expect(actions.map(a => a.action)).toEqual(['MOVE']);
+  });
+
+  test('决策抛错且队列为空时写入兜底行动', async () => {
+    const context = createContext(120);
+    const result = await new TurnWatchdog().runTurn(() => {
+      throw new Error('boom');
+    }, context);
+
+    expect(result.error).toBeInstanceOf(Error);
+    expect(result.overrun).toBe(false);
+    expect(context.actionQueue.peek()).toEqual(result.fallback);
+    expect(result.fallback.map(a => a.action)).toEqual(['AC', 'MOVE']);
+  });
+
+  test('生成兜底行动出错时原地不动，照常发送行动消息', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const sendAction = jest.spyOn(ProtocolManager.prototype, 'sendAction').mockResolvedValue(true);
+    jest.spyOn(TurnWatchdog, 'buildFallbackActions').mockImplementation(() => {
+      throw new Error('fallback boom');
+    });
+    const client = new NetworkClient();
+    client.gameState.currentRound = 120;
+    const context = { ...createContext(120), actionQueue: client.getActionQueue() };
+
+    const result = await new TurnWatchdog().runTurn(() => {
+      throw new Error('boom');
+    }, context);
+    await client.sendActions();
+
+    expect(result.fallback).toEqual([]);
+    expect(sendAction).toHaveBeenCalledWith(120, []);
+  });
+
+  test('超出预算但队列已有指令时照常发送，不写入兜底行动', async () => {
+    const context = createContext(120);
+    const ticks = [0, 1500];
+    const watchdog = new TurnWatchdog({ budgetMs: 1000, now: () => ticks.shift() ?? 1500 });
+    const result = await watchdog.runTurn(() => {
+      context.actionQueue.add({ roleId: 40, action: 'AD', position: { x: 41, y: 30 } });
+    }, context);
+
+    expect(result).toMatchObject({ elapsedMs: 1500, overrun: true, error: null, fallback: [] });
+    expect(context.actionQueue.size).toBe(1);
+  });
+
+  test('异步决策在预算用完时放弃等待', async () => {
+    const context = createContext(120);
+    const result = await new TurnWatchdog({ budgetMs: 20 }).runTurn(
+      () => new Promise<void>(resolve => setTimeout(resolve, 200)),
+      context
+    );
+
+    expect(result.overrun).toBe(true);
+    expect(result.fallback.length).toBeGreaterThan(0);
+  });
+
+  test('放弃等待的决策之后写入的指令被丢弃，下一回合照常写入', async () => {
+    const context = createContext(120);
+    let finishLate: () => void = () => {};
+    const late = new Promise<void>(resolve => {
+      finishLate = resolve;
+    });
+
+    const result = await new TurnWatchdog({ budgetMs: 20 }).runTurn(async () => {
+      await late;
+      context.actionQueue.add({ roleId: 40, action: 'AD', position: { x: 41, y: 30 } });
+    }, context);
+    const sent = context.actionQueue.drain();
+    finishLate();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(sent).toEqual(result.fallback);
+    expect(context.actionQueue.size).toBe(0);
+
+    await new TurnWatchdog().runTurn(() => {
+      context.actionQueue.add({ action: 'AC' });
+    }, context);
+    expect(context.actionQueue.peek()).toEqual([{ action: 'AC' }]);
+  });
+
+  test('决策正常完成时不做任何处理', async () => {
+    const context = createContext(120);
+    const result = await new TurnWatchdog().runTurn(() => undefined, context);
+
+    expect(result).toMatchObject({ overrun: false, error: null, fallback: [] });
+    expect(context.actionQueue.size).toBe(0);
+  });
+});